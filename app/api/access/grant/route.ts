@@ -0,0 +1,80 @@
+import { NextRequest, NextResponse } from "next/server";
+import { ethers } from "ethers";
+import { getAccessList, grantAccess, verifySignedRequest } from "@/lib/access";
+import { accessGrantMessage } from "@/lib/walletEncryption";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+export async function POST(request: NextRequest) {
+  try {
+    const { combinedHash, wrap, issuedAt, signature } = await request.json();
+
+    if (
+      !combinedHash ||
+      !wrap?.address ||
+      !wrap?.ephemeralPublicKey ||
+      !wrap?.wrapIv ||
+      !wrap?.wrappedKey
+    ) {
+      return NextResponse.json(
+        { error: "combinedHash and a complete recipient wrap are required" },
+        { status: 400 }
+      );
+    }
+
+    if (!ethers.isAddress(wrap.address)) {
+      return NextResponse.json(
+        { error: "Recipient must be a valid wallet address" },
+        { status: 400 }
+      );
+    }
+
+    const list = getAccessList(combinedHash);
+    if (!list) {
+      return NextResponse.json(
+        { error: "No access list found for this proof" },
+        { status: 404 }
+      );
+    }
+
+    let signer: string;
+    try {
+      signer = verifySignedRequest(
+        accessGrantMessage(combinedHash, wrap.address, Number(issuedAt)),
+        signature
+      );
+    } catch (error: any) {
+      return NextResponse.json(
+        { error: `Invalid signature: ${error.message}` },
+        { status: 401 }
+      );
+    }
+
+    if (signer.toLowerCase() !== list.creator) {
+      return NextResponse.json(
+        { error: "Only the creator can grant access" },
+        { status: 403 }
+      );
+    }
+
+    const updated = grantAccess(combinedHash, {
+      address: wrap.address,
+      ephemeralPublicKey: wrap.ephemeralPublicKey,
+      wrapIv: wrap.wrapIv,
+      wrappedKey: wrap.wrappedKey,
+    });
+    console.log("access granted:", { combinedHash, recipient: wrap.address });
+
+    return NextResponse.json({
+      success: true,
+      recipients: updated.recipients.map((r) => r.address),
+    });
+  } catch (error: any) {
+    console.error("access grant error:", error);
+    return NextResponse.json(
+      { error: error.message || "Failed to grant access" },
+      { status: 500 }
+    );
+  }
+}
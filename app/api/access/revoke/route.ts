@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getAccessList, revokeAccess, verifySignedRequest } from "@/lib/access";
+import { accessRevokeMessage } from "@/lib/walletEncryption";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+export async function POST(request: NextRequest) {
+  try {
+    const { combinedHash, recipient, issuedAt, signature } =
+      await request.json();
+
+    if (!combinedHash || !recipient) {
+      return NextResponse.json(
+        { error: "combinedHash and recipient are required" },
+        { status: 400 }
+      );
+    }
+
+    const list = getAccessList(combinedHash);
+    if (!list) {
+      return NextResponse.json(
+        { error: "No access list found for this proof" },
+        { status: 404 }
+      );
+    }
+
+    let signer: string;
+    try {
+      signer = verifySignedRequest(
+        accessRevokeMessage(combinedHash, recipient, Number(issuedAt)),
+        signature
+      );
+    } catch (error: any) {
+      return NextResponse.json(
+        { error: `Invalid signature: ${error.message}` },
+        { status: 401 }
+      );
+    }
+
+    if (signer.toLowerCase() !== list.creator) {
+      return NextResponse.json(
+        { error: "Only the creator can revoke access" },
+        { status: 403 }
+      );
+    }
+
+    const updated = revokeAccess(combinedHash, recipient);
+    console.log("access revoked:", { combinedHash, recipient });
+
+    // the content key is unchanged and the ciphertext the chain points at
+    // cannot be replaced, so only future hand-outs of the wrap stop
+    return NextResponse.json({
+      success: true,
+      recipients: updated.recipients.map((r) => r.address),
+      warning:
+        "Authentica will no longer give this wallet its copy of the content key, but the key itself is unchanged. A recipient who already decrypted the content, or who was listed when the proof was created (their key is in the public metadata), can still decrypt it.",
+    });
+  } catch (error: any) {
+    console.error("access revoke error:", error);
+    return NextResponse.json(
+      { error: error.message || "Failed to revoke access" },
+      { status: 500 }
+    );
+  }
+}
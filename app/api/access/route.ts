@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getAccessList } from "@/lib/access";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+export async function GET(request: NextRequest) {
+  const combinedHash = request.nextUrl.searchParams.get("combinedHash");
+
+  if (!combinedHash) {
+    return NextResponse.json(
+      { error: "combinedHash parameter is required" },
+      { status: 400 }
+    );
+  }
+
+  const list = getAccessList(combinedHash);
+  if (!list) {
+    return NextResponse.json(
+      { error: "No access list found for this proof" },
+      { status: 404 }
+    );
+  }
+
+  return NextResponse.json({
+    success: true,
+    creator: list.creator,
+    recipients: list.recipients.map((r) => r.address),
+    updatedAt: list.updatedAt,
+  });
+}
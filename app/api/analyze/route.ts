@@ -0,0 +1,57 @@
+/**
+ * API Route: Forensic Analysis
+ * Analyses a single file with no original to compare against: steganalysis,
+ * container anomalies, EXIF/C2PA metadata, Error Level Analysis and a noise
+ * consistency map. `?format=pdf` returns the report as a PDF download.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { detectContainerFormat } from "@/lib/containerScan";
+import { generateForensicReportPdf } from "@/lib/forensicReport";
+import { analyzeFile } from "@/lib/forensics";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+export async function POST(request: NextRequest) {
+  try {
+    const formData = await request.formData();
+    const file = (formData.get("file") || formData.get("image")) as File | null;
+
+    if (!file) {
+      return NextResponse.json(
+        { error: "File is required" },
+        { status: 400 }
+      );
+    }
+
+    const buffer = Buffer.from(await file.arrayBuffer());
+    if (!detectContainerFormat(buffer)) {
+      return NextResponse.json(
+        { error: "Unsupported file format (expected PNG, JPEG, WAV or MP3)" },
+        { status: 400 }
+      );
+    }
+
+    console.log("running forensic analysis:", file.name, buffer.length, "bytes");
+    const report = await analyzeFile(buffer, file.name || null);
+
+    if (request.nextUrl.searchParams.get("format") === "pdf") {
+      const pdf = generateForensicReportPdf(report);
+      return new NextResponse(Buffer.from(pdf), {
+        headers: {
+          "Content-Type": "application/pdf",
+          "Content-Disposition": `attachment; filename="Authentica-Forensic-Report-${report.file.sha256.substring(0, 8)}.pdf"`,
+        },
+      });
+    }
+
+    return NextResponse.json({ success: true, report });
+  } catch (error: any) {
+    console.error("forensic analysis error:", error);
+    return NextResponse.json(
+      { error: error.message || "Failed to analyze file" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,247 +1,88 @@
 /**
  * API Route: Image Comparison / Tamper Detection
  * Compares uploaded image with original to detect tampering
- * Uses CLIP embeddings if Python service is available, otherwise falls back to basic comparison
+ * Uses CLIP embeddings if Python service is available, otherwise decodes both
+ * images and compares SSIM / MS-SSIM / colour histograms (lib/ssim.ts)
+ * When both images decode, also localises changes (lib/tamper.ts), and
+ * recovers crops / rotations / rescales by keypoint matching (lib/geometry.ts)
+ * Audio uploads (WAV, MP3) are aligned by landmark fingerprint instead
+ * (lib/audioFingerprint.ts), and text by MinHash sketches of its
+ * normalized shingles (lib/textFingerprint.ts)
  */
 
 import { NextRequest, NextResponse } from 'next/server';
 import crypto from 'crypto';
 import axios from 'axios';
+import { ContainerScanResult, detectContainerFormat, scanContainer } from '@/lib/containerScan';
+import { tryDecodeAudio } from '@/lib/audio';
+import {
+  AudioFingerprint,
+  AudioMatch,
+  compareAudioFingerprints,
+  computeAudioFingerprint,
+  isAudioFingerprint,
+} from '@/lib/audioFingerprint';
+import {
+  compareTextSignatures,
+  computeTextSignature,
+  isTextSignature,
+  TextMatch,
+  TextSignature,
+} from '@/lib/textFingerprint';
 import { detectSteganography } from '@/lib/steganography';
+import {
+  compareHashes,
+  computePerceptualHashes,
+  hashSimilarity,
+  isPerceptualHash,
+  PerceptualHashes,
+} from '@/lib/perceptualHash';
+import { encodePng, tryDecodeImage } from '@/lib/image';
+import { toGrayscale } from '@/lib/pixels';
+import { ImageSimilarityMetrics } from '@/lib/ssim';
+import { compareWithGeometry, GeometricMatch } from '@/lib/geometry';
+import { cosineSimilarity, getClipEmbedding } from '@/lib/clip';
+import { extractWatermark } from '@/lib/watermark';
+import { resolveWatermark } from '@/lib/watermarkRegistry';
+import { computeTamperMap, renderTamperOverlay, TamperMap } from '@/lib/tamper';
 
 export const runtime = 'nodejs';
 export const dynamic = 'force-dynamic';
 
-function computePerceptualHash(imageBuffer: Buffer): string {
-  const hash = crypto.createHash('sha256').update(imageBuffer).digest('hex');
-  return hash;
-}
-
-function computePerceptualHashSimple(buffer: Buffer): string {
-  const hash = crypto.createHash('sha256').update(buffer).digest('hex');
-  return hash;
-}
-
-function compareHistograms(buffer1: Buffer, buffer2: Buffer): number {
-  try {
-    const header1 = buffer1.slice(0, 100);
-    const header2 = buffer2.slice(0, 100);
-    
-    let matchingBytes = 0;
-    for (let i = 0; i < Math.min(header1.length, header2.length); i++) {
-      if (header1[i] === header2[i]) matchingBytes++;
-    }
-    
-    const headerSimilarity = matchingBytes / Math.min(header1.length, header2.length);
-    
-    const size1 = buffer1.length;
-    const size2 = buffer2.length;
-    const sizeRatio = Math.min(size1, size2) / Math.max(size1, size2);
-    
-    if (sizeRatio > 0.8 && headerSimilarity > 0.5) {
-      return 0.85;
-    }
-    
-    return (headerSimilarity * 0.4) + (sizeRatio * 0.6);
-  } catch (error) {
-    return 0.5;
-  }
-}
-
-async function compareImagesSimple(buffer1: Buffer, buffer2: Buffer): Promise<number> {
-  try {
-    if (buffer1.equals(buffer2)) {
-      console.log('Exact byte match - 100% identical');
-      return 1.0;
-    }
-    
-    const size1 = buffer1.length;
-    const size2 = buffer2.length;
-    const sizeRatio = Math.min(size1, size2) / Math.max(size1, size2);
-    
-    let structureSimilarity = 0;
-    let pixelDataSimilarity = 0;
-    
-    const headerSize = Math.min(500, Math.min(buffer1.length, buffer2.length));
-    const header1 = buffer1.slice(0, headerSize);
-    const header2 = buffer2.slice(0, headerSize);
-    
-    let exactMatches = 0;
-    let nearMatches = 0;
-    for (let i = 0; i < headerSize; i++) {
-      if (header1[i] === header2[i]) {
-        exactMatches++;
-      } else if (Math.abs(header1[i] - header2[i]) <= 2) {
-        nearMatches++;
-      }
-    }
-    
-    structureSimilarity = (exactMatches + nearMatches * 0.5) / headerSize;
-    
-    const samplePoints = [
-      { start: 0.05, end: 0.15 },
-      { start: 0.15, end: 0.25 },
-      { start: 0.30, end: 0.40 },
-      { start: 0.45, end: 0.55 },
-      { start: 0.60, end: 0.70 },
-      { start: 0.75, end: 0.85 },
-      { start: 0.85, end: 0.95 },
-    ];
-    
-    let totalDataSimilarity = 0;
-    for (const point of samplePoints) {
-      const start1 = Math.floor(buffer1.length * point.start);
-      const end1 = Math.floor(buffer1.length * point.end);
-      const start2 = Math.floor(buffer2.length * point.start);
-      const end2 = Math.floor(buffer2.length * point.end);
-      
-      const chunk1 = buffer1.slice(start1, end1);
-      const chunk2 = buffer2.slice(start2, end2);
-      const minChunkSize = Math.min(chunk1.length, chunk2.length);
-      
-      if (minChunkSize > 0) {
-        let exactMatches = 0;
-        let nearMatches = 0;
-        let totalSamples = 0;
-        
-        for (let i = 0; i < minChunkSize; i += 3) {
-          const diff = Math.abs(chunk1[i] - chunk2[i]);
-          totalSamples++;
-          
-          if (diff === 0) {
-            exactMatches++;
-          } else if (diff <= 2) {
-            nearMatches += 0.9;
-          } else if (diff <= 5) {
-            nearMatches += 0.6;
-          } else if (diff <= 15) {
-            nearMatches += 0.3;
-          } else {
-            nearMatches += 0.0;
-          }
-        }
-        
-        const chunkSimilarity = (exactMatches + nearMatches) / totalSamples;
-        totalDataSimilarity += chunkSimilarity;
-      }
-    }
-    pixelDataSimilarity = totalDataSimilarity / samplePoints.length;
-    
-    const histSimilarity = compareHistograms(buffer1, buffer2);
-    
-    let similarity = (
-      structureSimilarity * 0.20 +
-      pixelDataSimilarity * 0.50 +
-      histSimilarity * 0.20 +
-      sizeRatio * 0.10
-    );
-    
-    const isLikelyIdentical = 
-      structureSimilarity > 0.99 && 
-      pixelDataSimilarity > 0.99 && 
-      sizeRatio > 0.99 &&
-      histSimilarity > 0.98;
-    
-    const isNearIdentical = 
-      structureSimilarity > 0.97 && 
-      pixelDataSimilarity > 0.97 && 
-      sizeRatio > 0.98 &&
-      histSimilarity > 0.95;
-    
-    const differenceScore = (
-      (1 - structureSimilarity) * 0.20 +
-      (1 - pixelDataSimilarity) * 0.50 +
-      (1 - histSimilarity) * 0.20 +
-      (1 - sizeRatio) * 0.10
-    );
-    
-    if (isLikelyIdentical) {
-      similarity = Math.max(similarity, 0.99);
-      console.log('Identical image detected - 99-100% match');
-    } else if (isNearIdentical && differenceScore < 0.02) {
-      similarity = Math.min(0.99, Math.max(similarity, 0.97));
-      console.log('Near-identical image detected - 97-99% match');
-    } else {
-      if (differenceScore > 0.01) {
-        const penalty = Math.min(0.10, differenceScore * 5);
-        similarity = Math.max(0.0, similarity - penalty);
-        console.log(`Differences detected (${(differenceScore * 100).toFixed(2)}% diff) - similarity reduced to ${(similarity * 100).toFixed(2)}%`);
-      }
-      
-      if (pixelDataSimilarity < 0.95 && similarity > 0.90) {
-        similarity = Math.min(0.95, similarity * 0.95);
-        console.log('Pixel data differences detected - likely tampered');
-      }
-    }
-    
-    return Math.min(1.0, Math.max(0.0, similarity));
-  } catch (error) {
-    console.error('Simple comparison error:', error);
-    return 0.5;
-  }
-}
-
-function cosineSimilarity(vec1: number[], vec2: number[]): number {
-  if (vec1.length !== vec2.length) return 0;
-  
-  let dotProduct = 0;
-  let norm1 = 0;
-  let norm2 = 0;
-  
-  for (let i = 0; i < vec1.length; i++) {
-    dotProduct += vec1[i] * vec2[i];
-    norm1 += vec1[i] * vec1[i];
-    norm2 += vec2[i] * vec2[i];
-  }
-  
-  if (norm1 === 0 || norm2 === 0) return 0;
-  
-  return dotProduct / (Math.sqrt(norm1) * Math.sqrt(norm2));
-}
-
-async function getCLIPEmbedding(imageBuffer: Buffer, imageUrl?: string): Promise<number[] | null> {
-  const pythonServiceUrl = process.env.CLIP_SERVICE_URL || 'http://localhost:5000';
-  
-  try {
-    const response = await axios.post(
-      `${pythonServiceUrl}/embed`,
-      {
-        image: imageBuffer.toString('base64'),
-        imageUrl: imageUrl,
-      },
-      {
-        headers: { 'Content-Type': 'application/json' },
-        timeout: 10000,
-      }
-    );
-    
-    if (response.data && response.data.embedding) {
-      return response.data.embedding;
-    }
-  } catch (error) {
-    console.log('Python CLIP service not available, using fallback method');
-  }
-  
-  return null;
+// Legacy proofs stored a SHA-256 of the file instead of a perceptual hash;
+// those can only ever match byte-identical uploads.
+function isLegacySha256(hash: string): boolean {
+  return /^[0-9a-f]{64}$/i.test(hash);
 }
 
 export async function POST(request: NextRequest) {
   try {
     const formData = await request.formData();
-    const uploadedImage = formData.get('image') as File;
+    const uploadedImage = (formData.get('image') || formData.get('audio')) as File;
     const originalImageUrl = formData.get('originalImageUrl') as string;
+    // the original as the verifier decrypted it in the browser
+    const originalFile = formData.get('original');
     const originalEmbeddingHash = formData.get('originalEmbeddingHash') as string;
+    const originalFingerprint = formData.get('originalFingerprint') as string;
+    const uploadedText = formData.get('text');
+    const originalTextSignature = formData.get('originalTextSignature') as string;
+
+    // text is sent as a form string or a plain text file
+    if (uploadedText !== null) {
+      const original = await loadOriginal(originalFile, originalImageUrl);
+      return await compareText(uploadedText, original, originalTextSignature);
+    }
 
     if (!uploadedImage) {
       return NextResponse.json(
-        { error: 'No image provided' },
+        { error: 'No image or audio provided' },
         { status: 400 }
       );
     }
 
-    if (!originalImageUrl && !originalEmbeddingHash) {
+    if (!originalFile && !originalImageUrl && !originalEmbeddingHash && !originalFingerprint) {
       return NextResponse.json(
-        { error: 'Original image URL or embedding hash required' },
+        { error: 'Original file, URL, embedding hash or audio fingerprint required' },
         { status: 400 }
       );
     }
@@ -249,6 +90,12 @@ export async function POST(request: NextRequest) {
     const arrayBuffer = await uploadedImage.arrayBuffer();
     const uploadedBuffer = Buffer.from(arrayBuffer);
 
+    const uploadedFormat = detectContainerFormat(uploadedBuffer);
+    if (uploadedFormat === 'wav' || uploadedFormat === 'mp3') {
+      const original = originalFingerprint ? null : await loadOriginal(originalFile, originalImageUrl);
+      return await compareAudio(uploadedBuffer, original, originalFingerprint);
+    }
+
     let steganographyResult = null;
     try {
       console.log('Running steganography detection...');
@@ -262,6 +109,15 @@ export async function POST(request: NextRequest) {
         indicators: stegCheck.indicators,
       });
       
+      // per-channel estimates are kept either way: a low but non-zero rate
+      // is still useful to someone reviewing the image
+      const channels = (stegCheck.channels || []).map((channel) => ({
+        channel: channel.channel,
+        domain: channel.domain,
+        suspicious: channel.suspicious,
+        embeddingRate: Math.round(channel.embeddingRate * 1000) / 1000,
+      }));
+
       if (stegCheck.suspicious) {
         steganographyResult = {
           suspicious: true,
@@ -269,6 +125,8 @@ export async function POST(request: NextRequest) {
           method: stegCheck.method,
           details: stegCheck.details,
           indicators: stegCheck.indicators,
+          embeddingRate: stegCheck.embeddingRate,
+          channels,
         };
         console.warn('STEGANOGRAPHY DETECTED:', stegCheck);
       } else {
@@ -277,84 +135,132 @@ export async function POST(request: NextRequest) {
           suspicious: false,
           confidence: 0,
           method: 'none',
-          details: 'No steganography detected',
+          details: stegCheck.details,
+          embeddingRate: stegCheck.embeddingRate,
+          channels,
         };
       }
     } catch (error) {
       console.error('Steganography detection failed:', error);
+      // the container scan below does not depend on the pixel analysis, so
+      // the section is still built from it
+      steganographyResult = {
+        suspicious: false,
+        confidence: 0,
+        method: 'none',
+        details: 'Pixel steganalysis failed; only the file container was scanned',
+        embeddingRate: null,
+        channels: [],
+      };
     }
 
-    let uploadedEmbedding: number[] | null = null;
-    let originalEmbedding: number[] | null = null;
-
-    uploadedEmbedding = await getCLIPEmbedding(uploadedBuffer);
+    const originalBuffer = await loadOriginal(originalFile, originalImageUrl);
+    const uploadedPixels = tryDecodeImage(uploadedBuffer);
+    // stored originals are encrypted, so a fetched one often does not decode;
+    // the comparison then falls back to the hashes from the metadata
+    const originalPixels = originalBuffer ? tryDecodeImage(originalBuffer) : null;
 
-    if (originalImageUrl) {
-      try {
-        const originalImageResponse = await axios.get(originalImageUrl, {
-          responseType: 'arraybuffer',
-          timeout: 10000,
-        });
-        const originalBuffer = Buffer.from(originalImageResponse.data);
-        originalEmbedding = await getCLIPEmbedding(originalBuffer, originalImageUrl);
-      } catch (error) {
-        console.error('Failed to fetch original image:', error);
-      }
-    }
+    const uploadedEmbedding = await getClipEmbedding(uploadedBuffer);
+    const originalEmbedding = originalBuffer && originalPixels
+      ? await getClipEmbedding(originalBuffer, originalImageUrl || undefined)
+      : null;
 
     let similarity = 0;
     let verdict = 'unknown';
     let method = 'fallback';
+    let metrics: ImageSimilarityMetrics | null = null;
+    let geometry: GeometricMatch | null = null;
+    let aligned = false;
+
+    // reported alongside the steganalysis, never in place of it: the
+    // watermark's spread-spectrum signal does not trip the LSB detectors, so
+    // a suspicious result next to it means something else was embedded
+    const watermark = uploadedPixels ? extractWatermark(uploadedPixels) : null;
+
+    // data hidden in the file container is independent of the pixels
+    const container = scanContainer(uploadedBuffer);
+    if (container.suspicious) {
+      console.warn('Hidden data in file container:', container.details);
+      const pixelResult = steganographyResult?.suspicious ? steganographyResult : null;
+      steganographyResult = {
+        suspicious: true,
+        confidence: pixelResult ? pixelResult.confidence : 0.9,
+        method: pixelResult ? pixelResult.method : 'Container Scan',
+        details: pixelResult
+          ? `${pixelResult.details}; container: ${container.details}`
+          : `Hidden data in file container: ${container.details}`,
+        embeddingRate: steganographyResult?.embeddingRate,
+        channels: steganographyResult?.channels ?? [],
+      };
+    }
+
+    const uploadedHashes = uploadedPixels
+      ? computePerceptualHashes(toGrayscale(uploadedPixels))
+      : null;
+    const perceptualHash: {
+      uploaded: PerceptualHashes | null;
+      distances?: { aHash: number; dHash: number; pHash: number };
+      pHashDistance?: number;
+    } = { uploaded: uploadedHashes };
 
     if (uploadedEmbedding && originalEmbedding) {
       similarity = cosineSimilarity(uploadedEmbedding, originalEmbedding);
       method = 'clip';
+    } else if (originalPixels && uploadedPixels && uploadedHashes) {
+      // decode both and compare pixels, so re-encoding alone does not count
+      // as tampering and byte-preserving edits cannot slip through
+      perceptualHash.distances = compareHashes(
+        uploadedHashes,
+        computePerceptualHashes(toGrayscale(originalPixels))
+      ).distances;
+      // scored on the aligned overlap when the upload is a crop, rotation
+      // or rescale of the original
+      const comparison = compareWithGeometry(originalPixels, uploadedPixels);
+      metrics = comparison.metrics;
+      geometry = comparison.geometry;
+      aligned = comparison.aligned;
+      similarity = metrics.similarity;
+      method = 'ssim';
+    } else if (originalBuffer && uploadedBuffer.equals(originalBuffer)) {
+      similarity = 1.0;
+      method = 'exact';
+    } else if (originalEmbeddingHash && isPerceptualHash(originalEmbeddingHash) && uploadedHashes) {
+      // pHash stored in the generation metadata - works without the original
+      similarity = hashSimilarity(uploadedHashes.pHash, originalEmbeddingHash);
+      perceptualHash.pHashDistance = Math.round((1 - similarity) * 64);
+      method = 'perceptual-hash';
+    } else if (originalEmbeddingHash && isLegacySha256(originalEmbeddingHash)) {
+      const uploadedHash = crypto.createHash('sha256').update(uploadedBuffer).digest('hex');
+      similarity = uploadedHash === originalEmbeddingHash.toLowerCase() ? 1.0 : 0.0;
+      method = 'hash';
     } else {
-      if (originalImageUrl) {
-        try {
-          const originalImageResponse = await axios.get(originalImageUrl, {
-            responseType: 'arraybuffer',
-            timeout: 10000,
-          });
-          const originalBuffer = Buffer.from(originalImageResponse.data);
-          
-          console.log('Comparing images:', {
-            uploadedSize: uploadedBuffer.length,
-            originalSize: originalBuffer.length,
-            exactMatch: uploadedBuffer.equals(originalBuffer),
-            sizeDiff: Math.abs(uploadedBuffer.length - originalBuffer.length),
-          });
-          similarity = await compareImagesSimple(uploadedBuffer, originalBuffer);
-          console.log('Comparison result:', {
-            similarity: (similarity * 100).toFixed(2) + '%',
-            method: 'simple',
-            verdict: similarity >= 0.99 ? 'IDENTICAL' : similarity >= 0.95 ? 'NEAR_IDENTICAL' : similarity >= 0.85 ? 'MINOR_EDITS' : 'TAMPERED',
-          });
-          method = 'simple';
-        } catch (error) {
-          console.error('Image comparison error:', error);
-          const uploadedHash = computePerceptualHash(uploadedBuffer);
-          if (originalEmbeddingHash) {
-            similarity = uploadedHash === originalEmbeddingHash ? 1.0 : 0.0;
-            method = 'hash';
-          } else {
-            similarity = 0.5;
-            method = 'unknown';
-          }
-        }
-      } else if (originalEmbeddingHash) {
-        const uploadedHash = computePerceptualHash(uploadedBuffer);
-        similarity = uploadedHash === originalEmbeddingHash ? 1.0 : 0.0;
-        method = 'hash';
-      } else {
-        similarity = 0.5;
-        method = 'unknown';
+      similarity = 0.5;
+      method = 'unknown';
+    }
+
+    let tamperMap: TamperMap | null = null;
+    let tamperOverlay: string | null = null;
+    if (uploadedPixels && originalPixels) {
+      try {
+        // a crop or rotation is mapped back through the recovered
+        // homography, or the whole frame would read as changed
+        tamperMap = computeTamperMap(
+          originalPixels,
+          uploadedPixels,
+          geometry?.derived ? geometry.homography : null
+        );
+        tamperOverlay = `data:image/png;base64,${encodePng(renderTamperOverlay(tamperMap)).toString('base64')}`;
+      } catch (error) {
+        console.error('Tamper localization failed:', error);
       }
     }
 
-    const threshold = method === 'clip' ? 0.95 : 0.90;
-    const minorThreshold = method === 'clip' ? 0.85 : 0.70;
-    const modifiedThreshold = method === 'clip' ? 0.60 : 0.50;
+    // unrelated images still share about half their hash bits, so the
+    // perceptual-hash bands sit higher; a re-encoded copy keeps SSIM above
+    // ~0.99, while a small local edit already drops it to ~0.95
+    const threshold = method === 'ssim' ? 0.97 : method === 'clip' ? 0.95 : 0.90;
+    const minorThreshold = method === 'clip' || method === 'ssim' ? 0.85 : method === 'perceptual-hash' ? 0.80 : 0.70;
+    const modifiedThreshold = method === 'clip' ? 0.60 : method === 'perceptual-hash' ? 0.65 : method === 'ssim' ? 0.55 : 0.50;
     
     if (similarity >= threshold) {
       verdict = 'authentic';
@@ -366,12 +272,31 @@ export async function POST(request: NextRequest) {
       verdict = 'different';
     }
     
+    // a cropped or rotated copy can match its overlap perfectly, but it is
+    // still a derivative rather than the original
+    if (geometry?.derived && verdict === 'authentic') {
+      verdict = 'minor_edits';
+    }
+
+    // a local recolour barely moves the whole-image scores, but the tamper
+    // map still localises it
+    const tamperedRegions = tamperMap?.regions.length ?? 0;
+    if (tamperedRegions > 0 && verdict === 'authentic') {
+      verdict = 'minor_edits';
+    }
+
     if (method === 'unknown') {
       verdict = 'unknown';
     }
 
     let finalVerdict = verdict;
     let finalMessage = getVerdictMessage(verdict, similarity, method);
+    if (geometry?.derived) {
+      finalMessage = `${finalMessage}. ${describeGeometry(geometry)}`;
+    }
+    if (tamperedRegions > 0) {
+      finalMessage = `${finalMessage}. ${tamperedRegions} changed region${tamperedRegions === 1 ? '' : 's'} localized`;
+    }
     let steganographyWarning = null;
     
     if (steganographyResult?.suspicious) {
@@ -392,14 +317,67 @@ export async function POST(request: NextRequest) {
       verdict: finalVerdict,
       method,
       message: finalMessage,
-      warning: method === 'unknown' || method === 'simple' 
-        ? 'Using basic comparison. Enable CLIP service for better accuracy.' 
+      warning: method === 'unknown'
+        ? 'Using basic comparison. Enable CLIP service for better accuracy.'
         : undefined,
+      metrics: metrics ? {
+        ssim: Math.round(metrics.ssim * 10000) / 10000,
+        msSsim: Math.round(metrics.msSsim * 10000) / 10000,
+        histogramSimilarity: Math.round(metrics.histogramSimilarity * 10000) / 10000,
+        histogramDistance: Math.round(metrics.histogramDistance * 10000) / 10000,
+        colourSimilarity: Math.round(metrics.colourSimilarity * 10000) / 10000,
+      } : null,
+      perceptualHash,
+      geometry: geometry ? {
+        aligned,
+        derived: geometry.derived,
+        matches: geometry.matches,
+        inliers: geometry.inliers,
+        scale: Math.round(geometry.scale * 10000) / 10000,
+        rotation: Math.round(geometry.rotation * 100) / 100,
+        crop: geometry.crop,
+        coverage: Math.round(geometry.coverage * 10000) / 10000,
+        homography: geometry.homography,
+      } : null,
+      watermark: watermark ? {
+        id: watermark.id,
+        confidence: Math.round(watermark.confidence * 100) / 100,
+        proofs: resolveWatermark(watermark.id),
+      } : null,
+      // overlay is in the uploaded image's frame; stretch it over the upload
+      tamper: tamperMap ? {
+        overlay: tamperOverlay,
+        imageWidth: uploadedPixels!.width,
+        imageHeight: uploadedPixels!.height,
+        blockSize: tamperMap.blockSize,
+        changedFraction: Math.round(tamperMap.changedFraction * 10000) / 10000,
+        alignment: {
+          dx: tamperMap.alignment.dx,
+          dy: tamperMap.alignment.dy,
+          scaleX: Math.round(tamperMap.alignment.scaleX * 10000) / 10000,
+          scaleY: Math.round(tamperMap.alignment.scaleY * 10000) / 10000,
+        },
+        regions: tamperMap.regions.map((region) => ({
+          ...region,
+          score: Math.round(region.score * 10000) / 10000,
+          maxScore: Math.round(region.maxScore * 10000) / 10000,
+          area: Math.round(region.area * 10000) / 10000,
+        })),
+      } : null,
       steganography: steganographyResult ? {
         suspicious: steganographyResult.suspicious,
         confidence: Math.round(steganographyResult.confidence * 100),
         method: steganographyResult.method,
         details: steganographyResult.details,
+        embeddingRate: steganographyResult.embeddingRate ?? null,
+        channels: steganographyResult.channels ?? [],
+        container: {
+          format: container.format,
+          suspicious: container.suspicious,
+          hiddenBytes: container.hiddenBytes,
+          details: container.details,
+          findings: container.findings,
+        },
       } : null,
     });
   } catch (error: any) {
@@ -411,6 +389,270 @@ export async function POST(request: NextRequest) {
   }
 }
 
+// the original as sent by the verifier, or fetched from originalImageUrl
+async function loadOriginal(
+  originalFile: FormDataEntryValue | null,
+  originalUrl: string | null
+): Promise<Buffer | null> {
+  if (originalFile && typeof originalFile !== 'string') {
+    return Buffer.from(await originalFile.arrayBuffer());
+  }
+  if (!originalUrl) {
+    return null;
+  }
+  try {
+    const response = await axios.get(originalUrl, {
+      responseType: 'arraybuffer',
+      timeout: 10000,
+    });
+    return Buffer.from(response.data);
+  } catch (error) {
+    console.error('Failed to fetch original:', error);
+    return null;
+  }
+}
+
+/**
+ * Audio counterpart of the image comparison: landmark fingerprints of the
+ * upload and the original (from its metadata, or decoded when the original
+ * file is fetchable) are aligned to find the matched share, the time offset
+ * and any trimmed, removed or inserted segments.
+ */
+async function compareAudio(
+  uploadedBuffer: Buffer,
+  original: Buffer | null,
+  originalFingerprintJson: string | null
+) {
+  const uploadedAudio = await tryDecodeAudio(uploadedBuffer);
+  if (!uploadedAudio) {
+    return NextResponse.json(
+      { error: 'Could not decode the uploaded audio (WAV and MP3 are supported)' },
+      { status: 400 }
+    );
+  }
+  const uploadFingerprint = computeAudioFingerprint(uploadedAudio);
+
+  let originalFingerprint: AudioFingerprint | null = null;
+  if (originalFingerprintJson) {
+    try {
+      const parsed = JSON.parse(originalFingerprintJson);
+      originalFingerprint = isAudioFingerprint(parsed) ? parsed : null;
+    } catch (error) {
+      console.error('Invalid original audio fingerprint:', error);
+    }
+  }
+  if (!originalFingerprint && original) {
+    const originalAudio = await tryDecodeAudio(original);
+    originalFingerprint = originalAudio ? computeAudioFingerprint(originalAudio) : null;
+  }
+  if (!originalFingerprint) {
+    return NextResponse.json(
+      { error: 'No audio fingerprint available for the original' },
+      { status: 400 }
+    );
+  }
+
+  const match = compareAudioFingerprints(originalFingerprint, uploadFingerprint);
+  const container = scanContainer(uploadedBuffer);
+
+  let verdict: string;
+  if (match.matchPercentage < 0.2) {
+    verdict = 'different';
+  } else if (match.edited) {
+    verdict = 'modified';
+  } else if (match.trimmed || match.matchPercentage < 0.9) {
+    verdict = 'minor_edits';
+  } else {
+    verdict = 'authentic';
+  }
+
+  let message = `${getAudioVerdictMessage(verdict, match.matchPercentage)}. ${describeAudioMatch(match)}`;
+  if (container.suspicious) {
+    if (verdict === 'authentic') {
+      verdict = 'suspicious';
+    }
+    message = `HIDDEN DATA DETECTED: ${container.details}. ${message}`;
+  }
+
+  return NextResponse.json({
+    success: true,
+    mediaType: 'audio',
+    similarity: Math.round(match.matchPercentage * 10000) / 100,
+    verdict,
+    method: 'audio-fingerprint',
+    message,
+    audio: {
+      ...match,
+      uploadDuration: uploadFingerprint.duration,
+      originalDuration: originalFingerprint.duration,
+    },
+    steganography: audioSteganography(container),
+  });
+}
+
+/**
+ * Text counterpart: the upload is normalized and sketched the same way as
+ * the original was at generation, and the sketches give how much of the
+ * upload is copied from the original and vice versa, which separates
+ * verbatim copies, excerpts, padded copies and paraphrases.
+ */
+async function compareText(
+  uploadedText: FormDataEntryValue,
+  original: Buffer | null,
+  originalSignatureJson: string | null
+) {
+  const text = typeof uploadedText === 'string' ? uploadedText : await uploadedText.text();
+  if (!text.trim()) {
+    return NextResponse.json(
+      { error: 'No text provided' },
+      { status: 400 }
+    );
+  }
+  const uploadSignature = computeTextSignature(text);
+
+  let originalSignature: TextSignature | null = null;
+  if (originalSignatureJson) {
+    try {
+      const parsed = JSON.parse(originalSignatureJson);
+      originalSignature = isTextSignature(parsed) ? parsed : null;
+    } catch (error) {
+      console.error('Invalid original text signature:', error);
+    }
+  }
+  if (!originalSignature && original) {
+    originalSignature = computeTextSignature(original.toString('utf8'));
+  }
+  if (!originalSignature) {
+    return NextResponse.json(
+      { error: 'No text signature available for the original' },
+      { status: 400 }
+    );
+  }
+
+  const match = compareTextSignatures(originalSignature, uploadSignature);
+  const similarity = match.shingles.uploadInOriginal;
+
+  let verdict: string;
+  if (match.excerpt || match.extended) {
+    verdict = 'minor_edits';
+  } else if (match.shingles.resemblance >= 0.9) {
+    verdict = 'authentic';
+  } else if (similarity >= 0.8) {
+    verdict = 'minor_edits';
+  } else if (match.paraphrased) {
+    verdict = 'modified';
+  } else {
+    verdict = 'different';
+  }
+
+  return NextResponse.json({
+    success: true,
+    mediaType: 'text',
+    similarity: Math.round(similarity * 10000) / 100,
+    verdict,
+    method: 'text-minhash',
+    message: `${getTextVerdictMessage(verdict, match, similarity)}. ${describeTextMatch(match)}`,
+    text: match,
+  });
+}
+
+function getTextVerdictMessage(verdict: string, match: TextMatch, similarity: number): string {
+  const percentage = (similarity * 100).toFixed(1);
+
+  switch (verdict) {
+    case 'authentic':
+      return `Authentic - Original text (${percentage}% match)`;
+    case 'minor_edits':
+      if (match.excerpt) {
+        return `Excerpt - Taken from the original text (${percentage}% match)`;
+      }
+      if (match.extended) {
+        return `Extended copy - Original text with added material (${percentage}% match)`;
+      }
+      return `Minor edits detected - Lightly reworded (${percentage}% match)`;
+    case 'modified':
+      return `Paraphrased - Reworded copy of the original text (${percentage}% match)`;
+    default:
+      return `Different text - Not derived from the original (${percentage}% match)`;
+  }
+}
+
+function describeTextMatch(match: TextMatch): string {
+  const shingles = (match.shingles.uploadInOriginal * 100).toFixed(0);
+  const terms = (match.terms.uploadInOriginal * 100).toFixed(0);
+  const coverage = (match.shingles.originalInUpload * 100).toFixed(0);
+  return `${shingles}% of the upload's phrases and ${terms}% of its vocabulary appear in the original; ` +
+    `the upload covers ${coverage}% of the original (${match.uploadWords} content words, original ${match.originalWords})`;
+}
+
+function getAudioVerdictMessage(verdict: string, matchPercentage: number): string {
+  const percentage = (matchPercentage * 100).toFixed(1);
+
+  switch (verdict) {
+    case 'authentic':
+      return `Authentic - Original track (${percentage}% match)`;
+    case 'minor_edits':
+      return `Minor edits detected - Trimmed or re-encoded (${percentage}% match)`;
+    case 'modified':
+      return `Modified - Segments cut, inserted or rearranged (${percentage}% match)`;
+    default:
+      return `Different track - Not the same audio (${percentage}% match)`;
+  }
+}
+
+function describeAudioMatch(match: AudioMatch): string {
+  const parts: string[] = [];
+  const matched = match.segments.filter((segment) => segment.type === 'match');
+  // with several matched segments the offset differs per segment
+  if (matched.length === 1 && match.offsetSeconds !== null && Math.abs(match.offsetSeconds) >= 0.1) {
+    parts.push(
+      match.offsetSeconds > 0
+        ? `Upload starts ${match.offsetSeconds.toFixed(1)}s into the original`
+        : `Original starts ${(-match.offsetSeconds).toFixed(1)}s into the upload`
+    );
+  }
+  const inserted = match.segments.filter((segment) => segment.type === 'inserted');
+  if (inserted.length > 0) {
+    parts.push(
+      `${inserted.length} inserted segment(s): ${inserted
+        .map((segment) => `${segment.uploadStart.toFixed(1)}-${segment.uploadEnd.toFixed(1)}s`)
+        .join(', ')}`
+    );
+  }
+  if (match.removed.length > 0) {
+    parts.push(
+      `missing from the original: ${match.removed
+        .map((gap) => `${gap.originalStart.toFixed(1)}-${gap.originalEnd.toFixed(1)}s`)
+        .join(', ')}`
+    );
+  }
+  if (parts.length === 0) {
+    return 'Complete and in order';
+  }
+  const description = parts.join('; ');
+  return description.charAt(0).toUpperCase() + description.slice(1);
+}
+
+function audioSteganography(container: ContainerScanResult) {
+  return {
+    suspicious: container.suspicious,
+    confidence: container.suspicious ? 90 : 0,
+    method: container.suspicious ? 'Container Scan' : 'none',
+    details: container.suspicious
+      ? `Hidden data in file container: ${container.details}`
+      : container.details,
+    embeddingRate: null,
+    channels: [],
+    container: {
+      format: container.format,
+      suspicious: container.suspicious,
+      hiddenBytes: container.hiddenBytes,
+      details: container.details,
+      findings: container.findings,
+    },
+  };
+}
+
 function getVerdictMessage(verdict: string, similarity: number, method?: string): string {
   const percentage = (similarity * 100).toFixed(1);
   const methodNote = method === 'unknown' ? ' (Limited accuracy - enable CLIP service for better results)' : '';
@@ -433,3 +675,14 @@ function getVerdictMessage(verdict: string, similarity: number, method?: string)
   }
 }
 
+function describeGeometry(geometry: GeometricMatch): string {
+  const parts: string[] = [];
+  if (geometry.coverage < 0.97) {
+    parts.push(`shows ${(geometry.coverage * 100).toFixed(0)}% of the original`);
+  }
+  if (Math.abs(geometry.rotation) > 1) {
+    parts.push(`rotated ${geometry.rotation.toFixed(1)}°`);
+  }
+  parts.push(`scaled ${geometry.scale.toFixed(2)}x`);
+  return `Compared after alignment: the upload ${parts.join(', ')}.`;
+}
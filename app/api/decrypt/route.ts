@@ -3,17 +3,53 @@ import {
   decryptContent,
   extractEncryptionComponents,
   deriveKeyFromAddress,
+  getPayloadVersion,
+  PAYLOAD_VERSION_LEGACY,
+  PAYLOAD_VERSION_WALLET_WRAPPED,
+  PAYLOAD_VERSION_ENVELOPE,
+  RecipientWrap,
 } from "@/lib/encryption";
-import axios from "axios";
+import { getAccessList } from "@/lib/access";
+import { getProofRecordOnChain, getProvider } from "@/lib/blockchain";
+import {
+  retrieveFromIpfs,
+  retrieveJsonFromIpfs,
+  RetrievalError,
+} from "@/lib/retrieval";
+import { legacyDecryptMessage } from "@/lib/walletEncryption";
 import crypto from "crypto";
+import { ethers } from "ethers";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
 
+// The access store is the live list (grants and revokes); the metadata only
+// holds the recipients chosen at generation time, so it is the fallback.
+async function loadRecipientWraps(
+  combinedHash: string
+): Promise<RecipientWrap[] | null> {
+  const list = getAccessList(combinedHash);
+  if (list) {
+    return list.recipients;
+  }
+
+  try {
+    const record = await getProofRecordOnChain(getProvider(), combinedHash);
+    if (!record.exists || !record.metadataLink) {
+      return null;
+    }
+    const { data: metadata } = await retrieveJsonFromIpfs(record.metadataLink);
+    return metadata?.recipients || null;
+  } catch (error) {
+    console.error("failed to load recipients from metadata:", error);
+    return null;
+  }
+}
+
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
-    const { ipfsCid, userAddress } = body;
+    const { ipfsCid, userAddress, signature, combinedHash } = body;
 
     if (!ipfsCid || !userAddress) {
       return NextResponse.json(
@@ -26,20 +62,88 @@ export async function POST(request: NextRequest) {
 
     console.log("fetching encrypted content from ipfs:", ipfsCid);
 
-    const ipfsUrl = `https://gateway.pinata.cloud/ipfs/${ipfsCid}`;
-    const response = await axios.get(ipfsUrl, {
-      responseType: "arraybuffer",
-      timeout: 30000,
-    });
+    const { content: encryptedPayload, report } = await retrieveFromIpfs(
+      ipfsCid
+    );
+    console.log(
+      "fetched encrypted payload, size:",
+      encryptedPayload.length,
+      "from",
+      report.source
+    );
+
+    const version = getPayloadVersion(encryptedPayload);
+
+    if (version === PAYLOAD_VERSION_WALLET_WRAPPED) {
+      // the content key is wrapped to the wallet, so the server cannot open
+      // it; the browser unwraps it with a key derived from a wallet signature
+      return NextResponse.json({
+        success: true,
+        version,
+        encryptedPayload: encryptedPayload.toString("base64"),
+      });
+    }
+
+    if (version === PAYLOAD_VERSION_ENVELOPE) {
+      if (!combinedHash) {
+        return NextResponse.json(
+          { error: "combinedHash is required for shared content" },
+          { status: 400 }
+        );
+      }
+
+      const recipients = await loadRecipientWraps(combinedHash);
+      const wrap = recipients?.find((r) => r.address === normalizedAddress);
+
+      if (!wrap) {
+        console.error("address is not a recipient:", normalizedAddress);
+        return NextResponse.json({ error: "Access denied" }, { status: 403 });
+      }
+
+      // the wrap is useless without the recipient's wallet-derived key, so
+      // handing it out only tells the browser which copy to unwrap
+      return NextResponse.json({
+        success: true,
+        version,
+        encryptedPayload: encryptedPayload.toString("base64"),
+        wrap,
+      });
+    }
+
+    if (version !== PAYLOAD_VERSION_LEGACY) {
+      return NextResponse.json(
+        { error: `Unsupported payload version: ${version}` },
+        { status: 400 }
+      );
+    }
+
+    if (!signature) {
+      return NextResponse.json(
+        {
+          error: "Legacy payload - wallet signature required",
+          legacy: true,
+          requiresSignature: true,
+        },
+        { status: 401 }
+      );
+    }
 
-    const encryptedPayload = Buffer.from(response.data);
-    console.log("fetched encrypted payload, size:", encryptedPayload.length);
+    let signer: string;
+    try {
+      signer = ethers.verifyMessage(legacyDecryptMessage(ipfsCid), signature);
+    } catch (error) {
+      return NextResponse.json({ error: "Invalid signature" }, { status: 401 });
+    }
+
+    if (signer.toLowerCase() !== normalizedAddress) {
+      console.error("legacy decrypt signature does not match address");
+      return NextResponse.json({ error: "Access denied" }, { status: 403 });
+    }
 
     const { keyHash, iv, tag, encrypted } =
       extractEncryptionComponents(encryptedPayload);
 
-    console.log("attempting decryption for address:", normalizedAddress);
-    console.log("key hash from payload:", keyHash);
+    console.log("attempting legacy decryption for address:", normalizedAddress);
 
     const expectedKey = deriveKeyFromAddress(normalizedAddress);
     const expectedKeyHash = crypto
@@ -49,8 +153,6 @@ export async function POST(request: NextRequest) {
 
     if (keyHash !== expectedKeyHash) {
       console.error("key hash mismatch - wallet address != creator");
-      console.error("expected key hash:", expectedKeyHash);
-      console.error("received key hash:", keyHash);
       return NextResponse.json(
         {
           error: "Access denied",
@@ -59,14 +161,13 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    console.log("key hash verified - wallet address matches creator");
-
     try {
       const decrypted = decryptContent(encrypted, iv, tag, normalizedAddress);
-      console.log("content decrypted successfully - wallet address verified");
+      console.log("legacy content decrypted successfully");
 
       return NextResponse.json({
         success: true,
+        version,
         decryptedContent: decrypted.toString("base64"),
       });
     } catch (decryptError: any) {
@@ -82,7 +183,7 @@ export async function POST(request: NextRequest) {
   } catch (error: any) {
     console.error("decrypt api error:", error);
 
-    if (error.response?.status === 404) {
+    if (error instanceof RetrievalError && error.notFound) {
       return NextResponse.json(
         {
           error: "Content not found on IPFS",
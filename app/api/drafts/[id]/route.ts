@@ -0,0 +1,18 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getDraft, previewDraft } from "@/lib/drafts";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+// the candidates of a draft, with their outputs until one is chosen
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const draft = getDraft(params.id);
+  if (!draft) {
+    return NextResponse.json({ error: "Draft not found" }, { status: 404 });
+  }
+
+  return NextResponse.json({ success: true, draft: previewDraft(draft) });
+}
@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from "next/server";
+import { DraftError, selectDraftCandidate } from "@/lib/drafts";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+// Finalizes the chosen candidate and returns its proof, in the same shape
+// /api/generate returns it. Only that candidate is uploaded and can be
+// registered; the others are discarded.
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    let body;
+    try {
+      body = await request.json();
+    } catch (error) {
+      return NextResponse.json(
+        { error: "Invalid JSON in request body" },
+        { status: 400 }
+      );
+    }
+
+    const index = Number(body?.index);
+    if (!Number.isInteger(index) || index < 0) {
+      return NextResponse.json(
+        { error: "index must be a candidate index" },
+        { status: 400 }
+      );
+    }
+
+    const proof = await selectDraftCandidate(params.id, index, {
+      commitRejected: body?.commitRejected === true,
+    });
+
+    return NextResponse.json({ success: true, proof });
+  } catch (error: any) {
+    if (error instanceof DraftError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.status }
+      );
+    }
+    console.error("draft selection error:", error);
+    return NextResponse.json(
+      { error: error.message || "Failed to finalize candidate" },
+      { status: 500 }
+    );
+  }
+}
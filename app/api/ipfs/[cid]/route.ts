@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from "next/server";
+import { retrieveFromIpfs, RetrievalError } from "@/lib/retrieval";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+// Gateway for whichever storage backend is configured; the local backend's
+// gateway URLs point here. Content is CID-verified before it is served.
+// Anyone can pin anything, so it is always served as a download: an HTML or
+// SVG file rendered from this origin could script the wallet dApp.
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { cid: string } }
+) {
+  try {
+    const { content } = await retrieveFromIpfs(params.cid);
+
+    return new NextResponse(new Uint8Array(content), {
+      headers: {
+        "Content-Type": "application/octet-stream",
+        "Content-Disposition": `attachment; filename="${params.cid}"`,
+        "X-Content-Type-Options": "nosniff",
+        "Content-Length": String(content.length),
+        // content-addressed, so it can never change
+        "Cache-Control": "public, max-age=31536000, immutable",
+      },
+    });
+  } catch (error: any) {
+    if (error instanceof RetrievalError && error.notFound) {
+      return NextResponse.json(
+        { error: "Content not found on IPFS" },
+        { status: 404 }
+      );
+    }
+
+    console.error("ipfs gateway error:", error);
+    return NextResponse.json(
+      { error: error.message || "Failed to fetch content" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,82 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  GenerationJob,
+  getJob,
+  isTerminalStatus,
+  subscribeToJob,
+} from "@/lib/jobs";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+// proxies drop idle connections; a comment line every so often keeps the
+// stream open while a provider is slow
+const HEARTBEAT_MS = 15 * 1000;
+
+// Server-sent events with the job's status: the current state first, then
+// every change until the job completes or fails.
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  if (!getJob(params.id)) {
+    return NextResponse.json({ error: "Job not found" }, { status: 404 });
+  }
+
+  const encoder = new TextEncoder();
+  let cleanup = () => {};
+
+  const stream = new ReadableStream({
+    start(controller) {
+      let closed = false;
+      const close = () => {
+        if (closed) return;
+        closed = true;
+        cleanup();
+        try {
+          controller.close();
+        } catch {
+          // already closed by the client going away
+        }
+      };
+      const send = (job: GenerationJob) => {
+        if (closed) return;
+        controller.enqueue(encoder.encode(`data: ${JSON.stringify(job)}\n\n`));
+        if (isTerminalStatus(job.status)) {
+          close();
+        }
+      };
+
+      const unsubscribe = subscribeToJob(params.id, send);
+      const heartbeat = setInterval(() => {
+        if (!closed) {
+          controller.enqueue(encoder.encode(": keep-alive\n\n"));
+        }
+      }, HEARTBEAT_MS);
+      cleanup = () => {
+        unsubscribe();
+        clearInterval(heartbeat);
+      };
+      request.signal.addEventListener("abort", close);
+
+      // subscribed first, so a change between the read and here is not lost
+      const current = getJob(params.id);
+      if (current) {
+        send(current);
+      } else {
+        close();
+      }
+    },
+    cancel() {
+      cleanup();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+    },
+  });
+}
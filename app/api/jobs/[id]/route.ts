@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getDraft, previewDraft } from "@/lib/drafts";
+import { getJob, getJobResult } from "@/lib/jobs";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+// Job status; a completed job also returns its proof, or its draft of
+// candidates, in the same shape /api/generate returns them.
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const job = getJob(params.id);
+  if (!job) {
+    return NextResponse.json({ error: "Job not found" }, { status: 404 });
+  }
+
+  if (job.status === "completed" && job.draftId) {
+    const draft = getDraft(job.draftId);
+    if (!draft) {
+      return NextResponse.json(
+        { error: "Job result is no longer available" },
+        { status: 410 }
+      );
+    }
+    return NextResponse.json({
+      success: true,
+      job,
+      draftId: draft.id,
+      draft: previewDraft(draft),
+    });
+  }
+
+  if (job.status === "completed") {
+    const proof = getJobResult(job.id);
+    if (!proof) {
+      return NextResponse.json(
+        { error: "Job result is no longer available" },
+        { status: 410 }
+      );
+    }
+    return NextResponse.json({ success: true, job, proof });
+  }
+
+  return NextResponse.json({ success: true, job });
+}
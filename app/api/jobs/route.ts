@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  GenerationRequestError,
+  validateGenerationRequest,
+} from "@/lib/generation";
+import { createJob } from "@/lib/jobs";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+// Queues a generation job. Takes the same body as /api/generate; the
+// signature and nonce are checked here, so a rejected request never
+// becomes a job. Progress is at /api/jobs/:id/events.
+export async function POST(request: NextRequest) {
+  try {
+    let body;
+    try {
+      body = await request.json();
+    } catch (error) {
+      return NextResponse.json(
+        { error: "Invalid JSON in request body" },
+        { status: 400 }
+      );
+    }
+
+    let generationRequest;
+    try {
+      generationRequest = await validateGenerationRequest(body);
+    } catch (error) {
+      if (error instanceof GenerationRequestError) {
+        return NextResponse.json(
+          { error: error.message },
+          { status: error.status }
+        );
+      }
+      throw error;
+    }
+
+    const job = createJob(generationRequest);
+    console.log("queued generation job:", job.id, job.type);
+
+    return NextResponse.json(
+      { success: true, jobId: job.id, job },
+      { status: 202 }
+    );
+  } catch (error: any) {
+    console.error("job creation error:", error);
+    return NextResponse.json(
+      { error: error.message || "Failed to create job" },
+      { status: 500 }
+    );
+  }
+}
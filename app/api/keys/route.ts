@@ -0,0 +1,83 @@
+import { NextRequest, NextResponse } from "next/server";
+import { ethers } from "ethers";
+import {
+  getEncryptionKey,
+  registerEncryptionKey,
+  verifySignedRequest,
+} from "@/lib/access";
+import { encryptionKeyRegistrationMessage } from "@/lib/walletEncryption";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+export async function GET(request: NextRequest) {
+  const address = request.nextUrl.searchParams.get("address");
+
+  if (!address || !ethers.isAddress(address)) {
+    return NextResponse.json(
+      { error: "A valid wallet address is required" },
+      { status: 400 }
+    );
+  }
+
+  const publicKey = getEncryptionKey(address);
+  if (!publicKey) {
+    return NextResponse.json(
+      { error: "No encryption key registered for this address" },
+      { status: 404 }
+    );
+  }
+
+  return NextResponse.json({ success: true, address, publicKey });
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const { address, publicKey, issuedAt, signature } = await request.json();
+
+    if (!address || !ethers.isAddress(address)) {
+      return NextResponse.json(
+        { error: "A valid wallet address is required" },
+        { status: 400 }
+      );
+    }
+
+    if (!publicKey || !/^[0-9a-fA-F]{64}$/.test(publicKey)) {
+      return NextResponse.json(
+        { error: "A 32-byte hex encryption public key is required" },
+        { status: 400 }
+      );
+    }
+
+    let signer: string;
+    try {
+      signer = verifySignedRequest(
+        encryptionKeyRegistrationMessage(publicKey, Number(issuedAt)),
+        signature
+      );
+    } catch (error: any) {
+      return NextResponse.json(
+        { error: `Invalid signature: ${error.message}` },
+        { status: 401 }
+      );
+    }
+
+    if (signer.toLowerCase() !== address.toLowerCase()) {
+      return NextResponse.json(
+        { error: "Signature was not produced by this address" },
+        { status: 401 }
+      );
+    }
+
+    registerEncryptionKey(address, publicKey);
+    console.log("encryption key registered for:", address);
+
+    return NextResponse.json({ success: true, address, publicKey });
+  } catch (error: any) {
+    console.error("key registration error:", error);
+    return NextResponse.json(
+      { error: error.message || "Failed to register encryption key" },
+      { status: 500 }
+    );
+  }
+}
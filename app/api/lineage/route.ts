@@ -0,0 +1,40 @@
+/**
+ * API Route: Lineage
+ * The derivation tree a proof belongs to: its original, and every edit
+ * registered from it, with the signed edit parameters of each
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { getProvider } from "@/lib/blockchain";
+import { getDerivationTree, LineageError } from "@/lib/lineage";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+export async function GET(request: NextRequest) {
+  try {
+    const hash = request.nextUrl.searchParams.get("hash");
+    if (!hash) {
+      return NextResponse.json(
+        { error: "Hash parameter is required" },
+        { status: 400 }
+      );
+    }
+
+    const tree = await getDerivationTree(getProvider(), hash);
+
+    return NextResponse.json({ success: true, combinedHash: hash, ...tree });
+  } catch (error: any) {
+    if (error instanceof LineageError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.status }
+      );
+    }
+    console.error("lineage error:", error);
+    return NextResponse.json(
+      { error: error.message || "Failed to read derivation tree" },
+      { status: 500 }
+    );
+  }
+}
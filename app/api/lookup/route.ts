@@ -0,0 +1,116 @@
+/**
+ * API Route: Reverse Image Lookup
+ * Finds which proofs an image was most likely generated from, using the
+ * perceptual hash index fed by /api/generate (lib/imageIndex.ts) and CLIP
+ * embeddings when the Python service is available
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { getProofRecordOnChain, getProvider } from "@/lib/blockchain";
+import { getClipEmbedding } from "@/lib/clip";
+import { tryDecodeImage } from "@/lib/image";
+import { getImageIndexSize, lookupImage } from "@/lib/imageIndex";
+import { getStorageRecord } from "@/lib/outbox";
+import { computePerceptualHashes } from "@/lib/perceptualHash";
+import { toGrayscale } from "@/lib/pixels";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+const MAX_RESULTS = 50;
+
+// pHash distance bands; re-encodes and resizes stay within a few bits
+function confidenceFor(pHashDistance: number, clipSimilarity: number | null) {
+  if (pHashDistance <= 6 || (clipSimilarity !== null && clipSimilarity >= 0.95)) {
+    return "high";
+  }
+  if (pHashDistance <= 12 || (clipSimilarity !== null && clipSimilarity >= 0.9)) {
+    return "medium";
+  }
+  return "low";
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const formData = await request.formData();
+    const image = formData.get("image") as File | null;
+    const limit = Math.min(
+      MAX_RESULTS,
+      Math.max(1, Number(formData.get("limit")) || 10)
+    );
+    const registeredOnly = formData.get("registeredOnly") === "true";
+
+    if (!image) {
+      return NextResponse.json(
+        { error: "Image file is required" },
+        { status: 400 }
+      );
+    }
+
+    const buffer = Buffer.from(await image.arrayBuffer());
+    const pixels = tryDecodeImage(buffer);
+    if (!pixels) {
+      return NextResponse.json(
+        { error: "Unsupported image format (expected PNG or JPEG)" },
+        { status: 400 }
+      );
+    }
+
+    const hashes = computePerceptualHashes(toGrayscale(pixels));
+    const clipEmbedding = await getClipEmbedding(buffer);
+    const matches = lookupImage(hashes, { clipEmbedding, limit });
+
+    // registration is best effort: without a chain connection the matches
+    // are still useful, just unconfirmed
+    const provider = getProvider();
+    const results = await Promise.all(
+      matches.map(async (match) => {
+        let registered: boolean | null = null;
+        let ipfsLink: string | null = null;
+        let metadataLink: string | null = null;
+        try {
+          const record = await getProofRecordOnChain(provider, match.combinedHash);
+          registered = record.exists;
+          if (record.exists) {
+            ipfsLink = record.ipfsLink;
+            metadataLink = record.metadataLink;
+          }
+        } catch (error) {
+          console.log("could not check registration for", match.combinedHash);
+        }
+
+        const storage = getStorageRecord(match.combinedHash);
+        return {
+          combinedHash: match.combinedHash,
+          creator: match.creator,
+          timestamp: match.timestamp,
+          similarity: Math.round(match.similarity * 10000) / 100,
+          confidence: confidenceFor(match.distances.pHash, match.clipSimilarity),
+          distances: match.distances,
+          clipSimilarity:
+            match.clipSimilarity === null
+              ? null
+              : Math.round(match.clipSimilarity * 10000) / 10000,
+          registered,
+          ipfsLink: ipfsLink || storage?.outputCid || null,
+          metadataLink: metadataLink || storage?.metadataCid || null,
+        };
+      })
+    );
+
+    return NextResponse.json({
+      success: true,
+      query: { perceptualHash: hashes, clip: !!clipEmbedding },
+      indexSize: getImageIndexSize(),
+      matches: registeredOnly
+        ? results.filter((result) => result.registered)
+        : results,
+    });
+  } catch (error: any) {
+    console.error("lookup error:", error);
+    return NextResponse.json(
+      { error: error.message || "Failed to look up image" },
+      { status: 500 }
+    );
+  }
+}
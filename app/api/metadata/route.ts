@@ -1,9 +1,16 @@
 import { NextRequest, NextResponse } from "next/server";
-import { verifyProofOnChain, getProvider } from "@/lib/blockchain";
+import { getProofRecordOnChain, getProvider } from "@/lib/blockchain";
+import {
+  retrieveJsonFromIpfs,
+  RetrievalError,
+  RetrievalReport,
+} from "@/lib/retrieval";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
 
+const VERIFIED_FIELDS = ["combinedHash", "promptHash", "outputHash"] as const;
+
 export async function GET(request: NextRequest) {
   try {
     const searchParams = request.nextUrl.searchParams;
@@ -17,7 +24,7 @@ export async function GET(request: NextRequest) {
     }
 
     const provider = getProvider();
-    const result = await verifyProofOnChain(provider, hash);
+    const result = await getProofRecordOnChain(provider, hash);
 
     if (!result.exists) {
       return NextResponse.json(
@@ -26,32 +33,66 @@ export async function GET(request: NextRequest) {
       );
     }
 
+    const blockchainOnly = {
+      creator: result.creator,
+      timestamp: result.timestamp,
+      ipfsLink: result.ipfsLink,
+      metadataLink: result.metadataLink,
+      promptHash: result.promptHash,
+      outputHash: result.outputHash,
+      combinedHash: result.combinedHash,
+      parentHash: result.parentHash,
+    };
+
+    if (!result.metadataLink) {
+      return NextResponse.json({
+        success: true,
+        metadata: blockchainOnly,
+        message:
+          "No metadata CID registered for this proof. Only blockchain data returned.",
+      });
+    }
+
+    let metadata: any;
+    let retrieval: RetrievalReport;
     try {
-      const metadataUrl = `https://gateway.pinata.cloud/ipfs/${result.ipfsLink.replace(
-        "ipfs://",
-        ""
-      )}/metadata.json`;
-
-      const response = await fetch(metadataUrl);
-      if (response.ok) {
-        const metadata = await response.json();
-        return NextResponse.json({
-          success: true,
-          metadata,
-        });
-      }
+      ({ data: metadata, report: retrieval } = await retrieveJsonFromIpfs(
+        result.metadataLink
+      ));
     } catch (error) {
       console.error("failed to fetch metadata from ipfs:", error);
+      return NextResponse.json({
+        success: true,
+        metadata: blockchainOnly,
+        ...(error instanceof RetrievalError && { retrieval: error.report }),
+        message: "Metadata not fully available. Only blockchain data returned.",
+      });
+    }
+
+    const mismatched = VERIFIED_FIELDS.filter(
+      (field) => metadata?.[field] !== result[field]
+    );
+
+    if (mismatched.length > 0) {
+      console.error("metadata does not match on-chain record:", mismatched);
+      return NextResponse.json({
+        success: true,
+        metadata: blockchainOnly,
+        mismatchedFields: mismatched,
+        retrieval,
+        message:
+          "Metadata on IPFS does not match the on-chain record. Only blockchain data returned.",
+      });
     }
 
     return NextResponse.json({
       success: true,
       metadata: {
-        creator: result.creator,
-        timestamp: result.timestamp,
-        ipfsLink: result.ipfsLink,
+        ...metadata,
+        metadataLink: result.metadataLink,
       },
-      message: "Metadata not fully available. Only blockchain data returned.",
+      verified: true,
+      retrieval,
     });
   } catch (error: any) {
     console.error("metadata fetch error:", error);
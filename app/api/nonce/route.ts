@@ -0,0 +1,25 @@
+import { NextRequest, NextResponse } from "next/server";
+import { ethers } from "ethers";
+import { issueNonce } from "@/lib/nonces";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+export async function GET(request: NextRequest) {
+  const address = request.nextUrl.searchParams.get("address");
+
+  if (!address || !ethers.isAddress(address)) {
+    return NextResponse.json(
+      { error: "A valid wallet address is required" },
+      { status: 400 }
+    );
+  }
+
+  const { nonce, expiresAt } = issueNonce(address);
+
+  return NextResponse.json({
+    success: true,
+    nonce,
+    expiresAt,
+  });
+}
@@ -0,0 +1,105 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getAccessList } from "@/lib/access";
+import { getRelayer, registerSignedProofOnChain } from "@/lib/blockchain";
+import { recoverProofRegistrationSigner } from "@/lib/signature";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+export async function GET() {
+  return NextResponse.json({ success: true, enabled: !!getRelayer() });
+}
+
+// registers a proof the creator signed, with the server's wallet paying gas
+export async function POST(request: NextRequest) {
+  try {
+    const relayer = getRelayer();
+    if (!relayer) {
+      return NextResponse.json(
+        { error: "Relaying is not enabled on this server" },
+        { status: 503 }
+      );
+    }
+
+    const {
+      combinedHash,
+      outputHash,
+      promptHash,
+      ipfsLink,
+      metadataLink,
+      parentHash,
+      timestamp,
+      nonce,
+      signature,
+    } = await request.json();
+
+    if (
+      !combinedHash ||
+      !outputHash ||
+      !promptHash ||
+      !ipfsLink ||
+      !metadataLink ||
+      !timestamp ||
+      !nonce ||
+      !signature
+    ) {
+      return NextResponse.json(
+        { error: "A complete signed proof registration is required" },
+        { status: 400 }
+      );
+    }
+
+    // only proofs generated here are relayed, and only for their creator
+    const list = getAccessList(combinedHash);
+    if (!list) {
+      return NextResponse.json(
+        { error: "This proof was not generated on this server" },
+        { status: 404 }
+      );
+    }
+
+    const registration = {
+      combinedHash,
+      outputHash,
+      promptHash,
+      ipfsLink,
+      metadataLink,
+      parentHash: parentHash || "",
+      timestamp: Number(timestamp),
+      nonce,
+    };
+
+    // the contract recovers the same signer, but a registration signed over
+    // other fields would recover some other address and still go through
+    let creator: string;
+    try {
+      creator = recoverProofRegistrationSigner(registration, signature);
+    } catch (error: any) {
+      return NextResponse.json(
+        { error: `Invalid signature: ${error.message}` },
+        { status: 401 }
+      );
+    }
+
+    if (creator.toLowerCase() !== list.creator) {
+      return NextResponse.json(
+        { error: "The registration is not signed by the proof's creator" },
+        { status: 403 }
+      );
+    }
+
+    const txHash = await registerSignedProofOnChain(relayer, {
+      ...registration,
+      signature,
+    });
+    console.log("proof relayed:", { combinedHash, creator, txHash });
+
+    return NextResponse.json({ success: true, txHash, creator });
+  } catch (error: any) {
+    console.error("relay error:", error);
+    return NextResponse.json(
+      { error: error.message || "Failed to relay proof" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,140 @@
+/**
+ * API Route: Reproduce
+ * Re-runs a registered image's recorded generation parameters and reports
+ * whether the result matches the registered output. Only the creator or a
+ * recipient may ask: a re-run spends the server's provider credentials and
+ * returns the image before watermarking and encryption.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { getAccessList, verifySignedRequest } from "@/lib/access";
+import { getProofRecordOnChain, getProvider } from "@/lib/blockchain";
+import { retrieveJsonFromIpfs, RetrievalError } from "@/lib/retrieval";
+import { ReproductionError, reproduceImage } from "@/lib/reproduce";
+import { reproduceRequestMessage } from "@/lib/walletEncryption";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+const VERIFIED_FIELDS = ["combinedHash", "promptHash", "outputHash"] as const;
+
+export async function POST(request: NextRequest) {
+  try {
+    let body;
+    try {
+      body = await request.json();
+    } catch (error) {
+      return NextResponse.json(
+        { error: "Invalid JSON in request body" },
+        { status: 400 }
+      );
+    }
+
+    const { combinedHash, issuedAt, signature } = body || {};
+    if (!combinedHash || typeof combinedHash !== "string") {
+      return NextResponse.json(
+        { error: "combinedHash is required" },
+        { status: 400 }
+      );
+    }
+    if (!signature) {
+      return NextResponse.json(
+        { error: "A signed reproduction request is required" },
+        { status: 401 }
+      );
+    }
+
+    const list = getAccessList(combinedHash);
+    if (!list) {
+      return NextResponse.json(
+        { error: "This proof was not generated on this server" },
+        { status: 404 }
+      );
+    }
+
+    let signer: string;
+    try {
+      signer = verifySignedRequest(
+        reproduceRequestMessage(combinedHash, Number(issuedAt)),
+        signature
+      ).toLowerCase();
+    } catch (error: any) {
+      return NextResponse.json(
+        { error: `Invalid signature: ${error.message}` },
+        { status: 401 }
+      );
+    }
+
+    if (
+      signer !== list.creator &&
+      !list.recipients.some((r) => r.address === signer)
+    ) {
+      return NextResponse.json(
+        { error: "Only the creator or a recipient can reproduce this image" },
+        { status: 403 }
+      );
+    }
+
+    const record = await getProofRecordOnChain(getProvider(), combinedHash);
+    if (!record.exists) {
+      return NextResponse.json(
+        { error: "Proof not found on blockchain" },
+        { status: 404 }
+      );
+    }
+    if (!record.metadataLink) {
+      return NextResponse.json(
+        { error: "No metadata CID registered for this proof" },
+        { status: 422 }
+      );
+    }
+
+    let metadata: any;
+    try {
+      ({ data: metadata } = await retrieveJsonFromIpfs(record.metadataLink));
+    } catch (error) {
+      console.error("failed to fetch metadata for reproduction:", error);
+      return NextResponse.json(
+        {
+          error: "Metadata is not available from IPFS",
+          ...(error instanceof RetrievalError && { retrieval: error.report }),
+        },
+        { status: 502 }
+      );
+    }
+
+    // only the on-chain record says what was registered
+    const mismatched = VERIFIED_FIELDS.filter(
+      (field) => metadata?.[field] !== record[field]
+    );
+    if (mismatched.length > 0) {
+      return NextResponse.json(
+        {
+          error: "Metadata on IPFS does not match the on-chain record",
+          mismatchedFields: mismatched,
+        },
+        { status: 409 }
+      );
+    }
+
+    const report = await reproduceImage(metadata);
+
+    return NextResponse.json({
+      success: true,
+      combinedHash,
+      ...report,
+    });
+  } catch (error: any) {
+    if (error instanceof ReproductionError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.status }
+      );
+    }
+    console.error("reproduction error:", error);
+    return NextResponse.json(
+      { error: error.message || "Failed to reproduce image" },
+      { status: 500 }
+    );
+  }
+}
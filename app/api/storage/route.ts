@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getStorageRecord, startOutboxWorker } from "@/lib/outbox";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+export async function GET(request: NextRequest) {
+  const combinedHash = request.nextUrl.searchParams.get("combinedHash");
+
+  if (!combinedHash) {
+    return NextResponse.json(
+      { error: "combinedHash parameter is required" },
+      { status: 400 }
+    );
+  }
+
+  const record = getStorageRecord(combinedHash);
+  if (!record) {
+    return NextResponse.json(
+      { error: "No upload found for this proof" },
+      { status: 404 }
+    );
+  }
+
+  if (record.status === "pending") {
+    // the worker does not survive a server restart; polling revives it
+    startOutboxWorker();
+  }
+
+  return NextResponse.json({
+    success: true,
+    storageStatus: record.status,
+    outputCid: record.outputCid,
+    metadataCid: record.metadataCid,
+    attempts: record.attempts,
+    nextAttemptAt: record.nextAttemptAt,
+    lastError: record.lastError,
+  });
+}
@@ -1,6 +1,11 @@
 import { NextRequest, NextResponse } from "next/server";
-import { verifyProofOnChain, getProvider } from "@/lib/blockchain";
+import {
+  verifyProofOnChain,
+  verifyOutputHashOnChain,
+  getProvider,
+} from "@/lib/blockchain";
 import { hashBuffer } from "@/lib/crypto";
+import { checkRetrieval } from "@/lib/retrieval";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
@@ -20,21 +25,42 @@ export async function POST(request: NextRequest) {
 
     if (combinedHash) {
       const result = await verifyProofOnChain(provider, combinedHash);
+      if (!result.exists) {
+        return NextResponse.json({
+          success: true,
+          verified: false,
+          proof: result,
+        });
+      }
+
+      // a proof is only as good as the content it points at, so report
+      // whether both CIDs can still be fetched and match
+      const [content, metadata] = await Promise.all([
+        checkRetrieval(result.ipfsLink),
+        result.metadataLink ? checkRetrieval(result.metadataLink) : null,
+      ]);
+
       return NextResponse.json({
         success: true,
-        verified: result.exists,
+        verified: true,
         proof: result,
+        storage: { content, metadata },
       });
     }
 
     if (file) {
       const fileBuffer = Buffer.from(file, "base64");
       const outputHash = hashBuffer(fileBuffer);
+      const proofs = await verifyOutputHashOnChain(provider, outputHash);
 
       return NextResponse.json({
         success: true,
+        verified: proofs.length > 0,
         outputHash,
-        message: "Upload file with combined hash for full verification",
+        proofs,
+        ...(proofs.length === 0 && {
+          message: "No registered proof matches this file",
+        }),
       });
     }
 
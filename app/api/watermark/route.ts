@@ -0,0 +1,115 @@
+/**
+ * API Route: Watermark Extraction
+ * Recovers the invisible watermark embedded by /api/generate and resolves
+ * its ID to the registered proof on chain
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { getProofRecordOnChain, getProvider } from "@/lib/blockchain";
+import { deriveWatermarkId } from "@/lib/crypto";
+import { tryDecodeImage } from "@/lib/image";
+import { retrieveJsonFromIpfs } from "@/lib/retrieval";
+import { extractWatermark } from "@/lib/watermark";
+import { resolveWatermark } from "@/lib/watermarkRegistry";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+/**
+ * A candidate proof is confirmed when it is registered and its metadata
+ * derives the same watermark ID from the on-chain prompt hash and creator.
+ */
+async function confirmCandidate(id: string, combinedHash: string) {
+  const record = await getProofRecordOnChain(getProvider(), combinedHash);
+  if (!record.exists) {
+    return { combinedHash, registered: false, verified: false };
+  }
+
+  let verified = false;
+  try {
+    const { data: metadata } = await retrieveJsonFromIpfs(record.metadataLink);
+    verified =
+      !!metadata?.watermark?.sourceOutputHash &&
+      deriveWatermarkId(
+        record.promptHash,
+        metadata.watermark.sourceOutputHash,
+        record.creator,
+        Number(metadata.timestamp)
+      ) === id;
+  } catch (error: any) {
+    console.log("could not check watermark metadata:", error.message);
+  }
+
+  return {
+    combinedHash,
+    registered: true,
+    verified,
+    creator: record.creator,
+    timestamp: record.timestamp,
+    ipfsLink: record.ipfsLink,
+    metadataLink: record.metadataLink,
+  };
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const formData = await request.formData();
+    const image = formData.get("image") as File | null;
+
+    if (!image) {
+      return NextResponse.json(
+        { error: "Image file is required" },
+        { status: 400 }
+      );
+    }
+
+    const pixels = tryDecodeImage(Buffer.from(await image.arrayBuffer()));
+    if (!pixels) {
+      return NextResponse.json(
+        { error: "Unsupported image format (expected PNG or JPEG)" },
+        { status: 400 }
+      );
+    }
+
+    const extraction = extractWatermark(pixels);
+    if (!extraction) {
+      return NextResponse.json({
+        success: true,
+        found: false,
+        message: "No Authentica watermark found in this image",
+      });
+    }
+
+    const proofs = await Promise.all(
+      resolveWatermark(extraction.id).map(async (combinedHash) => {
+        try {
+          return await confirmCandidate(extraction.id, combinedHash);
+        } catch (error: any) {
+          console.error("watermark proof lookup failed:", error.message);
+          return { combinedHash, registered: null, verified: false };
+        }
+      })
+    );
+
+    return NextResponse.json({
+      success: true,
+      found: true,
+      watermark: {
+        id: extraction.id,
+        confidence: Math.round(extraction.confidence * 100) / 100,
+        crop: extraction.crop,
+      },
+      proofs,
+      message:
+        proofs.length === 0
+          ? "Watermark found, but its ID is not in this server's registry"
+          : undefined,
+    });
+  } catch (error: any) {
+    console.error("watermark extraction error:", error);
+    return NextResponse.json(
+      { error: error.message || "Failed to extract watermark" },
+      { status: 500 }
+    );
+  }
+}
@@ -15,6 +15,81 @@ import { QRCodeSVG } from "qrcode.react";
 import CameraCapture from "@/components/CameraCapture";
 import TransparencyCard from "@/components/TransparencyCard";
 import { generatePDFCertificate } from "@/lib/certificate";
+import {
+  getProofDomain,
+  hashBytesForSigning,
+  hashPromptForSigning,
+  PROOF_REGISTRATION_TYPES,
+  PROOF_REQUEST_TYPES,
+  ProofRegistration,
+} from "@/lib/signature";
+import {
+  decryptFromIpfs,
+  ensureEncryptionKeyRegistered,
+} from "@/lib/walletEncryption";
+import {
+  EditMode,
+  EditParams,
+  GenerationParamName,
+  GenerationParams,
+  parseEditParams,
+  parseGenerationParams,
+  serializePromptCommitment,
+  UPSCALE_FACTORS,
+} from "@/lib/generationParams";
+
+interface ImageProviderOption {
+  name: string;
+  label: string;
+  defaultModel: string;
+  models: string[];
+  parameters: Record<string, GenerationParamName[]>;
+  edits: Record<string, EditMode[]>;
+  configured: boolean;
+}
+
+const PARAMETER_FIELDS: {
+  name: GenerationParamName;
+  label: string;
+  placeholder: string;
+  numeric?: boolean;
+}[] = [
+  { name: "seed", label: "Seed", placeholder: "random", numeric: true },
+  { name: "steps", label: "Steps", placeholder: "30", numeric: true },
+  { name: "cfgScale", label: "CFG Scale", placeholder: "7", numeric: true },
+  { name: "sampler", label: "Sampler", placeholder: "provider default" },
+  { name: "width", label: "Width", placeholder: "1024", numeric: true },
+  { name: "height", label: "Height", placeholder: "1024", numeric: true },
+  { name: "stylePreset", label: "Style Preset", placeholder: "none" },
+];
+
+const EDIT_MODE_LABELS: Record<EditMode, string> = {
+  img2img: "Image-to-image",
+  inpaint: "Inpainting",
+  upscale: "Upscaling",
+};
+
+const readFileAsBase64 = (file: File) =>
+  new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onloadend = () =>
+      resolve((reader.result as string).split(",")[1] || "");
+    reader.onerror = reject;
+    reader.readAsDataURL(file);
+  });
+
+// how long generation waits for a pending upload before handing the retry
+// to the user
+const STORAGE_WAIT_MS = 30 * 1000;
+
+// button labels for job stages after generation itself
+const JOB_STATUS_LABELS: Record<string, string> = {
+  queued: "Queued...",
+  hashing: "Hashing Output...",
+  encrypting: "Encrypting...",
+  uploading: "Uploading to IPFS...",
+  completed: "Registering Proof...",
+};
 
 export default function CreatePage() {
   const { address, isConnected } = useAccount();
@@ -28,9 +103,12 @@ export default function CreatePage() {
   }, []);
   const [prompt, setPrompt] = useState("");
   const [loading, setLoading] = useState(false);
-  const [contentType, setContentType] = useState<"image" | "music">("image");
+  const [contentType, setContentType] = useState<"image" | "music" | "text">(
+    "image"
+  );
   const [generatedImage, setGeneratedImage] = useState<string | null>(null);
   const [generatedAudio, setGeneratedAudio] = useState<string | null>(null);
+  const [generatedText, setGeneratedText] = useState<string | null>(null);
   const [proof, setProof] = useState<any>(null);
   const [certificate, setCertificate] = useState<any>(null);
   const [faceHash, setFaceHash] = useState<string | null>(null);
@@ -38,6 +116,452 @@ export default function CreatePage() {
   const [transparencyData, setTransparencyData] = useState<any>(null);
   const [decrypting, setDecrypting] = useState(false);
   const [decryptedContent, setDecryptedContent] = useState<string | null>(null);
+  const [shareWith, setShareWith] = useState("");
+  const [retryingRegistration, setRetryingRegistration] = useState(false);
+  const [imageProviders, setImageProviders] = useState<ImageProviderOption[]>(
+    []
+  );
+  const [imageProvider, setImageProvider] = useState("");
+  const [imageModel, setImageModel] = useState("");
+  const [imageParams, setImageParams] = useState<Record<string, string>>({});
+  const [jobStatus, setJobStatus] = useState<string | null>(null);
+  const [candidateCount, setCandidateCount] = useState(1);
+  const [draft, setDraft] = useState<any>(null);
+  const [commitRejected, setCommitRejected] = useState(false);
+  const [editMode, setEditMode] = useState<EditMode | "">("");
+  const [parentHash, setParentHash] = useState("");
+  const [parentImage, setParentImage] = useState<string | null>(null);
+  const [maskImage, setMaskImage] = useState<string | null>(null);
+  const [editStrength, setEditStrength] = useState("");
+  const [editScale, setEditScale] = useState(UPSCALE_FACTORS[0]);
+  const [relayerEnabled, setRelayerEnabled] = useState(false);
+  const [useRelayer, setUseRelayer] = useState(false);
+
+  useEffect(() => {
+    fetch("/api/generate")
+      .then((response) => response.json())
+      .then((data) => {
+        const configured = (data.providers || []).filter(
+          (provider: ImageProviderOption) => provider.configured
+        );
+        setImageProviders(configured);
+        const initial =
+          configured.find(
+            (provider: ImageProviderOption) =>
+              provider.name === data.defaultProvider
+          ) || configured[0];
+        if (initial) {
+          setImageProvider(initial.name);
+          setImageModel(initial.defaultModel);
+        }
+      })
+      .catch((error) => console.error("failed to load image providers:", error));
+
+    fetch("/api/relay")
+      .then((response) => response.json())
+      .then((data) => {
+        setRelayerEnabled(!!data.enabled);
+        setUseRelayer(!!data.enabled);
+      })
+      .catch((error) => console.error("failed to check relayer:", error));
+  }, []);
+
+  const selectedProvider = imageProviders.find(
+    (provider) => provider.name === imageProvider
+  );
+  // models outside the list take what the provider's default model takes
+  const modelParams: GenerationParamName[] = selectedProvider
+    ? selectedProvider.parameters[imageModel] ||
+      selectedProvider.parameters[selectedProvider.defaultModel] ||
+      []
+    : [];
+  const supportedEdits: EditMode[] = selectedProvider
+    ? selectedProvider.edits?.[imageModel] ||
+      selectedProvider.edits?.[selectedProvider.defaultModel] ||
+      []
+    : [];
+  // an edit keeps the parent's size, and upscaling takes no parameters
+  const supportedParams: GenerationParamName[] = !editMode
+    ? modelParams
+    : editMode === "upscale"
+    ? []
+    : modelParams.filter((name) => name !== "width" && name !== "height");
+
+  // the creator signs everything the contract will store, and the server's
+  // relayer wallet sends the transaction
+  const relayRegistration = async (
+    registration: ProofRegistration
+  ): Promise<string> => {
+    if (!walletClient || !address) {
+      throw new Error("wallet not connected");
+    }
+    const domain = getProofDomain();
+    const signature = await walletClient.signTypedData({
+      account: address,
+      domain: {
+        ...domain,
+        verifyingContract: domain.verifyingContract as `0x${string}`,
+      },
+      types: PROOF_REGISTRATION_TYPES,
+      primaryType: "ProofRegistration",
+      message: {
+        ...registration,
+        timestamp: BigInt(registration.timestamp),
+      },
+    });
+
+    const response = await fetch("/api/relay", {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({ ...registration, signature }),
+    });
+    const data = await response.json();
+    if (!data.success) {
+      throw new Error(data.error || "Failed to relay proof");
+    }
+    return data.txHash;
+  };
+
+  const registerOnChain = async (proofData: any): Promise<string | null> => {
+    let txHash: string | null = null;
+
+    // delay for wallet to load
+    await new Promise((resolve) => setTimeout(resolve, 500));
+
+    // check env variables
+    const contractAddress = process.env.NEXT_PUBLIC_CONTRACT_ADDRESS;
+    console.log("transaction debug:", {
+      walletClient: !!walletClient,
+      walletClientType: walletClient ? typeof walletClient : "null",
+      isConnected,
+      address,
+      chainId,
+      contractAddress: contractAddress || "not set",
+      contractAddressLength: contractAddress?.length || 0,
+      rpcUrl: process.env.NEXT_PUBLIC_RPC_URL ? "set" : "not set",
+    });
+
+    if (!contractAddress || contractAddress === "") {
+      alert("contract address not set");
+      throw new Error("contract address not set");
+    }
+
+    if (!isConnected || !address) {
+      console.error("wallet not connected");
+      alert("wallet not connected");
+    } else if (!walletClient) {
+      console.error("wallet client not available");
+      console.error(
+        "this might be a timing issue. try waiting a moment and generating again."
+      );
+      alert("wallet client not available");
+    } else {
+      try {
+        if (chainId !== 11155111) {
+          if (switchNetwork) {
+            try {
+              console.log("attempting to switch to sepolia network...");
+              switchNetwork(11155111);
+              await new Promise((resolve) => setTimeout(resolve, 2000));
+              if (chainId !== 11155111) {
+                throw new Error(
+                  "network switch failed. please switch to sepolia testnet manually in metamask."
+                );
+              }
+            } catch (switchError: any) {
+              throw new Error(
+                `failed to switch to sepolia network. please switch manually in metamask:\n\n1. open metamask\n2. click network dropdown\n3. select "sepolia"\n4. try again`
+              );
+            }
+          } else {
+            throw new Error(
+              `wrong network! please switch to sepolia testnet (chain id: 11155111). current network chain id: ${chainId}. open metamask and switch to sepolia testnet.`
+            );
+          }
+        }
+
+        const provider = new BrowserProvider(walletClient as any);
+        const signer = await provider.getSigner(address);
+
+        const network = await provider.getNetwork();
+        console.log(
+          "connected to network:",
+          network.name,
+          "chain id:",
+          network.chainId.toString()
+        );
+
+        if (network.chainId !== 11155111n) {
+          throw new Error(
+            `network mismatch! wallet is on chain id ${network.chainId}, but contract is on sepolia (11155111). please switch to sepolia testnet in metamask and try again.`
+          );
+        }
+
+        console.log("starting blockchain registration...");
+        console.log(
+          "contract address:",
+          process.env.NEXT_PUBLIC_CONTRACT_ADDRESS || "not set"
+        );
+        console.log(
+          "rpc url:",
+          process.env.NEXT_PUBLIC_RPC_URL ? "set" : "not set"
+        );
+
+        // timestamp and nonce are those of the signed generation request
+        const registration: ProofRegistration = {
+          combinedHash: proofData.combinedHash,
+          outputHash: proofData.outputHash,
+          promptHash: proofData.promptHash,
+          ipfsLink: proofData.outputCid,
+          metadataLink: proofData.metadataCid,
+          parentHash: proofData.parentHash || "",
+          timestamp: proofData.timestamp,
+          nonce: proofData.nonce,
+        };
+        txHash =
+          relayerEnabled && useRelayer
+            ? await relayRegistration(registration)
+            : await registerProofOnChain(signer, registration);
+
+        console.log("transaction successful! hash:", txHash);
+      } catch (error: any) {
+        console.error("blockchain registration error:", error);
+        console.error("error details:", {
+          message: error.message,
+          code: error.code,
+          data: error.data,
+          chainId,
+          contractAddress:
+            process.env.NEXT_PUBLIC_CONTRACT_ADDRESS || "not set",
+          rpcUrl: process.env.NEXT_PUBLIC_RPC_URL || "not set",
+        });
+
+        // Show err msg
+        let errorMessage = "Failed to register proof on blockchain. ";
+
+        if (error.message?.includes("contract address not set")) {
+          errorMessage += "Please set contract address.";
+        } else if (
+          error.message?.includes("network") ||
+          error.message?.includes("chain id")
+        ) {
+          errorMessage =
+            error.message || "Please switch to sepolia testnet in metamask.";
+        } else if (error.message?.includes("No contract found")) {
+          errorMessage +=
+            "contract not deployed. please deploy the contract first.";
+        } else if (
+          error.code === "ACTION_REJECTED" ||
+          error.message?.includes("rejected")
+        ) {
+          errorMessage = "transaction was rejected. please try again.";
+        } else {
+          errorMessage += error.message || "Unknown error occurred.";
+        }
+
+        alert(errorMessage);
+        console.warn("Blockchain registration failed:", error.message);
+      }
+    }
+
+    return txHash;
+  };
+
+  // Uploads that failed during generation are retried by the server's
+  // outbox; registration waits until real CIDs exist.
+  const waitForStorage = async (proofData: any, timeoutMs: number) => {
+    const deadline = Date.now() + timeoutMs;
+
+    while (true) {
+      const response = await fetch(
+        `/api/storage?combinedHash=${encodeURIComponent(
+          proofData.combinedHash
+        )}`
+      );
+      const status = await response.json();
+      if (status.success && status.storageStatus === "stored") {
+        return {
+          ...proofData,
+          outputCid: status.outputCid,
+          metadataCid: status.metadataCid,
+          storageStatus: "stored",
+        };
+      }
+      if (Date.now() >= deadline) {
+        return { ...proofData, storageError: status.lastError };
+      }
+      await new Promise((resolve) => setTimeout(resolve, 5000));
+    }
+  };
+
+  // Generation runs as a server-side job; progress arrives over SSE and the
+  // proof, or the draft of candidates, is fetched once the job has completed.
+  const waitForJob = (jobId: string) =>
+    new Promise<any>((resolve, reject) => {
+      const events = new EventSource(`/api/jobs/${jobId}/events`);
+
+      events.onmessage = async (event) => {
+        const job = JSON.parse(event.data);
+        setJobStatus(job.status);
+        if (job.status === "failed") {
+          events.close();
+          reject(new Error(job.error || "Generation failed"));
+        } else if (job.status === "completed") {
+          events.close();
+          try {
+            const response = await fetch(`/api/jobs/${jobId}`);
+            const data = await response.json();
+            if (!data.success || !(data.proof || data.draft)) {
+              throw new Error(data.error || "Generation result is unavailable");
+            }
+            resolve(data);
+          } catch (error) {
+            reject(error);
+          }
+        }
+      };
+
+      // EventSource reconnects on its own; only give up once it stops trying
+      events.onerror = () => {
+        if (events.readyState === EventSource.CLOSED) {
+          reject(new Error("Lost connection to the generation job"));
+        }
+      };
+    });
+
+  const handleRetryRegistration = async () => {
+    if (!certificate) {
+      return;
+    }
+
+    setRetryingRegistration(true);
+    try {
+      const storedProof = await waitForStorage(certificate, 0);
+      if (storedProof.storageStatus !== "stored") {
+        alert(
+          `Upload is still pending${
+            storedProof.storageError ? `: ${storedProof.storageError}` : ""
+          }. Please try again in a minute.`
+        );
+        return;
+      }
+
+      const txHash = await registerOnChain({
+        ...storedProof,
+        timestamp: certificate.signedTimestamp,
+      });
+      setCertificate({
+        ...certificate,
+        ipfsLink: storedProof.outputCid,
+        metadataCid: storedProof.metadataCid,
+        storageStatus: "stored",
+        txHash: txHash || "not-registered",
+      });
+    } catch (error: any) {
+      console.error("registration retry error:", error);
+      alert("failed to register: " + error.message);
+    } finally {
+      setRetryingRegistration(false);
+    }
+  };
+
+  // shows the proof's output, waits for its upload and registers it
+  const completeGeneration = async (proofData: any) => {
+    // Set generated content based on type
+    if (contentType === "image") {
+      setGeneratedImage(`data:image/png;base64,${proofData.outputBuffer}`);
+    } else if (contentType === "music") {
+      // BeatOven returns MP3, dummy audio returns WAV
+      const audioType =
+        proofData.transparency?.provider === "beatoven"
+          ? "audio/mpeg"
+          : "audio/wav";
+      setGeneratedAudio(`data:${audioType};base64,${proofData.outputBuffer}`);
+    } else if (contentType === "text") {
+      const bytes = Uint8Array.from(atob(proofData.outputBuffer), (char) =>
+        char.charCodeAt(0)
+      );
+      setGeneratedText(new TextDecoder().decode(bytes));
+    }
+
+    setProof(proofData);
+    setTransparencyData(proofData.transparency || null);
+
+    let storedProof = proofData;
+    if (storedProof.storageStatus === "pending") {
+      console.log("upload pending, waiting for the storage outbox...");
+      storedProof = await waitForStorage(storedProof, STORAGE_WAIT_MS);
+    }
+
+    let txHash: string | null = null;
+    if (storedProof.storageStatus === "stored") {
+      txHash = await registerOnChain(storedProof);
+    } else {
+      alert(
+        "Your artwork was generated, but uploading it to IPFS is still pending. It will be registered on chain once the upload succeeds - use \"Retry Registration\" below."
+      );
+    }
+
+    // Log final status
+    if (!txHash) {
+      console.warn("transaction hash is null - transaction was not sent");
+    }
+
+    const cert = {
+      creator: address,
+      prompt,
+      promptHash: proofData.promptHash,
+      outputHash: proofData.outputHash,
+      combinedHash: proofData.combinedHash,
+      timestamp: new Date(proofData.timestamp).toISOString(),
+      ipfsLink: storedProof.outputCid,
+      metadataCid: storedProof.metadataCid,
+      storageStatus: storedProof.storageStatus,
+      txHash: txHash || "not-registered",
+      verificationUrl: `${window.location.origin}/verify?hash=${proofData.combinedHash}`,
+      faceHash: proofData.faceHash || null,
+      faceVerified: !!proofData.faceHash,
+      transparency: proofData.transparency || null,
+      encrypted: true,
+      type: contentType,
+      signature: proofData.signature,
+      // needed to register the proof if that has to be retried
+      signedTimestamp: proofData.timestamp,
+      nonce: proofData.nonce,
+      parentHash: proofData.parentHash || null,
+    };
+
+    setCertificate(cert);
+
+    // reset decrypted content when new certificate is created
+    setDecryptedContent(null);
+  };
+
+  const handleSelectCandidate = async (index: number) => {
+    if (!draft) return;
+
+    setLoading(true);
+    try {
+      const response = await fetch(`/api/drafts/${draft.id}/select`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ index, commitRejected }),
+      });
+      const data = await response.json();
+      if (!data.success) {
+        throw new Error(data.error || "Failed to finalize candidate");
+      }
+      setDraft(null);
+      await completeGeneration(data.proof);
+    } catch (error: any) {
+      console.error("candidate selection error:", error);
+      alert("failed to finalize candidate: " + error.message);
+    } finally {
+      setLoading(false);
+    }
+  };
 
   const handleGenerate = async () => {
     if (!prompt.trim() || !isConnected || !address) {
@@ -48,11 +572,89 @@ export default function CreatePage() {
     setLoading(true);
     setGeneratedImage(null);
     setGeneratedAudio(null);
+    setGeneratedText(null);
     setProof(null);
     setCertificate(null);
+    setDraft(null);
 
     try {
-      const response = await fetch("/api/generate", {
+      if (!walletClient) {
+        throw new Error("wallet client not available for signing");
+      }
+
+      const signMessage = (message: string) =>
+        walletClient.signMessage({ account: address, message });
+      await ensureEncryptionKeyRegistered(address, signMessage);
+
+      const nonceResponse = await fetch(
+        `/api/nonce?address=${encodeURIComponent(address)}`
+      );
+      const nonceData = await nonceResponse.json();
+      if (!nonceData.success) {
+        throw new Error(nonceData.error || "Failed to get signing nonce");
+      }
+
+      let params: GenerationParams = {};
+      if (contentType === "image") {
+        const values: Record<string, string> = {};
+        for (const name of supportedParams) {
+          if (imageParams[name]?.trim()) {
+            values[name] = imageParams[name];
+          }
+        }
+        // a seed chosen here is signed with the prompt; one left to the
+        // provider would only appear in the transparency record
+        if (supportedParams.includes("seed") && !values.seed) {
+          values.seed = String(
+            1 + Math.floor(Math.random() * 4294967294)
+          );
+        }
+        params = parseGenerationParams(values);
+      }
+
+      // the parent and the edit settings are signed with the prompt
+      let edit: EditParams | null = null;
+      if (contentType === "image" && editMode) {
+        if (!parentImage) {
+          throw new Error("choose the parent image to edit");
+        }
+        if (editMode === "inpaint" && !maskImage) {
+          throw new Error("choose a mask for inpainting");
+        }
+        edit = parseEditParams({
+          mode: editMode,
+          parentHash,
+          ...(editMode === "img2img" && { strength: editStrength }),
+          ...(editMode === "upscale" && { scale: editScale }),
+          ...(editMode === "inpaint" &&
+            maskImage && {
+              maskHash: hashBytesForSigning(
+                Uint8Array.from(atob(maskImage), (char) => char.charCodeAt(0))
+              ),
+            }),
+        });
+      }
+
+      const signedTimestamp = Date.now();
+      const domain = getProofDomain();
+      const signature = await walletClient.signTypedData({
+        account: address,
+        domain: {
+          ...domain,
+          verifyingContract: domain.verifyingContract as `0x${string}`,
+        },
+        types: PROOF_REQUEST_TYPES,
+        primaryType: "ProofRequest",
+        message: {
+          promptHash: hashPromptForSigning(
+            serializePromptCommitment(prompt, params, edit)
+          ),
+          timestamp: BigInt(signedTimestamp),
+          nonce: nonceData.nonce,
+        },
+      });
+
+      const response = await fetch("/api/jobs", {
         method: "POST",
         headers: {
           "Content-Type": "application/json",
@@ -61,8 +663,28 @@ export default function CreatePage() {
           prompt,
           userAddress: address,
           type: contentType,
+          ...(contentType === "image" &&
+            imageProvider && {
+              provider: imageProvider,
+              model: imageModel || undefined,
+              params,
+              ...(candidateCount > 1 &&
+                edit?.mode !== "upscale" && { candidates: candidateCount }),
+              ...(edit && {
+                edit,
+                parentImage,
+                ...(edit.mode === "inpaint" && { mask: maskImage }),
+              }),
+            }),
           faceHash: faceHash || undefined,
           faceTimestamp: faceTimestamp || undefined,
+          timestamp: signedTimestamp,
+          nonce: nonceData.nonce,
+          signature,
+          recipients: shareWith
+            .split(/[\s,]+/)
+            .map((recipient) => recipient.trim())
+            .filter(Boolean),
         }),
       });
 
@@ -77,193 +699,27 @@ export default function CreatePage() {
         );
       }
 
-      const data = await response.json();
-
-      if (!data.success) {
-        throw new Error(data.error || "Generation failed");
-      }
+      const job = await response.json();
 
-      // Set generated content based on type
-      if (contentType === "image") {
-        setGeneratedImage(`data:image/png;base64,${data.proof.outputBuffer}`);
-      } else if (contentType === "music") {
-        // BeatOven returns MP3, dummy audio returns WAV
-        const audioType =
-          data.proof.transparency?.provider === "beatoven"
-            ? "audio/mpeg"
-            : "audio/wav";
-        setGeneratedAudio(
-          `data:${audioType};base64,${data.proof.outputBuffer}`
-        );
+      if (!job.success) {
+        throw new Error(job.error || "Generation failed");
       }
 
-      setProof(data.proof);
-      setTransparencyData(data.proof.transparency || null);
-
-      let txHash: string | null = null;
-
-      // delay for wallet to load
-      await new Promise((resolve) => setTimeout(resolve, 500));
-
-      // check env variables
-      const contractAddress = process.env.NEXT_PUBLIC_CONTRACT_ADDRESS;
-      console.log("transaction debug:", {
-        walletClient: !!walletClient,
-        walletClientType: walletClient ? typeof walletClient : "null",
-        isConnected,
-        address,
-        chainId,
-        contractAddress: contractAddress || "not set",
-        contractAddressLength: contractAddress?.length || 0,
-        rpcUrl: process.env.NEXT_PUBLIC_RPC_URL ? "set" : "not set",
-      });
+      setJobStatus(job.job.status);
+      const data = await waitForJob(job.jobId);
 
-      if (!contractAddress || contractAddress === "") {
-        alert("contract address not set");
-        throw new Error("contract address not set");
+      if (data.draft) {
+        // candidates wait unregistered until one is chosen
+        setDraft(data.draft);
+        return;
       }
-
-      if (!isConnected || !address) {
-        console.error("wallet not connected");
-        alert("wallet not connected");
-      } else if (!walletClient) {
-        console.error("wallet client not available");
-        console.error(
-          "this might be a timing issue. try waiting a moment and generating again."
-        );
-        alert("wallet client not available");
-      } else {
-        try {
-          if (chainId !== 11155111) {
-            if (switchNetwork) {
-              try {
-                console.log("attempting to switch to sepolia network...");
-                switchNetwork(11155111);
-                await new Promise((resolve) => setTimeout(resolve, 2000));
-                if (chainId !== 11155111) {
-                  throw new Error(
-                    "network switch failed. please switch to sepolia testnet manually in metamask."
-                  );
-                }
-              } catch (switchError: any) {
-                throw new Error(
-                  `failed to switch to sepolia network. please switch manually in metamask:\n\n1. open metamask\n2. click network dropdown\n3. select "sepolia"\n4. try again`
-                );
-              }
-            } else {
-              throw new Error(
-                `wrong network! please switch to sepolia testnet (chain id: 11155111). current network chain id: ${chainId}. open metamask and switch to sepolia testnet.`
-              );
-            }
-          }
-
-          const provider = new BrowserProvider(walletClient as any);
-          const signer = await provider.getSigner(address);
-
-          const network = await provider.getNetwork();
-          console.log(
-            "connected to network:",
-            network.name,
-            "chain id:",
-            network.chainId.toString()
-          );
-
-          if (network.chainId !== 11155111n) {
-            throw new Error(
-              `network mismatch! wallet is on chain id ${network.chainId}, but contract is on sepolia (11155111). please switch to sepolia testnet in metamask and try again.`
-            );
-          }
-
-          console.log("starting blockchain registration...");
-          console.log(
-            "contract address:",
-            process.env.NEXT_PUBLIC_CONTRACT_ADDRESS || "not set"
-          );
-          console.log(
-            "rpc url:",
-            process.env.NEXT_PUBLIC_RPC_URL ? "set" : "not set"
-          );
-
-          txHash = await registerProofOnChain(signer, {
-            promptHash: data.proof.promptHash,
-            outputHash: data.proof.outputHash,
-            combinedHash: data.proof.combinedHash,
-            ipfsLink: data.proof.outputCid,
-          });
-
-          console.log("transaction successful! hash:", txHash);
-        } catch (error: any) {
-          console.error("blockchain registration error:", error);
-          console.error("error details:", {
-            message: error.message,
-            code: error.code,
-            data: error.data,
-            chainId,
-            contractAddress:
-              process.env.NEXT_PUBLIC_CONTRACT_ADDRESS || "not set",
-            rpcUrl: process.env.NEXT_PUBLIC_RPC_URL || "not set",
-          });
-
-          // Show err msg
-          let errorMessage = "Failed to register proof on blockchain. ";
-
-          if (error.message?.includes("contract address not set")) {
-            errorMessage += "Please set contract address.";
-          } else if (
-            error.message?.includes("network") ||
-            error.message?.includes("chain id")
-          ) {
-            errorMessage =
-              error.message || "Please switch to sepolia testnet in metamask.";
-          } else if (error.message?.includes("No contract found")) {
-            errorMessage +=
-              "contract not deployed. please deploy the contract first.";
-          } else if (
-            error.code === "ACTION_REJECTED" ||
-            error.message?.includes("rejected")
-          ) {
-            errorMessage = "transaction was rejected. please try again.";
-          } else {
-            errorMessage += error.message || "Unknown error occurred.";
-          }
-
-          alert(errorMessage);
-          console.warn("Blockchain registration failed:", error.message);
-        }
-      }
-
-      // Log final status
-      if (!txHash) {
-        console.warn("transaction hash is null - transaction was not sent");
-      }
-
-      const cert = {
-        creator: address,
-        prompt,
-        promptHash: data.proof.promptHash,
-        outputHash: data.proof.outputHash,
-        combinedHash: data.proof.combinedHash,
-        timestamp: new Date(data.proof.timestamp).toISOString(),
-        ipfsLink: data.proof.outputCid,
-        metadataCid: data.proof.metadataCid,
-        txHash: txHash || "not-registered",
-        verificationUrl: `${window.location.origin}/verify?hash=${data.proof.combinedHash}`,
-        faceHash: data.proof.faceHash || null,
-        faceVerified: !!data.proof.faceHash,
-        transparency: data.proof.transparency || null,
-        encrypted: true,
-        type: contentType,
-      };
-
-      setCertificate(cert);
-
-      // reset decrypted content when new certificate is created
-      setDecryptedContent(null);
+      await completeGeneration(data.proof);
     } catch (error: any) {
       console.error("generation error:", error);
       alert("failed to generate: " + error.message);
     } finally {
       setLoading(false);
+      setJobStatus(null);
     }
   };
 
@@ -301,8 +757,10 @@ export default function CreatePage() {
                         setContentType("image");
                         setGeneratedImage(null);
                         setGeneratedAudio(null);
+                        setGeneratedText(null);
                         setProof(null);
                         setCertificate(null);
+                        setDraft(null);
                       }}
                       className={`px-6 py-3 rounded-lg font-medium transition-all ${
                         contentType === "image"
@@ -318,8 +776,10 @@ export default function CreatePage() {
                         setContentType("music");
                         setGeneratedImage(null);
                         setGeneratedAudio(null);
+                        setGeneratedText(null);
                         setProof(null);
                         setCertificate(null);
+                        setDraft(null);
                       }}
                       className={`px-6 py-3 rounded-lg font-medium transition-all ${
                         contentType === "music"
@@ -329,9 +789,278 @@ export default function CreatePage() {
                     >
                       Music
                     </button> */}
+                    <button
+                      type="button"
+                      onClick={() => {
+                        setContentType("text");
+                        setGeneratedImage(null);
+                        setGeneratedAudio(null);
+                        setGeneratedText(null);
+                        setProof(null);
+                        setCertificate(null);
+                        setDraft(null);
+                      }}
+                      className={`px-6 py-3 rounded-lg font-medium transition-all ${
+                        contentType === "text"
+                          ? "bg-green-600 text-white shadow-md scale-105"
+                          : "bg-white/80 text-stone-700 hover:bg-green-50 border border-green-300"
+                      }`}
+                    >
+                      📝 Text
+                    </button>
                   </div>
                 </div>
 
+                {contentType === "image" && imageProviders.length > 0 && (
+                  <div className="grid md:grid-cols-2 gap-4 mb-4">
+                    <div>
+                      <label className="block text-sm font-medium text-stone-800 mb-2">
+                        Provider
+                      </label>
+                      <select
+                        value={imageProvider}
+                        onChange={(e) => {
+                          const selected = imageProviders.find(
+                            (provider) => provider.name === e.target.value
+                          );
+                          setImageProvider(e.target.value);
+                          setImageModel(selected?.defaultModel || "");
+                          setEditMode("");
+                        }}
+                        className="w-full px-4 py-2 bg-white/80 border border-green-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-green-500 text-stone-800"
+                      >
+                        {imageProviders.map((provider) => (
+                          <option key={provider.name} value={provider.name}>
+                            {provider.label}
+                          </option>
+                        ))}
+                      </select>
+                    </div>
+                    <div>
+                      <label className="block text-sm font-medium text-stone-800 mb-2">
+                        Model
+                      </label>
+                      <input
+                        type="text"
+                        list="image-models"
+                        value={imageModel}
+                        onChange={(e) => setImageModel(e.target.value)}
+                        className="w-full px-4 py-2 bg-white/80 border border-green-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-green-500 text-stone-800 font-mono text-sm"
+                      />
+                      <datalist id="image-models">
+                        {selectedProvider?.models.map((model) => (
+                          <option key={model} value={model} />
+                        ))}
+                      </datalist>
+                    </div>
+                    <div>
+                      <label className="block text-sm font-medium text-stone-800 mb-2">
+                        Candidates
+                      </label>
+                      <select
+                        value={candidateCount}
+                        onChange={(e) =>
+                          setCandidateCount(Number(e.target.value))
+                        }
+                        className="w-full px-4 py-2 bg-white/80 border border-green-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-green-500 text-stone-800"
+                      >
+                        {[1, 2, 3, 4].map((count) => (
+                          <option key={count} value={count}>
+                            {count === 1
+                              ? "1 image"
+                              : `${count} variants, register one`}
+                          </option>
+                        ))}
+                      </select>
+                    </div>
+                    {supportedParams.length > 0 && (
+                      <details className="md:col-span-2">
+                        <summary className="cursor-pointer text-sm font-medium text-stone-800">
+                          Generation Parameters
+                        </summary>
+                        <p className="text-xs text-stone-600 mt-2 mb-3">
+                          These are signed together with your prompt and
+                          recorded in the transparency card, so anyone can
+                          re-run them to check the result.
+                        </p>
+                        <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                          {PARAMETER_FIELDS.filter((field) =>
+                            supportedParams.includes(field.name)
+                          ).map((field) => (
+                            <div key={field.name}>
+                              <label className="block text-xs font-medium text-stone-700 mb-1">
+                                {field.label}
+                              </label>
+                              <input
+                                type={field.numeric ? "number" : "text"}
+                                value={imageParams[field.name] || ""}
+                                placeholder={field.placeholder}
+                                onChange={(e) =>
+                                  setImageParams({
+                                    ...imageParams,
+                                    [field.name]: e.target.value,
+                                  })
+                                }
+                                className="w-full px-3 py-2 bg-white/80 border border-green-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-green-500 text-stone-800 text-sm"
+                              />
+                            </div>
+                          ))}
+                        </div>
+                        {supportedParams.includes("negativePrompt") && (
+                          <div className="mt-3">
+                            <label className="block text-xs font-medium text-stone-700 mb-1">
+                              Negative Prompt
+                            </label>
+                            <input
+                              type="text"
+                              value={imageParams.negativePrompt || ""}
+                              placeholder="blurry, low quality..."
+                              onChange={(e) =>
+                                setImageParams({
+                                  ...imageParams,
+                                  negativePrompt: e.target.value,
+                                })
+                              }
+                              className="w-full px-3 py-2 bg-white/80 border border-green-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-green-500 text-stone-800 text-sm"
+                            />
+                          </div>
+                        )}
+                      </details>
+                    )}
+                    {supportedEdits.length > 0 && (
+                      <details className="md:col-span-2" open={!!editMode}>
+                        <summary className="cursor-pointer text-sm font-medium text-stone-800">
+                          Edit a Registered Image
+                        </summary>
+                        <p className="text-xs text-stone-600 mt-2 mb-3">
+                          Derive a new image from one already registered on
+                          chain. Its combined hash is signed with your prompt
+                          and stored with the new proof, so the verify page
+                          shows where the image came from.
+                        </p>
+                        <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                          <div>
+                            <label className="block text-xs font-medium text-stone-700 mb-1">
+                              Mode
+                            </label>
+                            <select
+                              value={editMode}
+                              onChange={(e) =>
+                                setEditMode(e.target.value as EditMode | "")
+                              }
+                              className="w-full px-3 py-2 bg-white/80 border border-green-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-green-500 text-stone-800 text-sm"
+                            >
+                              <option value="">New image</option>
+                              {supportedEdits.map((mode) => (
+                                <option key={mode} value={mode}>
+                                  {EDIT_MODE_LABELS[mode]}
+                                </option>
+                              ))}
+                            </select>
+                          </div>
+                          {editMode === "img2img" && (
+                            <div>
+                              <label className="block text-xs font-medium text-stone-700 mb-1">
+                                Strength
+                              </label>
+                              <input
+                                type="number"
+                                min="0.05"
+                                max="1"
+                                step="0.05"
+                                value={editStrength}
+                                placeholder="0.65"
+                                onChange={(e) => setEditStrength(e.target.value)}
+                                className="w-full px-3 py-2 bg-white/80 border border-green-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-green-500 text-stone-800 text-sm"
+                              />
+                            </div>
+                          )}
+                          {editMode === "upscale" && (
+                            <div>
+                              <label className="block text-xs font-medium text-stone-700 mb-1">
+                                Scale
+                              </label>
+                              <select
+                                value={editScale}
+                                onChange={(e) =>
+                                  setEditScale(Number(e.target.value))
+                                }
+                                className="w-full px-3 py-2 bg-white/80 border border-green-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-green-500 text-stone-800 text-sm"
+                              >
+                                {UPSCALE_FACTORS.map((factor) => (
+                                  <option key={factor} value={factor}>
+                                    {factor}x
+                                  </option>
+                                ))}
+                              </select>
+                            </div>
+                          )}
+                        </div>
+                        {editMode && (
+                          <div className="mt-3 space-y-3">
+                            <div>
+                              <label className="block text-xs font-medium text-stone-700 mb-1">
+                                Parent Combined Hash
+                              </label>
+                              <input
+                                type="text"
+                                value={parentHash}
+                                placeholder="combined hash of the registered image"
+                                onChange={(e) => setParentHash(e.target.value)}
+                                className="w-full px-3 py-2 bg-white/80 border border-green-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-green-500 text-stone-800 font-mono text-xs"
+                              />
+                            </div>
+                            <div>
+                              <label className="block text-xs font-medium text-stone-700 mb-1">
+                                Parent Image
+                              </label>
+                              <input
+                                type="file"
+                                accept="image/png,image/jpeg"
+                                onChange={async (e) => {
+                                  const file = e.target.files?.[0];
+                                  setParentImage(
+                                    file ? await readFileAsBase64(file) : null
+                                  );
+                                }}
+                                className="text-xs text-stone-700"
+                              />
+                              <p className="text-xs text-stone-500 mt-1">
+                                The decrypted original, exactly as registered;
+                                the server checks it against the parent&apos;s
+                                output hash.
+                                {parentImage && " Parent image loaded."}
+                              </p>
+                            </div>
+                            {editMode === "inpaint" && (
+                              <div>
+                                <label className="block text-xs font-medium text-stone-700 mb-1">
+                                  Mask
+                                </label>
+                                <input
+                                  type="file"
+                                  accept="image/png"
+                                  onChange={async (e) => {
+                                    const file = e.target.files?.[0];
+                                    setMaskImage(
+                                      file ? await readFileAsBase64(file) : null
+                                    );
+                                  }}
+                                  className="text-xs text-stone-700"
+                                />
+                                <p className="text-xs text-stone-500 mt-1">
+                                  A PNG the size of the parent; white areas are
+                                  repainted, black ones kept.
+                                </p>
+                              </div>
+                            )}
+                          </div>
+                        )}
+                      </details>
+                    )}
+                  </div>
+                )}
+
                 <label className="block text-sm font-medium text-stone-800 mb-2">
                   Enter your prompt
                 </label>
@@ -341,12 +1070,41 @@ export default function CreatePage() {
                   placeholder={
                     contentType === "image"
                       ? "A futuristic cityscape at sunset with flying cars..."
+                      : contentType === "text"
+                      ? "A short story about a lighthouse keeper who records every passing ship..."
                       : "Upbeat electronic dance music with synthesizers and drums, 120 BPM..."
                   }
                   className="w-full px-4 py-3 bg-white/80 border border-green-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-green-500 text-stone-800 placeholder-stone-500"
                   rows={4}
                 />
 
+                <label className="block text-sm font-medium text-stone-800 mt-4 mb-2">
+                  Share with other wallets (optional)
+                </label>
+                <input
+                  type="text"
+                  value={shareWith}
+                  onChange={(e) => setShareWith(e.target.value)}
+                  placeholder="0x... , 0x..."
+                  className="w-full px-4 py-2 bg-white/80 border border-green-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-green-500 text-stone-800 placeholder-stone-500 font-mono text-sm"
+                />
+                <p className="text-xs text-stone-600 mt-1">
+                  Each wallet must have registered an encryption key on
+                  Authentica. You can also share later from the verify page.
+                </p>
+
+                {relayerEnabled && (
+                  <label className="flex items-center gap-2 mt-4 text-sm text-stone-700">
+                    <input
+                      type="checkbox"
+                      checked={useRelayer}
+                      onChange={(e) => setUseRelayer(e.target.checked)}
+                    />
+                    Sign the registration and let Authentica send it, so you
+                    pay no gas
+                  </label>
+                )}
+
                 <div className="mt-4">
                   <CameraCapture
                     onCapture={(hash, timestamp) => {
@@ -365,22 +1123,77 @@ export default function CreatePage() {
                   disabled={loading || !prompt.trim()}
                   className="mt-4 w-full bg-green-600 text-white py-3 rounded-lg font-semibold hover:bg-green-700 disabled:bg-stone-300 disabled:text-stone-500 disabled:cursor-not-allowed transition-colors"
                 >
-                  {loading
+                  {loading && jobStatus && jobStatus !== "generating"
+                    ? JOB_STATUS_LABELS[jobStatus] || "Working..."
+                    : loading
                     ? contentType === "image"
                       ? "Generating Image..."
+                      : contentType === "text"
+                      ? "Generating Text..."
                       : "Generating Music..."
                     : contentType === "image"
                     ? "Generate Image & Create Proof"
+                    : contentType === "text"
+                    ? "Generate Text & Create Proof"
                     : "Generate Music & Create Proof"}
                 </button>
               </div>
 
-              {(generatedImage || generatedAudio) && (
+              {draft && draft.status === "open" && (
+                <div className="bg-cream-100/80 rounded-xl shadow-lg p-6 mb-6 border border-green-200/50 backdrop-blur-sm">
+                  <h2 className="text-2xl font-bold mb-2 text-stone-800">
+                    Choose a Candidate
+                  </h2>
+                  <p className="text-sm text-stone-600 mb-4">
+                    None of these is registered yet. Only the one you keep is
+                    hashed into a proof, uploaded and recorded on chain.
+                  </p>
+                  <div className="grid grid-cols-2 gap-4">
+                    {draft.candidates.map((candidate: any) => (
+                      <div
+                        key={candidate.index}
+                        className="bg-white/80 p-2 rounded-lg border border-green-200/50"
+                      >
+                        <img
+                          src={`data:image/png;base64,${draft.outputs[candidate.index]}`}
+                          alt={`Candidate ${candidate.index + 1}`}
+                          className="w-full rounded"
+                        />
+                        <p className="text-xs text-stone-600 font-mono mt-2 break-all">
+                          {candidate.transparency?.seed !== undefined &&
+                            `seed ${candidate.transparency.seed} · `}
+                          {candidate.outputHash.substring(0, 16)}...
+                        </p>
+                        <button
+                          onClick={() => handleSelectCandidate(candidate.index)}
+                          disabled={loading}
+                          className="mt-2 w-full bg-green-600 text-white py-2 rounded-lg font-semibold hover:bg-green-700 disabled:bg-stone-300 disabled:text-stone-500 disabled:cursor-not-allowed transition-colors"
+                        >
+                          Keep & Register
+                        </button>
+                      </div>
+                    ))}
+                  </div>
+                  <label className="flex items-center gap-2 mt-4 text-sm text-stone-700">
+                    <input
+                      type="checkbox"
+                      checked={commitRejected}
+                      onChange={(e) => setCommitRejected(e.target.checked)}
+                    />
+                    Record the hashes of the other candidates in the proof, as
+                    evidence of the creative process
+                  </label>
+                </div>
+              )}
+
+              {(generatedImage || generatedAudio || generatedText) && (
                 <div className="space-y-6 mb-6">
                   <div className="bg-cream-100/80 rounded-xl shadow-lg p-6 border border-green-200/50 backdrop-blur-sm">
                     <h2 className="text-2xl font-bold mb-4 text-stone-800">
                       {contentType === "image"
                         ? "Generated Artwork"
+                        : contentType === "text"
+                        ? "Generated Text"
                         : "Generated Music"}
                     </h2>
                     <div className="grid md:grid-cols-2 gap-6">
@@ -403,6 +1216,11 @@ export default function CreatePage() {
                             </audio>
                           </div>
                         )}
+                        {contentType === "text" && generatedText && (
+                          <div className="mb-4 max-h-96 overflow-y-auto whitespace-pre-wrap text-sm text-stone-800 bg-white/80 p-4 rounded-lg border border-green-200/50">
+                            {generatedText}
+                          </div>
+                        )}
                         {proof && (
                           <div className="bg-white/80 p-4 rounded-lg border border-green-200/50">
                             <p className="text-sm text-stone-700">
@@ -490,6 +1308,40 @@ export default function CreatePage() {
                       <p className="text-xs font-mono bg-white/80 p-2 rounded break-all text-green-600 border border-green-200/50">
                         {certificate.txHash}
                       </p>
+                      {certificate.storageStatus === "pending" && (
+                        <div className="mt-2">
+                          <p className="text-xs text-amber-600 font-medium">
+                            Pending storage - the upload to IPFS is being
+                            retried. The proof can only be registered once it
+                            has a real CID.
+                          </p>
+                          <button
+                            onClick={handleRetryRegistration}
+                            disabled={retryingRegistration}
+                            className="mt-2 px-3 py-2 bg-amber-600 text-white rounded-lg text-xs font-medium hover:bg-amber-700 transition-colors disabled:opacity-50"
+                          >
+                            {retryingRegistration
+                              ? "Checking..."
+                              : "Retry Registration"}
+                          </button>
+                        </div>
+                      )}
+                      {certificate.type === "image" &&
+                        certificate.txHash !== "not-registered" &&
+                        proof?.outputBuffer &&
+                        supportedEdits.length > 0 && (
+                          <button
+                            onClick={() => {
+                              setParentHash(certificate.combinedHash);
+                              setParentImage(proof.outputBuffer);
+                              setEditMode(supportedEdits[0]);
+                              window.scrollTo({ top: 0, behavior: "smooth" });
+                            }}
+                            className="mt-2 px-3 py-2 bg-green-600 text-white rounded-lg text-xs font-medium hover:bg-green-700 transition-colors"
+                          >
+                            Edit This Image
+                          </button>
+                        )}
                     </div>
 
                     <div>
@@ -522,8 +1374,8 @@ export default function CreatePage() {
                             </button>
                           </div>
                           <p className="text-xs text-green-600 mt-1 font-semibold">
-                            Encrypted - Only you (creator) can decrypt this
-                            content
+                            Encrypted - Only you and the wallets you share with
+                            can decrypt this content
                           </p>
                           <p className="text-xs text-stone-600 mt-1">
                             <strong>Private CID:</strong> Do NOT share this CID.
@@ -531,46 +1383,44 @@ export default function CreatePage() {
                             this app with your wallet.
                           </p>
                           <p className="text-xs text-amber-600 mt-2 font-medium">
-                            To view content: Click "Decrypt & View" below.
-                            Decryption happens securely on our server using your
-                            wallet.
+                            To view content: Click &quot;Decrypt & View&quot; below.
+                            Decryption happens in your browser using a key
+                            derived from your wallet signature.
                           </p>
                           {!decryptedContent && (
                             <button
                               onClick={async () => {
-                                if (!address || !certificate.ipfsLink) {
+                                if (
+                                  !address ||
+                                  !walletClient ||
+                                  !certificate.ipfsLink
+                                ) {
                                   alert("Wallet not connected or CID missing");
                                   return;
                                 }
 
                                 setDecrypting(true);
                                 try {
-                                  const response = await fetch("/api/decrypt", {
-                                    method: "POST",
-                                    headers: {
-                                      "Content-Type": "application/json",
-                                    },
-                                    body: JSON.stringify({
-                                      ipfsCid: certificate.ipfsLink,
-                                      userAddress: address,
-                                    }),
-                                  });
-
-                                  const data = await response.json();
-
-                                  if (!data.success) {
-                                    throw new Error(
-                                      data.error || "Decryption failed"
-                                    );
-                                  }
+                                  const decrypted = await decryptFromIpfs(
+                                    certificate.ipfsLink,
+                                    address,
+                                    (message) =>
+                                      walletClient.signMessage({
+                                        account: address,
+                                        message,
+                                      }),
+                                    certificate.combinedHash
+                                  );
 
                                   // Set decrypted content as data URL
                                   const contentType =
                                     certificate.type === "image"
                                       ? "image/png"
+                                      : certificate.type === "text"
+                                      ? "text/plain;charset=utf-8"
                                       : "audio/mpeg";
                                   setDecryptedContent(
-                                    `data:${contentType};base64,${data.decryptedContent}`
+                                    `data:${contentType};base64,${decrypted}`
                                   );
                                 } catch (error: any) {
                                   console.error("decryption error:", error);
@@ -598,6 +1448,12 @@ export default function CreatePage() {
                                   alt="Decrypted content"
                                   className="w-full rounded-lg border border-green-300"
                                 />
+                              ) : certificate.type === "text" ? (
+                                <iframe
+                                  src={decryptedContent}
+                                  title="Decrypted text"
+                                  className="w-full h-64 rounded-lg border border-green-300 bg-white"
+                                />
                               ) : (
                                 <audio
                                   controls
@@ -626,7 +1482,7 @@ export default function CreatePage() {
                           </p>
                           {!isConnected && (
                             <p className="text-xs text-amber-600 mt-2 font-medium">
-                              Connect the creator's wallet to decrypt and view
+                              Connect the creator&apos;s wallet to decrypt and view
                               content
                             </p>
                           )}
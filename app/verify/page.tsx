@@ -2,17 +2,26 @@
 
 import { useState, useEffect, Suspense } from "react";
 import { useSearchParams } from "next/navigation";
-import { useAccount } from "wagmi";
+import { useAccount, useWalletClient } from "wagmi";
 import { ConnectButton } from "@rainbow-me/rainbowkit";
 import { verifyProofOnChain, getProvider } from "@/lib/blockchain";
 import Link from "next/link";
 import { formatDistanceToNow } from "date-fns";
 import TransparencyCard from "@/components/TransparencyCard";
+import DerivationTree from "@/components/DerivationTree";
+import {
+  decryptFromIpfs,
+  ensureEncryptionKeyRegistered,
+  grantAccess,
+  reproduceRequestMessage,
+  revokeAccess,
+} from "@/lib/walletEncryption";
 
 function VerifyContent() {
   const searchParams = useSearchParams();
   const hashFromUrl = searchParams.get("hash");
   const { address, isConnected } = useAccount();
+  const { data: walletClient } = useWalletClient();
 
   const [hash, setHash] = useState(hashFromUrl || "");
   const [loading, setLoading] = useState(false);
@@ -21,11 +30,36 @@ function VerifyContent() {
   const [uploadedImage, setUploadedImage] = useState<File | null>(null);
   const [imagePreview, setImagePreview] = useState<string | null>(null);
   const [comparing, setComparing] = useState(false);
+  const [analyzing, setAnalyzing] = useState(false);
   const [similarityResult, setSimilarityResult] = useState<any>(null);
+  const [showTamperOverlay, setShowTamperOverlay] = useState(true);
   const [metadata, setMetadata] = useState<any>(null);
   const [loadingMetadata, setLoadingMetadata] = useState(false);
   const [decrypting, setDecrypting] = useState(false);
   const [decryptedContent, setDecryptedContent] = useState<string | null>(null);
+  const [lookingUpFile, setLookingUpFile] = useState(false);
+  const [fileLookupResult, setFileLookupResult] = useState<any>(null);
+  const [accessRecipients, setAccessRecipients] = useState<string[]>([]);
+  const [revokeWarning, setRevokeWarning] = useState<string | null>(null);
+  const [shareAddress, setShareAddress] = useState("");
+  const [sharing, setSharing] = useState(false);
+  const [reproducing, setReproducing] = useState(false);
+  const [reproduction, setReproduction] = useState<any>(null);
+  const [lineage, setLineage] = useState<any>(null);
+
+  const isCreator =
+    !!address &&
+    !!verificationResult &&
+    address.toLowerCase() === verificationResult.creator?.toLowerCase();
+  const canDecrypt =
+    isCreator ||
+    (!!address && accessRecipients.includes(address.toLowerCase()));
+  const signMessage = (message: string) => {
+    if (!walletClient || !address) {
+      throw new Error("Wallet client not available");
+    }
+    return walletClient.signMessage({ account: address, message });
+  };
 
   useEffect(() => {
     if (hashFromUrl) {
@@ -45,6 +79,8 @@ function VerifyContent() {
     setError(null);
     setVerificationResult(null);
     setSimilarityResult(null);
+    setReproduction(null);
+    setLineage(null);
 
     try {
       console.log("starting verification for hash:", hashValue);
@@ -62,9 +98,11 @@ function VerifyContent() {
 
       if (result.exists) {
         console.log("proof verified!", result);
-        setVerificationResult(result);
+        setVerificationResult({ ...result, combinedHash: hashValue });
+        await fetchAccessList(hashValue);
         // Try to fetch metadata from IPFS using the hash
         await fetchMetadataFromIpfs(hashValue);
+        await fetchLineage(hashValue);
       } else {
         console.warn("proof exists but exists flag is false");
         setError(
@@ -84,6 +122,12 @@ function VerifyContent() {
     }
   };
 
+  const isAudioUpload = !!uploadedImage?.type.startsWith("audio/");
+  const isTextUpload =
+    !!uploadedImage &&
+    (uploadedImage.type.startsWith("text/") ||
+      uploadedImage.name.toLowerCase().endsWith(".txt"));
+
   const handleImageUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
     if (file) {
@@ -92,11 +136,63 @@ function VerifyContent() {
       reader.onloadend = () => {
         setImagePreview(reader.result as string);
       };
-      reader.readAsDataURL(file);
+      // text is previewed as-is, everything else as a data URL
+      if (file.type.startsWith("text/") || file.name.toLowerCase().endsWith(".txt")) {
+        reader.readAsText(file);
+      } else {
+        reader.readAsDataURL(file);
+      }
       setSimilarityResult(null);
     }
   };
 
+  const handleVerifyByFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) {
+      return;
+    }
+
+    setLookingUpFile(true);
+    setError(null);
+    setFileLookupResult(null);
+
+    try {
+      const base64 = await new Promise<string>((resolve, reject) => {
+        const reader = new FileReader();
+        reader.onloadend = () =>
+          resolve((reader.result as string).split(",")[1] || "");
+        reader.onerror = reject;
+        reader.readAsDataURL(file);
+      });
+
+      const response = await fetch("/api/verify", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ file: base64 }),
+      });
+
+      const data = await response.json();
+
+      if (!data.success) {
+        throw new Error(data.error || "File lookup failed");
+      }
+
+      setFileLookupResult(data);
+
+      if (data.proofs?.length === 1) {
+        setHash(data.proofs[0].combinedHash);
+        await handleVerify(data.proofs[0].combinedHash);
+      }
+    } catch (error: any) {
+      console.error("file lookup error:", error);
+      setError(error.message || "Failed to look up file on blockchain");
+    } finally {
+      setLookingUpFile(false);
+    }
+  };
+
   const handleDecryptContent = async () => {
     // Check basic requirements
     if (!verificationResult || !address) {
@@ -106,10 +202,10 @@ function VerifyContent() {
       return;
     }
 
-    // Check if user is the creator
-    if (address.toLowerCase() !== verificationResult.creator?.toLowerCase()) {
+    // Check if user is the creator or a listed recipient
+    if (!canDecrypt) {
       setError(
-        "Only the creator can decrypt this content. Please connect with the creator's wallet."
+        "Only the creator and wallets they shared with can decrypt this content."
       );
       return;
     }
@@ -135,28 +231,25 @@ function VerifyContent() {
     setError(null);
 
     try {
-      const response = await fetch("/api/decrypt", {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify({
-          ipfsCid: verificationResult.ipfsLink,
-          userAddress: address,
-        }),
-      });
-
-      const data = await response.json();
-
-      if (!data.success) {
-        throw new Error(data.error || "Decryption failed");
+      if (!walletClient) {
+        throw new Error("Wallet client not available");
       }
 
-      const contentType =
-        (metadata?.type || "image") === "image" ? "image/png" : "audio/mpeg";
-      setDecryptedContent(
-        `data:${contentType};base64,${data.decryptedContent}`
+      const decrypted = await decryptFromIpfs(
+        verificationResult.ipfsLink,
+        address,
+        (message) => walletClient.signMessage({ account: address, message }),
+        verificationResult.combinedHash
       );
+
+      const type = metadata?.type || "image";
+      const contentType =
+        type === "image"
+          ? "image/png"
+          : type === "text"
+          ? "text/plain;charset=utf-8"
+          : "audio/mpeg";
+      setDecryptedContent(`data:${contentType};base64,${decrypted}`);
     } catch (error: any) {
       console.error("decryption error:", error);
       setError(`Failed to decrypt content: ${error.message}`);
@@ -165,6 +258,86 @@ function VerifyContent() {
     }
   };
 
+  const fetchAccessList = async (hashValue: string) => {
+    setRevokeWarning(null);
+    try {
+      const response = await fetch(
+        `/api/access?combinedHash=${encodeURIComponent(hashValue)}`
+      );
+      const data = await response.json();
+      setAccessRecipients(data.success ? data.recipients : []);
+    } catch (error) {
+      console.error("failed to fetch access list:", error);
+      setAccessRecipients([]);
+    }
+  };
+
+  const handleGrantAccess = async () => {
+    if (!verificationResult || !address || !shareAddress.trim()) {
+      return;
+    }
+
+    setSharing(true);
+    setError(null);
+    try {
+      const recipients = await grantAccess(
+        verificationResult.combinedHash,
+        verificationResult.ipfsLink,
+        address,
+        shareAddress.trim(),
+        signMessage
+      );
+      setAccessRecipients(recipients);
+      setShareAddress("");
+    } catch (error: any) {
+      console.error("grant access error:", error);
+      setError(`Failed to share access: ${error.message}`);
+    } finally {
+      setSharing(false);
+    }
+  };
+
+  const handleRevokeAccess = async (recipient: string) => {
+    if (!verificationResult) {
+      return;
+    }
+
+    setSharing(true);
+    setError(null);
+    try {
+      const { recipients, warning } = await revokeAccess(
+        verificationResult.combinedHash,
+        recipient,
+        signMessage
+      );
+      setAccessRecipients(recipients);
+      setRevokeWarning(warning);
+    } catch (error: any) {
+      console.error("revoke access error:", error);
+      setError(`Failed to revoke access: ${error.message}`);
+    } finally {
+      setSharing(false);
+    }
+  };
+
+  const handleEnableSharing = async () => {
+    if (!address) {
+      return;
+    }
+
+    setSharing(true);
+    setError(null);
+    try {
+      await ensureEncryptionKeyRegistered(address, signMessage);
+      alert("Your wallet can now receive shared Authentica content.");
+    } catch (error: any) {
+      console.error("key registration error:", error);
+      setError(`Failed to register encryption key: ${error.message}`);
+    } finally {
+      setSharing(false);
+    }
+  };
+
   const handleCompareImages = async () => {
     if (!uploadedImage || !verificationResult) {
       setError("Please upload an image and verify a hash first");
@@ -177,18 +350,36 @@ function VerifyContent() {
 
     try {
       const formData = new FormData();
-      formData.append("image", uploadedImage);
       formData.append(
-        "originalImageUrl",
-        `https://gateway.pinata.cloud/ipfs/${verificationResult.ipfsLink}`
+        isTextUpload ? "text" : isAudioUpload ? "audio" : "image",
+        uploadedImage
       );
-
-      if (verificationResult.clipEmbeddingHash) {
+      if (isTextUpload && metadata?.textSignature) {
+        formData.append(
+          "originalTextSignature",
+          JSON.stringify(metadata.textSignature)
+        );
+      }
+      if (isAudioUpload && metadata?.audioFingerprint) {
         formData.append(
-          "originalEmbeddingHash",
-          verificationResult.clipEmbeddingHash
+          "originalFingerprint",
+          JSON.stringify(metadata.audioFingerprint)
         );
       }
+      // the stored original is encrypted, so only a copy decrypted here can
+      // be compared pixel by pixel
+      if (decryptedContent) {
+        const original = await (await fetch(decryptedContent)).blob();
+        formData.append("original", original);
+      }
+
+      // the pHash from the metadata lets the server compare even when the
+      // original cannot be fetched
+      const originalHash =
+        metadata?.perceptualHash?.pHash || verificationResult.clipEmbeddingHash;
+      if (originalHash) {
+        formData.append("originalEmbeddingHash", originalHash);
+      }
 
       console.log(
         "sending image to server for comparison and steganography detection..."
@@ -219,6 +410,74 @@ function VerifyContent() {
     }
   };
 
+  const handleDownloadForensicReport = async () => {
+    if (!uploadedImage) return;
+
+    setAnalyzing(true);
+    setError(null);
+    try {
+      const formData = new FormData();
+      formData.append("file", uploadedImage);
+      const response = await fetch("/api/analyze?format=pdf", {
+        method: "POST",
+        body: formData,
+      });
+
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || "Failed to analyze image");
+      }
+
+      const disposition = response.headers.get("Content-Disposition") || "";
+      const filename =
+        disposition.match(/filename="([^"]+)"/)?.[1] ||
+        "Authentica-Forensic-Report.pdf";
+      const url = URL.createObjectURL(await response.blob());
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = filename;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error: any) {
+      console.error("forensic report error:", error);
+      setError(error.message || "Failed to generate forensic report");
+    } finally {
+      setAnalyzing(false);
+    }
+  };
+
+  // re-runs the recorded generation parameters on the server
+  const handleReproduce = async () => {
+    if (!verificationResult) return;
+
+    setReproducing(true);
+    setError(null);
+    setReproduction(null);
+    try {
+      const combinedHash = verificationResult.combinedHash || hash;
+      const issuedAt = Date.now();
+      const signature = await signMessage(
+        reproduceRequestMessage(combinedHash, issuedAt)
+      );
+
+      const response = await fetch("/api/reproduce", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ combinedHash, issuedAt, signature }),
+      });
+      const data = await response.json();
+      if (!data.success) {
+        throw new Error(data.error || "Failed to reproduce image");
+      }
+      setReproduction(data);
+    } catch (error: any) {
+      console.error("reproduction error:", error);
+      setError(error.message || "Failed to reproduce image");
+    } finally {
+      setReproducing(false);
+    }
+  };
+
   const fetchMetadataFromIpfs = async (hashValue: string) => {
     setLoadingMetadata(true);
     try {
@@ -239,6 +498,21 @@ function VerifyContent() {
     }
   };
 
+  // the originals and edits this proof is connected to on chain
+  const fetchLineage = async (hashValue: string) => {
+    try {
+      const response = await fetch(
+        `/api/lineage?hash=${encodeURIComponent(hashValue)}`
+      );
+      const data = await response.json();
+      if (data.success) {
+        setLineage(data);
+      }
+    } catch (error) {
+      console.error("failed to fetch derivation tree:", error);
+    }
+  };
+
   return (
     <div className="min-h-screen bg-gradient-to-br from-amber-50 via-cream-50 to-green-50">
       <main className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-12">
@@ -259,18 +533,30 @@ function VerifyContent() {
                       0,
                       6
                     )}...${address?.substring(38)}`
-                  : "Connect your wallet to decrypt and view encrypted content if you are the creator"}
+                  : "Connect your wallet to decrypt and view encrypted content if you are the creator or it was shared with you"}
               </p>
               {isConnected && verificationResult && (
                 <p className="text-xs text-stone-500 mt-2">
-                  {address?.toLowerCase() ===
-                  verificationResult.creator?.toLowerCase()
+                  {isCreator
                     ? "You are the creator - You can decrypt and view the content"
-                    : "You can verify the proof, but only the creator can decrypt encrypted content"}
+                    : canDecrypt
+                    ? "This content was shared with your wallet - You can decrypt and view it"
+                    : "You can verify the proof, but only the creator and wallets they shared with can decrypt encrypted content"}
                 </p>
               )}
             </div>
-            {!isConnected && <ConnectButton />}
+            {!isConnected ? (
+              <ConnectButton />
+            ) : (
+              <button
+                onClick={handleEnableSharing}
+                disabled={sharing}
+                className="px-3 py-2 bg-blue-600 text-white rounded-lg text-xs font-medium hover:bg-blue-700 disabled:bg-stone-300 transition-colors"
+                title="Register this wallet's encryption key so creators can share content with it"
+              >
+                Enable Receiving Shares
+              </button>
+            )}
           </div>
         </div>
 
@@ -304,40 +590,129 @@ function VerifyContent() {
           </p>
         </div>
 
+        <div className="bg-cream-100/80 rounded-xl shadow-lg p-8 mb-6 border border-green-200/50 backdrop-blur-sm">
+          <h2 className="text-xl font-bold mb-4 text-stone-800">
+            Verify by File
+          </h2>
+          <label className="block text-sm font-medium text-stone-800 mb-2">
+            Upload the original file
+          </label>
+          <input
+            type="file"
+            onChange={handleVerifyByFile}
+            disabled={lookingUpFile}
+            className="block w-full text-sm text-stone-700 file:mr-4 file:py-2 file:px-4 file:rounded-lg file:border-0 file:text-sm file:font-semibold file:bg-green-600 file:text-white hover:file:bg-green-700"
+          />
+          <p className="text-sm text-stone-600 mt-2">
+            {lookingUpFile
+              ? "Looking up file on blockchain..."
+              : "No hash needed - the file's SHA-256 is matched against registered outputs"}
+          </p>
+
+          {fileLookupResult && (
+            <div className="mt-4 space-y-2">
+              <p className="text-xs font-mono bg-white/80 p-2 rounded break-all text-stone-700 border border-green-200/50">
+                Output hash: {fileLookupResult.outputHash}
+              </p>
+              {fileLookupResult.proofs?.length === 0 && (
+                <p className="text-sm text-red-600">
+                  {fileLookupResult.message}
+                </p>
+              )}
+              {fileLookupResult.proofs?.length > 1 &&
+                fileLookupResult.proofs.map((proof: any) => (
+                  <div
+                    key={proof.combinedHash}
+                    className="flex items-center justify-between gap-2 bg-white/80 p-3 rounded-lg border border-green-200/50"
+                  >
+                    <div className="text-xs text-stone-700 min-w-0">
+                      <p className="font-mono break-all text-green-700">
+                        {proof.combinedHash}
+                      </p>
+                      <p>
+                        {proof.creator?.substring(0, 6)}...
+                        {proof.creator?.substring(38)} ·{" "}
+                        {new Date(proof.timestamp * 1000).toLocaleString()}
+                      </p>
+                    </div>
+                    <button
+                      onClick={() => {
+                        setHash(proof.combinedHash);
+                        handleVerify(proof.combinedHash);
+                      }}
+                      className="px-3 py-2 bg-green-600 text-white rounded-lg text-xs font-medium hover:bg-green-700 transition-colors"
+                    >
+                      View Proof
+                    </button>
+                  </div>
+                ))}
+            </div>
+          )}
+        </div>
+
         {verificationResult && (
           <div className="bg-cream-100/80 rounded-xl shadow-lg p-8 mb-6 border border-green-200/50 backdrop-blur-sm">
             <h2 className="text-xl font-bold mb-4 text-stone-800">
               Tamper Detection
             </h2>
             <p className="text-sm text-stone-600 mb-4">
-              Upload an image to check if it matches the original artwork or has
-              been modified
+              Upload an image, WAV track or text file to check if it matches
+              the original or has been modified
             </p>
 
             <div className="space-y-4">
               <div>
                 <label className="block text-sm font-medium text-stone-800 mb-2">
-                  Upload Image to Compare
+                  Upload Image, Audio or Text to Compare
                 </label>
                 <input
                   type="file"
-                  accept="image/*"
+                  accept="image/*,audio/*,text/plain,.txt"
                   onChange={handleImageUpload}
                   className="block w-full text-sm text-stone-700 file:mr-4 file:py-2 file:px-4 file:rounded-lg file:border-0 file:text-sm file:font-semibold file:bg-green-600 file:text-white hover:file:bg-green-700"
                 />
               </div>
 
-              {imagePreview && (
+              {imagePreview && isAudioUpload && (
+                <div>
+                  <h3 className="text-sm font-semibold text-stone-800 mb-2">
+                    Uploaded Audio
+                  </h3>
+                  <audio src={imagePreview} controls className="w-full" />
+                </div>
+              )}
+
+              {imagePreview && isTextUpload && (
+                <div>
+                  <h3 className="text-sm font-semibold text-stone-800 mb-2">
+                    Uploaded Text
+                  </h3>
+                  <div className="max-h-64 overflow-y-auto whitespace-pre-wrap text-sm text-stone-700 bg-white/80 p-3 rounded-lg border-2 border-blue-300">
+                    {imagePreview}
+                  </div>
+                </div>
+              )}
+
+              {imagePreview && !isAudioUpload && !isTextUpload && (
                 <div className="grid md:grid-cols-2 gap-4">
                   <div>
                     <h3 className="text-sm font-semibold text-stone-800 mb-2">
-                      Original (from IPFS)
+                      Original (decrypted)
                     </h3>
-                    <img
-                      src={`https://gateway.pinata.cloud/ipfs/${verificationResult.ipfsLink}`}
-                      alt="Original artwork"
-                      className="w-full rounded-lg border-2 border-green-300"
-                    />
+                    {decryptedContent ? (
+                      <img
+                        src={decryptedContent}
+                        alt="Original artwork"
+                        className="w-full rounded-lg border-2 border-green-300"
+                      />
+                    ) : (
+                      <p className="text-xs text-stone-600 bg-white/80 p-3 rounded-lg border-2 border-green-300">
+                        The original is stored encrypted. Decrypt it below to
+                        see it here and to compare pixels, crops and edited
+                        regions; otherwise only its perceptual hash is
+                        compared.
+                      </p>
+                    )}
                   </div>
                   <div>
                     <h3 className="text-sm font-semibold text-stone-800 mb-2">
@@ -358,7 +733,25 @@ function VerifyContent() {
                   disabled={comparing || !verificationResult}
                   className="w-full bg-blue-600 text-white py-3 px-4 rounded-lg font-semibold hover:bg-blue-700 disabled:bg-stone-300 disabled:text-stone-500 disabled:cursor-not-allowed transition-colors shadow-lg shadow-blue-500/30"
                 >
-                  {comparing ? "Comparing Images..." : "Compare Images"}
+                  {comparing
+                    ? "Comparing..."
+                    : isAudioUpload
+                    ? "Compare Audio"
+                    : isTextUpload
+                    ? "Compare Text"
+                    : "Compare Images"}
+                </button>
+              )}
+
+              {uploadedImage && !isTextUpload && (
+                <button
+                  onClick={handleDownloadForensicReport}
+                  disabled={analyzing}
+                  className="w-full bg-stone-700 text-white py-3 px-4 rounded-lg font-semibold hover:bg-stone-800 disabled:bg-stone-300 disabled:text-stone-500 disabled:cursor-not-allowed transition-colors shadow-lg"
+                >
+                  {analyzing
+                    ? "Analyzing Image..."
+                    : "Download Forensic Report (PDF)"}
                 </button>
               )}
             </div>
@@ -425,11 +818,8 @@ function VerifyContent() {
                 <h3 className="font-semibold text-stone-800 mb-2">
                   IPFS Content ID (CID)
                 </h3>
-                {/* STRICT ACCESS: Only show CID to creator, and only as copy button (not clickable link) */}
-                {address &&
-                isConnected &&
-                address.toLowerCase() ===
-                  verificationResult.creator?.toLowerCase() ? (
+                {/* STRICT ACCESS: Only show CID to creator and recipients, and only as copy button (not clickable link) */}
+                {address && isConnected && canDecrypt ? (
                   <>
                     <div className="flex items-center gap-2 mb-2">
                       <p className="text-xs font-mono bg-white/80 p-2 rounded break-all text-stone-700 border border-green-200/50 flex-1">
@@ -451,7 +841,9 @@ function VerifyContent() {
                       </button>
                     </div>
                     <p className="text-xs text-green-600 mt-1 font-semibold">
-                      Encrypted - Only you (creator) can decrypt this content
+                      {isCreator
+                        ? "Encrypted - Only you and the wallets you share with can decrypt this content"
+                        : "Encrypted - Shared with your wallet by the creator"}
                     </p>
                     <p className="text-xs text-stone-600 mt-1">
                       <strong>Private CID:</strong> Do NOT share this CID.
@@ -480,6 +872,12 @@ function VerifyContent() {
                             alt="Decrypted content"
                             className="w-full rounded-lg border border-green-300"
                           />
+                        ) : decryptedContent.startsWith("data:text/") ? (
+                          <iframe
+                            src={decryptedContent}
+                            title="Decrypted text"
+                            className="w-full h-64 rounded-lg border border-green-300 bg-white"
+                          />
                         ) : decryptedContent.startsWith("data:audio/") ? (
                           <audio
                             controls
@@ -505,6 +903,63 @@ function VerifyContent() {
                         )}
                       </div>
                     )}
+                    {isCreator && (
+                      <div className="mt-4 bg-white/80 p-4 rounded-lg border border-green-200/50">
+                        <h4 className="text-sm font-semibold text-stone-800 mb-2">
+                          Shared Access
+                        </h4>
+                        {accessRecipients
+                          .filter(
+                            (recipient) =>
+                              recipient !==
+                              verificationResult.creator?.toLowerCase()
+                          )
+                          .map((recipient) => (
+                            <div
+                              key={recipient}
+                              className="flex items-center justify-between gap-2 mb-2"
+                            >
+                              <p className="text-xs font-mono text-stone-700 break-all">
+                                {recipient}
+                              </p>
+                              <button
+                                onClick={() => handleRevokeAccess(recipient)}
+                                disabled={sharing}
+                                className="px-3 py-1 bg-red-600 text-white rounded-lg text-xs font-medium hover:bg-red-700 disabled:bg-stone-300 transition-colors"
+                              >
+                                Revoke
+                              </button>
+                            </div>
+                          ))}
+                        <div className="flex gap-2 mt-2">
+                          <input
+                            type="text"
+                            value={shareAddress}
+                            onChange={(e) => setShareAddress(e.target.value)}
+                            placeholder="Recipient wallet address 0x..."
+                            className="flex-1 px-3 py-2 bg-white/80 border border-green-300 rounded-lg text-xs font-mono text-stone-800 placeholder-stone-500"
+                          />
+                          <button
+                            onClick={handleGrantAccess}
+                            disabled={sharing || !shareAddress.trim()}
+                            className="px-3 py-2 bg-green-600 text-white rounded-lg text-xs font-medium hover:bg-green-700 disabled:bg-stone-300 disabled:text-stone-500 transition-colors"
+                          >
+                            {sharing ? "Working..." : "Share"}
+                          </button>
+                        </div>
+                        {revokeWarning && (
+                          <p className="text-xs text-amber-700 mt-2">
+                            {revokeWarning}
+                          </p>
+                        )}
+                        <p className="text-xs text-stone-500 mt-2">
+                          Revoking only stops Authentica from handing out the
+                          recipient&apos;s key. The content key does not
+                          change, so anyone who already received it can keep
+                          decrypting.
+                        </p>
+                      </div>
+                    )}
                   </>
                 ) : (
                   <>
@@ -526,7 +981,7 @@ function VerifyContent() {
                     </p>
                     {!isConnected && (
                       <p className="text-xs text-amber-600 mt-2 font-medium">
-                        Connect the creator's wallet to decrypt and view content
+                        Connect the creator&apos;s wallet to decrypt and view content
                       </p>
                     )}
                     {isConnected &&
@@ -557,8 +1012,118 @@ function VerifyContent() {
                   transparency={metadata.transparency}
                   prompt={metadata.prompt || "N/A"}
                 />
+                {metadata.candidate && (
+                  <div className="mt-4 bg-white/80 p-4 rounded-lg border border-blue-200/50 text-sm text-stone-800">
+                    <p>
+                      Chosen as candidate {metadata.candidate.index + 1} of{" "}
+                      {metadata.candidate.count} generated for this prompt.
+                    </p>
+                    {metadata.candidate.rejectedOutputHashes?.length > 0 && (
+                      <>
+                        <p className="text-xs text-stone-600 mt-2 mb-1">
+                          Output hashes of the candidates not kept
+                        </p>
+                        {metadata.candidate.rejectedOutputHashes.map(
+                          (outputHash: string) => (
+                            <p
+                              key={outputHash}
+                              className="font-mono text-xs text-stone-700 break-all"
+                            >
+                              {outputHash}
+                            </p>
+                          )
+                        )}
+                      </>
+                    )}
+                  </div>
+                )}
+                {(!metadata.type || metadata.type === "image") &&
+                  !metadata.edit &&
+                  metadata.transparency.seed !== undefined && (
+                    <div className="mt-4 bg-white/80 p-4 rounded-lg border border-blue-200/50">
+                      <button
+                        onClick={handleReproduce}
+                        disabled={reproducing || !canDecrypt}
+                        className="w-full bg-blue-600 text-white py-2 rounded-lg font-semibold hover:bg-blue-700 disabled:bg-stone-300 disabled:text-stone-500 disabled:cursor-not-allowed transition-colors"
+                      >
+                        {reproducing
+                          ? "Reproducing..."
+                          : "Reproduce from Recorded Parameters"}
+                      </button>
+                      <p className="text-xs text-stone-600 mt-2">
+                        Re-runs the model with the recorded prompt, seed and
+                        settings and compares the result with the registered
+                        image.
+                        {!canDecrypt &&
+                          " Only the creator or a recipient can request a re-run."}
+                      </p>
+
+                      {reproduction && (
+                        <div className="mt-4 grid md:grid-cols-2 gap-4">
+                          <img
+                            src={`data:image/png;base64,${reproduction.image}`}
+                            alt="Reproduced image"
+                            className="w-full rounded-lg border border-blue-200/50"
+                          />
+                          <div className="space-y-2 text-sm text-stone-800">
+                            <p className="text-lg font-bold">
+                              {reproduction.verdict === "identical"
+                                ? "✅ Identical output"
+                                : reproduction.verdict === "matching"
+                                ? "✅ Visually identical output"
+                                : "❌ Output differs"}
+                            </p>
+                            {reproduction.similarity !== null && (
+                              <p>
+                                Perceptual similarity:{" "}
+                                {(reproduction.similarity * 100).toFixed(1)}%
+                              </p>
+                            )}
+                            <p>
+                              Prompt commitment:{" "}
+                              {reproduction.commitmentValid
+                                ? "✅ matches the prompt and parameters"
+                                : "❌ does not match the recorded prompt and parameters"}
+                            </p>
+                            {reproduction.parameterMismatches.length > 0 && (
+                              <p className="text-red-700">
+                                Recorded values differ from the signed
+                                parameters: {reproduction.parameterMismatches.join(", ")}
+                              </p>
+                            )}
+                            {reproduction.verdict === "different" && (
+                              <p className="text-xs text-stone-600">
+                                A different result means the transparency
+                                record is incomplete or wrong, or the provider
+                                no longer serves the same model.
+                              </p>
+                            )}
+                          </div>
+                        </div>
+                      )}
+                    </div>
+                  )}
               </div>
             )}
+
+            {lineage &&
+              (lineage.path.length > 1 || lineage.root.children.length > 0) && (
+                <div className="mt-6 bg-cream-100/80 rounded-lg p-6 border border-green-200/50">
+                  <h3 className="font-semibold text-stone-800 mb-1">
+                    Derivation Tree
+                  </h3>
+                  <p className="text-xs text-stone-600 mb-2">
+                    Registered images this one was edited from, and edits
+                    registered from it. Each edit&apos;s parent is part of the
+                    prompt commitment its creator signed.
+                  </p>
+                  <DerivationTree
+                    root={lineage.root}
+                    path={lineage.path}
+                    truncated={lineage.truncated}
+                  />
+                </div>
+              )}
           </div>
         )}
 
@@ -646,11 +1211,242 @@ function VerifyContent() {
                       ? "CLIP Embeddings"
                       : similarityResult.method === "canvas"
                       ? "Canvas Pixel Analysis"
+                      : similarityResult.method === "ssim"
+                      ? "SSIM / MS-SSIM Pixel Analysis"
+                      : similarityResult.method === "perceptual-hash"
+                      ? "Perceptual Hash"
+                      : similarityResult.method === "audio-fingerprint"
+                      ? "Audio Fingerprint (spectral peak pairs)"
+                      : similarityResult.method === "text-minhash"
+                      ? "Text MinHash (normalized shingles)"
                       : "Hash Comparison"}
                   </p>
                 </div>
               </div>
 
+              {similarityResult.watermark && (
+                <div
+                  className={`p-4 rounded-lg border mt-4 ${
+                    similarityResult.watermark.proofs.includes(
+                      verificationResult?.combinedHash
+                    )
+                      ? "bg-green-50/80 border-green-200/50"
+                      : "bg-amber-50/80 border-amber-200/50"
+                  }`}
+                >
+                  <h4 className="font-semibold text-stone-800 mb-1">
+                    Authentica Watermark
+                  </h4>
+                  <p className="text-sm text-stone-700">
+                    ID <span className="font-mono">{similarityResult.watermark.id}</span>{" "}
+                    {similarityResult.watermark.proofs.includes(
+                      verificationResult?.combinedHash
+                    )
+                      ? "belongs to this proof."
+                      : similarityResult.watermark.proofs.length > 0
+                      ? "belongs to a different proof: " +
+                        similarityResult.watermark.proofs.join(", ")
+                      : "is not in this server's registry."}
+                  </p>
+                </div>
+              )}
+
+              {similarityResult.audio && (
+                <div className="bg-amber-50/80 p-4 rounded-lg border border-amber-200/50 mt-4">
+                  <h4 className="font-semibold text-stone-800 mb-2">
+                    Audio Alignment
+                  </h4>
+                  <div className="grid md:grid-cols-3 gap-2 text-sm text-stone-700">
+                    <p>
+                      <strong>Coverage:</strong>{" "}
+                      {(similarityResult.audio.coverage * 100).toFixed(0)}% of
+                      the original
+                    </p>
+                    <p>
+                      <strong>Offset:</strong>{" "}
+                      {similarityResult.audio.offsetSeconds !== null
+                        ? `${similarityResult.audio.offsetSeconds.toFixed(2)}s`
+                        : "n/a"}
+                    </p>
+                    <p>
+                      <strong>Duration:</strong>{" "}
+                      {similarityResult.audio.uploadDuration.toFixed(1)}s of{" "}
+                      {similarityResult.audio.originalDuration.toFixed(1)}s
+                    </p>
+                  </div>
+                  <ul className="mt-2 text-xs font-mono text-stone-700 space-y-1">
+                    {similarityResult.audio.segments.map(
+                      (segment: any, i: number) => (
+                        <li
+                          key={i}
+                          className={
+                            segment.type === "inserted" ? "text-red-600" : ""
+                          }
+                        >
+                          {segment.uploadStart.toFixed(1)}-
+                          {segment.uploadEnd.toFixed(1)}s:{" "}
+                          {segment.type === "match"
+                            ? `original ${segment.originalStart.toFixed(
+                                1
+                              )}-${segment.originalEnd.toFixed(1)}s`
+                            : "not in the original"}
+                        </li>
+                      )
+                    )}
+                    {similarityResult.audio.removed.map(
+                      (gap: any, i: number) => (
+                        <li key={`removed-${i}`} className="text-red-600">
+                          missing: original {gap.originalStart.toFixed(1)}-
+                          {gap.originalEnd.toFixed(1)}s
+                        </li>
+                      )
+                    )}
+                  </ul>
+                </div>
+              )}
+
+              {similarityResult.text && (
+                <div className="bg-amber-50/80 p-4 rounded-lg border border-amber-200/50 mt-4">
+                  <h4 className="font-semibold text-stone-800 mb-2">
+                    Text Overlap
+                  </h4>
+                  <div className="grid md:grid-cols-3 gap-2 text-sm text-stone-700">
+                    <p>
+                      <strong>Phrases:</strong>{" "}
+                      {(similarityResult.text.shingles.uploadInOriginal * 100).toFixed(0)}%
+                      from the original
+                    </p>
+                    <p>
+                      <strong>Vocabulary:</strong>{" "}
+                      {(similarityResult.text.terms.uploadInOriginal * 100).toFixed(0)}%
+                      from the original
+                    </p>
+                    <p>
+                      <strong>Coverage:</strong>{" "}
+                      {(similarityResult.text.shingles.originalInUpload * 100).toFixed(0)}%
+                      of the original
+                    </p>
+                  </div>
+                  {(similarityResult.text.excerpt ||
+                    similarityResult.text.extended ||
+                    similarityResult.text.paraphrased) && (
+                    <p className="mt-2 text-xs text-red-600">
+                      {similarityResult.text.excerpt
+                        ? "The upload is an excerpt of the original."
+                        : similarityResult.text.extended
+                        ? "The original appears inside a longer text."
+                        : "The upload rewords the original."}
+                    </p>
+                  )}
+                </div>
+              )}
+
+              {similarityResult.geometry?.derived && (
+                <div className="bg-amber-50/80 p-4 rounded-lg border border-amber-200/50 mt-4">
+                  <h4 className="font-semibold text-stone-800 mb-2">
+                    Recovered Transform
+                  </h4>
+                  <div className="grid md:grid-cols-3 gap-2 text-sm text-stone-700">
+                    <p>
+                      <strong>Visible area:</strong>{" "}
+                      {(similarityResult.geometry.coverage * 100).toFixed(0)}%
+                      of the original ({similarityResult.geometry.crop.width}x
+                      {similarityResult.geometry.crop.height} at{" "}
+                      {similarityResult.geometry.crop.x},{" "}
+                      {similarityResult.geometry.crop.y})
+                    </p>
+                    <p>
+                      <strong>Rotation:</strong>{" "}
+                      {similarityResult.geometry.rotation.toFixed(1)}°
+                    </p>
+                    <p>
+                      <strong>Scale:</strong>{" "}
+                      {similarityResult.geometry.scale.toFixed(2)}x
+                    </p>
+                  </div>
+                  <p className="text-xs text-stone-500 mt-2">
+                    {similarityResult.geometry.inliers} of{" "}
+                    {similarityResult.geometry.matches} keypoint matches agree
+                    {similarityResult.geometry.aligned &&
+                      "; similarity was measured on the aligned overlap"}
+                  </p>
+                </div>
+              )}
+
+              {similarityResult.tamper && imagePreview && (
+                <div className="mt-6">
+                  <div className="flex items-center justify-between mb-2">
+                    <h4 className="font-semibold text-stone-800">
+                      Changed Regions
+                    </h4>
+                    <label className="flex items-center gap-2 text-sm text-stone-700">
+                      <input
+                        type="checkbox"
+                        checked={showTamperOverlay}
+                        onChange={(e) => setShowTamperOverlay(e.target.checked)}
+                      />
+                      Show heatmap
+                    </label>
+                  </div>
+                  <div className="relative inline-block w-full">
+                    <img
+                      src={imagePreview}
+                      alt="Uploaded image with changed regions"
+                      className="w-full rounded-lg border-2 border-blue-300"
+                    />
+                    {showTamperOverlay && (
+                      <>
+                        {similarityResult.tamper.overlay && (
+                          <img
+                            src={similarityResult.tamper.overlay}
+                            alt=""
+                            className="absolute inset-0 w-full h-full pointer-events-none"
+                            style={{ imageRendering: "pixelated" }}
+                          />
+                        )}
+                        {similarityResult.tamper.regions.map(
+                          (region: any, index: number) => (
+                            <div
+                              key={index}
+                              className="absolute border-2 border-red-500 pointer-events-none"
+                              style={{
+                                left: `${(region.x / similarityResult.tamper.imageWidth) * 100}%`,
+                                top: `${(region.y / similarityResult.tamper.imageHeight) * 100}%`,
+                                width: `${(region.width / similarityResult.tamper.imageWidth) * 100}%`,
+                                height: `${(region.height / similarityResult.tamper.imageHeight) * 100}%`,
+                              }}
+                            >
+                              <span className="absolute -top-5 left-0 bg-red-500 text-white text-xs px-1 rounded">
+                                #{index + 1} {(region.score * 100).toFixed(0)}%
+                              </span>
+                            </div>
+                          )
+                        )}
+                      </>
+                    )}
+                  </div>
+                  {similarityResult.tamper.regions.length === 0 ? (
+                    <p className="text-sm text-stone-600 mt-2">
+                      No localized changes found.
+                    </p>
+                  ) : (
+                    <ul className="text-sm text-stone-700 mt-2 space-y-1">
+                      {similarityResult.tamper.regions.map(
+                        (region: any, index: number) => (
+                          <li key={index}>
+                            <strong>#{index + 1}</strong> at ({region.x},{" "}
+                            {region.y}), {region.width}x{region.height}px —
+                            change score {(region.score * 100).toFixed(0)}%
+                            (peak {(region.maxScore * 100).toFixed(0)}%),{" "}
+                            {(region.area * 100).toFixed(1)}% of the image
+                          </li>
+                        )
+                      )}
+                    </ul>
+                  )}
+                </div>
+              )}
+
               {/* Steganography Warning */}
               {similarityResult.steganography?.suspicious && (
                 <div className="bg-red-100/90 border-2 border-red-400 rounded-lg p-6 mt-4">
@@ -672,13 +1468,45 @@ function VerifyContent() {
                           <strong>Confidence:</strong>{" "}
                           {similarityResult.steganography.confidence}%
                         </p>
+                        {similarityResult.steganography.channels?.length > 0 && (
+                          <p className="text-red-600">
+                            <strong>Estimated Embedding Rate:</strong>{" "}
+                            {similarityResult.steganography.channels
+                              .map(
+                                (channel: any) =>
+                                  `${channel.channel} ${(
+                                    channel.embeddingRate * 100
+                                  ).toFixed(1)}%`
+                              )
+                              .join(", ")}
+                          </p>
+                        )}
+                        {similarityResult.steganography.container?.suspicious && (
+                          <div className="text-red-600">
+                            <strong>
+                              Container Findings (
+                              {similarityResult.steganography.container.format?.toUpperCase()}):
+                            </strong>
+                            <ul className="list-disc ml-5 mt-1 font-mono text-xs">
+                              {similarityResult.steganography.container.findings
+                                .filter((finding: any) => finding.suspicious)
+                                .map((finding: any, i: number) => (
+                                  <li key={i}>
+                                    {finding.label} @ 0x{finding.offset.toString(16)},{" "}
+                                    {finding.size} bytes: {finding.detail}
+                                  </li>
+                                ))}
+                            </ul>
+                          </div>
+                        )}
                       </div>
                       <div className="mt-4 bg-red-50 p-3 rounded border border-red-200">
                         <p className="text-sm text-red-800">
                           <strong>Security Warning:</strong> Hidden data was
-                          found embedded in this image's pixels. This may
-                          indicate an attempt to bypass tamper detection or hide
-                          malicious content. Proceed with caution.
+                          found embedded in this image&apos;s pixels or file
+                          structure. This may indicate an attempt to bypass
+                          tamper detection or hide malicious content. Proceed
+                          with caution.
                         </p>
                       </div>
                     </div>
@@ -693,6 +1521,8 @@ function VerifyContent() {
                     ? "Using AI vision embeddings (CLIP) to detect visual similarity even if the image was cropped, filtered, or color-adjusted."
                     : similarityResult.method === "canvas"
                     ? "Using canvas-based pixel analysis to compare actual image content. This method detects visual similarity even with minor edits like brush strokes or filters."
+                    : similarityResult.method === "ssim"
+                    ? "Decoding both images and comparing their structure (SSIM / MS-SSIM) and colours, so re-encoding alone does not count as tampering. Changed regions are found block by block after aligning the upload to the original."
                     : similarityResult.method === "simple"
                     ? "Using basic image comparison (file size, byte comparison). For better accuracy with edited images, enable the Python CLIP service."
                     : "Using hash comparison. For better accuracy, enable the Python CLIP service."}
@@ -0,0 +1,118 @@
+"use client";
+
+import Link from "next/link";
+import type { LineageNode } from "@/lib/lineage";
+
+const EDIT_MODE_LABELS: Record<string, string> = {
+  img2img: "Image-to-image",
+  inpaint: "Inpainting",
+  upscale: "Upscaling",
+};
+
+interface DerivationTreeProps {
+  root: LineageNode;
+  // combinedHashes from the root to the proof being verified
+  path: string[];
+  truncated: boolean;
+}
+
+function describeEdit(node: LineageNode): string {
+  if (!node.parentHash) {
+    return "Original";
+  }
+  if (!node.edit) {
+    return "Derived";
+  }
+  const label = EDIT_MODE_LABELS[node.edit.mode] || node.edit.mode;
+  if (node.edit.scale) {
+    return `${label} ${node.edit.scale}x`;
+  }
+  if (node.edit.strength !== undefined) {
+    return `${label}, strength ${node.edit.strength}`;
+  }
+  return label;
+}
+
+function TreeNode({ node, path }: { node: LineageNode; path: string[] }) {
+  const current = path[path.length - 1] === node.combinedHash;
+  const onPath = path.includes(node.combinedHash);
+
+  return (
+    <li className="mt-2">
+      <div
+        className={`p-3 rounded-lg border text-sm ${
+          current
+            ? "bg-green-100/80 border-green-500"
+            : onPath
+            ? "bg-white/80 border-green-300"
+            : "bg-white/60 border-stone-200"
+        }`}
+      >
+        <div className="flex flex-wrap items-center gap-2">
+          <span className="font-semibold text-stone-800">
+            {describeEdit(node)}
+          </span>
+          {current && (
+            <span className="text-xs bg-green-600 text-white px-2 py-0.5 rounded">
+              this proof
+            </span>
+          )}
+          {node.parentHash &&
+            (node.signed === true ? (
+              <span className="text-xs text-green-700">✅ signed by creator</span>
+            ) : node.signed === false ? (
+              <span className="text-xs text-red-700">
+                ❌ metadata does not match the chain
+              </span>
+            ) : (
+              <span className="text-xs text-stone-500">
+                metadata unavailable
+              </span>
+            ))}
+        </div>
+        {current ? (
+          <p className="font-mono text-xs text-stone-700 break-all mt-1">
+            {node.combinedHash}
+          </p>
+        ) : (
+          <Link
+            href={`/verify?hash=${node.combinedHash}`}
+            className="font-mono text-xs text-blue-700 hover:underline break-all"
+          >
+            {node.combinedHash}
+          </Link>
+        )}
+        <p className="text-xs text-stone-600 mt-1">
+          {node.creator.substring(0, 6)}...{node.creator.substring(38)} ·{" "}
+          {new Date(node.timestamp * 1000).toLocaleString()}
+        </p>
+      </div>
+      {node.children.length > 0 && (
+        <ul className="ml-6 border-l-2 border-green-200 pl-3">
+          {node.children.map((child) => (
+            <TreeNode key={child.combinedHash} node={child} path={path} />
+          ))}
+        </ul>
+      )}
+    </li>
+  );
+}
+
+export default function DerivationTree({
+  root,
+  path,
+  truncated,
+}: DerivationTreeProps) {
+  return (
+    <div>
+      <ul>
+        <TreeNode node={root} path={path} />
+      </ul>
+      {truncated && (
+        <p className="text-xs text-amber-700 mt-2">
+          The tree is too large to show in full; only part of it is listed.
+        </p>
+      )}
+    </div>
+  );
+}
@@ -1,10 +1,23 @@
 "use client";
 
 import { useState } from "react";
-import type { TransparencyData, MusicTransparencyData } from "@/lib/ai";
+import type {
+  TransparencyData,
+  MusicTransparencyData,
+  TextTransparencyData,
+} from "@/lib/ai";
+
+const IMAGE_PROVIDER_LABELS: Record<string, string> = {
+  stability: "Stability AI",
+  openai: "OpenAI Images",
+  replicate: "Replicate",
+  automatic1111: "Automatic1111",
+  comfyui: "ComfyUI",
+  "local-procedural": "Local Procedural (offline)",
+};
 
 interface TransparencyCardProps {
-  transparency: TransparencyData | MusicTransparencyData;
+  transparency: TransparencyData | MusicTransparencyData | TextTransparencyData;
   prompt: string;
 }
 
@@ -15,9 +28,25 @@ export default function TransparencyCard({
   const [copied, setCopied] = useState(false);
 
   const isMusic = "duration" in transparency && !("width" in transparency);
+  const isText = "systemPromptHash" in transparency;
 
   const calculateScore = (): number => {
-    if (isMusic) {
+    if (isText) {
+      const textTransparency = transparency as TextTransparencyData;
+      const fields = [
+        textTransparency.model,
+        textTransparency.provider,
+        textTransparency.temperature,
+        textTransparency.maxTokens,
+        textTransparency.systemPromptHash,
+        textTransparency.prompt,
+        textTransparency.timestamp,
+      ];
+      const filledFields = fields.filter(
+        (field) => field !== undefined && field !== null
+      ).length;
+      return Math.round((filledFields / 7) * 100);
+    } else if (isMusic) {
       const musicTransparency = transparency as MusicTransparencyData;
       const fields = [
         musicTransparency.model,
@@ -67,7 +96,13 @@ export default function TransparencyCard({
 Model: ${transparency.model}
 Provider: ${transparency.provider}`;
 
-    if (isMusic) {
+    if (isText) {
+      const textTransparency = transparency as TextTransparencyData;
+      text += `
+Temperature: ${textTransparency.temperature}
+Max Tokens: ${textTransparency.maxTokens}
+System Prompt Hash: ${textTransparency.systemPromptHash}`;
+    } else if (isMusic) {
       const musicTransparency = transparency as MusicTransparencyData;
       text += `
 Duration: ${musicTransparency.duration || "N/A"} seconds`;
@@ -80,6 +115,35 @@ ${imageTransparency.seed ? `Seed: ${imageTransparency.seed}` : ""}
 ${imageTransparency.sampler ? `Sampler: ${imageTransparency.sampler}` : ""}
 ${
   imageTransparency.cfgScale ? `CFG Scale: ${imageTransparency.cfgScale}` : ""
+}
+${
+  imageTransparency.stylePreset
+    ? `Style Preset: ${imageTransparency.stylePreset}`
+    : ""
+}
+${imageTransparency.editMode ? `Edit: ${imageTransparency.editMode}` : ""}
+${
+  imageTransparency.strength !== undefined
+    ? `Strength: ${imageTransparency.strength}`
+    : ""
+}
+${imageTransparency.scale ? `Upscale: ${imageTransparency.scale}x` : ""}
+${
+  imageTransparency.negativePrompt
+    ? `Negative Prompt: ${imageTransparency.negativePrompt}`
+    : ""
+}
+${imageTransparency.quality ? `Quality: ${imageTransparency.quality}` : ""}
+${imageTransparency.style ? `Style: ${imageTransparency.style}` : ""}
+${
+  imageTransparency.modelVersion
+    ? `Model Version: ${imageTransparency.modelVersion}`
+    : ""
+}
+${
+  imageTransparency.revisedPrompt
+    ? `Revised Prompt: ${imageTransparency.revisedPrompt}`
+    : ""
 }`;
     }
 
@@ -117,15 +181,41 @@ Timestamp: ${new Date(transparency.timestamp).toISOString()}`;
           <div>
             <p className="text-xs text-stone-600 mb-1">Provider</p>
             <p className="text-sm font-semibold text-stone-800 bg-white/80 p-2 rounded border border-blue-200/50">
-              {isMusic
+              {isText
+                ? transparency.provider === "openai"
+                  ? "OpenAI-compatible API"
+                  : "Local Generator"
+                : isMusic
                 ? transparency.provider === "beatoven"
                   ? "BeatOven AI"
                   : "Dummy Audio"
-                : "Stability AI"}
+                : IMAGE_PROVIDER_LABELS[transparency.provider] ||
+                  transparency.provider}
             </p>
           </div>
 
-          {isMusic ? (
+          {isText ? (
+            <>
+              <div>
+                <p className="text-xs text-stone-600 mb-1">Temperature</p>
+                <p className="text-sm font-semibold text-stone-800 bg-white/80 p-2 rounded border border-blue-200/50">
+                  {(transparency as TextTransparencyData).temperature}
+                </p>
+              </div>
+              <div>
+                <p className="text-xs text-stone-600 mb-1">Max Tokens</p>
+                <p className="text-sm font-semibold text-stone-800 bg-white/80 p-2 rounded border border-blue-200/50">
+                  {(transparency as TextTransparencyData).maxTokens}
+                </p>
+              </div>
+              <div className="col-span-2">
+                <p className="text-xs text-stone-600 mb-1">System Prompt Hash</p>
+                <p className="font-mono text-xs text-stone-800 bg-white/80 p-2 rounded border border-blue-200/50 break-all">
+                  {(transparency as TextTransparencyData).systemPromptHash}
+                </p>
+              </div>
+            </>
+          ) : isMusic ? (
             <>
               {(transparency as MusicTransparencyData).duration && (
                 <div>
@@ -177,6 +267,50 @@ Timestamp: ${new Date(transparency.timestamp).toISOString()}`;
                   </p>
                 </div>
               )}
+              {(transparency as TransparencyData).stylePreset && (
+                <div>
+                  <p className="text-xs text-stone-600 mb-1">Style Preset</p>
+                  <p className="text-sm font-semibold text-stone-800 bg-white/80 p-2 rounded border border-blue-200/50">
+                    {(transparency as TransparencyData).stylePreset}
+                  </p>
+                </div>
+              )}
+              {(transparency as TransparencyData).editMode && (
+                <div>
+                  <p className="text-xs text-stone-600 mb-1">Edit</p>
+                  <p className="text-sm font-semibold text-stone-800 bg-white/80 p-2 rounded border border-blue-200/50">
+                    {(transparency as TransparencyData).editMode}
+                    {(transparency as TransparencyData).strength !== undefined &&
+                      `, strength ${(transparency as TransparencyData).strength}`}
+                    {(transparency as TransparencyData).scale &&
+                      ` ${(transparency as TransparencyData).scale}x`}
+                  </p>
+                </div>
+              )}
+              {(transparency as TransparencyData).quality && (
+                <div>
+                  <p className="text-xs text-stone-600 mb-1">Quality</p>
+                  <p className="text-sm font-semibold text-stone-800 bg-white/80 p-2 rounded border border-blue-200/50">
+                    {(transparency as TransparencyData).quality}
+                  </p>
+                </div>
+              )}
+              {(transparency as TransparencyData).style && (
+                <div>
+                  <p className="text-xs text-stone-600 mb-1">Style</p>
+                  <p className="text-sm font-semibold text-stone-800 bg-white/80 p-2 rounded border border-blue-200/50">
+                    {(transparency as TransparencyData).style}
+                  </p>
+                </div>
+              )}
+              {(transparency as TransparencyData).modelVersion && (
+                <div className="col-span-2">
+                  <p className="text-xs text-stone-600 mb-1">Model Version</p>
+                  <p className="font-mono text-xs text-stone-800 bg-white/80 p-2 rounded border border-blue-200/50 break-all">
+                    {(transparency as TransparencyData).modelVersion}
+                  </p>
+                </div>
+              )}
             </>
           )}
         </div>
@@ -188,6 +322,26 @@ Timestamp: ${new Date(transparency.timestamp).toISOString()}`;
           </p>
         </div>
 
+        {"negativePrompt" in transparency && transparency.negativePrompt && (
+          <div>
+            <p className="text-xs text-stone-600 mb-1">Negative Prompt</p>
+            <p className="text-sm text-stone-700 bg-white/80 p-2 rounded border border-blue-200/50">
+              {transparency.negativePrompt}
+            </p>
+          </div>
+        )}
+
+        {"revisedPrompt" in transparency && transparency.revisedPrompt && (
+          <div>
+            <p className="text-xs text-stone-600 mb-1">
+              Prompt as Revised by the Provider
+            </p>
+            <p className="text-sm text-stone-700 bg-white/80 p-2 rounded border border-blue-200/50">
+              {transparency.revisedPrompt}
+            </p>
+          </div>
+        )}
+
         <div>
           <p className="text-xs text-stone-600 mb-1">Generated At</p>
           <p className="text-xs text-stone-700 bg-white/80 p-2 rounded border border-blue-200/50">
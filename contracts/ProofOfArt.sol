@@ -9,12 +9,31 @@ contract ProofOfArt {
         string combinedHash;
         uint256 timestamp;
         string ipfsLink;
+        string metadataLink;
+        // combinedHash of the registered proof this one was derived from;
+        // empty for an original
+        string parentHash;
         bool exists;
     }
 
     mapping(string => ArtProof) public proofs;
     mapping(address => string[]) public creatorProofs;
+    mapping(string => string[]) public outputHashProofs;
+    mapping(string => string[]) public childProofs;
     string[] public allProofHashes;
+    mapping(bytes32 => bool) public usedRegistrationDigests;
+
+    bytes32 private constant DOMAIN_TYPEHASH =
+        keccak256(
+            "EIP712Domain(string name,string version,uint256 chainId,address verifyingContract)"
+        );
+    // signed by the creator once the output exists, so it covers every
+    // field that ends up on chain; timestamp and nonce are those of the
+    // ProofRequest the output was generated under
+    bytes32 private constant PROOF_REGISTRATION_TYPEHASH =
+        keccak256(
+            "ProofRegistration(string combinedHash,string outputHash,string promptHash,string ipfsLink,string metadataLink,string parentHash,uint256 timestamp,string nonce)"
+        );
 
     event ProofRegistered(
         address indexed creator,
@@ -22,40 +41,202 @@ contract ProofOfArt {
         string promptHash,
         string outputHash,
         uint256 timestamp,
-        string ipfsLink
+        string ipfsLink,
+        string metadataLink
     );
 
+    event ProofDerived(string indexed parentHash, string combinedHash);
+
     function registerProof(
         string memory _promptHash,
         string memory _outputHash,
         string memory _combinedHash,
-        string memory _ipfsLink
+        string memory _ipfsLink,
+        string memory _metadataLink,
+        string memory _parentHash,
+        uint256 _signedTimestamp,
+        string memory _nonce
+    ) public {
+        // the creator's own registration uses up their signed one, so it
+        // cannot be relayed again
+        _consumeDigest(
+            _registrationDigest(
+                _promptHash,
+                _outputHash,
+                _combinedHash,
+                _ipfsLink,
+                _metadataLink,
+                _parentHash,
+                _signedTimestamp,
+                _nonce
+            )
+        );
+        _registerProof(
+            msg.sender,
+            _promptHash,
+            _outputHash,
+            _combinedHash,
+            _ipfsLink,
+            _metadataLink,
+            _parentHash
+        );
+    }
+
+    /// Lets a relayer submit a proof on behalf of the wallet that signed the
+    /// EIP-712 ProofRegistration; the recovered signer is recorded as creator.
+    function registerProofWithSignature(
+        string memory _promptHash,
+        string memory _outputHash,
+        string memory _combinedHash,
+        string memory _ipfsLink,
+        string memory _metadataLink,
+        string memory _parentHash,
+        uint256 _signedTimestamp,
+        string memory _nonce,
+        bytes memory _signature
     ) public {
+        bytes32 digest = _registrationDigest(
+            _promptHash,
+            _outputHash,
+            _combinedHash,
+            _ipfsLink,
+            _metadataLink,
+            _parentHash,
+            _signedTimestamp,
+            _nonce
+        );
+        _consumeDigest(digest);
+
+        address signer = _recoverSigner(digest, _signature);
+        require(signer != address(0), "Invalid signature");
+
+        _registerProof(
+            signer,
+            _promptHash,
+            _outputHash,
+            _combinedHash,
+            _ipfsLink,
+            _metadataLink,
+            _parentHash
+        );
+    }
+
+    function _registerProof(
+        address _creator,
+        string memory _promptHash,
+        string memory _outputHash,
+        string memory _combinedHash,
+        string memory _ipfsLink,
+        string memory _metadataLink,
+        string memory _parentHash
+    ) internal {
         require(bytes(_combinedHash).length > 0, "Combined hash cannot be empty");
         require(!proofs[_combinedHash].exists, "Proof already exists");
+        bool derived = bytes(_parentHash).length > 0;
+        require(
+            !derived || proofs[_parentHash].exists,
+            "Parent proof does not exist"
+        );
 
         ArtProof memory newProof = ArtProof({
-            creator: msg.sender,
+            creator: _creator,
             promptHash: _promptHash,
             outputHash: _outputHash,
             combinedHash: _combinedHash,
             timestamp: block.timestamp,
             ipfsLink: _ipfsLink,
+            metadataLink: _metadataLink,
+            parentHash: _parentHash,
             exists: true
         });
 
         proofs[_combinedHash] = newProof;
-        creatorProofs[msg.sender].push(_combinedHash);
+        creatorProofs[_creator].push(_combinedHash);
+        outputHashProofs[_outputHash].push(_combinedHash);
         allProofHashes.push(_combinedHash);
+        if (derived) {
+            childProofs[_parentHash].push(_combinedHash);
+        }
 
         emit ProofRegistered(
-            msg.sender,
+            _creator,
             _combinedHash,
             _promptHash,
             _outputHash,
             block.timestamp,
-            _ipfsLink
+            _ipfsLink,
+            _metadataLink
         );
+        if (derived) {
+            emit ProofDerived(_parentHash, _combinedHash);
+        }
+    }
+
+    function _registrationDigest(
+        string memory _promptHash,
+        string memory _outputHash,
+        string memory _combinedHash,
+        string memory _ipfsLink,
+        string memory _metadataLink,
+        string memory _parentHash,
+        uint256 _signedTimestamp,
+        string memory _nonce
+    ) internal view returns (bytes32) {
+        bytes32 structHash = keccak256(
+            abi.encode(
+                PROOF_REGISTRATION_TYPEHASH,
+                keccak256(bytes(_combinedHash)),
+                keccak256(bytes(_outputHash)),
+                keccak256(bytes(_promptHash)),
+                keccak256(bytes(_ipfsLink)),
+                keccak256(bytes(_metadataLink)),
+                keccak256(bytes(_parentHash)),
+                _signedTimestamp,
+                keccak256(bytes(_nonce))
+            )
+        );
+        return
+            keccak256(abi.encodePacked("\x19\x01", _domainSeparator(), structHash));
+    }
+
+    function _consumeDigest(bytes32 _digest) internal {
+        require(!usedRegistrationDigests[_digest], "Signature already used");
+        usedRegistrationDigests[_digest] = true;
+    }
+
+    function _domainSeparator() internal view returns (bytes32) {
+        return
+            keccak256(
+                abi.encode(
+                    DOMAIN_TYPEHASH,
+                    keccak256(bytes("Authentica")),
+                    keccak256(bytes("1")),
+                    block.chainid,
+                    address(this)
+                )
+            );
+    }
+
+    function _recoverSigner(bytes32 _digest, bytes memory _signature)
+        internal
+        pure
+        returns (address)
+    {
+        require(_signature.length == 65, "Invalid signature length");
+
+        bytes32 r;
+        bytes32 s;
+        uint8 v;
+        assembly {
+            r := mload(add(_signature, 32))
+            s := mload(add(_signature, 64))
+            v := byte(0, mload(add(_signature, 96)))
+        }
+        if (v < 27) {
+            v += 27;
+        }
+
+        return ecrecover(_digest, v, r, s);
     }
 
     function verifyProof(string memory _combinedHash)
@@ -65,7 +246,8 @@ contract ProofOfArt {
             bool exists,
             address creator,
             uint256 timestamp,
-            string memory ipfsLink
+            string memory ipfsLink,
+            string memory metadataLink
         )
     {
         ArtProof memory proof = proofs[_combinedHash];
@@ -73,7 +255,8 @@ contract ProofOfArt {
             proof.exists,
             proof.creator,
             proof.timestamp,
-            proof.ipfsLink
+            proof.ipfsLink,
+            proof.metadataLink
         );
     }
 
@@ -85,6 +268,22 @@ contract ProofOfArt {
         return creatorProofs[_creator];
     }
 
+    function getProofsByOutputHash(string memory _outputHash)
+        public
+        view
+        returns (string[] memory)
+    {
+        return outputHashProofs[_outputHash];
+    }
+
+    function getChildProofs(string memory _combinedHash)
+        public
+        view
+        returns (string[] memory)
+    {
+        return childProofs[_combinedHash];
+    }
+
     function getTotalProofs() public view returns (uint256) {
         return allProofHashes.length;
     }
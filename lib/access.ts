@@ -0,0 +1,108 @@
+import { ethers } from "ethers";
+import type { RecipientWrap } from "./encryption";
+import { readJsonStore, updateJsonStore } from "./store";
+
+const KEY_DIRECTORY_STORE = "encryption-keys";
+const ACCESS_STORE = "access-lists";
+
+// Signed grant/revoke/registration requests older than this are rejected so a
+// captured request cannot be replayed later (e.g. to undo a revoke).
+const REQUEST_MAX_AGE_MS = 10 * 60 * 1000;
+
+type KeyDirectory = Record<string, { publicKey: string; registeredAt: number }>;
+type AccessLists = Record<
+  string,
+  { creator: string; recipients: RecipientWrap[]; updatedAt: number }
+>;
+
+export function getEncryptionKey(address: string): string | null {
+  const directory = readJsonStore<KeyDirectory>(KEY_DIRECTORY_STORE, {});
+  return directory[address.toLowerCase()]?.publicKey || null;
+}
+
+export function registerEncryptionKey(address: string, publicKey: string) {
+  updateJsonStore<KeyDirectory>(KEY_DIRECTORY_STORE, {}, (directory) => ({
+    ...directory,
+    [address.toLowerCase()]: {
+      publicKey: publicKey.replace(/^0x/, "").toLowerCase(),
+      registeredAt: Date.now(),
+    },
+  }));
+}
+
+export function getAccessList(combinedHash: string) {
+  const lists = readJsonStore<AccessLists>(ACCESS_STORE, {});
+  return lists[combinedHash] || null;
+}
+
+export function initializeAccessList(
+  combinedHash: string,
+  creator: string,
+  recipients: RecipientWrap[]
+) {
+  updateJsonStore<AccessLists>(ACCESS_STORE, {}, (lists) => ({
+    ...lists,
+    [combinedHash]: lists[combinedHash] || {
+      creator: creator.toLowerCase(),
+      recipients,
+      updatedAt: Date.now(),
+    },
+  }));
+}
+
+export function grantAccess(combinedHash: string, wrap: RecipientWrap) {
+  const address = wrap.address.toLowerCase();
+  return updateJsonStore<AccessLists>(ACCESS_STORE, {}, (lists) => {
+    const list = lists[combinedHash];
+    if (!list) {
+      throw new Error("no access list for this proof");
+    }
+    return {
+      ...lists,
+      [combinedHash]: {
+        ...list,
+        recipients: [
+          ...list.recipients.filter((r) => r.address !== address),
+          { ...wrap, address },
+        ],
+        updatedAt: Date.now(),
+      },
+    };
+  })[combinedHash];
+}
+
+export function revokeAccess(combinedHash: string, address: string) {
+  const normalized = address.toLowerCase();
+  return updateJsonStore<AccessLists>(ACCESS_STORE, {}, (lists) => {
+    const list = lists[combinedHash];
+    if (!list) {
+      throw new Error("no access list for this proof");
+    }
+    if (normalized === list.creator) {
+      throw new Error("the creator's access cannot be revoked");
+    }
+    return {
+      ...lists,
+      [combinedHash]: {
+        ...list,
+        recipients: list.recipients.filter((r) => r.address !== normalized),
+        updatedAt: Date.now(),
+      },
+    };
+  })[combinedHash];
+}
+
+/**
+ * Recovers the signer of a wallet-signed management message and checks that
+ * the embedded "Issued at" timestamp is recent.
+ */
+export function verifySignedRequest(
+  message: string,
+  signature: string
+): string {
+  const issuedAt = Number(message.match(/Issued at: (\d+)/)?.[1]);
+  if (!issuedAt || Math.abs(Date.now() - issuedAt) > REQUEST_MAX_AGE_MS) {
+    throw new Error("signed request has expired");
+  }
+  return ethers.verifyMessage(message, signature);
+}
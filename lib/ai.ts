@@ -1,12 +1,40 @@
 import axios from "axios";
+import { hashBuffer, hashString } from "./crypto";
+import {
+  editParameters,
+  getDefaultImageProvider,
+  getImageProvider,
+  ImageProvider,
+  ImageProviderName,
+} from "./imageProviders";
+import {
+  EditMode,
+  EditParams,
+  GENERATION_PARAM_NAMES,
+  GenerationParamName,
+  GenerationParams,
+} from "./generationParams";
 
 export interface TransparencyData {
   model: string;
-  provider: "stability";
+  provider: ImageProviderName;
   steps?: number;
   seed?: number;
   sampler?: string;
   cfgScale?: number;
+  negativePrompt?: string;
+  stylePreset?: string;
+  // OpenAI Images settings
+  quality?: string;
+  style?: string;
+  // the prompt as rewritten by the provider, when it reports one
+  revisedPrompt?: string;
+  // Replicate version hash the model id resolved to
+  modelVersion?: string;
+  // edits of a registered image, with the settings the provider used
+  editMode?: EditMode;
+  strength?: number;
+  scale?: number;
   width: number;
   height: number;
   prompt: string;
@@ -18,86 +46,101 @@ export interface ImageGenerationResult {
   transparency: TransparencyData;
 }
 
-export async function generateImage(
-  prompt: string
-): Promise<ImageGenerationResult> {
-  if (!process.env.STABILITY_API_KEY) {
+export interface ImageGenerationOptions {
+  provider?: ImageProviderName;
+  model?: string;
+  params?: GenerationParams;
+}
+
+// an edit together with the images it works on
+export interface ImageEditInput extends EditParams {
+  // the parent proof's output, as registered
+  image: Buffer;
+  // inpainting only; white areas are repainted
+  mask?: Buffer;
+}
+
+function resolveImageModel(options: ImageGenerationOptions): {
+  provider: ImageProvider;
+  model: string;
+} {
+  const provider = options.provider
+    ? getImageProvider(options.provider)
+    : getDefaultImageProvider();
+  if (!provider || !provider.isConfigured()) {
     throw new Error("no key found");
   }
 
-  return await generateImageStability(prompt);
+  const model = options.model || provider.defaultModel;
+  if (!provider.supportsModel(model)) {
+    throw new Error(`${provider.name} does not support model ${model}`);
+  }
+  return { provider, model };
 }
 
-export async function generateImageStability(
-  prompt: string
-): Promise<ImageGenerationResult> {
-  try {
-    const timestamp = Date.now();
-    const cfgScale = 7;
-    const height = 1024;
-    const width = 1024;
-    const steps = 30;
-    const samples = 1;
-
-    const response = await axios.post(
-      "https://api.stability.ai/v1/generation/stable-diffusion-xl-1024-v1-0/text-to-image",
-      {
-        text_prompts: [{ text: prompt }],
-        cfg_scale: cfgScale,
-        height: height,
-        width: width,
-        steps: steps,
-        samples: samples,
-      },
-      {
-        headers: {
-          "Content-Type": "application/json",
-          Accept: "application/json",
-          Authorization: `Bearer ${process.env.STABILITY_API_KEY}`,
-        },
-        responseType: "json",
-      }
+function assertParameters(
+  provider: ImageProvider,
+  model: string,
+  params: GenerationParams,
+  supported: GenerationParamName[]
+): void {
+  const unsupported = GENERATION_PARAM_NAMES.filter(
+    (name) => params[name] !== undefined && !supported.includes(name)
+  );
+  if (unsupported.length > 0) {
+    throw new Error(
+      `${provider.name} ${model} does not take ${unsupported.join(", ")}`
     );
+  }
+}
 
-    const data = response.data;
-
-    if (!data.artifacts || !data.artifacts[0] || !data.artifacts[0].base64) {
-      throw new Error("no image returned");
-    }
+export async function generateImage(
+  prompt: string,
+  options: ImageGenerationOptions = {}
+): Promise<ImageGenerationResult> {
+  const { provider, model } = resolveImageModel(options);
+  const params = options.params || {};
+  assertParameters(provider, model, params, provider.parameters(model));
 
-    const artifact = data.artifacts[0];
-    const base64Image = artifact.base64;
-    const imageBuffer = Buffer.from(base64Image, "base64");
-
-    const transparency: TransparencyData = {
-      model: "stable-diffusion-xl-1024-v1-0",
-      provider: "stability",
-      steps: steps,
-      seed: artifact.seed || undefined,
-      sampler: "Euler a",
-      cfgScale: cfgScale,
-      width: width,
-      height: height,
-      prompt: prompt,
-      timestamp: timestamp,
-    };
+  console.log("generating image with", provider.name, model);
+  return await provider.generate(prompt, model, params);
+}
 
-    return {
-      image: imageBuffer,
-      transparency,
-    };
-  } catch (error: any) {
-    console.error("stability ai generation error:", error);
-    if (error.response) {
-      console.error("stability ai response:", error.response.data);
-      throw new Error(
-        `stability ai error: ${error.response.data?.message || error.message}`
-      );
-    }
-    throw new Error(
-      `failed to generate image with stability ai: ${error.message}`
-    );
+/**
+ * Image-to-image, inpainting or upscaling of the output of the proof
+ * `input.parentHash`. The caller checks that `input.image` is that output;
+ * the result is a new image with its own proof, which records the parent.
+ */
+export async function editImage(
+  prompt: string,
+  input: ImageEditInput,
+  options: ImageGenerationOptions = {}
+): Promise<ImageGenerationResult> {
+  const { provider, model } = resolveImageModel(options);
+  if (!provider.edit || !provider.edits(model).includes(input.mode)) {
+    throw new Error(`${provider.name} ${model} does not support ${input.mode}`);
+  }
+  if (input.mode === "inpaint" && !input.mask) {
+    throw new Error("inpainting needs a mask");
   }
+  if (input.mask && input.maskHash && hashBuffer(input.mask) !== input.maskHash) {
+    throw new Error("mask does not match its maskHash");
+  }
+
+  const params = options.params || {};
+  assertParameters(
+    provider,
+    model,
+    params,
+    editParameters(provider, model, input.mode)
+  );
+
+  console.log(
+    `editing image ${input.parentHash.substring(0, 16)}... (${input.mode}) with`,
+    provider.name,
+    model
+  );
+  return await provider.edit(prompt, model, params, input);
 }
 
 export interface MusicTransparencyData {
@@ -479,3 +522,240 @@ async function generateDummyAudio(
     transparency,
   };
 }
+
+export interface TextTransparencyData {
+  model: string;
+  provider: "openai" | "local";
+  temperature: number;
+  maxTokens: number;
+  // sha-256 of the system prompt, so it can be checked without being published
+  systemPromptHash: string;
+  prompt: string;
+  timestamp: number;
+}
+
+export interface TextGenerationResult {
+  text: string;
+  transparency: TextTransparencyData;
+}
+
+interface TextGenerationOptions {
+  systemPrompt: string;
+  temperature: number;
+  maxTokens: number;
+}
+
+interface TextProvider {
+  name: TextTransparencyData["provider"];
+  model: string;
+  // resolves to the text and the model that actually served the request
+  complete(
+    prompt: string,
+    options: TextGenerationOptions
+  ): Promise<{ text: string; model: string }>;
+}
+
+const TEXT_SYSTEM_PROMPT =
+  "You are a creative writing assistant. Write the requested piece in plain text, without a preamble or closing remarks.";
+const TEXT_TEMPERATURE = 0.7;
+const TEXT_MAX_TOKENS = 512;
+
+export async function generateText(
+  prompt: string
+): Promise<TextGenerationResult> {
+  const timestamp = Date.now();
+  const options: TextGenerationOptions = {
+    systemPrompt: TEXT_SYSTEM_PROMPT,
+    temperature: TEXT_TEMPERATURE,
+    maxTokens: TEXT_MAX_TOKENS,
+  };
+
+  let provider = getTextProvider();
+  let result: { text: string; model: string };
+  try {
+    result = await provider.complete(prompt, options);
+  } catch (error: any) {
+    if (provider.name === "local") {
+      throw error;
+    }
+    console.warn(
+      `${provider.name} text generation failed, falling back to local generator:`,
+      error.message
+    );
+    provider = localTextProvider;
+    result = await provider.complete(prompt, options);
+  }
+
+  const transparency: TextTransparencyData = {
+    model: result.model,
+    provider: provider.name,
+    temperature: options.temperature,
+    maxTokens: options.maxTokens,
+    systemPromptHash: hashString(options.systemPrompt),
+    prompt: prompt,
+    timestamp: timestamp,
+  };
+
+  return {
+    text: result.text,
+    transparency,
+  };
+}
+
+// TEXT_PROVIDER=local forces the offline generator even when a key is set
+function getTextProvider(): TextProvider {
+  const apiKey = process.env.OPENAI_API_KEY?.trim();
+  if (apiKey && process.env.TEXT_PROVIDER !== "local") {
+    return openAiTextProvider(apiKey);
+  }
+  console.log("using local text generation (no llm api key configured)");
+  return localTextProvider;
+}
+
+// any OpenAI-compatible chat completions endpoint (OpenAI, Azure, vLLM,
+// Ollama, ...) selected with OPENAI_BASE_URL
+function openAiTextProvider(apiKey: string): TextProvider {
+  const baseUrl = (
+    process.env.OPENAI_BASE_URL?.trim() || "https://api.openai.com/v1"
+  ).replace(/\/+$/, "");
+  const model = process.env.OPENAI_TEXT_MODEL?.trim() || "gpt-4o-mini";
+
+  return {
+    name: "openai",
+    model,
+    async complete(prompt, options) {
+      try {
+        const response = await axios.post(
+          `${baseUrl}/chat/completions`,
+          {
+            model,
+            messages: [
+              { role: "system", content: options.systemPrompt },
+              { role: "user", content: prompt },
+            ],
+            temperature: options.temperature,
+            max_tokens: options.maxTokens,
+          },
+          {
+            headers: {
+              "Content-Type": "application/json",
+              Authorization: `Bearer ${apiKey}`,
+            },
+            timeout: 60000,
+            responseType: "json",
+          }
+        );
+
+        const text = response.data?.choices?.[0]?.message?.content;
+        if (typeof text !== "string" || !text.trim()) {
+          throw new Error("no text returned");
+        }
+        return { text: text.trim(), model: response.data.model || model };
+      } catch (error: any) {
+        if (error.response) {
+          console.error("llm api response:", error.response.data);
+          throw new Error(
+            `llm api error (${error.response.status}): ${
+              error.response.data?.error?.message || error.message
+            }`
+          );
+        }
+        throw new Error(`failed to generate text: ${error.message}`);
+      }
+    },
+  };
+}
+
+const LOCAL_ADJECTIVES = [
+  "quiet", "restless", "golden", "distant", "bright", "ancient", "gentle",
+  "stubborn", "hollow", "luminous", "patient", "fragile", "wild", "silver",
+];
+const LOCAL_NOUNS = [
+  "river", "lantern", "city", "orchard", "harbour", "mountain", "library",
+  "signal", "window", "forest", "machine", "garden", "bridge", "archive",
+];
+const LOCAL_VERBS = [
+  "remembers", "carries", "waits for", "answers", "gathers", "follows",
+  "shelters", "outlasts", "reflects", "invites", "measures", "echoes",
+];
+const LOCAL_SENTENCES = [
+  "Every {adj} {noun} {verb} the {topic}, and the {topic} {verb} it in return.",
+  "Nobody expected the {topic} to matter this much, least of all the {adj} {noun}.",
+  "Somewhere past the {noun}, the {topic} becomes {adj} again.",
+  "The {topic} is not a destination but a {adj} {noun} that {verb} whoever stays.",
+  "By evening the {noun} had grown {adj}, as if the {topic} had been there all along.",
+  "What the {topic} asks for is simple: a {adj} {noun} and time enough to notice it.",
+  "Ask anyone near the {noun} about the {topic} and they will describe something {adj}.",
+  "In the end the {topic} {verb} the {noun}, {adj} and unhurried.",
+];
+
+/**
+ * Offline stand-in for an LLM: a seeded template writer. The seed covers the
+ * prompt and every generation option, so identical requests give identical
+ * text, which keeps development proofs and text comparisons reproducible.
+ */
+const localTextProvider: TextProvider = {
+  name: "local",
+  model: "local-template-v1",
+  async complete(prompt, options) {
+    let seed = parseInt(
+      hashString(
+        JSON.stringify([
+          prompt,
+          options.systemPrompt,
+          options.temperature,
+          options.maxTokens,
+        ])
+      ).substring(0, 8),
+      16
+    );
+    const random = () => {
+      // mulberry32
+      seed = (seed + 0x6d2b79f5) | 0;
+      let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+      t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+      return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+    const pick = <T>(values: T[]) =>
+      values[Math.floor(random() * values.length)];
+
+    const topics = Array.from(
+      new Set(
+        prompt
+          .toLowerCase()
+          .split(/[^\p{L}\p{N}]+/u)
+          .filter((word) => word.length >= 4)
+      )
+    );
+    if (topics.length === 0) {
+      topics.push("story");
+    }
+
+    // roughly three words to every four tokens
+    const wordBudget = Math.floor(options.maxTokens * 0.75);
+    const paragraphs: string[] = [];
+    let words = 0;
+    while (paragraphs.length < 3 && words < wordBudget) {
+      const sentences: string[] = [];
+      const count = 3 + Math.floor(random() * 2);
+      for (let i = 0; i < count && words < wordBudget; i++) {
+        const sentence = pick(LOCAL_SENTENCES).replace(
+          /\{(adj|noun|verb|topic)\}/g,
+          (_, slot: string) =>
+            slot === "adj"
+              ? pick(LOCAL_ADJECTIVES)
+              : slot === "noun"
+              ? pick(LOCAL_NOUNS)
+              : slot === "verb"
+              ? pick(LOCAL_VERBS)
+              : pick(topics)
+        );
+        sentences.push(sentence);
+        words += sentence.split(" ").length;
+      }
+      paragraphs.push(sentences.join(" "));
+    }
+
+    return { text: paragraphs.join("\n\n"), model: this.model };
+  },
+};
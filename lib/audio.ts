@@ -0,0 +1,159 @@
+import { MPEGDecoder } from "mpg123-decoder";
+
+/**
+ * Server-side audio decoding for fingerprinting. WAV (integer PCM, float and
+ * WAVE_FORMAT_EXTENSIBLE) is decoded here; MP3, which BeatOven delivers, goes
+ * through mpg123 compiled to WebAssembly.
+ */
+export interface DecodedAudio {
+  sampleRate: number;
+  // mono mixdown in -1..1
+  samples: Float32Array;
+}
+
+// guards the decoder against oversized uploads
+const MAX_SECONDS = 10 * 60;
+
+const WAVE_FORMAT_PCM = 1;
+const WAVE_FORMAT_IEEE_FLOAT = 3;
+const WAVE_FORMAT_EXTENSIBLE = 0xfffe;
+
+// MP3 is fed to the decoder in chunks, so decoding stops at MAX_SECONDS
+// without holding the whole track as PCM
+const MP3_CHUNK_BYTES = 64 * 1024;
+
+export async function decodeAudio(buffer: Buffer): Promise<DecodedAudio> {
+  if (
+    buffer.length >= 12 &&
+    buffer.toString("latin1", 0, 4) === "RIFF" &&
+    buffer.toString("latin1", 8, 12) === "WAVE"
+  ) {
+    return decodeWav(buffer);
+  }
+  if (buffer.toString("latin1", 0, 3) === "ID3" || (buffer[0] === 0xff && (buffer[1] & 0xe0) === 0xe0)) {
+    return decodeMp3(buffer);
+  }
+  throw new Error("unsupported audio format (expected WAV or MP3)");
+}
+
+export async function tryDecodeAudio(buffer: Buffer): Promise<DecodedAudio | null> {
+  try {
+    return await decodeAudio(buffer);
+  } catch (error) {
+    console.log("could not decode audio:", (error as Error).message);
+    return null;
+  }
+}
+
+function decodeWav(buffer: Buffer): DecodedAudio {
+  let format = 0;
+  let channels = 0;
+  let sampleRate = 0;
+  let bitsPerSample = 0;
+  let data: Buffer | null = null;
+  let offset = 12;
+
+  while (offset + 8 <= buffer.length) {
+    const id = buffer.toString("latin1", offset, offset + 4);
+    const size = buffer.readUInt32LE(offset + 4);
+    const body = buffer.subarray(offset + 8, Math.min(buffer.length, offset + 8 + size));
+
+    if (id === "fmt " && body.length >= 16) {
+      format = body.readUInt16LE(0);
+      channels = body.readUInt16LE(2);
+      sampleRate = body.readUInt32LE(4);
+      bitsPerSample = body.readUInt16LE(14);
+      if (format === WAVE_FORMAT_EXTENSIBLE && body.length >= 26) {
+        // the sub-format GUID starts with the actual format code
+        format = body.readUInt16LE(24);
+      }
+    } else if (id === "data") {
+      // streamed recordings may leave the size unset; take what is there
+      data = body;
+    }
+    offset += 8 + size + (size & 1);
+  }
+
+  if (!data || channels === 0 || sampleRate === 0) {
+    throw new Error("wav file is missing its fmt or data chunk");
+  }
+  const bytesPerSample = bitsPerSample / 8;
+  const supported =
+    (format === WAVE_FORMAT_PCM && [1, 2, 3, 4].includes(bytesPerSample)) ||
+    (format === WAVE_FORMAT_IEEE_FLOAT && [4, 8].includes(bytesPerSample));
+  if (!supported) {
+    throw new Error(`unsupported wav encoding (format ${format}, ${bitsPerSample} bits)`);
+  }
+
+  const frameSize = bytesPerSample * channels;
+  const frames = Math.min(Math.floor(data.length / frameSize), MAX_SECONDS * sampleRate);
+  const read = sampleReader(data, format, bytesPerSample);
+  const samples = new Float32Array(frames);
+
+  for (let frame = 0; frame < frames; frame++) {
+    let sum = 0;
+    for (let channel = 0; channel < channels; channel++) {
+      sum += read(frame * frameSize + channel * bytesPerSample);
+    }
+    samples[frame] = sum / channels;
+  }
+
+  return { sampleRate, samples };
+}
+
+async function decodeMp3(buffer: Buffer): Promise<DecodedAudio> {
+  const decoder = new MPEGDecoder();
+  await decoder.ready;
+  try {
+    const chunks: Float32Array[] = [];
+    let sampleRate = 0;
+    let frames = 0;
+    for (let offset = 0; offset < buffer.length; offset += MP3_CHUNK_BYTES) {
+      const { channelData, samplesDecoded, sampleRate: rate } = decoder.decode(
+        new Uint8Array(buffer.subarray(offset, offset + MP3_CHUNK_BYTES))
+      );
+      if (samplesDecoded === 0) continue;
+      sampleRate = rate;
+      const take = Math.min(samplesDecoded, MAX_SECONDS * rate - frames);
+      const mono = new Float32Array(take);
+      for (const channel of channelData) {
+        for (let i = 0; i < take; i++) mono[i] += channel[i] / channelData.length;
+      }
+      chunks.push(mono);
+      frames += take;
+      if (frames >= MAX_SECONDS * rate) break;
+    }
+
+    if (frames === 0) {
+      throw new Error("mp3 file has no decodable frames");
+    }
+    const samples = new Float32Array(frames);
+    let at = 0;
+    for (const chunk of chunks) {
+      samples.set(chunk, at);
+      at += chunk.length;
+    }
+    return { sampleRate, samples };
+  } finally {
+    decoder.free();
+  }
+}
+
+function sampleReader(data: Buffer, format: number, bytesPerSample: number) {
+  if (format === WAVE_FORMAT_IEEE_FLOAT) {
+    return bytesPerSample === 4
+      ? (at: number) => data.readFloatLE(at)
+      : (at: number) => data.readDoubleLE(at);
+  }
+  switch (bytesPerSample) {
+    case 1:
+      // 8-bit WAV is unsigned
+      return (at: number) => (data[at] - 128) / 128;
+    case 2:
+      return (at: number) => data.readInt16LE(at) / 32768;
+    case 3:
+      return (at: number) => data.readIntLE(at, 3) / 8388608;
+    default:
+      return (at: number) => data.readInt32LE(at) / 2147483648;
+  }
+}
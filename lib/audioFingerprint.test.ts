@@ -0,0 +1,86 @@
+import { describe, expect, it } from "vitest";
+import {
+  compareAudioFingerprints,
+  computeAudioFingerprint,
+  isAudioFingerprint,
+} from "./audioFingerprint";
+
+const SAMPLE_RATE = 44100;
+
+// the same eight-note melody the dummy generator in lib/ai.ts writes
+function melody(seconds = 10): Float32Array {
+  const notes = [261.63, 293.66, 329.63, 349.23, 392.0, 440.0, 493.88, 523.25];
+  const noteSeconds = 1.25;
+  const samples = new Float32Array(seconds * SAMPLE_RATE);
+  for (let i = 0; i < samples.length; i++) {
+    const time = i / SAMPLE_RATE;
+    const frequency = notes[Math.floor(time / noteSeconds) % notes.length];
+    const t = 2 * Math.PI * frequency * time;
+    const noteTime = time % noteSeconds;
+    const envelope = Math.min(1, noteTime * 2) * Math.min(1, (noteSeconds - noteTime) * 2);
+    const sample =
+      (Math.sin(t) + 0.3 * Math.sin(2 * t) + 0.1 * Math.sin(3 * t) + 0.2 * Math.sin(t / 2)) * envelope;
+    samples[i] = Math.max(-1, Math.min(1, sample)) / 2;
+  }
+  return samples;
+}
+
+function withNoise(samples: Float32Array, amplitude: number): Float32Array {
+  let seed = 1;
+  return samples.map((value) => {
+    seed = (seed * 1103515245 + 12345) & 0x7fffffff;
+    return value + ((seed / 0x7fffffff) * 2 - 1) * amplitude;
+  });
+}
+
+const fingerprint = (samples: Float32Array) =>
+  computeAudioFingerprint({ sampleRate: SAMPLE_RATE, samples });
+
+describe("audio fingerprints", () => {
+  const original = melody();
+  const originalFingerprint = fingerprint(original);
+
+  it("survives a JSON round trip", () => {
+    expect(isAudioFingerprint(JSON.parse(JSON.stringify(originalFingerprint)))).toBe(true);
+    expect(isAudioFingerprint({ ...originalFingerprint, version: 0 })).toBe(false);
+  });
+
+  it("matches a copy with added noise", () => {
+    const match = compareAudioFingerprints(originalFingerprint, fingerprint(withNoise(original, 0.01)));
+    expect(match.matchPercentage).toBeGreaterThan(0.5);
+    expect(match.offsetSeconds).toBe(0);
+    expect(match.edited).toBe(false);
+    expect(match.trimmed).toBe(false);
+  });
+
+  it("places an excerpt in the original", () => {
+    const excerpt = original.slice(Math.round(2.3 * SAMPLE_RATE), Math.round(8.3 * SAMPLE_RATE));
+    const match = compareAudioFingerprints(originalFingerprint, fingerprint(excerpt));
+    expect(match.offsetSeconds).toBeCloseTo(2.3, 1);
+    expect(match.trimmed).toBe(true);
+    expect(match.edited).toBe(false);
+  });
+
+  it("reports a cut near where it was made", () => {
+    const cut = new Float32Array(original.length - 3 * SAMPLE_RATE);
+    cut.set(original.subarray(0, 3 * SAMPLE_RATE));
+    cut.set(original.subarray(6 * SAMPLE_RATE), 3 * SAMPLE_RATE);
+
+    const match = compareAudioFingerprints(originalFingerprint, fingerprint(withNoise(cut, 0.01)));
+    expect(match.edited).toBe(true);
+    expect(match.removed).toHaveLength(1);
+    // peaks sit at note onsets, so the cut is only known to the nearest one
+    expect(Math.abs(match.removed[0].originalStart - 3)).toBeLessThan(0.5);
+    expect(Math.abs(match.removed[0].originalEnd - 6)).toBeLessThan(0.5);
+  });
+
+  it("does not match unrelated audio", () => {
+    const other = new Float32Array(original.length);
+    for (let i = 0; i < other.length; i++) {
+      other[i] = 0.4 * Math.sin((2 * Math.PI * 612 * i) / SAMPLE_RATE) * Math.sin((Math.PI * i) / (0.7 * SAMPLE_RATE));
+    }
+    const match = compareAudioFingerprints(originalFingerprint, fingerprint(other));
+    expect(match.matchPercentage).toBeLessThan(0.2);
+    expect(match.coverage).toBeLessThan(0.2);
+  });
+});
@@ -0,0 +1,524 @@
+import { decodeAudio, DecodedAudio } from "./audio";
+
+/**
+ * Landmark audio fingerprint: spectral peaks of an 11 kHz mono mixdown,
+ * paired with a few later peaks. Each pair hashes its two frequencies and
+ * their time gap, which survive re-encoding, resampling and volume changes.
+ * A copy matches when many hashes agree on one time offset; runs of
+ * agreeing windows give the matched, inserted and trimmed segments.
+ */
+export interface AudioFingerprint {
+  version: number;
+  // seconds of audio the fingerprint covers
+  duration: number;
+  // seconds per fingerprint frame
+  frameSeconds: number;
+  // base64 of little-endian uint32 pairs: hash, anchor frame
+  hashes: string;
+}
+
+export interface AudioSegment {
+  type: "match" | "inserted";
+  uploadStart: number;
+  uploadEnd: number;
+  // where a matched segment sits in the original
+  originalStart?: number;
+  originalEnd?: number;
+}
+
+export interface AudioMatch {
+  // share of the upload's audible windows found in the original, 0..1
+  matchPercentage: number;
+  // share of the original that the upload contains, 0..1
+  coverage: number;
+  // original time = upload time + offset, for the longest matched segment
+  offsetSeconds: number | null;
+  matchedHashes: number;
+  segments: AudioSegment[];
+  // parts of the original missing from the upload
+  removed: { originalStart: number; originalEnd: number }[];
+  trimmed: boolean;
+  edited: boolean;
+}
+
+export const FINGERPRINT_VERSION = 2;
+
+const SAMPLE_RATE = 11025;
+const FRAME_SIZE = 1024;
+const HOP_SIZE = 256;
+const FRAME_SECONDS = HOP_SIZE / SAMPLE_RATE;
+const BINS = FRAME_SIZE / 2;
+// a peak is the maximum of this neighbourhood, in frames and bins
+const PEAK_FRAMES = 8;
+const PEAK_BINS = 16;
+// natural-log power, under half a dB: values this close to the
+// neighbourhood maximum tie with it
+const PEAK_TIE = 0.1;
+const PEAKS_PER_SECOND = 24;
+// natural-log power below the second's loudest peak, about 22 dB
+const PEAK_RANGE = 5;
+// each peak pairs with the next few peaks this many frames ahead at most
+const FAN_OUT = 5;
+const MAX_PAIR_FRAMES = 63;
+// one alignment window is about a second of the upload
+const WINDOW_FRAMES = 43;
+const MIN_WINDOW_MATCHES = 4;
+// hashes at offsets this close (in frames) count as the same alignment
+const OFFSET_TOLERANCE = 2;
+// gaps shorter than this (seconds) are not reported as edits
+const MIN_EDIT_SECONDS = 1.5;
+
+export function computeAudioFingerprint(audio: DecodedAudio): AudioFingerprint {
+  const samples = resample(audio.samples, audio.sampleRate, SAMPLE_RATE);
+  const spectrogram = logSpectrogram(samples);
+  const peaks = findPeaks(spectrogram);
+  const pairs = pairPeaks(peaks);
+
+  return {
+    version: FINGERPRINT_VERSION,
+    duration: Math.round((samples.length / SAMPLE_RATE) * 100) / 100,
+    frameSeconds: FRAME_SECONDS,
+    hashes: encodePairs(pairs),
+  };
+}
+
+export async function fingerprintAudioBuffer(buffer: Buffer): Promise<AudioFingerprint> {
+  return computeAudioFingerprint(await decodeAudio(buffer));
+}
+
+export function isAudioFingerprint(value: any): value is AudioFingerprint {
+  return (
+    !!value &&
+    value.version === FINGERPRINT_VERSION &&
+    typeof value.hashes === "string" &&
+    typeof value.duration === "number"
+  );
+}
+
+function encodePairs(pairs: Uint32Array): string {
+  const bytes = Buffer.alloc(pairs.length * 4);
+  pairs.forEach((value, i) => bytes.writeUInt32LE(value, i * 4));
+  return bytes.toString("base64");
+}
+
+function decodePairs(fingerprint: AudioFingerprint): Uint32Array {
+  const bytes = Buffer.from(fingerprint.hashes, "base64");
+  const pairs = new Uint32Array(bytes.length >> 2);
+  for (let i = 0; i < pairs.length; i++) {
+    pairs[i] = bytes.readUInt32LE(i * 4);
+  }
+  return pairs;
+}
+
+/**
+ * Aligns the upload against the original. Every shared hash votes for an
+ * offset; each window of the upload takes the offset most of its votes
+ * agree on, and neighbouring windows with the same offset form a segment.
+ */
+export function compareAudioFingerprints(
+  original: AudioFingerprint,
+  upload: AudioFingerprint
+): AudioMatch {
+  const originalPairs = decodePairs(original);
+  const uploadPairs = decodePairs(upload);
+
+  const index = new Map<number, number[]>();
+  for (let i = 0; i < originalPairs.length; i += 2) {
+    const times = index.get(originalPairs[i]);
+    if (times) times.push(originalPairs[i + 1]);
+    else index.set(originalPairs[i], [originalPairs[i + 1]]);
+  }
+
+  const uploadFrames = Math.ceil(upload.duration / FRAME_SECONDS);
+  const windows = Math.max(1, Math.ceil(uploadFrames / WINDOW_FRAMES));
+  const votes: Map<number, number>[] = Array.from({ length: windows }, () => new Map());
+  const hashesPerWindow = new Array(windows).fill(0);
+  const hits: Hit[] = [];
+  let matchedHashes = 0;
+
+  for (let i = 0; i < uploadPairs.length; i += 2) {
+    const frame = uploadPairs[i + 1];
+    const window = Math.min(windows - 1, Math.floor(frame / WINDOW_FRAMES));
+    hashesPerWindow[window]++;
+    const times = index.get(uploadPairs[i]);
+    if (!times) continue;
+    matchedHashes++;
+    for (const time of times) {
+      const offset = time - frame;
+      votes[window].set(offset, (votes[window].get(offset) || 0) + 1);
+      hits.push({ frame, end: frame + (uploadPairs[i] & 63), offset });
+    }
+  }
+
+  // null: silent window with nothing to match; NaN: audible but unmatched
+  const windowOffsets = votes.map((windowVotes, window) => {
+    if (hashesPerWindow[window] < MIN_WINDOW_MATCHES) return null;
+    let best = NaN;
+    let bestCount = 0;
+    windowVotes.forEach((_, offset) => {
+      let count = 0;
+      for (let d = -OFFSET_TOLERANCE; d <= OFFSET_TOLERANCE; d++) {
+        count += windowVotes.get(offset + d) || 0;
+      }
+      if (count > bestCount) {
+        best = offset;
+        bestCount = count;
+      }
+    });
+    return bestCount >= MIN_WINDOW_MATCHES ? best : NaN;
+  });
+
+  const segments = buildSegments(windowOffsets, hits, upload.duration, original.duration);
+  const audible = windowOffsets.filter((offset) => offset !== null).length;
+  const matched = windowOffsets.filter((offset) => offset !== null && !Number.isNaN(offset)).length;
+
+  // parts of the original not covered by any matched segment
+  const covered = segments
+    .filter((segment) => segment.type === "match")
+    .map((segment) => [segment.originalStart!, segment.originalEnd!] as const)
+    .sort((a, b) => a[0] - b[0]);
+  const removed: AudioMatch["removed"] = [];
+  let cursor = 0;
+  let coveredSeconds = 0;
+  for (const [start, end] of covered) {
+    if (start - cursor >= MIN_EDIT_SECONDS) {
+      removed.push({ originalStart: round(cursor), originalEnd: round(start) });
+    }
+    coveredSeconds += Math.max(0, end - Math.max(cursor, start));
+    cursor = Math.max(cursor, end);
+  }
+  if (covered.length > 0 && original.duration - cursor >= MIN_EDIT_SECONDS) {
+    removed.push({ originalStart: round(cursor), originalEnd: round(original.duration) });
+  }
+
+  const longest = segments
+    .filter((segment) => segment.type === "match")
+    .sort((a, b) => b.uploadEnd - b.uploadStart - (a.uploadEnd - a.uploadStart))[0];
+  const trimmed =
+    removed.length > 0 &&
+    (removed[0].originalStart === 0 || removed[removed.length - 1].originalEnd === round(original.duration));
+  const matchSegments = segments.filter((segment) => segment.type === "match");
+  const inserted = segments.some((segment) => segment.type === "inserted");
+
+  return {
+    matchPercentage: audible > 0 ? round(matched / audible, 4) : 0,
+    coverage: original.duration > 0 ? round(Math.min(1, coveredSeconds / original.duration), 4) : 0,
+    offsetSeconds: longest ? round(longest.originalStart! - longest.uploadStart) : null,
+    matchedHashes,
+    segments,
+    removed,
+    trimmed,
+    // a cut or splice inside the track, rather than at its ends
+    edited:
+      inserted ||
+      matchSegments.length > 1 ||
+      removed.some(
+        (gap) => gap.originalStart > 0 && gap.originalEnd < round(original.duration)
+      ),
+  };
+}
+
+// a shared hash: its anchor and target frame in the upload, and the offset
+// it votes for
+interface Hit {
+  frame: number;
+  end: number;
+  offset: number;
+}
+
+function buildSegments(
+  windowOffsets: (number | null)[],
+  hits: Hit[],
+  duration: number,
+  originalDuration: number
+): AudioSegment[] {
+  const windowSeconds = WINDOW_FRAMES * FRAME_SECONDS;
+  const uploadFrames = Math.ceil(duration / FRAME_SECONDS);
+  const originalFrames = Math.ceil(originalDuration / FRAME_SECONDS);
+  const sameOffset = (a: number, b: number) => Math.abs(a - b) <= OFFSET_TOLERANCE * 2;
+
+  // silent windows join the audio before them; leading and trailing
+  // silence belongs to no segment
+  const first = windowOffsets.findIndex((offset) => offset !== null);
+  let last = windowOffsets.length - 1;
+  while (last >= 0 && windowOffsets[last] === null) last--;
+
+  const runs: { offset: number; start: number; end: number }[] = [];
+  for (let i = Math.max(0, first); i <= last; i++) {
+    const offset = windowOffsets[i] ?? runs[runs.length - 1].offset;
+    const run = runs[runs.length - 1];
+    if (run && (Number.isNaN(offset) ? Number.isNaN(run.offset) : sameOffset(run.offset, offset))) {
+      run.end = i + 1;
+    } else {
+      runs.push({ offset, start: i, end: i + 1 });
+    }
+  }
+
+  const join = (list: typeof runs) => {
+    const joined: typeof runs = [];
+    for (const run of list) {
+      const previous = joined[joined.length - 1];
+      if (
+        previous &&
+        (Number.isNaN(run.offset)
+          ? Number.isNaN(previous.offset)
+          : !Number.isNaN(previous.offset) && sameOffset(previous.offset, run.offset))
+      ) {
+        previous.end = run.end;
+      } else {
+        joined.push({ ...run });
+      }
+    }
+    return joined;
+  };
+
+  // an unmatched run this short is noise, not an insertion; the matches on
+  // either side of it usually agree and are joined
+  const kept = join(
+    runs.filter(
+      (run) => !Number.isNaN(run.offset) || (run.end - run.start) * windowSeconds >= MIN_EDIT_SECONDS
+    )
+  );
+
+  // Peaks of sustained sounds land on other frames when the upload does not
+  // start on a frame boundary of the original, so whole stretches of a plain
+  // excerpt can fail to match. Only the offsets around an unmatched run show
+  // an insertion: matches that agree on either side of it, or a run that
+  // still falls inside the original at its one neighbour's offset, mean it
+  // is original audio in place.
+  for (let i = 0; i < kept.length; i++) {
+    const run = kept[i];
+    if (!Number.isNaN(run.offset)) continue;
+    const previous = kept[i - 1];
+    const next = kept[i + 1];
+    if (previous && next) {
+      if (sameOffset(previous.offset, next.offset)) run.offset = previous.offset;
+    } else if (next) {
+      if (run.start * WINDOW_FRAMES + next.offset >= -OFFSET_TOLERANCE) run.offset = next.offset;
+    } else if (previous) {
+      const end = Math.min(uploadFrames, run.end * WINDOW_FRAMES);
+      if (end + previous.offset <= originalFrames + OFFSET_TOLERANCE) run.offset = previous.offset;
+    }
+  }
+  const merged = join(kept).map((run) => ({
+    offset: run.offset,
+    start: run.start * WINDOW_FRAMES,
+    end: run.end * WINDOW_FRAMES,
+  }));
+  if (merged.length > 0) {
+    merged[0].start = Math.max(0, first) * WINDOW_FRAMES;
+    merged[merged.length - 1].end = (last + 1) * WINDOW_FRAMES;
+  }
+
+  // Window edges are a second apart, and dropped runs leave gaps. A
+  // matched run reaches from the first hash that agrees with its offset to
+  // the last frame those hashes cover; what lies between two matched runs
+  // is split evenly, and an inserted run takes all of it.
+  const agreeing = (run: (typeof merged)[number]) =>
+    Number.isNaN(run.offset)
+      ? []
+      : hits.filter(
+          (hit) => hit.frame >= run.start && hit.frame < run.end && sameOffset(hit.offset, run.offset)
+        );
+  for (let i = 1; i < merged.length; i++) {
+    const previous = merged[i - 1];
+    const next = merged[i];
+    const previousEnd = agreeing(previous).reduce((end, hit) => Math.max(end, hit.end), -Infinity);
+    const nextStart = agreeing(next).reduce((start, hit) => Math.min(start, hit.frame), Infinity);
+    let boundary: number;
+    if (Number.isFinite(previousEnd) && Number.isFinite(nextStart)) {
+      boundary = previousEnd < nextStart ? Math.round((previousEnd + nextStart) / 2) : nextStart;
+    } else if (Number.isFinite(previousEnd)) {
+      boundary = previousEnd;
+    } else if (Number.isFinite(nextStart)) {
+      boundary = nextStart;
+    } else {
+      boundary = previous.end;
+    }
+    boundary = Math.min(Math.max(boundary, previous.start + 1), next.end - 1);
+    previous.end = boundary;
+    next.start = boundary;
+  }
+
+  return merged.map((run) => {
+    const uploadStart = run.start * FRAME_SECONDS;
+    const uploadEnd = Math.min(duration, run.end * FRAME_SECONDS);
+    if (Number.isNaN(run.offset)) {
+      return { type: "inserted", uploadStart: round(uploadStart), uploadEnd: round(uploadEnd) };
+    }
+    const shift = run.offset * FRAME_SECONDS;
+    return {
+      type: "match",
+      uploadStart: round(uploadStart),
+      uploadEnd: round(uploadEnd),
+      originalStart: round(Math.max(0, uploadStart + shift)),
+      originalEnd: round(uploadEnd + shift),
+    };
+  });
+}
+
+/** Box-filter resampling: each output sample averages the input it covers. */
+function resample(samples: Float32Array, from: number, to: number): Float32Array {
+  if (from === to) return samples;
+  const ratio = from / to;
+  const out = new Float32Array(Math.floor(samples.length / ratio));
+  for (let i = 0; i < out.length; i++) {
+    const start = Math.floor(i * ratio);
+    const end = Math.max(start + 1, Math.min(samples.length, Math.floor((i + 1) * ratio)));
+    let sum = 0;
+    for (let j = start; j < end; j++) sum += samples[j];
+    out[i] = sum / (end - start);
+  }
+  return out;
+}
+
+// Hann window and FFT twiddles, computed once
+const WINDOW = Float64Array.from(
+  { length: FRAME_SIZE },
+  (_, i) => 0.5 - 0.5 * Math.cos((2 * Math.PI * i) / FRAME_SIZE)
+);
+const COS = Float64Array.from({ length: FRAME_SIZE / 2 }, (_, i) => Math.cos((2 * Math.PI * i) / FRAME_SIZE));
+const SIN = Float64Array.from({ length: FRAME_SIZE / 2 }, (_, i) => -Math.sin((2 * Math.PI * i) / FRAME_SIZE));
+
+function fft(re: Float64Array, im: Float64Array) {
+  const n = re.length;
+  for (let i = 1, j = 0; i < n; i++) {
+    let bit = n >> 1;
+    for (; j & bit; bit >>= 1) j ^= bit;
+    j ^= bit;
+    if (i < j) {
+      [re[i], re[j]] = [re[j], re[i]];
+      [im[i], im[j]] = [im[j], im[i]];
+    }
+  }
+  for (let size = 2; size <= n; size <<= 1) {
+    const step = n / size;
+    for (let start = 0; start < n; start += size) {
+      for (let k = 0; k < size / 2; k++) {
+        const a = start + k;
+        const b = a + size / 2;
+        const tRe = re[b] * COS[k * step] - im[b] * SIN[k * step];
+        const tIm = re[b] * SIN[k * step] + im[b] * COS[k * step];
+        re[b] = re[a] - tRe;
+        im[b] = im[a] - tIm;
+        re[a] += tRe;
+        im[a] += tIm;
+      }
+    }
+  }
+}
+
+function logSpectrogram(samples: Float32Array): Float32Array[] {
+  const frames: Float32Array[] = [];
+  const re = new Float64Array(FRAME_SIZE);
+  const im = new Float64Array(FRAME_SIZE);
+  for (let start = 0; start + FRAME_SIZE <= samples.length; start += HOP_SIZE) {
+    for (let i = 0; i < FRAME_SIZE; i++) {
+      re[i] = samples[start + i] * WINDOW[i];
+      im[i] = 0;
+    }
+    fft(re, im);
+    const frame = new Float32Array(BINS);
+    for (let bin = 0; bin < BINS; bin++) {
+      frame[bin] = Math.log(1e-6 + re[bin] * re[bin] + im[bin] * im[bin]);
+    }
+    frames.push(frame);
+  }
+  return frames;
+}
+
+interface Peak {
+  frame: number;
+  bin: number;
+  value: number;
+}
+
+/**
+ * Local maxima over a PEAK_FRAMES x PEAK_BINS neighbourhood, louder than
+ * their frame's mean, thinned to the strongest PEAKS_PER_SECOND per second.
+ * Of the values within PEAK_TIE of the maximum, the earliest (then lowest
+ * bin) is the peak.
+ */
+function findPeaks(spectrogram: Float32Array[]): Peak[] {
+  const frames = spectrogram.length;
+  // maximum over the frequency neighbourhood, then over time
+  const bandMax = spectrogram.map((frame) => {
+    const out = new Float32Array(BINS);
+    for (let bin = 0; bin < BINS; bin++) {
+      let max = -Infinity;
+      for (let b = Math.max(0, bin - PEAK_BINS); b <= Math.min(BINS - 1, bin + PEAK_BINS); b++) {
+        if (frame[b] > max) max = frame[b];
+      }
+      out[bin] = max;
+    }
+    return out;
+  });
+
+  const secondFrames = Math.round(1 / FRAME_SECONDS);
+  const peaks: Peak[] = [];
+  for (let second = 0; second < frames; second += secondFrames) {
+    const candidates: Peak[] = [];
+    for (let frame = second; frame < Math.min(frames, second + secondFrames); frame++) {
+      const values = spectrogram[frame];
+      let mean = 0;
+      for (let bin = 0; bin < BINS; bin++) mean += values[bin];
+      mean /= BINS;
+
+      // bin 0 is DC
+      for (let bin = 1; bin < BINS; bin++) {
+        const value = values[bin];
+        // silence sits near log(1e-6)
+        if (value < mean + 2 || value < -10) continue;
+        const from = Math.max(0, frame - PEAK_FRAMES);
+        const to = Math.min(frames - 1, frame + PEAK_FRAMES);
+        let max = -Infinity;
+        for (let f = from; f <= to; f++) {
+          if (bandMax[f][bin] > max) max = bandMax[f][bin];
+        }
+        if (value < max - PEAK_TIE) continue;
+        // a sustained tone is near its maximum on many frames, and noise
+        // decides which is highest; the earliest near-maximum always wins
+        let isPeak = true;
+        for (let f = from; f < frame && isPeak; f++) {
+          if (bandMax[f][bin] >= max - PEAK_TIE) isPeak = false;
+        }
+        for (let b = Math.max(1, bin - PEAK_BINS); b < bin && isPeak; b++) {
+          if (values[b] >= max - PEAK_TIE) isPeak = false;
+        }
+        if (isPeak) candidates.push({ frame, bin, value });
+      }
+    }
+    // weak maxima in the noise floor move with any re-encode; keep the
+    // ones close to the loudest of the second
+    candidates.sort((a, b) => b.value - a.value);
+    peaks.push(
+      ...candidates
+        .filter((peak) => peak.value >= candidates[0].value - PEAK_RANGE)
+        .slice(0, PEAKS_PER_SECOND)
+    );
+  }
+
+  return peaks.sort((a, b) => a.frame - b.frame || a.bin - b.bin);
+}
+
+// hash: 9 bits anchor bin, 9 bits target bin, 6 bits frame gap
+function pairPeaks(peaks: Peak[]): Uint32Array {
+  const pairs: number[] = [];
+  for (let i = 0; i < peaks.length; i++) {
+    const anchor = peaks[i];
+    let paired = 0;
+    for (let j = i + 1; j < peaks.length && paired < FAN_OUT; j++) {
+      const gap = peaks[j].frame - anchor.frame;
+      if (gap === 0) continue;
+      if (gap > MAX_PAIR_FRAMES) break;
+      pairs.push(((anchor.bin << 15) | (peaks[j].bin << 6) | gap) >>> 0, anchor.frame);
+      paired++;
+    }
+  }
+  return Uint32Array.from(pairs);
+}
+
+function round(value: number, digits = 2): number {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+}
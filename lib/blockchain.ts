@@ -1,5 +1,6 @@
 import { ethers } from "ethers";
 import { ProofOfArtABI } from "./contract-abi";
+import { isValidCid } from "./cid";
 
 function getContractAddress(): string {
   if (typeof window !== "undefined") {
@@ -8,6 +9,17 @@ function getContractAddress(): string {
   return process.env.NEXT_PUBLIC_CONTRACT_ADDRESS || "";
 }
 
+// Placeholders such as "ipfs-upload-failed" used to end up on chain, where
+// they can never be fixed; only real CIDs may be registered.
+function assertStoredLinks(proofData: {
+  ipfsLink: string;
+  metadataLink: string;
+}) {
+  if (!isValidCid(proofData.ipfsLink) || !isValidCid(proofData.metadataLink)) {
+    throw new Error("content is not stored on ipfs yet");
+  }
+}
+
 const RPC_URL = process.env.NEXT_PUBLIC_RPC_URL || "http://localhost:8545";
 
 export function getContract(signerOrProvider: ethers.Signer | ethers.Provider) {
@@ -23,8 +35,18 @@ export async function registerProofOnChain(
     outputHash: string;
     combinedHash: string;
     ipfsLink: string;
+    metadataLink: string;
+    // combinedHash of the proof this one was derived from, if any
+    parentHash?: string;
+    // of the signed ProofRequest; registering uses up the matching
+    // ProofRegistration so it cannot be relayed afterwards
+    timestamp: number;
+    nonce: string;
   }
 ): Promise<string> {
+  assertStoredLinks(proofData);
+  const parentHash = proofData.parentHash || "";
+
   try {
     const contractAddress = getContractAddress();
 
@@ -58,6 +80,8 @@ export async function registerProofOnChain(
       outputHash: proofData.outputHash.substring(0, 20) + "...",
       combinedHash: proofData.combinedHash.substring(0, 20) + "...",
       ipfsLink: proofData.ipfsLink.substring(0, 20) + "...",
+      metadataLink: proofData.metadataLink.substring(0, 20) + "...",
+      parentHash: parentHash ? parentHash.substring(0, 20) + "..." : "none",
     });
 
     let tx;
@@ -66,7 +90,11 @@ export async function registerProofOnChain(
         proofData.promptHash,
         proofData.outputHash,
         proofData.combinedHash,
-        proofData.ipfsLink
+        proofData.ipfsLink,
+        proofData.metadataLink,
+        parentHash,
+        proofData.timestamp,
+        proofData.nonce
       );
       console.log("gas estimated:", gasEstimate.toString());
 
@@ -75,6 +103,10 @@ export async function registerProofOnChain(
         proofData.outputHash,
         proofData.combinedHash,
         proofData.ipfsLink,
+        proofData.metadataLink,
+        parentHash,
+        proofData.timestamp,
+        proofData.nonce,
         {
           gasLimit: gasEstimate + gasEstimate / 10n,
         }
@@ -89,7 +121,11 @@ export async function registerProofOnChain(
         proofData.promptHash,
         proofData.outputHash,
         proofData.combinedHash,
-        proofData.ipfsLink
+        proofData.ipfsLink,
+        proofData.metadataLink,
+        parentHash,
+        proofData.timestamp,
+        proofData.nonce
       );
     }
 
@@ -132,6 +168,68 @@ export async function registerProofOnChain(
   }
 }
 
+/**
+ * Relayer path: submits a proof signed by the creator's wallet. The contract
+ * recovers the signer from the EIP-712 ProofRegistration and records it as
+ * creator, so the relayer only pays gas.
+ */
+export async function registerSignedProofOnChain(
+  relayer: ethers.Signer,
+  proofData: {
+    promptHash: string;
+    outputHash: string;
+    combinedHash: string;
+    ipfsLink: string;
+    metadataLink: string;
+    parentHash?: string;
+    timestamp: number;
+    nonce: string;
+    signature: string;
+  }
+): Promise<string> {
+  assertStoredLinks(proofData);
+
+  try {
+    const contractAddress = getContractAddress();
+
+    if (!contractAddress || contractAddress === "") {
+      throw new Error("no contact address");
+    }
+
+    const contract = getContract(relayer);
+
+    console.log("relaying signed proof:", {
+      combinedHash: proofData.combinedHash.substring(0, 20) + "...",
+      relayer: await relayer.getAddress(),
+    });
+
+    const tx = await contract.registerProofWithSignature(
+      proofData.promptHash,
+      proofData.outputHash,
+      proofData.combinedHash,
+      proofData.ipfsLink,
+      proofData.metadataLink,
+      proofData.parentHash || "",
+      proofData.timestamp,
+      proofData.nonce,
+      proofData.signature
+    );
+
+    console.log("relayed transaction sent! hash:", tx.hash);
+    const receipt = await tx.wait();
+    console.log("relayed transaction confirmed in block:", receipt.blockNumber);
+
+    return receipt.hash;
+  } catch (error: any) {
+    console.error("blockchain relay error:", error);
+    throw new Error(
+      `Failed to relay signed proof to blockchain: ${
+        error.message || "Unknown error"
+      }`
+    );
+  }
+}
+
 export async function verifyProofOnChain(
   provider: ethers.Provider,
   combinedHash: string
@@ -140,6 +238,7 @@ export async function verifyProofOnChain(
   creator: string;
   timestamp: number;
   ipfsLink: string;
+  metadataLink: string;
 }> {
   try {
     const contractAddress = getContractAddress();
@@ -169,6 +268,7 @@ export async function verifyProofOnChain(
       creator: result[1],
       timestamp: result[2].toString(),
       ipfsLink: result[3],
+      metadataLink: result[4],
     });
 
     return {
@@ -176,6 +276,7 @@ export async function verifyProofOnChain(
       creator: result[1],
       timestamp: Number(result[2]),
       ipfsLink: result[3],
+      metadataLink: result[4],
     };
   } catch (error: any) {
     console.error("blockchain verification error:", error);
@@ -200,6 +301,155 @@ export async function verifyProofOnChain(
   }
 }
 
+export async function verifyOutputHashOnChain(
+  provider: ethers.Provider,
+  outputHash: string
+): Promise<
+  {
+    combinedHash: string;
+    exists: boolean;
+    creator: string;
+    timestamp: number;
+    ipfsLink: string;
+    metadataLink: string;
+  }[]
+> {
+  try {
+    const contractAddress = getContractAddress();
+
+    if (!contractAddress || contractAddress === "") {
+      throw new Error("no contract address");
+    }
+
+    const contract = getContract(provider);
+
+    console.log("looking up proofs by output hash:", {
+      outputHash: outputHash.substring(0, 20) + "...",
+      contractAddress,
+    });
+
+    const combinedHashes: string[] = Array.from(
+      await contract.getProofsByOutputHash(outputHash)
+    );
+    console.log("proofs found for output hash:", combinedHashes.length);
+
+    return await Promise.all(
+      combinedHashes.map(async (combinedHash) => ({
+        combinedHash,
+        ...(await verifyProofOnChain(provider, combinedHash)),
+      }))
+    );
+  } catch (error: any) {
+    console.error("blockchain output hash lookup error:", error);
+
+    if (error.code === "CALL_EXCEPTION" || error.code === "BAD_DATA") {
+      throw new Error(`Contract call failed`);
+    }
+
+    throw new Error(
+      `failed to look up output hash on blockchain: ${
+        error.message || "Unknown error"
+      }`
+    );
+  }
+}
+
+export interface OnChainProofRecord {
+  exists: boolean;
+  creator: string;
+  promptHash: string;
+  outputHash: string;
+  combinedHash: string;
+  timestamp: number;
+  ipfsLink: string;
+  metadataLink: string;
+  // empty for a proof that was not derived from another
+  parentHash: string;
+}
+
+export async function getProofRecordOnChain(
+  provider: ethers.Provider,
+  combinedHash: string
+): Promise<OnChainProofRecord> {
+  try {
+    const contractAddress = getContractAddress();
+
+    if (!contractAddress || contractAddress === "") {
+      throw new Error("no contract address");
+    }
+
+    const code = await provider.getCode(contractAddress);
+    if (code === "0x") {
+      throw new Error(`no contract found at address ${contractAddress}`);
+    }
+
+    const contract = getContract(provider);
+    const result = await contract.proofs(combinedHash);
+
+    return {
+      creator: result[0],
+      promptHash: result[1],
+      outputHash: result[2],
+      combinedHash: result[3],
+      timestamp: Number(result[4]),
+      ipfsLink: result[5],
+      metadataLink: result[6],
+      parentHash: result[7],
+      exists: result[8],
+    };
+  } catch (error: any) {
+    console.error("blockchain proof lookup error:", error);
+
+    if (error.code === "CALL_EXCEPTION" || error.code === "BAD_DATA") {
+      throw new Error(`Contract call failed`);
+    }
+
+    throw new Error(
+      `failed to read proof from blockchain: ${
+        error.message || "Unknown error"
+      }`
+    );
+  }
+}
+
+// proofs registered as derived from combinedHash, in registration order
+export async function getChildProofsOnChain(
+  provider: ethers.Provider,
+  combinedHash: string
+): Promise<string[]> {
+  try {
+    const contractAddress = getContractAddress();
+
+    if (!contractAddress || contractAddress === "") {
+      throw new Error("no contract address");
+    }
+
+    const contract = getContract(provider);
+    return Array.from(await contract.getChildProofs(combinedHash));
+  } catch (error: any) {
+    console.error("blockchain child proof lookup error:", error);
+
+    if (error.code === "CALL_EXCEPTION" || error.code === "BAD_DATA") {
+      throw new Error(`Contract call failed`);
+    }
+
+    throw new Error(
+      `failed to look up derived proofs on blockchain: ${
+        error.message || "Unknown error"
+      }`
+    );
+  }
+}
+
 export function getProvider(): ethers.JsonRpcProvider {
   return new ethers.JsonRpcProvider(RPC_URL);
 }
+
+// the wallet that pays gas for /api/relay; null when relaying is disabled
+export function getRelayer(): ethers.Wallet | null {
+  const privateKey = process.env.RELAYER_PRIVATE_KEY;
+  if (!privateKey) {
+    return null;
+  }
+  return new ethers.Wallet(privateKey, getProvider());
+}
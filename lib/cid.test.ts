@@ -0,0 +1,45 @@
+import { describe, expect, it } from "vitest";
+import { CHUNK_SIZE, computeCid, isValidCid, verifyCid } from "./cid";
+
+// what `ipfs add` (CIDv0) and `ipfs add --cid-version 1` print for "hello world\n"
+const HELLO = Buffer.from("hello world\n");
+const HELLO_V0 = "QmT78zSuBmuS4z925WZfrqQ1qHaJ56DQaTfyMUF7F8ff5o";
+const HELLO_V1 = "bafkreifjjcie6lypi6ny7amxnfftagclbuxndqonfipmb64f2km2devei4";
+
+describe("computeCid", () => {
+  it("matches the CIDs ipfs assigns to a single-chunk file", async () => {
+    expect(await computeCid(HELLO)).toBe(HELLO_V1);
+    expect(await computeCid(HELLO, { cidVersion: 0 })).toBe(HELLO_V0);
+  });
+
+  it("builds a dag-pb root for content over one chunk", async () => {
+    const content = Buffer.alloc(CHUNK_SIZE * 2 + 1, 7);
+    const cid = await computeCid(content);
+
+    expect(cid).toMatch(/^bafybei/);
+    expect(await computeCid(content)).toBe(cid);
+    expect(await computeCid(content.subarray(0, CHUNK_SIZE * 2))).not.toBe(cid);
+  });
+});
+
+describe("verifyCid", () => {
+  it("accepts content under either CID version", async () => {
+    expect(await verifyCid(HELLO_V0, HELLO)).toBe(true);
+    expect(await verifyCid(HELLO_V1, HELLO)).toBe(true);
+  });
+
+  it("rejects other content and malformed CIDs", async () => {
+    expect(await verifyCid(HELLO_V1, Buffer.from("hello world"))).toBe(false);
+    expect(await verifyCid("not-a-cid", HELLO)).toBe(false);
+    expect(isValidCid("not-a-cid")).toBe(false);
+    expect(isValidCid(HELLO_V0)).toBe(true);
+  });
+
+  it("accepts multi-chunk CIDv0 content from either leaf layout", async () => {
+    const content = Buffer.alloc(CHUNK_SIZE + 1000, 3);
+    for (const leafType of ["raw", "file"] as const) {
+      expect(await verifyCid(await computeCid(content, { cidVersion: 0, leafType }), content)).toBe(true);
+    }
+    expect(await verifyCid(await computeCid(content), content)).toBe(true);
+  });
+});
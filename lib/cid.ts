@@ -0,0 +1,163 @@
+import { CID } from "multiformats/cid";
+import * as raw from "multiformats/codecs/raw";
+import { sha256 } from "multiformats/hashes/sha2";
+import * as dagPb from "@ipld/dag-pb";
+import { UnixFS } from "ipfs-unixfs";
+
+/**
+ * Computes the CID that `ipfs add` assigns to a file: 256 KiB chunks joined
+ * by a balanced UnixFS DAG with at most 174 links per node. CIDv1 (what our
+ * backends upload with) stores chunks as raw leaves, and a file that fits in
+ * one chunk is just its raw leaf. CIDv0 wraps every chunk in a dag-pb node.
+ */
+export const CHUNK_SIZE = 262144;
+export const MAX_LINKS_PER_NODE = 174;
+
+export interface CidOptions {
+  cidVersion?: 0 | 1;
+  // UnixFS type of dag-pb leaves (CIDv0 only): go-ipfs writes "raw", js-ipfs
+  // wrote "file"
+  leafType?: "raw" | "file";
+}
+
+interface DagNode {
+  cid: CID;
+  fileSize: number;
+  // serialized size of the node plus everything below it (dag-pb Tsize)
+  dagSize: number;
+}
+
+async function dagPbNode(
+  unixfs: UnixFS,
+  children: DagNode[],
+  cidVersion: 0 | 1
+): Promise<DagNode> {
+  const bytes = dagPb.encode(
+    dagPb.prepare({
+      Data: unixfs.marshal(),
+      Links: children.map((child) => ({
+        Hash: child.cid,
+        Name: "",
+        Tsize: child.dagSize,
+      })),
+    })
+  );
+  const digest = await sha256.digest(bytes);
+
+  return {
+    cid:
+      cidVersion === 0
+        ? CID.createV0(digest)
+        : CID.createV1(dagPb.code, digest),
+    fileSize: unixfs.fileSize(),
+    dagSize:
+      bytes.length + children.reduce((sum, child) => sum + child.dagSize, 0),
+  };
+}
+
+async function leafNode(
+  chunk: Uint8Array,
+  options: Required<CidOptions>,
+  isOnlyChunk: boolean
+): Promise<DagNode> {
+  if (options.cidVersion === 1) {
+    const digest = await sha256.digest(chunk);
+    return {
+      cid: CID.createV1(raw.code, digest),
+      fileSize: chunk.length,
+      dagSize: chunk.length,
+    };
+  }
+
+  const type = isOnlyChunk ? "file" : options.leafType;
+  return dagPbNode(new UnixFS({ type, data: chunk }), [], 0);
+}
+
+export async function computeCid(
+  content: Uint8Array,
+  options: CidOptions = {}
+): Promise<string> {
+  const resolved: Required<CidOptions> = {
+    cidVersion: options.cidVersion ?? 1,
+    leafType: options.leafType ?? "raw",
+  };
+
+  const chunkCount = Math.max(1, Math.ceil(content.length / CHUNK_SIZE));
+  let level: DagNode[] = [];
+  for (let i = 0; i < chunkCount; i++) {
+    const offset = i * CHUNK_SIZE;
+    level.push(
+      await leafNode(
+        content.subarray(offset, offset + CHUNK_SIZE),
+        resolved,
+        chunkCount === 1
+      )
+    );
+  }
+
+  while (level.length > 1) {
+    const next: DagNode[] = [];
+    for (let i = 0; i < level.length; i += MAX_LINKS_PER_NODE) {
+      const children = level.slice(i, i + MAX_LINKS_PER_NODE);
+      const unixfs = new UnixFS({
+        type: "file",
+        blockSizes: children.map((child) => child.fileSize),
+      });
+      next.push(await dagPbNode(unixfs, children, resolved.cidVersion));
+    }
+    level = next;
+  }
+
+  return level[0].cid.toString();
+}
+
+export function isValidCid(value: string): boolean {
+  try {
+    CID.parse(value);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Checks that `content` really is the file addressed by `cid`, trying each
+ * importer layout that could have produced a CID of that version. Content
+ * added with a non-default chunker or hash cannot be verified and is rejected.
+ */
+export async function verifyCid(
+  cid: string,
+  content: Uint8Array
+): Promise<boolean> {
+  let parsed: CID;
+  try {
+    parsed = CID.parse(cid);
+  } catch {
+    return false;
+  }
+
+  if (parsed.multihash.code !== sha256.code) {
+    return false;
+  }
+
+  const candidates: CidOptions[] =
+    parsed.version === 0
+      ? [
+          { cidVersion: 0, leafType: "raw" },
+          { cidVersion: 0, leafType: "file" },
+        ]
+      : [{ cidVersion: 1 }];
+
+  const expected = parsed.toV1().toString();
+  for (const options of candidates) {
+    const computed = CID.parse(await computeCid(content, options));
+    if (computed.toV1().toString() === expected) {
+      return true;
+    }
+    // single-chunk CIDv0 files do not depend on the leaf type
+    if (content.length <= CHUNK_SIZE) {
+      break;
+    }
+  }
+  return false;
+}
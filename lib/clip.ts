@@ -0,0 +1,55 @@
+import axios from "axios";
+
+/**
+ * Client for the optional CLIP embedding service (services/clip_service.py).
+ * Every caller treats a missing embedding as "service unavailable" and falls
+ * back to pixel or hash comparison.
+ */
+export function getClipServiceUrl(): string {
+  return process.env.CLIP_SERVICE_URL || "http://localhost:5000";
+}
+
+export async function getClipEmbedding(
+  imageBuffer: Buffer,
+  imageUrl?: string
+): Promise<number[] | null> {
+  try {
+    const response = await axios.post(
+      `${getClipServiceUrl()}/embed`,
+      {
+        image: imageBuffer.toString("base64"),
+        imageUrl,
+      },
+      {
+        headers: { "Content-Type": "application/json" },
+        timeout: 10000,
+      }
+    );
+
+    if (response.data && response.data.embedding) {
+      return response.data.embedding;
+    }
+  } catch (error) {
+    console.log("python clip service not available, using fallback method");
+  }
+
+  return null;
+}
+
+export function cosineSimilarity(vec1: number[], vec2: number[]): number {
+  if (vec1.length !== vec2.length) return 0;
+
+  let dotProduct = 0;
+  let norm1 = 0;
+  let norm2 = 0;
+
+  for (let i = 0; i < vec1.length; i++) {
+    dotProduct += vec1[i] * vec2[i];
+    norm1 += vec1[i] * vec1[i];
+    norm2 += vec2[i] * vec2[i];
+  }
+
+  if (norm1 === 0 || norm2 === 0) return 0;
+
+  return dotProduct / (Math.sqrt(norm1) * Math.sqrt(norm2));
+}
@@ -0,0 +1,644 @@
+/**
+ * Container-level hidden data scanner. Walks the structure of PNG, JPEG, WAV
+ * and MP3 files and reports everything that is not image or audio data:
+ * metadata chunks, unknown blocks and bytes appended after the end marker,
+ * which is the cheapest place to hide a payload.
+ */
+
+export type ContainerFormat = "png" | "jpeg" | "wav" | "mp3";
+
+export interface ContainerFinding {
+  // e.g. "png-chunk", "jpeg-segment", "exif", "xmp", "trailing-data"
+  kind: string;
+  label: string; // chunk type, marker name or tag frame id
+  offset: number;
+  size: number;
+  suspicious: boolean;
+  detail: string;
+  // start of textual content, for metadata that is meant to be read
+  preview?: string;
+}
+
+export interface ContainerScanResult {
+  format: ContainerFormat | null;
+  suspicious: boolean;
+  findings: ContainerFinding[];
+  // bytes in suspicious findings
+  hiddenBytes: number;
+  details: string;
+}
+
+// text metadata larger than this is more than a caption or a parameter dump
+const MAX_TEXT_BYTES = 16 * 1024;
+const PREVIEW_LENGTH = 80;
+
+const PNG_STANDARD_CHUNKS = new Set([
+  "IHDR", "PLTE", "IDAT", "IEND", "tRNS", "cHRM", "gAMA", "iCCP", "sBIT",
+  "sRGB", "cICP", "mDCv", "cLLi", "tEXt", "zTXt", "iTXt", "bKGD", "hIST",
+  "pHYs", "sPLT", "eXIf", "tIME", "acTL", "fcTL", "fdAT",
+  // private chunks written by common tools (ImageMagick, Apple, Android)
+  "vpAg", "orNT", "iDOT", "npTc", "npLb", "npOl",
+]);
+const PNG_TEXT_CHUNKS = new Set(["tEXt", "zTXt", "iTXt"]);
+
+const WAV_STANDARD_CHUNKS = new Set([
+  "fmt ", "data", "fact", "LIST", "cue ", "smpl", "inst", "bext", "iXML",
+  "id3 ", "ID3 ", "JUNK", "PAD ", "plst", "labl", "note", "ltxt", "acid",
+]);
+
+// ID3v2 frames that carry arbitrary binary payloads by design
+const ID3_OPAQUE_FRAMES = new Set(["GEOB", "PRIV", "SYLT", "ENCR", "GRID"]);
+
+export function detectContainerFormat(buffer: Buffer): ContainerFormat | null {
+  if (buffer.length > 8 && buffer.readUInt32BE(0) === 0x89504e47) {
+    return "png";
+  }
+  if (buffer.length > 3 && buffer[0] === 0xff && buffer[1] === 0xd8) {
+    return "jpeg";
+  }
+  if (
+    buffer.length > 12 &&
+    buffer.toString("latin1", 0, 4) === "RIFF" &&
+    buffer.toString("latin1", 8, 12) === "WAVE"
+  ) {
+    return "wav";
+  }
+  if (
+    buffer.length > 10 &&
+    (buffer.toString("latin1", 0, 3) === "ID3" ||
+      (buffer[0] === 0xff && (buffer[1] & 0xe0) === 0xe0))
+  ) {
+    return "mp3";
+  }
+  return null;
+}
+
+export function scanContainer(buffer: Buffer): ContainerScanResult {
+  const format = detectContainerFormat(buffer);
+  let findings: ContainerFinding[] = [];
+
+  try {
+    if (format === "png") findings = scanPng(buffer);
+    else if (format === "jpeg") findings = scanJpeg(buffer);
+    else if (format === "wav") findings = scanWav(buffer);
+    else if (format === "mp3") findings = scanMp3(buffer);
+  } catch (error) {
+    // a container that cannot be walked is itself worth reporting
+    findings.push({
+      kind: "malformed",
+      label: "structure",
+      offset: 0,
+      size: buffer.length,
+      suspicious: true,
+      detail: `Could not parse ${format} structure: ${(error as Error).message}`,
+    });
+  }
+
+  const flagged = findings.filter((finding) => finding.suspicious);
+  const hiddenBytes = flagged.reduce((sum, finding) => sum + finding.size, 0);
+
+  let details: string;
+  if (!format) {
+    details = "Unknown container format, not scanned";
+  } else if (flagged.length === 0) {
+    details =
+      findings.length === 0
+        ? "No metadata or extra data in the file container"
+        : `${findings.length} metadata block(s), none suspicious`;
+  } else {
+    details =
+      `${flagged.length} suspicious block(s) in the ${format} container (${hiddenBytes} bytes): ` +
+      flagged
+        .map((finding) => `${finding.label} at offset ${finding.offset}`)
+        .join(", ");
+  }
+
+  return {
+    format,
+    suspicious: flagged.length > 0,
+    findings,
+    hiddenBytes,
+    details,
+  };
+}
+
+function trailingData(buffer: Buffer, end: number, after: string): ContainerFinding[] {
+  if (end >= buffer.length) {
+    return [];
+  }
+  const size = buffer.length - end;
+  return [
+    {
+      kind: "trailing-data",
+      label: `after ${after}`,
+      offset: end,
+      size,
+      suspicious: true,
+      detail: `${size} bytes appended after the ${after} marker`,
+      preview: textPreview(buffer.subarray(end, end + PREVIEW_LENGTH * 2)),
+    },
+  ];
+}
+
+/**
+ * Printable start of a block, or undefined when it is mostly binary.
+ */
+function textPreview(data: Buffer): string | undefined {
+  const text = data.toString("latin1");
+  let printable = 0;
+  for (let i = 0; i < text.length; i++) {
+    const code = text.charCodeAt(i);
+    if ((code >= 32 && code < 127) || code === 9 || code === 10 || code === 13) {
+      printable++;
+    }
+  }
+  if (text.length === 0 || printable / text.length < 0.85) {
+    return undefined;
+  }
+  return text.replace(/[^\x20-\x7e]/g, " ").slice(0, PREVIEW_LENGTH);
+}
+
+function isZeroFilled(data: Buffer): boolean {
+  for (let i = 0; i < data.length; i++) {
+    if (data[i] !== 0) return false;
+  }
+  return true;
+}
+
+function scanPng(buffer: Buffer): ContainerFinding[] {
+  const findings: ContainerFinding[] = [];
+  let offset = 8;
+
+  while (offset + 12 <= buffer.length) {
+    const length = buffer.readUInt32BE(offset);
+    const type = buffer.toString("latin1", offset + 4, offset + 8);
+    const size = length + 12;
+    if (offset + size > buffer.length) {
+      throw new Error(`chunk ${type} runs past the end of the file`);
+    }
+    const data = buffer.subarray(offset + 8, offset + 8 + length);
+
+    if (PNG_TEXT_CHUNKS.has(type)) {
+      const separator = data.indexOf(0);
+      const keyword = data.toString("latin1", 0, separator < 0 ? data.length : separator);
+      // zTXt is compressed; its text can't be previewed without inflating
+      const text = type === "tEXt" && separator >= 0 ? data.subarray(separator + 1) : null;
+      const preview = text ? textPreview(text.subarray(0, PREVIEW_LENGTH * 2)) : undefined;
+      const binary = text !== null && text.length > 0 && preview === undefined;
+      findings.push({
+        kind: "png-text",
+        label: `${type} "${keyword}"`,
+        offset,
+        size,
+        suspicious: length > MAX_TEXT_BYTES || binary,
+        detail:
+          length > MAX_TEXT_BYTES
+            ? `${length} bytes of text metadata`
+            : binary
+              ? "Text chunk holds binary data"
+              : `${length} bytes of text metadata`,
+        preview,
+      });
+    } else if (type === "eXIf") {
+      findings.push(exifFinding(data, offset, size));
+    } else if (type === "caBX") {
+      findings.push({
+        kind: "c2pa",
+        label: "caBX",
+        offset,
+        size,
+        suspicious: false,
+        detail: `${length} byte C2PA manifest store`,
+      });
+    } else if (!PNG_STANDARD_CHUNKS.has(type)) {
+      findings.push({
+        kind: "png-chunk",
+        label: type,
+        offset,
+        size,
+        suspicious: true,
+        detail: `Unknown ${
+          type.charCodeAt(0) & 0x20 ? "ancillary" : "critical"
+        } chunk with ${length} bytes`,
+        preview: textPreview(data.subarray(0, PREVIEW_LENGTH * 2)),
+      });
+    }
+
+    offset += size;
+    if (type === "IEND") {
+      return findings.concat(trailingData(buffer, offset, "IEND"));
+    }
+  }
+
+  throw new Error("missing IEND chunk");
+}
+
+// APPn identifiers written by cameras and common editors
+const JPEG_KNOWN_APP_IDS = [
+  "JFIF", "JFXX", "Exif", "http://ns.adobe.com/", "ICC_PROFILE", "MPF",
+  "Photoshop 3.0", "Adobe", "Ducky", "FPXR", "Meta", "Ocad",
+];
+
+function scanJpeg(buffer: Buffer): ContainerFinding[] {
+  const findings: ContainerFinding[] = [];
+  let offset = 2;
+
+  while (offset + 2 <= buffer.length) {
+    if (buffer[offset] !== 0xff) {
+      throw new Error(`expected a marker at offset ${offset}`);
+    }
+    const marker = buffer[offset + 1];
+    if (marker === 0xff) {
+      offset++;
+      continue;
+    }
+    if (marker === 0xd9) {
+      return findings.concat(trailingData(buffer, offset + 2, "EOI"));
+    }
+    if (marker >= 0xd0 && marker <= 0xd7) {
+      offset += 2;
+      continue;
+    }
+
+    if (offset + 4 > buffer.length) {
+      break;
+    }
+    const length = buffer.readUInt16BE(offset + 2);
+    const size = length + 2;
+    const data = buffer.subarray(offset + 4, offset + 2 + length);
+
+    if (marker >= 0xe0 && marker <= 0xef) {
+      findings.push(jpegAppFinding(marker, data, offset, size));
+    } else if (marker === 0xfe) {
+      const preview = textPreview(data.subarray(0, PREVIEW_LENGTH * 2));
+      findings.push({
+        kind: "jpeg-comment",
+        label: "COM",
+        offset,
+        size,
+        suspicious: length > MAX_TEXT_BYTES || preview === undefined,
+        detail:
+          preview === undefined
+            ? `Comment holds ${data.length} bytes of binary data`
+            : `${data.length} byte comment`,
+        preview,
+      });
+    }
+
+    offset += size;
+    if (marker === 0xda) {
+      // skip entropy-coded data up to the next real marker
+      while (
+        offset + 1 < buffer.length &&
+        !(
+          buffer[offset] === 0xff &&
+          buffer[offset + 1] !== 0x00 &&
+          buffer[offset + 1] !== 0xff &&
+          !(buffer[offset + 1] >= 0xd0 && buffer[offset + 1] <= 0xd7)
+        )
+      ) {
+        offset++;
+      }
+    }
+  }
+
+  throw new Error("missing EOI marker");
+}
+
+function jpegAppFinding(
+  marker: number,
+  data: Buffer,
+  offset: number,
+  size: number
+): ContainerFinding {
+  const label = `APP${marker - 0xe0}`;
+  const id = data.toString("latin1", 0, Math.min(data.length, 32));
+
+  if (id.startsWith("Exif\0")) {
+    return exifFinding(data.subarray(6), offset, size);
+  }
+  if (id.startsWith("http://ns.adobe.com/xap/1.0/\0")) {
+    const xml = data.subarray(29);
+    return xmpFinding(xml, offset, size);
+  }
+
+  // C2PA manifest stores travel as JUMBF boxes in APP11
+  if (marker === 0xeb && id.startsWith("JP")) {
+    return {
+      kind: "c2pa",
+      label: `${label} JUMBF`,
+      offset,
+      size,
+      suspicious: false,
+      detail: `${data.length} byte C2PA manifest segment`,
+    };
+  }
+
+  const known = JPEG_KNOWN_APP_IDS.some((prefix) => id.startsWith(prefix));
+  return {
+    kind: "jpeg-segment",
+    label: known ? `${label} ${id.split("\0")[0]}` : label,
+    offset,
+    size,
+    suspicious: !known,
+    detail: known
+      ? `${data.length} byte ${id.split("\0")[0]} segment`
+      : `${label} segment with unrecognised identifier (${data.length} bytes)`,
+    preview: known ? undefined : textPreview(data.subarray(0, PREVIEW_LENGTH * 2)),
+  };
+}
+
+/**
+ * EXIF is a TIFF structure; anything that does not start with a TIFF header
+ * is data wearing an EXIF label.
+ */
+function exifFinding(tiff: Buffer, offset: number, size: number): ContainerFinding {
+  const order = tiff.toString("latin1", 0, 2);
+  const valid =
+    tiff.length >= 8 &&
+    (order === "II" || order === "MM") &&
+    (order === "II" ? tiff.readUInt16LE(2) : tiff.readUInt16BE(2)) === 42;
+
+  return {
+    kind: "exif",
+    label: "EXIF",
+    offset,
+    size,
+    suspicious: !valid,
+    detail: valid
+      ? `${tiff.length} byte EXIF block`
+      : "EXIF block without a valid TIFF header",
+  };
+}
+
+function xmpFinding(xml: Buffer, offset: number, size: number): ContainerFinding {
+  const text = xml.toString("utf8");
+  const isXml = /^\s*(<\?xpacket|<x:xmpmeta|<\?xml)/.test(text);
+  const closed = text.includes("</x:xmpmeta>");
+  // the packet trailer is padding; data after it is not XMP
+  const end = text.lastIndexOf("<?xpacket end");
+  const tail = end >= 0 ? text.slice(text.indexOf(">", end) + 1) : "";
+  const extra = tail.replace(/[\s\0]/g, "").length;
+
+  return {
+    kind: "xmp",
+    label: "XMP",
+    offset,
+    size,
+    suspicious: !isXml || !closed || extra > 0 || xml.length > MAX_TEXT_BYTES * 4,
+    detail: !isXml || !closed
+      ? "XMP block does not hold a complete XMP packet"
+      : extra > 0
+        ? `${extra} bytes of non-XMP data after the XMP packet`
+        : `${xml.length} byte XMP packet`,
+  };
+}
+
+function scanWav(buffer: Buffer): ContainerFinding[] {
+  const findings: ContainerFinding[] = [];
+  const riffEnd = Math.min(buffer.length, 8 + buffer.readUInt32LE(4));
+  let offset = 12;
+
+  while (offset + 8 <= riffEnd) {
+    const id = buffer.toString("latin1", offset, offset + 4);
+    const length = buffer.readUInt32LE(offset + 4);
+    // chunks are padded to an even size
+    const size = 8 + length + (length & 1);
+    const data = buffer.subarray(offset + 8, Math.min(riffEnd, offset + 8 + length));
+
+    if (id === "JUNK" || id === "PAD ") {
+      const zero = isZeroFilled(data);
+      findings.push({
+        kind: "wav-chunk",
+        label: id.trim(),
+        offset,
+        size,
+        suspicious: !zero,
+        detail: zero
+          ? `${length} bytes of padding`
+          : `Padding chunk with ${length} bytes of non-zero content`,
+        preview: zero ? undefined : textPreview(data.subarray(0, PREVIEW_LENGTH * 2)),
+      });
+    } else if (id === "id3 " || id === "ID3 ") {
+      findings.push(...scanId3(data, offset + 8));
+    } else if (id !== "fmt " && id !== "data") {
+      const known = WAV_STANDARD_CHUNKS.has(id);
+      findings.push({
+        kind: "wav-chunk",
+        label: id.trim() || id,
+        offset,
+        size,
+        suspicious: !known || length > MAX_TEXT_BYTES * 4,
+        detail: known
+          ? `${length} byte ${id.trim()} chunk`
+          : `Unknown chunk with ${length} bytes`,
+        preview: textPreview(data.subarray(0, PREVIEW_LENGTH * 2)),
+      });
+    }
+
+    offset += size;
+  }
+
+  return findings.concat(trailingData(buffer, riffEnd, "RIFF"));
+}
+
+function syncsafe(data: Buffer, offset: number): number {
+  return (
+    ((data[offset] & 0x7f) << 21) |
+    ((data[offset + 1] & 0x7f) << 14) |
+    ((data[offset + 2] & 0x7f) << 7) |
+    (data[offset + 3] & 0x7f)
+  );
+}
+
+/**
+ * Frames of an ID3v2 tag; `base` is the tag's offset in the file.
+ */
+function scanId3(tag: Buffer, base: number): ContainerFinding[] {
+  const findings: ContainerFinding[] = [];
+  if (tag.length < 10 || tag.toString("latin1", 0, 3) !== "ID3") {
+    return findings;
+  }
+  const version = tag[3];
+  const tagEnd = Math.min(tag.length, 10 + syncsafe(tag, 6));
+  let offset = 10;
+
+  // extended header
+  if (tag[5] & 0x40) {
+    offset += version === 4 ? syncsafe(tag, 10) : 4 + tag.readUInt32BE(10);
+  }
+
+  const headerSize = version === 2 ? 6 : 10;
+  while (offset + headerSize <= tagEnd) {
+    if (tag[offset] === 0) {
+      const padding = tag.subarray(offset, tagEnd);
+      if (!isZeroFilled(padding)) {
+        findings.push({
+          kind: "id3-padding",
+          label: "ID3 padding",
+          offset: base + offset,
+          size: padding.length,
+          suspicious: true,
+          detail: `ID3 padding holds non-zero data (${padding.length} bytes)`,
+          preview: textPreview(padding.subarray(0, PREVIEW_LENGTH * 2)),
+        });
+      }
+      break;
+    }
+
+    const id = tag.toString("latin1", offset, offset + (version === 2 ? 3 : 4));
+    const length =
+      version === 2
+        ? tag.readUIntBE(offset + 3, 3)
+        : version === 4
+          ? syncsafe(tag, offset + 4)
+          : tag.readUInt32BE(offset + 4);
+    const size = headerSize + length;
+    const body = tag.subarray(offset + headerSize, offset + size);
+    const opaque = ID3_OPAQUE_FRAMES.has(id);
+    const picture = id === "APIC" || id === "PIC";
+
+    findings.push({
+      kind: "id3-frame",
+      label: `ID3 ${id}`,
+      offset: base + offset,
+      size,
+      // pictures are expected to be large; text frames are not
+      suspicious: opaque || (!picture && length > MAX_TEXT_BYTES),
+      detail: opaque
+        ? `${id} frame carries ${length} bytes of opaque data`
+        : `${length} byte ${id} frame`,
+      preview: picture ? undefined : textPreview(body.subarray(1, PREVIEW_LENGTH * 2)),
+    });
+    offset += size;
+  }
+
+  return findings;
+}
+
+const MP3_BITRATES = {
+  // [version 1, version 2/2.5] by layer, in kbit/s
+  1: [
+    [0, 32, 64, 96, 128, 160, 192, 224, 256, 288, 320, 352, 384, 416, 448],
+    [0, 32, 48, 56, 64, 80, 96, 112, 128, 144, 160, 176, 192, 224, 256],
+  ],
+  2: [
+    [0, 32, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320, 384],
+    [0, 8, 16, 24, 32, 40, 48, 56, 64, 80, 96, 112, 128, 144, 160],
+  ],
+  3: [
+    [0, 32, 40, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320],
+    [0, 8, 16, 24, 32, 40, 48, 56, 64, 80, 96, 112, 128, 144, 160],
+  ],
+} as Record<number, number[][]>;
+const MP3_SAMPLE_RATES = [44100, 48000, 32000];
+
+/**
+ * Length of the MPEG audio frame at `offset`, or 0 if there is none.
+ */
+function mp3FrameLength(buffer: Buffer, offset: number): number {
+  if (offset + 4 > buffer.length) return 0;
+  const header = buffer.readUInt32BE(offset);
+  if ((header & 0xffe00000) >>> 0 !== 0xffe00000) return 0;
+
+  const versionBits = (header >> 19) & 3; // 0: 2.5, 2: 2, 3: 1
+  const layer = 4 - ((header >> 17) & 3);
+  const bitrateIndex = (header >> 12) & 15;
+  const rateIndex = (header >> 10) & 3;
+  const padding = (header >> 9) & 1;
+  if (versionBits === 1 || layer === 4 || bitrateIndex === 0 || bitrateIndex === 15 || rateIndex === 3) {
+    return 0;
+  }
+
+  const mpeg1 = versionBits === 3;
+  const bitrate = MP3_BITRATES[layer][mpeg1 ? 0 : 1][bitrateIndex] * 1000;
+  const sampleRate = MP3_SAMPLE_RATES[rateIndex] / (mpeg1 ? 1 : versionBits === 2 ? 2 : 4);
+
+  if (layer === 1) {
+    return (Math.floor((12 * bitrate) / sampleRate) + padding) * 4;
+  }
+  const factor = layer === 3 && !mpeg1 ? 72 : 144;
+  return Math.floor((factor * bitrate) / sampleRate) + padding;
+}
+
+function scanMp3(buffer: Buffer): ContainerFinding[] {
+  const findings: ContainerFinding[] = [];
+  let offset = 0;
+
+  if (buffer.toString("latin1", 0, 3) === "ID3") {
+    const size = 10 + syncsafe(buffer, 6) + (buffer[5] & 0x10 ? 10 : 0);
+    findings.push(...scanId3(buffer.subarray(0, size), 0));
+    offset = size;
+  }
+
+  // tags at the end of the file
+  let audioEnd = buffer.length;
+  if (audioEnd >= 128 && buffer.toString("latin1", audioEnd - 128, audioEnd - 125) === "TAG") {
+    audioEnd -= 128;
+    findings.push({
+      kind: "id3v1",
+      label: "ID3v1",
+      offset: audioEnd,
+      size: 128,
+      suspicious: false,
+      detail: "128 byte ID3v1 tag",
+      preview: textPreview(buffer.subarray(audioEnd + 3, audioEnd + 33)),
+    });
+  }
+  if (audioEnd >= 32 && buffer.toString("latin1", audioEnd - 32, audioEnd - 24) === "APETAGEX") {
+    const apeSize = buffer.readUInt32LE(audioEnd - 20) + (buffer[audioEnd - 9] & 0x80 ? 32 : 0);
+    audioEnd -= apeSize;
+    findings.push({
+      kind: "apev2",
+      label: "APEv2",
+      offset: audioEnd,
+      size: apeSize,
+      suspicious: apeSize > MAX_TEXT_BYTES * 4,
+      detail: `${apeSize} byte APEv2 tag`,
+    });
+  }
+
+  // walk audio frames; anything between them is not audio
+  let junkStart = -1;
+  const flushJunk = (end: number) => {
+    if (junkStart >= 0) {
+      const zero = isZeroFilled(buffer.subarray(junkStart, end));
+      findings.push({
+        kind: "mp3-junk",
+        label: zero ? "padding" : "non-audio data",
+        offset: junkStart,
+        size: end - junkStart,
+        suspicious: !zero,
+        detail: zero
+          ? `${end - junkStart} bytes of zero padding`
+          : `${end - junkStart} bytes between audio frames`,
+        preview: textPreview(buffer.subarray(junkStart, Math.min(end, junkStart + PREVIEW_LENGTH * 2))),
+      });
+      junkStart = -1;
+    }
+  };
+
+  let inFrames = false;
+  while (offset < audioEnd) {
+    const length = mp3FrameLength(buffer, offset);
+    // outside a run of frames, require the next frame to line up so random
+    // 0xFFE bytes in junk aren't taken for audio
+    const next = offset + length;
+    if (
+      length > 0 &&
+      next <= audioEnd &&
+      (inFrames || next === audioEnd || mp3FrameLength(buffer, next) > 0)
+    ) {
+      flushJunk(offset);
+      offset = next;
+      inFrames = true;
+    } else {
+      if (junkStart < 0) junkStart = offset;
+      offset++;
+      inFrames = false;
+    }
+  }
+  flushJunk(audioEnd);
+
+  return findings;
+}
@@ -5,12 +5,33 @@ export const ProofOfArtABI = [
       { internalType: 'string', name: '_outputHash', type: 'string' },
       { internalType: 'string', name: '_combinedHash', type: 'string' },
       { internalType: 'string', name: '_ipfsLink', type: 'string' },
+      { internalType: 'string', name: '_metadataLink', type: 'string' },
+      { internalType: 'string', name: '_parentHash', type: 'string' },
+      { internalType: 'uint256', name: '_signedTimestamp', type: 'uint256' },
+      { internalType: 'string', name: '_nonce', type: 'string' },
     ],
     name: 'registerProof',
     outputs: [],
     stateMutability: 'nonpayable',
     type: 'function',
   },
+  {
+    inputs: [
+      { internalType: 'string', name: '_promptHash', type: 'string' },
+      { internalType: 'string', name: '_outputHash', type: 'string' },
+      { internalType: 'string', name: '_combinedHash', type: 'string' },
+      { internalType: 'string', name: '_ipfsLink', type: 'string' },
+      { internalType: 'string', name: '_metadataLink', type: 'string' },
+      { internalType: 'string', name: '_parentHash', type: 'string' },
+      { internalType: 'uint256', name: '_signedTimestamp', type: 'uint256' },
+      { internalType: 'string', name: '_nonce', type: 'string' },
+      { internalType: 'bytes', name: '_signature', type: 'bytes' },
+    ],
+    name: 'registerProofWithSignature',
+    outputs: [],
+    stateMutability: 'nonpayable',
+    type: 'function',
+  },
   {
     inputs: [{ internalType: 'string', name: '_combinedHash', type: 'string' }],
     name: 'verifyProof',
@@ -19,6 +40,7 @@ export const ProofOfArtABI = [
       { internalType: 'address', name: 'creator', type: 'address' },
       { internalType: 'uint256', name: 'timestamp', type: 'uint256' },
       { internalType: 'string', name: 'ipfsLink', type: 'string' },
+      { internalType: 'string', name: 'metadataLink', type: 'string' },
     ],
     stateMutability: 'view',
     type: 'function',
@@ -33,9 +55,25 @@ export const ProofOfArtABI = [
       { internalType: 'string', name: 'combinedHash', type: 'string' },
       { internalType: 'uint256', name: 'timestamp', type: 'uint256' },
       { internalType: 'string', name: 'ipfsLink', type: 'string' },
+      { internalType: 'string', name: 'metadataLink', type: 'string' },
+      { internalType: 'string', name: 'parentHash', type: 'string' },
       { internalType: 'bool', name: 'exists', type: 'bool' },
     ],
     stateMutability: 'view',
     type: 'function',
   },
+  {
+    inputs: [{ internalType: 'string', name: '_outputHash', type: 'string' }],
+    name: 'getProofsByOutputHash',
+    outputs: [{ internalType: 'string[]', name: '', type: 'string[]' }],
+    stateMutability: 'view',
+    type: 'function',
+  },
+  {
+    inputs: [{ internalType: 'string', name: '_combinedHash', type: 'string' }],
+    name: 'getChildProofs',
+    outputs: [{ internalType: 'string[]', name: '', type: 'string[]' }],
+    stateMutability: 'view',
+    type: 'function',
+  },
 ] as const;
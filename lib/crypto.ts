@@ -24,13 +24,16 @@ export interface ProofData {
   combinedHash: string;
   userAddress: string;
   timestamp: number;
+  signature?: string;
+  nonce?: string;
 }
 
 export function generateProof(
   prompt: string,
   outputBuffer: Buffer,
   userAddress: string,
-  timestamp: number
+  timestamp: number,
+  creatorSignature?: { signature: string; nonce: string }
 ): ProofData {
   const promptHash = hashString(prompt);
   const outputHash = hashBuffer(outputBuffer);
@@ -47,5 +50,26 @@ export function generateProof(
     combinedHash,
     userAddress,
     timestamp,
+    ...creatorSignature,
   };
 }
+
+/**
+ * Short ID embedded as the invisible watermark (lib/watermark.ts). The final
+ * combinedHash covers the watermarked output, so the ID is taken from the
+ * combined hash of the same proof over the output before watermarking;
+ * anyone holding the proof's metadata can recompute it.
+ */
+export function deriveWatermarkId(
+  promptHash: string,
+  sourceOutputHash: string,
+  userAddress: string,
+  timestamp: number
+): string {
+  return generateCombinedHash(
+    promptHash,
+    sourceOutputHash,
+    userAddress,
+    timestamp
+  ).slice(0, 8);
+}
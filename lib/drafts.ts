@@ -0,0 +1,227 @@
+import crypto from "crypto";
+import fs from "fs";
+import path from "path";
+import { hashBuffer } from "./crypto";
+import {
+  ContentType,
+  finalizeGeneration,
+  GeneratedContent,
+  GeneratedProof,
+  GenerationRequest,
+} from "./generation";
+import { getDataDir, readJsonStore, updateJsonStore } from "./store";
+
+/**
+ * Unregistered candidates of a multi-candidate request. Each candidate has
+ * an output hash and its own transparency record but no combinedHash;
+ * choosing one runs the rest of the pipeline for it alone, once per draft,
+ * since the creator's signature covers a single proof. Outputs are kept in
+ * files next to the store and deleted once a candidate is chosen. Draft IDs
+ * are random UUIDs and act as the capability to view and choose.
+ */
+const DRAFTS_STORE = "generation-drafts";
+const DRAFT_RETENTION_MS = 24 * 60 * 60 * 1000;
+
+export type DraftStatus = "open" | "selecting" | "selected";
+
+export interface DraftCandidate {
+  index: number;
+  outputHash: string;
+  transparency: any;
+}
+
+export interface GenerationDraft {
+  id: string;
+  status: DraftStatus;
+  type: ContentType;
+  creator: string;
+  prompt: string;
+  candidates: DraftCandidate[];
+  selectedIndex: number | null;
+  combinedHash: string | null;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface DraftPreview extends GenerationDraft {
+  // base64 outputs, in candidate order; empty once a candidate is chosen
+  outputs: string[];
+}
+
+interface StoredDraft extends GenerationDraft {
+  // dropped once a candidate has been chosen
+  request: GenerationRequest | null;
+}
+
+type DraftStore = Record<string, StoredDraft>;
+
+export class DraftError extends Error {
+  status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = "DraftError";
+    this.status = status;
+  }
+}
+
+function draftDir(id: string): string {
+  return path.join(getDataDir(), "drafts", id);
+}
+
+function outputPath(id: string, index: number): string {
+  return path.join(draftDir(id), `${index}.bin`);
+}
+
+function toPublicDraft({ request, ...draft }: StoredDraft): GenerationDraft {
+  return draft;
+}
+
+function updateDraft(id: string, changes: Partial<StoredDraft>): StoredDraft | null {
+  let updated: StoredDraft | null = null;
+  updateJsonStore<DraftStore>(DRAFTS_STORE, {}, (drafts) => {
+    if (!drafts[id]) {
+      return drafts;
+    }
+    updated = { ...drafts[id], ...changes, updatedAt: Date.now() };
+    return { ...drafts, [id]: updated };
+  });
+  return updated;
+}
+
+// drafts nobody chose a candidate from are removed after a day
+function pruneDrafts(): void {
+  const now = Date.now();
+  updateJsonStore<DraftStore>(DRAFTS_STORE, {}, (drafts) => {
+    const next: DraftStore = {};
+    for (const draft of Object.values(drafts)) {
+      if (now - draft.createdAt > DRAFT_RETENTION_MS) {
+        fs.rmSync(draftDir(draft.id), { recursive: true, force: true });
+        continue;
+      }
+      next[draft.id] = draft;
+    }
+    return next;
+  });
+}
+
+export function createDraft(
+  request: GenerationRequest,
+  candidates: GeneratedContent[]
+): GenerationDraft {
+  pruneDrafts();
+
+  const id = crypto.randomUUID();
+  fs.mkdirSync(draftDir(id), { recursive: true });
+  candidates.forEach((candidate, index) => {
+    fs.writeFileSync(outputPath(id, index), candidate.output);
+  });
+
+  const now = Date.now();
+  const draft: StoredDraft = {
+    id,
+    status: "open",
+    type: request.type,
+    creator: request.signer,
+    prompt: request.prompt,
+    candidates: candidates.map((candidate, index) => ({
+      index,
+      outputHash: hashBuffer(candidate.output),
+      transparency: candidate.transparency,
+    })),
+    selectedIndex: null,
+    combinedHash: null,
+    createdAt: now,
+    updatedAt: now,
+    request,
+  };
+  updateJsonStore<DraftStore>(DRAFTS_STORE, {}, (drafts) => ({
+    ...drafts,
+    [id]: draft,
+  }));
+  console.log("created draft with", candidates.length, "candidates:", id);
+  return toPublicDraft(draft);
+}
+
+export function getDraft(id: string): GenerationDraft | null {
+  const draft = readJsonStore<DraftStore>(DRAFTS_STORE, {})[id];
+  return draft ? toPublicDraft(draft) : null;
+}
+
+export function previewDraft(draft: GenerationDraft): DraftPreview {
+  const outputs =
+    draft.status === "selected"
+      ? []
+      : draft.candidates.map((candidate) => {
+          try {
+            return fs.readFileSync(outputPath(draft.id, candidate.index)).toString("base64");
+          } catch {
+            return "";
+          }
+        });
+  return { ...draft, outputs };
+}
+
+/**
+ * Finalizes one candidate: watermark, proof, encryption and upload, as for
+ * a single generation. With commitRejected the other candidates' output
+ * hashes go into the proof's metadata.
+ */
+export async function selectDraftCandidate(
+  id: string,
+  index: number,
+  options: { commitRejected?: boolean } = {}
+): Promise<GeneratedProof> {
+  const current = readJsonStore<DraftStore>(DRAFTS_STORE, {})[id];
+  if (!current) {
+    throw new DraftError("Draft not found", 404);
+  }
+  if (current.status !== "open" || !current.request) {
+    throw new DraftError("A candidate of this draft was already chosen", 409);
+  }
+  if (!current.candidates.some((candidate) => candidate.index === index)) {
+    throw new DraftError(
+      `Candidate ${index} does not exist; the draft has ${current.candidates.length}`,
+      400
+    );
+  }
+  // claimed before the first await, so a concurrent request sees it taken
+  updateDraft(id, { status: "selecting" });
+
+  try {
+    const candidate = current.candidates[index];
+    const output = fs.readFileSync(outputPath(id, index));
+    if (hashBuffer(output) !== candidate.outputHash) {
+      throw new Error(`stored output of candidate ${index} does not match its hash`);
+    }
+
+    const proof = await finalizeGeneration(
+      current.request,
+      { output, transparency: candidate.transparency },
+      () => {},
+      {
+        index,
+        count: current.candidates.length,
+        ...(options.commitRejected && {
+          rejectedOutputHashes: current.candidates
+            .filter((other) => other.index !== index)
+            .map((other) => other.outputHash),
+        }),
+      }
+    );
+
+    updateDraft(id, {
+      status: "selected",
+      selectedIndex: index,
+      combinedHash: proof.combinedHash,
+      request: null,
+    });
+    fs.rmSync(draftDir(id), { recursive: true, force: true });
+    console.log(`draft ${id}: candidate ${index} selected`);
+    return proof;
+  } catch (error) {
+    // let the creator try again, or pick another candidate
+    updateDraft(id, { status: "open" });
+    throw error;
+  }
+}
@@ -0,0 +1,63 @@
+import fs from "fs";
+import path from "path";
+import { hashBuffer } from "./crypto";
+import { getDataDir } from "./store";
+
+/**
+ * The images an edit works on: the parent proof's output and the
+ * inpainting mask. They are stored in files named by their sha256, so a
+ * queued job or a draft only carries the hashes and can still run after a
+ * restart. Files not written for a day are removed.
+ */
+const EDIT_INPUT_RETENTION_MS = 24 * 60 * 60 * 1000;
+
+function inputDir(): string {
+  return path.join(getDataDir(), "edit-inputs");
+}
+
+function inputPath(hash: string): string {
+  return path.join(inputDir(), `${hash}.bin`);
+}
+
+function pruneEditInputs(): void {
+  const now = Date.now();
+  let files: string[];
+  try {
+    files = fs.readdirSync(inputDir());
+  } catch {
+    return;
+  }
+  for (const file of files) {
+    const filePath = path.join(inputDir(), file);
+    try {
+      if (now - fs.statSync(filePath).mtimeMs > EDIT_INPUT_RETENTION_MS) {
+        fs.rmSync(filePath, { force: true });
+      }
+    } catch (error: any) {
+      console.error("failed to prune edit input:", error.message);
+    }
+  }
+}
+
+// stores the content and returns its hash; storing it again keeps it longer
+export function saveEditInput(content: Buffer): string {
+  pruneEditInputs();
+
+  const hash = hashBuffer(content);
+  fs.mkdirSync(inputDir(), { recursive: true });
+  fs.writeFileSync(inputPath(hash), content);
+  return hash;
+}
+
+export function readEditInput(hash: string): Buffer {
+  let content: Buffer;
+  try {
+    content = fs.readFileSync(inputPath(hash));
+  } catch {
+    throw new Error(`edit input ${hash.substring(0, 16)}... is no longer stored`);
+  }
+  if (hashBuffer(content) !== hash) {
+    throw new Error(`edit input ${hash.substring(0, 16)}... does not match its hash`);
+  }
+  return content;
+}
@@ -0,0 +1,210 @@
+/**
+ * Reads the provenance metadata an image carries with it: the EXIF block a
+ * camera or editor wrote, and a C2PA manifest store (JUMBF boxes in JPEG
+ * APP11 segments or a PNG caBX chunk). The C2PA signature is not validated;
+ * the report only says which manifests and assertions are present.
+ */
+
+export interface ExifSummary {
+  bytes: number;
+  // printable IFD0 and Exif sub-IFD tags, by tag name
+  tags: Record<string, string>;
+  hasGps: boolean;
+}
+
+export interface C2paSummary {
+  bytes: number;
+  // labels of the manifests in the store, the active one last
+  manifests: string[];
+  assertions: string[];
+  signed: boolean;
+}
+
+export interface EmbeddedMetadata {
+  exif: ExifSummary | null;
+  c2pa: C2paSummary | null;
+}
+
+const EXIF_TAGS: Record<number, string> = {
+  0x010e: "ImageDescription",
+  0x010f: "Make",
+  0x0110: "Model",
+  0x0131: "Software",
+  0x0132: "DateTime",
+  0x013b: "Artist",
+  0x8298: "Copyright",
+  0x9003: "DateTimeOriginal",
+  0x9004: "DateTimeDigitized",
+};
+const EXIF_IFD_POINTER = 0x8769;
+const GPS_IFD_POINTER = 0x8825;
+const MAX_TAG_LENGTH = 256;
+
+export function readEmbeddedMetadata(buffer: Buffer): EmbeddedMetadata {
+  let exif: Buffer | null = null;
+  let jumbf: Buffer | null = null;
+
+  try {
+    if (buffer.length > 8 && buffer.readUInt32BE(0) === 0x89504e47) {
+      ({ exif, jumbf } = pngMetadataBlocks(buffer));
+    } else if (buffer.length > 3 && buffer[0] === 0xff && buffer[1] === 0xd8) {
+      ({ exif, jumbf } = jpegMetadataBlocks(buffer));
+    }
+  } catch (error) {
+    console.log("could not read embedded metadata:", (error as Error).message);
+  }
+
+  return {
+    exif: exif ? readExif(exif) : null,
+    c2pa: jumbf ? readC2pa(jumbf) : null,
+  };
+}
+
+function pngMetadataBlocks(buffer: Buffer) {
+  let exif: Buffer | null = null;
+  let jumbf: Buffer | null = null;
+  let offset = 8;
+
+  while (offset + 12 <= buffer.length) {
+    const length = buffer.readUInt32BE(offset);
+    const type = buffer.toString("latin1", offset + 4, offset + 8);
+    const data = buffer.subarray(offset + 8, offset + 8 + length);
+    if (type === "eXIf") {
+      exif = data;
+    } else if (type === "caBX") {
+      jumbf = data;
+    } else if (type === "IEND") {
+      break;
+    }
+    offset += length + 12;
+  }
+
+  return { exif, jumbf };
+}
+
+function jpegMetadataBlocks(buffer: Buffer) {
+  let exif: Buffer | null = null;
+  // APP11 JUMBF may be split over several segments; each continuation
+  // repeats the 8 byte box header, which is dropped when joining
+  const jumbfParts: Buffer[] = [];
+  let offset = 2;
+
+  while (offset + 4 <= buffer.length && buffer[offset] === 0xff) {
+    const marker = buffer[offset + 1];
+    if (marker === 0xda || marker === 0xd9) {
+      break;
+    }
+    const length = buffer.readUInt16BE(offset + 2);
+    const data = buffer.subarray(offset + 4, offset + 2 + length);
+
+    if (marker === 0xe1 && !exif && data.toString("latin1", 0, 6) === "Exif\0\0") {
+      exif = data.subarray(6);
+    } else if (marker === 0xeb && data.toString("latin1", 0, 2) === "JP") {
+      const boxData = data.subarray(8);
+      jumbfParts.push(jumbfParts.length === 0 ? boxData : boxData.subarray(8));
+    }
+    offset += 2 + length;
+  }
+
+  return { exif, jumbf: jumbfParts.length > 0 ? Buffer.concat(jumbfParts) : null };
+}
+
+function readExif(tiff: Buffer): ExifSummary {
+  const summary: ExifSummary = { bytes: tiff.length, tags: {}, hasGps: false };
+  const order = tiff.toString("latin1", 0, 2);
+  if (tiff.length < 8 || (order !== "II" && order !== "MM")) {
+    return summary;
+  }
+  const little = order === "II";
+  const u16 = (at: number) => (little ? tiff.readUInt16LE(at) : tiff.readUInt16BE(at));
+  const u32 = (at: number) => (little ? tiff.readUInt32LE(at) : tiff.readUInt32BE(at));
+
+  const readIfd = (start: number, followExif: boolean) => {
+    if (start + 2 > tiff.length) return;
+    const count = u16(start);
+    for (let i = 0; i < count; i++) {
+      const entry = start + 2 + i * 12;
+      if (entry + 12 > tiff.length) return;
+      const tag = u16(entry);
+      const type = u16(entry + 2);
+      const length = u32(entry + 4);
+
+      if (tag === EXIF_IFD_POINTER && followExif) {
+        readIfd(u32(entry + 8), false);
+      } else if (tag === GPS_IFD_POINTER) {
+        summary.hasGps = true;
+      } else if (EXIF_TAGS[tag] && type === 2) {
+        // ASCII values up to 4 bytes are stored inline
+        const at = length <= 4 ? entry + 8 : u32(entry + 8);
+        const end = Math.min(at + length, at + MAX_TAG_LENGTH, tiff.length);
+        const value = tiff.toString("latin1", at, end).replace(/\0[\s\S]*$/, "").trim();
+        if (value) {
+          summary.tags[EXIF_TAGS[tag]] = value;
+        }
+      }
+    }
+  };
+
+  try {
+    readIfd(u32(4), true);
+  } catch (error) {
+    console.log("could not parse exif:", (error as Error).message);
+  }
+  return summary;
+}
+
+/**
+ * Walks the JUMBF superboxes. Each "jumb" box starts with a "jumd"
+ * description box whose label names it: "c2pa" for the store, one box per
+ * manifest below it, and "c2pa.assertions" / "c2pa.signature" inside each.
+ */
+function readC2pa(jumbf: Buffer): C2paSummary {
+  const summary: C2paSummary = { bytes: jumbf.length, manifests: [], assertions: [], signed: false };
+
+  const walk = (start: number, end: number, path: string[]) => {
+    let offset = start;
+    while (offset + 8 <= end) {
+      let size = jumbf.readUInt32BE(offset);
+      const type = jumbf.toString("latin1", offset + 4, offset + 8);
+      if (size === 0) size = end - offset;
+      if (size < 8 || offset + size > end) return;
+
+      if (type === "jumb") {
+        const label = jumbdLabel(offset + 8, offset + size);
+        if (label !== null) {
+          const parent = path[path.length - 1];
+          if (parent === "c2pa") {
+            summary.manifests.push(label);
+          } else if (parent === "c2pa.assertions" && !summary.assertions.includes(label)) {
+            summary.assertions.push(label);
+          }
+          if (label === "c2pa.signature") {
+            summary.signed = true;
+          }
+          walk(offset + 8, offset + size, [...path, label]);
+        }
+      }
+      offset += size;
+    }
+  };
+
+  const jumbdLabel = (start: number, end: number): string | null => {
+    if (start + 8 > end || jumbf.toString("latin1", start + 4, start + 8) !== "jumd") {
+      return null;
+    }
+    // 16 byte type UUID and a toggles byte precede the label
+    const labelStart = start + 8 + 17;
+    const labelEnd = jumbf.indexOf(0, labelStart);
+    const hasLabel = (jumbf[start + 8 + 16] & 0x02) !== 0;
+    return hasLabel && labelEnd > labelStart && labelEnd < end
+      ? jumbf.toString("utf8", labelStart, labelEnd)
+      : "";
+  };
+
+  try {
+    walk(0, jumbf.length, []);
+  } catch (error) {
+    console.log("could not parse c2pa manifest store:", (error as Error).message);
+  }
+  return summary;
+}
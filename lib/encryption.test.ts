@@ -0,0 +1,101 @@
+import { ethers } from "ethers";
+import { describe, expect, it } from "vitest";
+import {
+  createEncryptedPayload,
+  decryptContent,
+  encryptContent,
+  encryptForRecipients,
+  extractEncryptionComponents,
+  getPayloadVersion,
+  PAYLOAD_VERSION_ENVELOPE,
+  PAYLOAD_VERSION_LEGACY,
+} from "./encryption";
+import {
+  decryptEnvelopePayload,
+  getWalletEncryptionPublicKey,
+  isEnvelopePayload,
+} from "./walletEncryption";
+
+function wallet() {
+  const signer = ethers.Wallet.createRandom();
+  const signMessage = (message: string) => signer.signMessage(message);
+  return { address: signer.address, signMessage };
+}
+
+describe("envelope payloads", () => {
+  it("round-trips through the server encryption and the browser decryption", async () => {
+    const creator = wallet();
+    const collector = wallet();
+    const content = Buffer.from("generated artwork bytes");
+    const { payload, recipients } = encryptForRecipients(content, [
+      {
+        address: creator.address,
+        publicKey: await getWalletEncryptionPublicKey(creator.address, creator.signMessage),
+      },
+      {
+        address: collector.address,
+        publicKey: await getWalletEncryptionPublicKey(collector.address, collector.signMessage),
+      },
+    ]);
+
+    expect(getPayloadVersion(payload)).toBe(PAYLOAD_VERSION_ENVELOPE);
+    expect(isEnvelopePayload(payload)).toBe(true);
+    expect(recipients.map((wrap) => wrap.address)).toEqual([
+      creator.address.toLowerCase(),
+      collector.address.toLowerCase(),
+    ]);
+
+    for (const [index, { address, signMessage }] of [creator, collector].entries()) {
+      const decrypted = await decryptEnvelopePayload(payload, recipients[index], address, signMessage);
+      expect(Buffer.from(decrypted).equals(content)).toBe(true);
+    }
+  });
+
+  it("denies a wallet the key was not wrapped for", async () => {
+    const creator = wallet();
+    const stranger = wallet();
+    const { payload, recipients } = encryptForRecipients(Buffer.from("secret"), [
+      {
+        address: creator.address,
+        publicKey: await getWalletEncryptionPublicKey(creator.address, creator.signMessage),
+      },
+    ]);
+
+    await expect(
+      decryptEnvelopePayload(payload, recipients[0], stranger.address, stranger.signMessage)
+    ).rejects.toThrow("Access denied");
+  });
+
+  it("rejects a modified ciphertext", async () => {
+    const creator = wallet();
+    const { payload, recipients } = encryptForRecipients(Buffer.from("secret"), [
+      {
+        address: creator.address,
+        publicKey: await getWalletEncryptionPublicKey(creator.address, creator.signMessage),
+      },
+    ]);
+    payload[payload.length - 1] ^= 1;
+
+    await expect(
+      decryptEnvelopePayload(payload, recipients[0], creator.address, creator.signMessage)
+    ).rejects.toThrow();
+  });
+
+  it("requires at least one recipient", () => {
+    expect(() => encryptForRecipients(Buffer.from("secret"), [])).toThrow();
+  });
+});
+
+describe("legacy payloads", () => {
+  it("round-trips the address-derived format", () => {
+    const address = ethers.Wallet.createRandom().address;
+    const content = Buffer.from("legacy upload");
+    const { encrypted, iv, tag, keyHash } = encryptContent(content, address);
+    const payload = createEncryptedPayload(encrypted, iv, tag, keyHash);
+
+    expect(getPayloadVersion(payload)).toBe(PAYLOAD_VERSION_LEGACY);
+    const parts = extractEncryptionComponents(payload);
+    expect(parts.keyHash).toBe(keyHash);
+    expect(decryptContent(parts.encrypted, parts.iv, parts.tag, address.toUpperCase()).equals(content)).toBe(true);
+  });
+});
@@ -1,4 +1,133 @@
 import crypto from "crypto";
+import { x25519 } from "@noble/curves/ed25519";
+
+/**
+ * Payload formats
+ *
+ * v1 (legacy): keyHash(32) | iv(16) | tag(16) | ciphertext, where the key is
+ * PBKDF2 over the creator's public address. Kept only so old uploads can
+ * still be opened.
+ *
+ * v2: "AENC" | 0x02 | ephemeralPublicKey(32) | wrapIv(12) | wrappedKey(48)
+ * | iv(12) | ciphertext+tag. The content key is random per artifact and is
+ * wrapped (X25519 + HKDF + AES-GCM) to a public key the creator's browser
+ * derives from a wallet signature, so only the wallet holder can unwrap it.
+ *
+ * v3: "AENC" | 0x03 | iv(12) | ciphertext+tag. Same content encryption as v2,
+ * but the wrapped keys live outside the payload - one RecipientWrap per
+ * authorized address, listed in the metadata and in the access store - so
+ * access can be granted and revoked without re-uploading the content.
+ */
+export const PAYLOAD_MAGIC = Buffer.from("AENC", "utf8");
+export const PAYLOAD_VERSION_LEGACY = 1;
+export const PAYLOAD_VERSION_WALLET_WRAPPED = 2;
+export const PAYLOAD_VERSION_ENVELOPE = 3;
+
+export const KEY_WRAP_INFO = "authentica-v2-key-wrap";
+
+export interface RecipientWrap {
+  address: string;
+  ephemeralPublicKey: string;
+  wrapIv: string;
+  wrappedKey: string;
+}
+
+export function getPayloadVersion(payload: Buffer | Uint8Array): number {
+  const magic = Buffer.from(payload.subarray(0, PAYLOAD_MAGIC.length));
+  if (payload.length > PAYLOAD_MAGIC.length && magic.equals(PAYLOAD_MAGIC)) {
+    return payload[PAYLOAD_MAGIC.length];
+  }
+  return PAYLOAD_VERSION_LEGACY;
+}
+
+export function wrapContentKey(
+  contentKey: Buffer,
+  recipientPublicKey: Buffer
+): { ephemeralPublicKey: Buffer; wrapIv: Buffer; wrappedKey: Buffer } {
+  if (recipientPublicKey.length !== 32) {
+    throw new Error("recipient public key must be 32 bytes (x25519)");
+  }
+
+  const ephemeralPrivateKey = x25519.utils.randomPrivateKey();
+  const ephemeralPublicKey = Buffer.from(
+    x25519.getPublicKey(ephemeralPrivateKey)
+  );
+  const sharedSecret = x25519.getSharedSecret(
+    ephemeralPrivateKey,
+    recipientPublicKey
+  );
+
+  const wrappingKey = Buffer.from(
+    crypto.hkdfSync(
+      "sha256",
+      sharedSecret,
+      ephemeralPublicKey,
+      KEY_WRAP_INFO,
+      32
+    )
+  );
+
+  const wrapIv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv("aes-256-gcm", wrappingKey, wrapIv);
+  const wrappedKey = Buffer.concat([
+    cipher.update(contentKey),
+    cipher.final(),
+    cipher.getAuthTag(),
+  ]);
+
+  return { ephemeralPublicKey, wrapIv, wrappedKey };
+}
+
+export function encryptForRecipients(
+  contentBuffer: Buffer,
+  recipients: { address: string; publicKey: string }[]
+): { payload: Buffer; recipients: RecipientWrap[]; contentKeyHash: string } {
+  if (recipients.length === 0) {
+    throw new Error("at least one recipient is required");
+  }
+
+  const contentKey = crypto.randomBytes(32);
+
+  const wraps = recipients.map(({ address, publicKey }) => {
+    const { ephemeralPublicKey, wrapIv, wrappedKey } = wrapContentKey(
+      contentKey,
+      Buffer.from(publicKey.replace(/^0x/, ""), "hex")
+    );
+    return {
+      address: address.toLowerCase(),
+      ephemeralPublicKey: ephemeralPublicKey.toString("hex"),
+      wrapIv: wrapIv.toString("hex"),
+      wrappedKey: wrappedKey.toString("hex"),
+    };
+  });
+
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv("aes-256-gcm", contentKey, iv);
+  const encrypted = Buffer.concat([
+    cipher.update(contentBuffer),
+    cipher.final(),
+    cipher.getAuthTag(),
+  ]);
+
+  const payload = Buffer.concat([
+    PAYLOAD_MAGIC,
+    Buffer.from([PAYLOAD_VERSION_ENVELOPE]),
+    iv,
+    encrypted,
+  ]);
+
+  const contentKeyHash = crypto
+    .createHash("sha256")
+    .update(contentKey)
+    .digest("hex");
+
+  return { payload, recipients: wraps, contentKeyHash };
+}
+
+// ---------------------------------------------------------------------------
+// Legacy (v1) helpers - address-derived keys, decrypt-only from the app's
+// point of view.
+// ---------------------------------------------------------------------------
 
 export function deriveKeyFromAddress(userAddress: string): Buffer {
   const salt = Buffer.from("authentica-ipfs-encryption-salt", "utf8");
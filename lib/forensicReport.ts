@@ -0,0 +1,194 @@
+import jsPDF from "jspdf";
+import type { BlockMap, ForensicReport } from "./forensics";
+
+/**
+ * Renders a forensic report as a portrait A4 PDF in the certificate's
+ * visual style. Returns the bytes so the server can send it as a download.
+ */
+export function generateForensicReportPdf(report: ForensicReport): ArrayBuffer {
+  const doc = new jsPDF({
+    orientation: "portrait",
+    unit: "mm",
+    format: "a4",
+  });
+
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const pageHeight = doc.internal.pageSize.getHeight();
+  const margin = 20;
+  const contentWidth = pageWidth - margin * 2;
+
+  const primaryColor: [number, number, number] = [34, 197, 94];
+  const secondaryColor: [number, number, number] = [16, 185, 129];
+  const alertColor: [number, number, number] = [220, 38, 38];
+  const textColor: [number, number, number] = [28, 25, 23];
+  const mutedColor: [number, number, number] = [107, 114, 128];
+
+  doc.setFillColor(...(report.suspicious ? alertColor : primaryColor));
+  doc.rect(0, 0, pageWidth, 32, "F");
+
+  doc.setTextColor(255, 255, 255);
+  doc.setFontSize(26);
+  doc.setFont("helvetica", "bold");
+  doc.text("AUTHENTICA", pageWidth / 2, 18, { align: "center" });
+
+  doc.setFontSize(11);
+  doc.setFont("helvetica", "normal");
+  doc.text("Forensic Analysis Report", pageWidth / 2, 27, { align: "center" });
+
+  let yPos = 45;
+
+  const ensureSpace = (height: number) => {
+    if (yPos + height > pageHeight - margin) {
+      doc.addPage();
+      yPos = margin;
+    }
+  };
+
+  const heading = (title: string) => {
+    ensureSpace(16);
+    doc.setTextColor(...textColor);
+    doc.setFontSize(14);
+    doc.setFont("helvetica", "bold");
+    doc.text(title, margin, yPos);
+    yPos += 3;
+    doc.setDrawColor(...secondaryColor);
+    doc.setLineWidth(0.4);
+    doc.line(margin, yPos, pageWidth - margin, yPos);
+    yPos += 7;
+  };
+
+  const field = (label: string, value: string) => {
+    doc.setFontSize(10);
+    doc.setFont("helvetica", "normal");
+    const lines = doc.splitTextToSize(value, contentWidth - 45);
+    ensureSpace(lines.length * 5 + 1);
+    doc.setTextColor(...textColor);
+    doc.setFont("helvetica", "bold");
+    doc.text(`${label}:`, margin, yPos);
+    doc.setFont("helvetica", "normal");
+    doc.text(lines, margin + 45, yPos);
+    yPos += lines.length * 5 + 1;
+  };
+
+  const paragraph = (text: string, color = textColor) => {
+    doc.setFontSize(9);
+    doc.setFont("helvetica", "normal");
+    const lines = doc.splitTextToSize(text, contentWidth);
+    ensureSpace(lines.length * 4.5 + 2);
+    doc.setTextColor(...color);
+    doc.text(lines, margin, yPos);
+    yPos += lines.length * 4.5 + 2;
+  };
+
+  // preview with the map's overlay on top, scaled to fit the content width
+  const blockMapImage = (map: BlockMap) => {
+    if (!report.preview || !report.file.width || !report.file.height) return;
+    const width = Math.min(contentWidth, 120);
+    const height = (width * report.file.height) / report.file.width;
+    ensureSpace(height + 4);
+    try {
+      // the alias embeds the preview once for both maps
+      doc.addImage(report.preview, "PNG", margin, yPos, width, height, "preview", "FAST");
+      doc.addImage(map.overlay, "PNG", margin, yPos, width, height, undefined, "FAST");
+    } catch (error) {
+      console.error("failed to add map image:", error);
+    }
+    yPos += height + 4;
+  };
+
+  heading("File");
+  field("Name", report.file.name || "(unnamed upload)");
+  field("Format", (report.file.format || "unknown").toUpperCase());
+  field("Size", `${report.file.bytes} bytes`);
+  if (report.file.width && report.file.height) {
+    field("Dimensions", `${report.file.width} x ${report.file.height}`);
+  }
+  field("SHA-256", report.file.sha256);
+  field("Analysed", new Date(report.generatedAt).toLocaleString());
+  yPos += 4;
+
+  heading("Verdict");
+  if (report.suspicious) {
+    report.findings.forEach((finding) => paragraph(`- ${finding}`, alertColor));
+  } else {
+    paragraph("No signs of hidden data or local manipulation were found.", secondaryColor);
+  }
+  yPos += 4;
+
+  heading("Steganography");
+  field("Result", report.steganography.suspicious ? "Suspicious" : "Clean");
+  field("Method", report.steganography.method);
+  field("Details", report.steganography.details);
+  if (report.steganography.channels?.length) {
+    field(
+      "Embedding rate",
+      report.steganography.channels
+        .map((channel) => `${channel.channel} ${(channel.embeddingRate * 100).toFixed(1)}%`)
+        .join(", ")
+    );
+  }
+  yPos += 4;
+
+  heading("Container");
+  field("Result", report.container.suspicious ? "Suspicious" : "Clean");
+  field("Details", report.container.details);
+  report.container.findings.forEach((finding) => {
+    paragraph(
+      `${finding.suspicious ? "[!] " : ""}${finding.label} at 0x${finding.offset.toString(16)}, ${finding.size} bytes: ${finding.detail}`,
+      finding.suspicious ? alertColor : mutedColor
+    );
+  });
+  yPos += 4;
+
+  heading("Embedded Metadata");
+  const { exif, c2pa } = report.metadata;
+  if (exif) {
+    field("EXIF", `${exif.bytes} bytes${exif.hasGps ? ", includes GPS" : ""}`);
+    Object.entries(exif.tags).forEach(([tag, value]) => field(tag, value));
+  } else {
+    field("EXIF", "Not present");
+  }
+  if (c2pa) {
+    field("C2PA", `${c2pa.manifests.length} manifest(s), ${c2pa.signed ? "signed" : "unsigned"}`);
+    if (c2pa.assertions.length > 0) {
+      field("Assertions", c2pa.assertions.join(", "));
+    }
+    paragraph("The C2PA signature was not validated.", mutedColor);
+  } else {
+    field("C2PA", "Not present");
+  }
+  yPos += 4;
+
+  if (report.ela) {
+    heading("Error Level Analysis");
+    field("Result", report.ela.suspicious ? "Inconsistent region found" : "Consistent");
+    field("Recompression", `quality ${report.ela.quality}, mean error ${report.ela.meanError}`);
+    field("Largest cluster", `${(report.ela.largestCluster * 100).toFixed(1)}% of the image`);
+    blockMapImage(report.ela);
+    yPos += 2;
+  }
+
+  if (report.noise) {
+    heading("Noise Consistency");
+    field("Result", report.noise.suspicious ? "Inconsistent region found" : "Consistent");
+    field("Median noise", `${report.noise.medianSigma} luma levels`);
+    field("Largest cluster", `${(report.noise.largestCluster * 100).toFixed(1)}% of the image`);
+    blockMapImage(report.noise);
+  }
+
+  const pages = doc.getNumberOfPages();
+  for (let page = 1; page <= pages; page++) {
+    doc.setPage(page);
+    doc.setFontSize(7);
+    doc.setTextColor(...mutedColor);
+    doc.setFont("helvetica", "italic");
+    doc.text(
+      `Automated analysis; highlighted regions are leads for review, not proof of tampering. Page ${page} of ${pages}`,
+      pageWidth / 2,
+      pageHeight - 10,
+      { align: "center" }
+    );
+  }
+
+  return doc.output("arraybuffer");
+}
@@ -0,0 +1,445 @@
+import jpeg from "jpeg-js";
+import { ContainerFormat, ContainerScanResult, detectContainerFormat, scanContainer } from "./containerScan";
+import { hashBuffer } from "./crypto";
+import { EmbeddedMetadata, readEmbeddedMetadata } from "./embeddedMetadata";
+import { encodePng, tryDecodeImage } from "./image";
+import { DecodedImage, GrayImage, resizeImage, toGrayscale } from "./pixels";
+import { detectSteganography, SteganographyResult } from "./steganography";
+
+/**
+ * Single-file forensic report: steganalysis, container anomalies, embedded
+ * provenance metadata, Error Level Analysis for JPEGs and a noise
+ * consistency map. Nothing here needs the original image; each map is
+ * judged against the image's own block statistics.
+ */
+export interface BlockMap {
+  // block grid over the full-resolution image, row-major; -1 marks blocks
+  // that were skipped (clipped or flat)
+  columns: number;
+  rows: number;
+  blockSize: number;
+  values: number[];
+  // blocks far from the image's own median, by robust z-score
+  outliers: number[];
+  outlierFraction: number;
+  // largest 4-connected group of outlier blocks, as a share of the image
+  largestCluster: number;
+  suspicious: boolean;
+  // transparent PNG data URL at the report's preview size
+  overlay: string;
+}
+
+export interface ErrorLevelAnalysis extends BlockMap {
+  quality: number;
+  // mean absolute error after recompression, 0..255
+  meanError: number;
+}
+
+export interface NoiseAnalysis extends BlockMap {
+  // median of the per-block noise standard deviations, in luma levels
+  medianSigma: number;
+}
+
+export interface ForensicReport {
+  generatedAt: string;
+  file: {
+    name: string | null;
+    format: ContainerFormat | null;
+    bytes: number;
+    sha256: string;
+    width: number | null;
+    height: number | null;
+  };
+  suspicious: boolean;
+  // one line per finding that made the report suspicious
+  findings: string[];
+  steganography: SteganographyResult;
+  container: ContainerScanResult;
+  metadata: EmbeddedMetadata;
+  ela: ErrorLevelAnalysis | null;
+  noise: NoiseAnalysis | null;
+  // downscaled PNG data URL the overlays are drawn over
+  preview: string | null;
+}
+
+const ELA_QUALITY = 90;
+const ELA_BLOCK_SIZE = 16;
+const NOISE_BLOCK_SIZE = 32;
+// jpeg-js re-encodes in pure JavaScript; larger images skip ELA
+const MAX_ELA_PIXELS = 16 * 1000 * 1000;
+const PREVIEW_SIZE = 512;
+// robust z-score beyond which a block is an outlier
+const OUTLIER_Z = 4;
+// a cluster of outliers this large (share of blocks) is reported
+const MIN_CLUSTER = 0.01;
+const MIN_CLUSTER_BLOCKS = 4;
+
+export async function analyzeFile(buffer: Buffer, name: string | null = null): Promise<ForensicReport> {
+  const format = detectContainerFormat(buffer);
+  const image = format === "png" || format === "jpeg" ? tryDecodeImage(buffer) : null;
+
+  const steganography = await detectSteganography(buffer);
+  const container = scanContainer(buffer);
+  const metadata = readEmbeddedMetadata(buffer);
+
+  let ela: ErrorLevelAnalysis | null = null;
+  let noise: NoiseAnalysis | null = null;
+  let preview: string | null = null;
+  if (image) {
+    const previewSize = fitPreview(image);
+    preview = dataUrl(resizeImage(image, previewSize.width, previewSize.height));
+    if (format === "jpeg" && image.width * image.height <= MAX_ELA_PIXELS) {
+      ela = errorLevelAnalysis(image, previewSize);
+    }
+    noise = noiseAnalysis(image, previewSize);
+  }
+
+  const findings: string[] = [];
+  if (steganography.suspicious) {
+    findings.push(`Steganography: ${steganography.details}`);
+  }
+  if (container.suspicious) {
+    findings.push(`Container: ${container.details}`);
+  }
+  if (ela?.suspicious) {
+    findings.push(
+      `Error level analysis: ${formatShare(ela.largestCluster)} of the image recompresses unlike the rest`
+    );
+  }
+  if (noise?.suspicious) {
+    findings.push(
+      `Noise: ${formatShare(noise.largestCluster)} of the image has a noise level inconsistent with the rest`
+    );
+  }
+
+  return {
+    generatedAt: new Date().toISOString(),
+    file: {
+      name,
+      format,
+      bytes: buffer.length,
+      sha256: hashBuffer(buffer),
+      width: image?.width ?? null,
+      height: image?.height ?? null,
+    },
+    suspicious: findings.length > 0,
+    findings,
+    steganography,
+    container,
+    metadata,
+    ela,
+    noise,
+    preview,
+  };
+}
+
+/**
+ * Recompresses at a fixed quality and measures how much each block moves.
+ * Content saved once at a lower quality, or pasted in from a different
+ * source, settles differently from the rest. Error grows with texture, so
+ * blocks are compared by error per unit of local detail.
+ */
+export function errorLevelAnalysis(
+  image: DecodedImage,
+  previewSize = fitPreview(image)
+): ErrorLevelAnalysis {
+  const { width, height, data } = image;
+  const encoded = jpeg.encode(
+    { width, height, data: Buffer.from(data.buffer, data.byteOffset, data.byteLength) },
+    ELA_QUALITY
+  );
+  const recompressed = jpeg.decode(encoded.data, { useTArray: true, formatAsRGBA: true }).data;
+
+  const error = new Float64Array(width * height);
+  let total = 0;
+  for (let i = 0; i < width * height; i++) {
+    let max = 0;
+    for (let c = 0; c < 3; c++) {
+      max = Math.max(max, Math.abs(data[i * 4 + c] - recompressed[i * 4 + c]));
+    }
+    error[i] = max;
+    total += max;
+  }
+
+  const detail = laplacianMagnitude(toGrayscale(image));
+  const columns = Math.ceil(width / ELA_BLOCK_SIZE);
+  const rows = Math.ceil(height / ELA_BLOCK_SIZE);
+  const values: number[] = [];
+  const scores: number[] = [];
+  for (let row = 0; row < rows; row++) {
+    for (let column = 0; column < columns; column++) {
+      const { mean: blockError } = blockMean(error, width, height, column, row, ELA_BLOCK_SIZE);
+      const { mean: blockDetail } = blockMean(detail, width, height, column, row, ELA_BLOCK_SIZE);
+      values.push(round(blockError));
+      // a little detail is added so flat blocks don't divide by zero
+      scores.push(Math.log((blockError + 0.5) / (blockDetail + 2)));
+    }
+  }
+
+  return {
+    quality: ELA_QUALITY,
+    meanError: round(total / (width * height)),
+    ...judgeBlocks(columns, rows, ELA_BLOCK_SIZE, values, smoothScores(scores, columns, rows), previewSize, image),
+  };
+}
+
+/**
+ * Per-block noise level from the median absolute response of a Laplacian
+ * kernel that cancels smooth gradients (Immerkaer's operator). The median
+ * ignores the edges a mean would pick up. A region pasted from another
+ * camera, or smoothed over, stands out from the sensor noise around it.
+ */
+export function noiseAnalysis(
+  image: DecodedImage,
+  previewSize = fitPreview(image)
+): NoiseAnalysis {
+  const gray = toGrayscale(image);
+  const { width, height } = gray;
+  const residual = noiseResidual(gray);
+  const columns = Math.ceil(width / NOISE_BLOCK_SIZE);
+  const rows = Math.ceil(height / NOISE_BLOCK_SIZE);
+  const values: number[] = [];
+  const scores: number[] = [];
+  const sigmas: number[] = [];
+
+  for (let row = 0; row < rows; row++) {
+    for (let column = 0; column < columns; column++) {
+      const { mean: luma } = blockMean(gray.data, width, height, column, row, NOISE_BLOCK_SIZE);
+      const samples = blockSamples(residual, width, height, column, row, NOISE_BLOCK_SIZE);
+      // clipped highlights and shadows have no measurable noise
+      if (luma < 16 || luma > 239 || samples.length < 64) {
+        values.push(-1);
+        scores.push(NaN);
+        continue;
+      }
+      // the kernel's weights have a norm of 6
+      const sigma = median(samples) / 0.6745 / 6;
+      values.push(round(sigma));
+      scores.push(Math.log(sigma + 0.25));
+      sigmas.push(sigma);
+    }
+  }
+
+  return {
+    medianSigma: round(sigmas.length > 0 ? median(sigmas) : 0),
+    ...judgeBlocks(columns, rows, NOISE_BLOCK_SIZE, values, scores, previewSize, image),
+  };
+}
+
+function judgeBlocks(
+  columns: number,
+  rows: number,
+  blockSize: number,
+  values: number[],
+  scores: number[],
+  previewSize: { width: number; height: number },
+  image: DecodedImage
+) {
+  const valid = scores.filter((score) => !Number.isNaN(score));
+  const center = valid.length > 0 ? median(valid) : 0;
+  const spread = valid.length > 0 ? 1.4826 * median(valid.map((score) => Math.abs(score - center))) : 0;
+
+  const outlier = new Uint8Array(scores.length);
+  const outliers: number[] = [];
+  const z = new Float64Array(scores.length);
+  scores.forEach((score, i) => {
+    if (Number.isNaN(score) || spread === 0) return;
+    z[i] = (score - center) / spread;
+    if (Math.abs(z[i]) >= OUTLIER_Z) {
+      outlier[i] = 1;
+      outliers.push(i);
+    }
+  });
+
+  const largest = largestCluster(outlier, columns, rows);
+  const largestClusterShare = largest / Math.max(1, valid.length);
+
+  return {
+    columns,
+    rows,
+    blockSize,
+    values,
+    outliers,
+    outlierFraction: round(outliers.length / Math.max(1, valid.length), 4),
+    largestCluster: round(largestClusterShare, 4),
+    suspicious: largest >= MIN_CLUSTER_BLOCKS && largestClusterShare >= MIN_CLUSTER,
+    overlay: dataUrl(renderBlockOverlay(z, columns, rows, blockSize, previewSize, image)),
+  };
+}
+
+// 3x3 mean over valid blocks: a single block's recompression error is a
+// noisy estimate, and a splice worth reporting spans several of them
+function smoothScores(scores: number[], columns: number, rows: number): number[] {
+  return scores.map((score, i) => {
+    if (Number.isNaN(score)) return NaN;
+    const column = i % columns;
+    const row = Math.floor(i / columns);
+    let sum = 0;
+    let count = 0;
+    for (let y = Math.max(0, row - 1); y <= Math.min(rows - 1, row + 1); y++) {
+      for (let x = Math.max(0, column - 1); x <= Math.min(columns - 1, column + 1); x++) {
+        const value = scores[y * columns + x];
+        if (!Number.isNaN(value)) {
+          sum += value;
+          count++;
+        }
+      }
+    }
+    return sum / count;
+  });
+}
+
+/**
+ * Transparent overlay at preview size: blocks shade from yellow to red as
+ * their z-score approaches and passes the outlier threshold.
+ */
+function renderBlockOverlay(
+  z: Float64Array,
+  columns: number,
+  rows: number,
+  blockSize: number,
+  size: { width: number; height: number },
+  image: DecodedImage
+): DecodedImage {
+  const { width, height } = size;
+  const data = new Uint8Array(width * height * 4);
+  const scaleX = image.width / width;
+  const scaleY = image.height / height;
+
+  for (let y = 0; y < height; y++) {
+    const row = Math.min(rows - 1, Math.floor((y * scaleY) / blockSize));
+    for (let x = 0; x < width; x++) {
+      const column = Math.min(columns - 1, Math.floor((x * scaleX) / blockSize));
+      const strength = Math.min(1, Math.abs(z[row * columns + column]) / OUTLIER_Z);
+      if (strength < 0.5) continue;
+      const i = (y * width + x) * 4;
+      data[i] = 255;
+      data[i + 1] = Math.round(220 * (1 - strength));
+      data[i + 3] = Math.round(40 + 140 * strength);
+    }
+  }
+
+  return { width, height, data };
+}
+
+function noiseResidual(gray: GrayImage): Float64Array {
+  const { width, height, data } = gray;
+  const out = new Float64Array(width * height).fill(NaN);
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const i = y * width + x;
+      const value =
+        data[i - width - 1] - 2 * data[i - width] + data[i - width + 1] -
+        2 * data[i - 1] + 4 * data[i] - 2 * data[i + 1] +
+        data[i + width - 1] - 2 * data[i + width] + data[i + width + 1];
+      out[i] = Math.abs(value);
+    }
+  }
+  return out;
+}
+
+function laplacianMagnitude(gray: GrayImage): Float64Array {
+  const { width, height, data } = gray;
+  const out = new Float64Array(width * height);
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const i = y * width + x;
+      out[i] = Math.abs(4 * data[i] - data[i - 1] - data[i + 1] - data[i - width] - data[i + width]);
+    }
+  }
+  return out;
+}
+
+function blockSamples(
+  values: Float64Array,
+  width: number,
+  height: number,
+  column: number,
+  row: number,
+  blockSize: number
+): number[] {
+  const samples: number[] = [];
+  for (let y = row * blockSize; y < Math.min(height, (row + 1) * blockSize); y++) {
+    for (let x = column * blockSize; x < Math.min(width, (column + 1) * blockSize); x++) {
+      const value = values[y * width + x];
+      if (!Number.isNaN(value)) samples.push(value);
+    }
+  }
+  return samples;
+}
+
+function blockMean(
+  values: Float64Array,
+  width: number,
+  height: number,
+  column: number,
+  row: number,
+  blockSize: number
+) {
+  let sum = 0;
+  let count = 0;
+  for (let y = row * blockSize; y < Math.min(height, (row + 1) * blockSize); y++) {
+    for (let x = column * blockSize; x < Math.min(width, (column + 1) * blockSize); x++) {
+      sum += values[y * width + x];
+      count++;
+    }
+  }
+  return { mean: count > 0 ? sum / count : 0, count };
+}
+
+function largestCluster(mask: Uint8Array, columns: number, rows: number): number {
+  const seen = new Uint8Array(mask.length);
+  let largest = 0;
+  for (let start = 0; start < mask.length; start++) {
+    if (!mask[start] || seen[start]) continue;
+    let size = 0;
+    const stack = [start];
+    seen[start] = 1;
+    while (stack.length > 0) {
+      const i = stack.pop()!;
+      size++;
+      const column = i % columns;
+      const neighbours = [
+        column > 0 ? i - 1 : -1,
+        column < columns - 1 ? i + 1 : -1,
+        i >= columns ? i - columns : -1,
+        i < (rows - 1) * columns ? i + columns : -1,
+      ];
+      for (const next of neighbours) {
+        if (next >= 0 && mask[next] && !seen[next]) {
+          seen[next] = 1;
+          stack.push(next);
+        }
+      }
+    }
+    largest = Math.max(largest, size);
+  }
+  return largest;
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = sorted.length >> 1;
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+function fitPreview(image: DecodedImage) {
+  const scale = Math.min(1, PREVIEW_SIZE / Math.max(image.width, image.height));
+  return {
+    width: Math.max(1, Math.round(image.width * scale)),
+    height: Math.max(1, Math.round(image.height * scale)),
+  };
+}
+
+function dataUrl(image: DecodedImage): string {
+  return `data:image/png;base64,${encodePng(image).toString("base64")}`;
+}
+
+function round(value: number, digits = 2): number {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+}
+
+function formatShare(share: number): string {
+  return `${(share * 100).toFixed(1)}%`;
+}
@@ -0,0 +1,663 @@
+import { editImage, generateImage, generateMusic, generateText } from "./ai";
+import {
+  editParameters,
+  getDefaultImageProvider,
+  getImageProvider,
+  ImageProviderName,
+  isImageProviderName,
+  listImageProviders,
+} from "./imageProviders";
+import {
+  deriveWatermarkId,
+  generateProof,
+  hashBuffer,
+  hashString,
+} from "./crypto";
+import { recoverProofRequestSigner } from "./signature";
+import {
+  candidateSeed,
+  EditParams,
+  GENERATION_PARAM_NAMES,
+  GenerationParams,
+  hasGenerationParams,
+  parseEditParams,
+  parseGenerationParams,
+  serializePromptCommitment,
+} from "./generationParams";
+import { getProofRecordOnChain, getProvider } from "./blockchain";
+import { readEditInput, saveEditInput } from "./editInputs";
+import { consumeNonce, getNonceTtlMs } from "./nonces";
+import { encryptForRecipients, PAYLOAD_VERSION_ENVELOPE } from "./encryption";
+import { getEncryptionKey, initializeAccessList } from "./access";
+import { storeProofContent } from "./outbox";
+import { AudioFingerprint, fingerprintAudioBuffer } from "./audioFingerprint";
+import { hashImageBuffer, PerceptualHashes } from "./perceptualHash";
+import { computeTextSignature, TextSignature } from "./textFingerprint";
+import { addToImageIndex } from "./imageIndex";
+import { getClipEmbedding } from "./clip";
+import { decodeImage, encodePng, tryDecodeImage } from "./image";
+import { embedWatermark, WATERMARK_VERSION } from "./watermark";
+import { registerWatermark } from "./watermarkRegistry";
+
+/**
+ * The generation pipeline behind /api/generate and /api/jobs: a signed
+ * request is checked once, up front, and then run through generation,
+ * hashing, encryption and upload. Only plain data goes into a
+ * GenerationRequest, so a job can persist it and run it again after a
+ * restart. A request for several candidates stops after generation; the
+ * candidates wait in the draft store (lib/drafts.ts) until one is chosen
+ * and finalized. An edit of a registered image refers to its input images
+ * by hash (lib/editInputs.ts), and its proof records the parent's
+ * combinedHash, which is also registered on chain.
+ */
+export type ContentType = "image" | "music" | "text";
+
+export type GenerationStage = "generating" | "hashing" | "encrypting" | "uploading";
+
+export interface GenerationRequest {
+  prompt: string;
+  type: ContentType;
+  signer: string;
+  timestamp: number;
+  nonce: string;
+  signature: string;
+  faceHash?: string;
+  faceTimestamp?: number;
+  recipientKeys: { address: string; publicKey: string }[];
+  imageProvider?: ImageProviderName;
+  model?: string;
+  // committed to by the signature, together with the prompt
+  params?: GenerationParams;
+  // more than one only for images; see generateCandidates
+  candidates?: number;
+  // committed to like the parameters; the parent's output is stored under
+  // parentOutputHash and the mask under edit.maskHash
+  edit?: EditParams;
+  parentOutputHash?: string;
+}
+
+export interface GeneratedContent {
+  output: Buffer;
+  transparency: any;
+}
+
+// which candidate of a multi-candidate request a proof was made from
+export interface CandidateSelection {
+  index: number;
+  count: number;
+  // output hashes of the candidates that were not chosen, when the creator
+  // commits them as a record of the process
+  rejectedOutputHashes?: string[];
+}
+
+export class GenerationRequestError extends Error {
+  status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = "GenerationRequestError";
+    this.status = status;
+  }
+}
+
+const CONTENT_TYPES: ContentType[] = ["image", "music", "text"];
+const MAX_CANDIDATES = 4;
+// longest side of an upscaled image
+const MAX_UPSCALED_DIMENSION = 4096;
+
+/**
+ * Checks the images an edit was sent with: the parent image must be the
+ * output registered on chain for edit.parentHash, and an inpainting mask
+ * must be the committed one and the size of the parent.
+ */
+async function checkEditInputs(
+  edit: EditParams,
+  parentImage: any,
+  mask: any
+): Promise<{ image: Buffer; mask: Buffer | null; outputHash: string }> {
+  if (!parentImage || typeof parentImage !== "string") {
+    throw new GenerationRequestError(
+      "An edit needs the parent image (parentImage, base64)",
+      400
+    );
+  }
+
+  let record;
+  try {
+    record = await getProofRecordOnChain(getProvider(), edit.parentHash);
+  } catch (error: any) {
+    console.error("failed to read parent proof:", error.message);
+    throw new GenerationRequestError(
+      "Could not read the parent proof from the blockchain",
+      502
+    );
+  }
+  if (!record.exists) {
+    throw new GenerationRequestError("Parent proof not found on blockchain", 404);
+  }
+
+  const image = Buffer.from(parentImage, "base64");
+  if (hashBuffer(image) !== record.outputHash) {
+    throw new GenerationRequestError(
+      "parentImage is not the registered output of the parent proof",
+      400
+    );
+  }
+  const parent = tryDecodeImage(image);
+  if (!parent) {
+    throw new GenerationRequestError("The parent proof's output is not an image", 400);
+  }
+  if (
+    edit.mode === "upscale" &&
+    Math.max(parent.width, parent.height) * edit.scale! > MAX_UPSCALED_DIMENSION
+  ) {
+    throw new GenerationRequestError(
+      `An upscaled image may be at most ${MAX_UPSCALED_DIMENSION} pixels on a side`,
+      400
+    );
+  }
+
+  if (edit.mode !== "inpaint") {
+    return { image, mask: null, outputHash: record.outputHash };
+  }
+  if (!mask || typeof mask !== "string") {
+    throw new GenerationRequestError("Inpainting needs a mask (mask, base64)", 400);
+  }
+  const maskBuffer = Buffer.from(mask, "base64");
+  if (hashBuffer(maskBuffer) !== edit.maskHash) {
+    throw new GenerationRequestError("mask does not match the signed maskHash", 400);
+  }
+  const decodedMask = tryDecodeImage(maskBuffer);
+  if (
+    !decodedMask ||
+    decodedMask.width !== parent.width ||
+    decodedMask.height !== parent.height
+  ) {
+    throw new GenerationRequestError(
+      `mask must be an image of the parent's size, ${parent.width}x${parent.height}`,
+      400
+    );
+  }
+  return { image, mask: maskBuffer, outputHash: record.outputHash };
+}
+
+/**
+ * Validates the request body and consumes its nonce. Everything that can be
+ * rejected without spending the nonce is checked first, so a request with a
+ * bad provider or model can be corrected and re-sent with the same
+ * signature. The input images of an edit are only stored once the
+ * signature is accepted.
+ */
+export async function validateGenerationRequest(
+  body: any
+): Promise<GenerationRequest> {
+  const {
+    prompt,
+    userAddress,
+    type = "image",
+    faceHash,
+    faceTimestamp,
+    timestamp: signedTimestamp,
+    nonce,
+    signature,
+    recipients = [],
+    provider: requestedProvider,
+    model: requestedModel,
+    params: requestedParams,
+    candidates = 1,
+    edit: requestedEdit,
+    parentImage,
+    mask,
+  } = body || {};
+
+  if (!prompt || !userAddress) {
+    throw new GenerationRequestError("Prompt and user address are required", 400);
+  }
+
+  if (!CONTENT_TYPES.includes(type)) {
+    throw new GenerationRequestError(
+      `Unsupported type. Supported types: ${CONTENT_TYPES.join(", ")}`,
+      400
+    );
+  }
+
+  let params: GenerationParams;
+  try {
+    params = parseGenerationParams(requestedParams);
+  } catch (error: any) {
+    throw new GenerationRequestError(error.message, 400);
+  }
+  if (type !== "image" && hasGenerationParams(params)) {
+    throw new GenerationRequestError(
+      "Generation parameters are only supported for images",
+      400
+    );
+  }
+
+  let edit: EditParams | null;
+  try {
+    edit = parseEditParams(requestedEdit);
+  } catch (error: any) {
+    throw new GenerationRequestError(error.message, 400);
+  }
+  if (type !== "image" && edit) {
+    throw new GenerationRequestError("Edits are only supported for images", 400);
+  }
+
+  const candidateCount = Number(candidates);
+  if (
+    !Number.isInteger(candidateCount) ||
+    candidateCount < 1 ||
+    candidateCount > MAX_CANDIDATES
+  ) {
+    throw new GenerationRequestError(
+      `candidates must be an integer between 1 and ${MAX_CANDIDATES}`,
+      400
+    );
+  }
+  if (type !== "image" && candidateCount > 1) {
+    throw new GenerationRequestError(
+      "Multiple candidates are only supported for images",
+      400
+    );
+  }
+  if (edit?.mode === "upscale" && candidateCount > 1) {
+    throw new GenerationRequestError(
+      "Upscaling gives the same result every time, so it takes one candidate",
+      400
+    );
+  }
+
+  let imageProvider: ImageProviderName | undefined;
+  if (type === "image") {
+    if (requestedProvider && !isImageProviderName(String(requestedProvider))) {
+      throw new GenerationRequestError(
+        `Unknown image provider "${requestedProvider}". Supported providers: ${listImageProviders()
+          .map((provider) => provider.name)
+          .join(", ")}`,
+        400
+      );
+    }
+    const provider = requestedProvider
+      ? getImageProvider(requestedProvider)
+      : getDefaultImageProvider();
+    if (!provider || !provider.isConfigured()) {
+      throw new GenerationRequestError(
+        provider
+          ? `Image provider "${provider.name}" is not configured on this server`
+          : "No image generation API key found",
+        500
+      );
+    }
+    if (requestedModel && !provider.supportsModel(String(requestedModel))) {
+      throw new GenerationRequestError(
+        `Model "${requestedModel}" is not available from ${provider.label}. Known models: ${provider.models.join(", ")}`,
+        400
+      );
+    }
+    const model = requestedModel ? String(requestedModel) : provider.defaultModel;
+    if (edit && !provider.edits(model).includes(edit.mode)) {
+      throw new GenerationRequestError(
+        `${provider.label} does not offer ${edit.mode} for this model. Edit modes: ${provider.edits(model).join(", ") || "none"}`,
+        400
+      );
+    }
+    // an edit takes the parent's size
+    const supported = edit
+      ? editParameters(provider, model, edit.mode)
+      : provider.parameters(model);
+    const unsupported = GENERATION_PARAM_NAMES.filter(
+      (name) => params[name] !== undefined && !supported.includes(name)
+    );
+    if (unsupported.length > 0) {
+      throw new GenerationRequestError(
+        `${provider.label} does not take ${unsupported.join(", ")} for this model. Supported parameters: ${supported.join(", ") || "none"}`,
+        400
+      );
+    }
+    imageProvider = provider.name;
+  }
+
+  if (type === "music" && !process.env.RAPIDAPI_KEY?.trim()) {
+    throw new GenerationRequestError("No music generation API key found", 500);
+  }
+
+  const editInputs = edit ? await checkEditInputs(edit, parentImage, mask) : null;
+
+  if (!signature || !nonce || !signedTimestamp) {
+    throw new GenerationRequestError(
+      "Wallet signature, nonce and timestamp are required",
+      401
+    );
+  }
+
+  let signer: string;
+  try {
+    signer = recoverProofRequestSigner(
+      {
+        promptHash: hashString(serializePromptCommitment(prompt, params, edit)),
+        timestamp: Number(signedTimestamp),
+        nonce,
+      },
+      signature
+    );
+  } catch (error: any) {
+    console.error("signature recovery failed:", error.message);
+    throw new GenerationRequestError("Invalid signature", 401);
+  }
+
+  if (signer.toLowerCase() !== String(userAddress).toLowerCase()) {
+    console.error("signer does not match user address:", signer);
+    throw new GenerationRequestError(
+      "Signature was not produced by the user address",
+      401
+    );
+  }
+
+  if (!consumeNonce(signer, nonce)) {
+    throw new GenerationRequestError(
+      "Nonce is invalid, expired or already used",
+      401
+    );
+  }
+
+  if (Math.abs(Date.now() - Number(signedTimestamp)) > getNonceTtlMs()) {
+    throw new GenerationRequestError(
+      "Signed timestamp is too far from server time",
+      401
+    );
+  }
+
+  const recipientAddresses: string[] = Array.from(
+    new Set(
+      [signer, ...(Array.isArray(recipients) ? recipients : [])].map(
+        (address: string) => String(address).toLowerCase()
+      )
+    )
+  );
+  const recipientKeys: { address: string; publicKey: string }[] = [];
+  for (const address of recipientAddresses) {
+    const publicKey = getEncryptionKey(address);
+    if (!publicKey) {
+      throw new GenerationRequestError(
+        `No encryption key registered for ${address}. The wallet must register one before content can be shared with it.`,
+        400
+      );
+    }
+    recipientKeys.push({ address, publicKey });
+  }
+
+  if (editInputs) {
+    saveEditInput(editInputs.image);
+    if (editInputs.mask) {
+      saveEditInput(editInputs.mask);
+    }
+  }
+
+  return {
+    prompt,
+    type,
+    signer,
+    timestamp: Number(signedTimestamp),
+    nonce,
+    signature,
+    ...(faceHash && { faceHash, faceTimestamp }),
+    recipientKeys,
+    ...(imageProvider && { imageProvider }),
+    ...(requestedModel && { model: String(requestedModel) }),
+    ...(hasGenerationParams(params) && { params }),
+    ...(candidateCount > 1 && { candidates: candidateCount }),
+    ...(edit && editInputs && { edit, parentOutputHash: editInputs.outputHash }),
+  };
+}
+
+async function generateContent(
+  request: GenerationRequest
+): Promise<GeneratedContent> {
+  const { prompt, type } = request;
+
+  if (type === "image") {
+    try {
+      const options = {
+        provider: request.imageProvider,
+        model: request.model,
+        params: request.params,
+      };
+      const result =
+        request.edit && request.parentOutputHash
+          ? await editImage(
+              prompt,
+              {
+                ...request.edit,
+                image: readEditInput(request.parentOutputHash),
+                ...(request.edit.maskHash && {
+                  mask: readEditInput(request.edit.maskHash),
+                }),
+              },
+              options
+            )
+          : await generateImage(prompt, options);
+      return { output: result.image, transparency: result.transparency };
+    } catch (error: any) {
+      console.error("image generation error:", error);
+      throw new Error(
+        `Image generation failed: ${error.message || "Unknown error"}`
+      );
+    }
+  }
+
+  if (type === "music") {
+    try {
+      const result = await generateMusic(prompt);
+      return { output: result.audio, transparency: result.transparency };
+    } catch (error: any) {
+      console.error("music generation error:", error);
+      throw new Error(
+        `Music generation failed: ${error.message || "Unknown error"}`
+      );
+    }
+  }
+
+  try {
+    const result = await generateText(prompt);
+    return {
+      output: Buffer.from(result.text, "utf8"),
+      transparency: result.transparency,
+    };
+  } catch (error: any) {
+    console.error("text generation error:", error);
+    throw new Error(
+      `Text generation failed: ${error.message || "Unknown error"}`
+    );
+  }
+}
+
+/**
+ * Generates every candidate of a request, one after another. With a
+ * committed seed, candidate i runs with that seed plus i, so each one can
+ * still be reproduced from the commitment.
+ */
+export async function generateCandidates(
+  request: GenerationRequest
+): Promise<GeneratedContent[]> {
+  const count = request.candidates || 1;
+  const candidates: GeneratedContent[] = [];
+  for (let index = 0; index < count; index++) {
+    const seed = request.params?.seed;
+    candidates.push(
+      await generateContent({
+        ...request,
+        ...(seed !== undefined && {
+          params: { ...request.params, seed: candidateSeed(seed, index) },
+        }),
+      })
+    );
+  }
+  return candidates;
+}
+
+export async function runGeneration(
+  request: GenerationRequest,
+  onStage: (stage: GenerationStage) => void = () => {}
+) {
+  onStage("generating");
+  const generated = await generateContent(request);
+  return finalizeGeneration(request, generated, onStage);
+}
+
+/**
+ * Everything after generation: watermark, proof, fingerprints, encryption
+ * and upload. Only the output passed in gets a combinedHash.
+ */
+export async function finalizeGeneration(
+  request: GenerationRequest,
+  generated: GeneratedContent,
+  onStage: (stage: GenerationStage) => void = () => {},
+  selection?: CandidateSelection
+) {
+  const { prompt, type, signer, timestamp, signature, nonce } = request;
+  const { faceHash, faceTimestamp, params, edit, parentOutputHash } = request;
+  // promptHash covers the parameters and the edit as well as the prompt
+  const commitment = serializePromptCommitment(prompt, params, edit);
+  let outputBuffer = generated.output;
+  const transparencyData = generated.transparency;
+
+  onStage("hashing");
+  // the watermark goes in before hashing, so outputHash covers the image
+  // as it is delivered
+  let watermark: { id: string; version: number; sourceOutputHash: string } | null =
+    null;
+  if (type === "image") {
+    try {
+      const sourceOutputHash = hashBuffer(outputBuffer);
+      const id = deriveWatermarkId(
+        hashString(commitment),
+        sourceOutputHash,
+        signer,
+        timestamp
+      );
+      outputBuffer = encodePng(embedWatermark(decodeImage(outputBuffer), id));
+      watermark = { id, version: WATERMARK_VERSION, sourceOutputHash };
+    } catch (error: any) {
+      console.error("failed to embed watermark:", error.message);
+    }
+  }
+
+  const proof = generateProof(commitment, outputBuffer, signer, timestamp, {
+    signature,
+    nonce,
+  });
+
+  let perceptualHash: PerceptualHashes | null = null;
+  if (type === "image") {
+    try {
+      perceptualHash = hashImageBuffer(outputBuffer);
+    } catch (error: any) {
+      console.error("failed to compute perceptual hash:", error.message);
+    }
+  }
+
+  // lets /api/compare match re-encoded, trimmed or spliced copies of the
+  // track without decrypting the original
+  let audioFingerprint: AudioFingerprint | null = null;
+  if (type === "music") {
+    try {
+      audioFingerprint = await fingerprintAudioBuffer(outputBuffer);
+    } catch (error: any) {
+      console.error("failed to compute audio fingerprint:", error.message);
+    }
+  }
+
+  // lets /api/compare recognise excerpts and paraphrases of the text
+  let textSignature: TextSignature | null = null;
+  if (type === "text") {
+    try {
+      textSignature = computeTextSignature(outputBuffer.toString("utf8"));
+    } catch (error: any) {
+      console.error("failed to compute text signature:", error.message);
+    }
+  }
+
+  onStage("encrypting");
+  console.log("encrypting content for ipfs storage...");
+  const {
+    payload: encryptedPayload,
+    recipients: recipientWraps,
+    contentKeyHash,
+  } = encryptForRecipients(outputBuffer, request.recipientKeys);
+  initializeAccessList(proof.combinedHash, signer, recipientWraps);
+
+  if (watermark) {
+    registerWatermark(watermark.id, proof.combinedHash);
+  }
+
+  // reverse lookup index for /api/lookup; failures only cost findability
+  if (perceptualHash) {
+    try {
+      const clipEmbedding = await getClipEmbedding(outputBuffer);
+      addToImageIndex({
+        combinedHash: proof.combinedHash,
+        creator: signer,
+        timestamp,
+        hashes: perceptualHash,
+        ...(clipEmbedding && { clipEmbedding }),
+      });
+    } catch (error: any) {
+      console.error("failed to index image:", error.message);
+    }
+  }
+
+  const metadata = {
+    prompt,
+    promptHash: proof.promptHash,
+    outputHash: proof.outputHash,
+    combinedHash: proof.combinedHash,
+    creator: signer,
+    timestamp,
+    signature,
+    nonce,
+    type,
+    ...(params && { generationParams: params }),
+    ...(selection && { candidate: selection }),
+    ...(edit && { parentHash: edit.parentHash, edit, parentOutputHash }),
+    encrypted: true,
+    encryptionVersion: PAYLOAD_VERSION_ENVELOPE,
+    contentKeyHash,
+    recipients: recipientWraps,
+    ...(faceHash && { faceHash, faceTimestamp }),
+    ...(transparencyData && { transparency: transparencyData }),
+    ...(perceptualHash && { perceptualHash }),
+    ...(audioFingerprint && { audioFingerprint }),
+    ...(textSignature && { textSignature }),
+    ...(watermark && { watermark }),
+  };
+
+  onStage("uploading");
+  // the outbox fills in ipfsLink once the content is stored; until both
+  // uploads succeed the proof is "pending" and must not be registered
+  console.log("uploading encrypted content and metadata...");
+  const storage = await storeProofContent({
+    combinedHash: proof.combinedHash,
+    content: encryptedPayload,
+    filename: `output-${timestamp}.encrypted`,
+    contentType: "application/octet-stream",
+    metadata,
+  });
+  console.log("storage status:", storage.status, storage.outputCid || "");
+
+  return {
+    ...proof,
+    outputCid: storage.outputCid,
+    metadataCid: storage.metadataCid,
+    storageStatus: storage.status,
+    ...(storage.lastError && { storageError: storage.lastError }),
+    outputBuffer: outputBuffer.toString("base64"),
+    ...(faceHash && { faceHash, faceTimestamp }),
+    ...(params && { generationParams: params }),
+    ...(selection && { candidate: selection }),
+    ...(edit && { parentHash: edit.parentHash, edit }),
+    ...(transparencyData && { transparency: transparencyData }),
+  };
+}
+
+export type GeneratedProof = Awaited<ReturnType<typeof finalizeGeneration>>;
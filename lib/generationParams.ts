@@ -0,0 +1,269 @@
+/**
+ * User-chosen image generation parameters. They are part of what the
+ * creator signs: the proof's promptHash commits to the prompt together with
+ * these parameters, so the transparency record cannot later claim settings
+ * that were not requested. Shared by the create page and the server, so it
+ * must not import Node modules.
+ */
+export interface GenerationParams {
+  seed?: number;
+  steps?: number;
+  cfgScale?: number;
+  sampler?: string;
+  width?: number;
+  height?: number;
+  negativePrompt?: string;
+  stylePreset?: string;
+}
+
+export type GenerationParamName = keyof GenerationParams;
+
+/**
+ * An edit of a registered image: image-to-image, inpainting or upscaling.
+ * It is committed to like the parameters, so the parent a proof claims to
+ * be derived from is covered by the creator's signature.
+ */
+export type EditMode = "img2img" | "inpaint" | "upscale";
+
+export const EDIT_MODES: EditMode[] = ["img2img", "inpaint", "upscale"];
+
+export interface EditParams {
+  mode: EditMode;
+  // combinedHash of the proof whose output is edited
+  parentHash: string;
+  // how far the result may move from the parent, 0 to 1
+  strength?: number;
+  // upscaling factor
+  scale?: number;
+  // sha256 of the inpainting mask; white areas are repainted
+  maskHash?: string;
+}
+
+// also the key order of the commitment
+const EDIT_PARAM_NAMES: (keyof EditParams)[] = [
+  "mode",
+  "parentHash",
+  "strength",
+  "scale",
+  "maskHash",
+];
+
+export const UPSCALE_FACTORS = [2, 4];
+
+// also the key order of the commitment
+export const GENERATION_PARAM_NAMES: GenerationParamName[] = [
+  "seed",
+  "steps",
+  "cfgScale",
+  "sampler",
+  "width",
+  "height",
+  "negativePrompt",
+  "stylePreset",
+];
+
+// seed 0 means "random" to Stability AI, and -1 to Automatic1111
+const MAX_SEED = 4294967294;
+const MAX_STEPS = 150;
+const MAX_CFG_SCALE = 35;
+const MIN_DIMENSION = 64;
+const MAX_DIMENSION = 2048;
+const MAX_NEGATIVE_PROMPT = 2000;
+const MAX_NAME = 64;
+const SHA256_HEX = /^[0-9a-f]{64}$/;
+
+function integerIn(name: string, value: any, min: number, max: number): number {
+  const number = Number(value);
+  if (!Number.isInteger(number) || number < min || number > max) {
+    throw new Error(`${name} must be an integer between ${min} and ${max}`);
+  }
+  return number;
+}
+
+function nameValue(name: string, value: any): string {
+  const text = String(value).trim();
+  if (!/^[\w .+-]+$/.test(text) || text.length > MAX_NAME) {
+    throw new Error(
+      `${name} must be at most ${MAX_NAME} letters, digits, spaces or . + - _`
+    );
+  }
+  return text;
+}
+
+/**
+ * Checks and normalizes parameters from a request body or a form. Empty
+ * values are dropped, so an untouched form field is not committed to.
+ * Throws on the first invalid value.
+ */
+export function parseGenerationParams(value: any): GenerationParams {
+  if (value === undefined || value === null) {
+    return {};
+  }
+  if (typeof value !== "object" || Array.isArray(value)) {
+    throw new Error("params must be an object");
+  }
+
+  const unknown = Object.keys(value).filter(
+    (key) => !GENERATION_PARAM_NAMES.includes(key as GenerationParamName)
+  );
+  if (unknown.length > 0) {
+    throw new Error(
+      `Unknown parameter ${unknown[0]}. Supported parameters: ${GENERATION_PARAM_NAMES.join(", ")}`
+    );
+  }
+
+  const present = (key: GenerationParamName) =>
+    value[key] !== undefined && value[key] !== null && value[key] !== "";
+
+  const params: GenerationParams = {};
+  if (present("seed")) {
+    params.seed = integerIn("seed", value.seed, 1, MAX_SEED);
+  }
+  if (present("steps")) {
+    params.steps = integerIn("steps", value.steps, 1, MAX_STEPS);
+  }
+  if (present("cfgScale")) {
+    const cfgScale = Number(value.cfgScale);
+    if (!Number.isFinite(cfgScale) || cfgScale < 0 || cfgScale > MAX_CFG_SCALE) {
+      throw new Error(`cfgScale must be a number between 0 and ${MAX_CFG_SCALE}`);
+    }
+    params.cfgScale = cfgScale;
+  }
+  if (present("sampler")) {
+    params.sampler = nameValue("sampler", value.sampler);
+  }
+  for (const key of ["width", "height"] as const) {
+    if (present(key)) {
+      const dimension = integerIn(key, value[key], MIN_DIMENSION, MAX_DIMENSION);
+      if (dimension % 64 !== 0) {
+        throw new Error(`${key} must be a multiple of 64`);
+      }
+      params[key] = dimension;
+    }
+  }
+  if (present("negativePrompt")) {
+    const negativePrompt = String(value.negativePrompt).trim();
+    if (negativePrompt.length > MAX_NEGATIVE_PROMPT) {
+      throw new Error(
+        `negativePrompt must be at most ${MAX_NEGATIVE_PROMPT} characters`
+      );
+    }
+    if (negativePrompt) {
+      params.negativePrompt = negativePrompt;
+    }
+  }
+  if (present("stylePreset")) {
+    params.stylePreset = nameValue("stylePreset", value.stylePreset);
+  }
+  return params;
+}
+
+/**
+ * Checks an edit from a request body or a form; null when the request is a
+ * plain text-to-image generation. Throws on the first invalid value.
+ */
+export function parseEditParams(value: any): EditParams | null {
+  if (value === undefined || value === null) {
+    return null;
+  }
+  if (typeof value !== "object" || Array.isArray(value)) {
+    throw new Error("edit must be an object");
+  }
+
+  const unknown = Object.keys(value).filter(
+    (key) => !EDIT_PARAM_NAMES.includes(key as keyof EditParams)
+  );
+  if (unknown.length > 0) {
+    throw new Error(
+      `Unknown edit parameter ${unknown[0]}. Supported edit parameters: ${EDIT_PARAM_NAMES.join(", ")}`
+    );
+  }
+  if (!EDIT_MODES.includes(value.mode)) {
+    throw new Error(`edit mode must be one of ${EDIT_MODES.join(", ")}`);
+  }
+  const parentHash = String(value.parentHash || "").trim().toLowerCase();
+  if (!SHA256_HEX.test(parentHash)) {
+    throw new Error("parentHash must be the combined hash of a registered proof");
+  }
+
+  const present = (key: keyof EditParams) =>
+    value[key] !== undefined && value[key] !== null && value[key] !== "";
+
+  const edit: EditParams = { mode: value.mode, parentHash };
+  if (present("strength")) {
+    if (edit.mode !== "img2img") {
+      throw new Error("strength is only used for image-to-image");
+    }
+    const strength = Number(value.strength);
+    if (!Number.isFinite(strength) || strength <= 0 || strength > 1) {
+      throw new Error("strength must be a number above 0 and at most 1");
+    }
+    edit.strength = strength;
+  }
+  if (edit.mode === "upscale") {
+    const scale = Number(value.scale);
+    if (!UPSCALE_FACTORS.includes(scale)) {
+      throw new Error(`scale must be one of ${UPSCALE_FACTORS.join(", ")}`);
+    }
+    edit.scale = scale;
+  } else if (present("scale")) {
+    throw new Error("scale is only used for upscaling");
+  }
+  if (edit.mode === "inpaint") {
+    const maskHash = String(value.maskHash || "").trim().toLowerCase();
+    if (!SHA256_HEX.test(maskHash)) {
+      throw new Error("inpainting needs the sha256 maskHash of its mask");
+    }
+    edit.maskHash = maskHash;
+  } else if (present("maskHash")) {
+    throw new Error("maskHash is only used for inpainting");
+  }
+  return edit;
+}
+
+/**
+ * Candidate `index` of a multi-candidate request runs with the committed
+ * seed plus its index, wrapping within the accepted range.
+ */
+export function candidateSeed(seed: number, index: number): number {
+  return ((seed - 1 + index) % MAX_SEED) + 1;
+}
+
+export function hasGenerationParams(params: GenerationParams): boolean {
+  return GENERATION_PARAM_NAMES.some((name) => params[name] !== undefined);
+}
+
+/**
+ * The string the promptHash is taken over. Without parameters or an edit it
+ * is the prompt itself, so proofs created before parameters existed keep
+ * their hashes; otherwise it is canonical JSON in GENERATION_PARAM_NAMES
+ * and EDIT_PARAM_NAMES order, with the edit only present for derived
+ * images.
+ */
+export function serializePromptCommitment(
+  prompt: string,
+  params: GenerationParams = {},
+  edit: EditParams | null = null
+): string {
+  if (!hasGenerationParams(params) && !edit) {
+    return prompt;
+  }
+
+  const committed: Record<string, string | number> = {};
+  for (const name of GENERATION_PARAM_NAMES) {
+    if (params[name] !== undefined) {
+      committed[name] = params[name] as string | number;
+    }
+  }
+  if (!edit) {
+    return JSON.stringify({ prompt, params: committed });
+  }
+
+  const committedEdit: Record<string, string | number> = {};
+  for (const name of EDIT_PARAM_NAMES) {
+    if (edit[name] !== undefined) {
+      committedEdit[name] = edit[name] as string | number;
+    }
+  }
+  return JSON.stringify({ prompt, params: committed, edit: committedEdit });
+}
@@ -0,0 +1,503 @@
+import { detectKeypoints, Keypoint, KeypointMatch, matchKeypoints } from "./keypoints";
+import { DecodedImage, resizeImage, toGrayscale } from "./pixels";
+import { compareDecodedImages, ImageSimilarityMetrics } from "./ssim";
+
+/**
+ * Geometry-aware comparison for derived copies. Keypoints are matched
+ * between the original and the upload, a homography is estimated with
+ * RANSAC, and the upload is warped back onto the original so the similarity
+ * metrics only see the overlap. Recovers crops, rotations and rescales that
+ * comparing two resized boxes cannot.
+ */
+export interface GeometricMatch {
+  // 3x3 row-major, maps original pixels to uploaded pixels
+  homography: number[];
+  matches: number;
+  inliers: number;
+  // uploaded pixels per original pixel
+  scale: number;
+  // counter-clockwise, in degrees
+  rotation: number;
+  // part of the original visible in the upload, in original pixels
+  crop: { x: number; y: number; width: number; height: number };
+  // share of the original covered by the upload
+  coverage: number;
+  // cropped, rotated or perspective-distorted, rather than just resized
+  derived: boolean;
+}
+
+export interface GeometricComparison {
+  metrics: ImageSimilarityMetrics;
+  geometry: GeometricMatch | null;
+  // whether metrics were computed on the aligned overlap
+  aligned: boolean;
+}
+
+// longest side the matcher runs at
+const MATCH_SIZE = 512;
+const MAX_KEYPOINTS = 500;
+const MIN_INLIERS = 12;
+const RANSAC_ITERATIONS = 2000;
+// reprojection error for an inlier, in working pixels
+const RANSAC_THRESHOLD = 3;
+// below this share of the original the overlap says too little
+const MIN_COVERAGE = 0.1;
+
+type Point = [number, number];
+
+function seededRandom(seed: number): () => number {
+  return () => {
+    // mulberry32
+    seed = (seed + 0x6d2b79f5) | 0;
+    let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+export function applyHomography(h: number[], [x, y]: Point): Point {
+  const w = h[6] * x + h[7] * y + h[8];
+  return [(h[0] * x + h[1] * y + h[2]) / w, (h[3] * x + h[4] * y + h[5]) / w];
+}
+
+function multiply(a: number[], b: number[]): number[] {
+  const out = new Array(9).fill(0);
+  for (let row = 0; row < 3; row++) {
+    for (let column = 0; column < 3; column++) {
+      for (let k = 0; k < 3; k++) {
+        out[row * 3 + column] += a[row * 3 + k] * b[k * 3 + column];
+      }
+    }
+  }
+  return out;
+}
+
+export function invertHomography(h: number[]): number[] | null {
+  const [a, b, c, d, e, f, g, i, j] = h;
+  const det = a * (e * j - f * i) - b * (d * j - f * g) + c * (d * i - e * g);
+  if (Math.abs(det) < 1e-12) {
+    return null;
+  }
+  return [
+    (e * j - f * i) / det, (c * i - b * j) / det, (b * f - c * e) / det,
+    (f * g - d * j) / det, (a * j - c * g) / det, (c * d - a * f) / det,
+    (d * i - e * g) / det, (b * g - a * i) / det, (a * e - b * d) / det,
+  ];
+}
+
+// gaussian elimination with partial pivoting; null when singular
+function solve(matrix: number[][], vector: number[]): number[] | null {
+  const n = vector.length;
+  const m = matrix.map((row, i) => [...row, vector[i]]);
+
+  for (let column = 0; column < n; column++) {
+    let pivot = column;
+    for (let row = column + 1; row < n; row++) {
+      if (Math.abs(m[row][column]) > Math.abs(m[pivot][column])) {
+        pivot = row;
+      }
+    }
+    if (Math.abs(m[pivot][column]) < 1e-10) {
+      return null;
+    }
+    [m[column], m[pivot]] = [m[pivot], m[column]];
+
+    for (let row = column + 1; row < n; row++) {
+      const factor = m[row][column] / m[column][column];
+      for (let k = column; k <= n; k++) {
+        m[row][k] -= factor * m[column][k];
+      }
+    }
+  }
+
+  const x = new Array(n).fill(0);
+  for (let row = n - 1; row >= 0; row--) {
+    let sum = m[row][n];
+    for (let k = row + 1; k < n; k++) {
+      sum -= m[row][k] * x[k];
+    }
+    x[row] = sum / m[row][row];
+  }
+  return x;
+}
+
+// Hartley normalisation: centroid at the origin, mean distance sqrt(2)
+function normalisation(points: Point[]): number[] {
+  const cx = points.reduce((sum, p) => sum + p[0], 0) / points.length;
+  const cy = points.reduce((sum, p) => sum + p[1], 0) / points.length;
+  const meanDistance =
+    points.reduce((sum, p) => sum + Math.hypot(p[0] - cx, p[1] - cy), 0) / points.length;
+  const s = meanDistance > 0 ? Math.SQRT2 / meanDistance : 1;
+  return [s, 0, -s * cx, 0, s, -s * cy, 0, 0, 1];
+}
+
+/**
+ * Least-squares homography (DLT with h33 = 1) from four or more point
+ * correspondences.
+ */
+export function fitHomography(source: Point[], target: Point[]): number[] | null {
+  const ts = normalisation(source);
+  const tt = normalisation(target);
+  const src = source.map((p) => applyHomography(ts, p));
+  const dst = target.map((p) => applyHomography(tt, p));
+
+  // normal equations of the 2n x 8 system
+  const ata = Array.from({ length: 8 }, () => new Array(8).fill(0));
+  const atb = new Array(8).fill(0);
+  src.forEach(([x, y], i) => {
+    const [u, v] = dst[i];
+    const rows: [number[], number][] = [
+      [[x, y, 1, 0, 0, 0, -x * u, -y * u], u],
+      [[0, 0, 0, x, y, 1, -x * v, -y * v], v],
+    ];
+    for (const [row, value] of rows) {
+      for (let j = 0; j < 8; j++) {
+        atb[j] += row[j] * value;
+        for (let k = 0; k < 8; k++) {
+          ata[j][k] += row[j] * row[k];
+        }
+      }
+    }
+  });
+
+  const h = solve(ata, atb);
+  const ttInverse = h && invertHomography(tt);
+  if (!h || !ttInverse) {
+    return null;
+  }
+  const result = multiply(ttInverse, multiply([...h, 1], ts));
+  return result.map((value) => value / result[8]);
+}
+
+// rejects mirrored, collapsed or strongly projective solutions, which
+// are never what a crop / rotate / rescale produces
+function isPlausible(h: number[]): boolean {
+  const det = h[0] * h[4] - h[1] * h[3];
+  return det > 1e-4 && det < 1e4 && Math.abs(h[6]) < 2e-3 && Math.abs(h[7]) < 2e-3;
+}
+
+function isDegenerateSample(points: Point[]): boolean {
+  // any three (nearly) collinear
+  for (let i = 0; i < 4; i++) {
+    const [a, b, c] = points.filter((_, j) => j !== i);
+    const area = Math.abs((b[0] - a[0]) * (c[1] - a[1]) - (b[1] - a[1]) * (c[0] - a[0]));
+    if (area < 1) {
+      return true;
+    }
+  }
+  return false;
+}
+
+/**
+ * RANSAC over keypoint matches, refitted on the final inlier set. Seeded, so
+ * the same pair of images always gives the same answer.
+ */
+export function estimateHomography(
+  source: Point[],
+  target: Point[]
+): { homography: number[]; inliers: number[] } | null {
+  if (source.length < 4) {
+    return null;
+  }
+  const random = seededRandom(source.length * 7919 + 17);
+
+  const inliersOf = (h: number[]) => {
+    const inliers: number[] = [];
+    source.forEach((point, i) => {
+      const [x, y] = applyHomography(h, point);
+      if (Math.hypot(x - target[i][0], y - target[i][1]) <= RANSAC_THRESHOLD) {
+        inliers.push(i);
+      }
+    });
+    return inliers;
+  };
+
+  let best: { homography: number[]; inliers: number[] } | null = null;
+  let iterations = RANSAC_ITERATIONS;
+  for (let iteration = 0; iteration < iterations; iteration++) {
+    const sample = new Set<number>();
+    while (sample.size < 4) {
+      sample.add(Math.floor(random() * source.length));
+    }
+    const indices = Array.from(sample);
+    const src = indices.map((i) => source[i]);
+    if (isDegenerateSample(src) || isDegenerateSample(indices.map((i) => target[i]))) {
+      continue;
+    }
+
+    const h = fitHomography(src, indices.map((i) => target[i]));
+    if (!h || !isPlausible(h)) {
+      continue;
+    }
+
+    const inliers = inliersOf(h);
+    if (!best || inliers.length > best.inliers.length) {
+      best = { homography: h, inliers };
+      // adaptive stop once a 99% confident all-inlier sample has been drawn
+      const ratio = inliers.length / source.length;
+      const needed = Math.log(0.01) / Math.log(1 - ratio ** 4 + 1e-12);
+      iterations = Math.min(iterations, Math.ceil(needed));
+    }
+  }
+
+  if (!best || best.inliers.length < 4) {
+    return null;
+  }
+
+  const refined = fitHomography(
+    best.inliers.map((i) => source[i]),
+    best.inliers.map((i) => target[i])
+  );
+  if (refined && isPlausible(refined)) {
+    const inliers = inliersOf(refined);
+    if (inliers.length >= best.inliers.length) {
+      return { homography: refined, inliers };
+    }
+  }
+  return best;
+}
+
+function fitWithin(image: DecodedImage, size: number): DecodedImage {
+  const scale = Math.min(1, size / Math.max(image.width, image.height));
+  if (scale === 1) {
+    return image;
+  }
+  return resizeImage(
+    image,
+    Math.max(1, Math.round(image.width * scale)),
+    Math.max(1, Math.round(image.height * scale))
+  );
+}
+
+/**
+ * Bilinear warp of `upload` into `frame`'s coordinates through `h`
+ * (frame -> upload). Pixels the upload does not cover are taken from
+ * `frame`, so they count as unchanged, and are cleared in the mask.
+ */
+function warpInto(
+  frame: DecodedImage,
+  upload: DecodedImage,
+  h: number[]
+): { image: DecodedImage; mask: Uint8Array } {
+  const { width, height } = frame;
+  const out = new Uint8ClampedArray(width * height * 4);
+  const mask = new Uint8Array(width * height);
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = y * width + x;
+      const [sx, sy] = applyHomography(h, [x + 0.5, y + 0.5]);
+      const fx = sx - 0.5;
+      const fy = sy - 0.5;
+      const x0 = Math.floor(fx);
+      const y0 = Math.floor(fy);
+
+      if (x0 < 0 || y0 < 0 || x0 + 1 >= upload.width || y0 + 1 >= upload.height) {
+        for (let c = 0; c < 4; c++) {
+          out[i * 4 + c] = frame.data[i * 4 + c];
+        }
+        continue;
+      }
+
+      mask[i] = 1;
+      const ax = fx - x0;
+      const ay = fy - y0;
+      const topLeft = (y0 * upload.width + x0) * 4;
+      const bottomLeft = topLeft + upload.width * 4;
+      for (let c = 0; c < 4; c++) {
+        out[i * 4 + c] =
+          upload.data[topLeft + c] * (1 - ax) * (1 - ay) +
+          upload.data[topLeft + 4 + c] * ax * (1 - ay) +
+          upload.data[bottomLeft + c] * (1 - ax) * ay +
+          upload.data[bottomLeft + 4 + c] * ax * ay;
+      }
+    }
+  }
+
+  return { image: { width, height, data: out }, mask };
+}
+
+function cropImage(
+  image: DecodedImage,
+  x: number,
+  y: number,
+  width: number,
+  height: number
+): DecodedImage {
+  const out = new Uint8ClampedArray(width * height * 4);
+  for (let row = 0; row < height; row++) {
+    const start = ((y + row) * image.width + x) * 4;
+    out.set(image.data.subarray(start, start + width * 4), row * width * 4);
+  }
+  return { width, height, data: out };
+}
+
+/**
+ * Matches keypoints and estimates where the original sits in the upload.
+ * Returns null when there are too few consistent matches to trust.
+ */
+export function matchGeometry(
+  original: DecodedImage,
+  uploaded: DecodedImage
+): { match: GeometricMatch; workingHomography: number[]; originalWorking: DecodedImage; uploadedWorking: DecodedImage } | null {
+  const originalWorking = fitWithin(original, MATCH_SIZE);
+  const uploadedWorking = fitWithin(uploaded, MATCH_SIZE);
+
+  const originalKeypoints = detectKeypoints(toGrayscale(originalWorking), MAX_KEYPOINTS);
+  const uploadedKeypoints = detectKeypoints(toGrayscale(uploadedWorking), MAX_KEYPOINTS);
+  const matches: KeypointMatch[] = matchKeypoints(originalKeypoints, uploadedKeypoints);
+  if (matches.length < MIN_INLIERS) {
+    return null;
+  }
+
+  const point = (keypoint: Keypoint): Point => [keypoint.x, keypoint.y];
+  const estimate = estimateHomography(
+    matches.map((m) => point(originalKeypoints[m.a])),
+    matches.map((m) => point(uploadedKeypoints[m.b]))
+  );
+  if (!estimate || estimate.inliers.length < MIN_INLIERS) {
+    return null;
+  }
+
+  const so = originalWorking.width / original.width;
+  const su = uploadedWorking.width / uploaded.width;
+  // full-resolution homography: scale in, apply, scale out
+  const full = multiply(
+    [1 / su, 0, 0, 0, 1 / su, 0, 0, 0, 1],
+    multiply(estimate.homography, [so, 0, 0, 0, so, 0, 0, 0, 1])
+  ).map((value, _, all) => value / all[8]);
+
+  const inverse = invertHomography(full);
+  if (!inverse) {
+    return null;
+  }
+
+  // local similarity part of the transform, at the original's centre
+  const [cx, cy] = [original.width / 2, original.height / 2];
+  const centre = applyHomography(full, [cx, cy]);
+  const right = applyHomography(full, [cx + 1, cy]);
+  const down = applyHomography(full, [cx, cy + 1]);
+  const [a, c] = [right[0] - centre[0], right[1] - centre[1]];
+  const [b, d] = [down[0] - centre[0], down[1] - centre[1]];
+  const scale = Math.sqrt(Math.abs(a * d - b * c));
+  // y points down, so a visually counter-clockwise turn has negative c
+  const rotation = (Math.atan2(-(c - b) / 2, (a + d) / 2) * 180) / Math.PI;
+
+  // the upload's corners in original coordinates, clipped to the original
+  const corners = [
+    [0, 0], [uploaded.width, 0], [uploaded.width, uploaded.height], [0, uploaded.height],
+  ].map((p) => applyHomography(inverse, p as Point));
+  const clampX = (v: number) => Math.min(original.width, Math.max(0, v));
+  const clampY = (v: number) => Math.min(original.height, Math.max(0, v));
+  const x0 = clampX(Math.min(...corners.map((p) => p[0])));
+  const x1 = clampX(Math.max(...corners.map((p) => p[0])));
+  const y0 = clampY(Math.min(...corners.map((p) => p[1])));
+  const y1 = clampY(Math.max(...corners.map((p) => p[1])));
+
+  // coverage from the polygon area (shoelace), clipped by the bounding box
+  const polygonArea =
+    Math.abs(
+      corners.reduce((sum, p, i) => {
+        const q = corners[(i + 1) % corners.length];
+        return sum + p[0] * q[1] - q[0] * p[1];
+      }, 0)
+    ) / 2;
+  const coverage = Math.min(
+    1,
+    polygonArea / (original.width * original.height),
+    ((x1 - x0) * (y1 - y0)) / (original.width * original.height)
+  );
+
+  const cropped = coverage < 0.97;
+  const rotated = Math.abs(rotation) > 1;
+  // a plain resize keeps the aspect ratio and maps corner to corner
+  const skewed = Math.abs(Math.hypot(a, c) - Math.hypot(b, d)) / scale > 0.03;
+
+  return {
+    match: {
+      homography: full.map((value) => Math.round(value * 1e6) / 1e6),
+      matches: matches.length,
+      inliers: estimate.inliers.length,
+      scale,
+      rotation,
+      crop: {
+        x: Math.round(x0),
+        y: Math.round(y0),
+        width: Math.round(x1 - x0),
+        height: Math.round(y1 - y0),
+      },
+      coverage,
+      derived: cropped || rotated || skewed,
+    },
+    workingHomography: estimate.homography,
+    originalWorking,
+    uploadedWorking,
+  };
+}
+
+/**
+ * compareDecodedImages, but on the aligned overlap when a transform between
+ * the images can be recovered. Falls back to the plain comparison (both
+ * resized to the same box) otherwise, and never scores an alignment lower
+ * than that.
+ */
+export function compareWithGeometry(
+  original: DecodedImage,
+  uploaded: DecodedImage
+): GeometricComparison {
+  const plain = compareDecodedImages(uploaded, original);
+
+  let result;
+  try {
+    result = matchGeometry(original, uploaded);
+  } catch (error) {
+    console.log("keypoint matching failed:", (error as Error).message);
+    return { metrics: plain, geometry: null, aligned: false };
+  }
+  if (!result) {
+    return { metrics: plain, geometry: null, aligned: false };
+  }
+  // a plain resize is what the box comparison already handles
+  if (!result.match.derived) {
+    return { metrics: plain, geometry: result.match, aligned: false };
+  }
+
+  const { match, workingHomography, originalWorking, uploadedWorking } = result;
+  const { image, mask } = warpInto(originalWorking, uploadedWorking, workingHomography);
+
+  let minX = originalWorking.width;
+  let minY = originalWorking.height;
+  let maxX = -1;
+  let maxY = -1;
+  let covered = 0;
+  for (let y = 0; y < originalWorking.height; y++) {
+    for (let x = 0; x < originalWorking.width; x++) {
+      if (mask[y * originalWorking.width + x]) {
+        covered++;
+        minX = Math.min(minX, x);
+        maxX = Math.max(maxX, x);
+        minY = Math.min(minY, y);
+        maxY = Math.max(maxY, y);
+      }
+    }
+  }
+
+  const width = maxX - minX + 1;
+  const height = maxY - minY + 1;
+  if (
+    covered < originalWorking.width * originalWorking.height * MIN_COVERAGE ||
+    width < 32 ||
+    height < 32
+  ) {
+    return { metrics: plain, geometry: match, aligned: false };
+  }
+
+  const aligned = compareDecodedImages(
+    cropImage(image, minX, minY, width, height),
+    cropImage(originalWorking, minX, minY, width, height)
+  );
+
+  return aligned.similarity > plain.similarity
+    ? { metrics: aligned, geometry: match, aligned: true }
+    : { metrics: plain, geometry: match, aligned: false };
+}
@@ -0,0 +1,75 @@
+import { PNG } from "pngjs";
+import jpeg from "jpeg-js";
+import type { DecodedImage } from "./pixels";
+
+/**
+ * Server-side image decoding shared by the comparison and forensics code.
+ * The pixel helpers in lib/pixels.ts work on the result and are also used in
+ * the browser.
+ */
+export type ImageFormat = "png" | "jpeg";
+
+// guards the decoders against decompression bombs
+const MAX_PIXELS = 50 * 1000 * 1000;
+
+export function detectImageFormat(buffer: Buffer): ImageFormat | null {
+  if (
+    buffer.length > 8 &&
+    buffer.readUInt32BE(0) === 0x89504e47 &&
+    buffer.readUInt32BE(4) === 0x0d0a1a0a
+  ) {
+    return "png";
+  }
+  if (buffer.length > 3 && buffer[0] === 0xff && buffer[1] === 0xd8) {
+    return "jpeg";
+  }
+  return null;
+}
+
+export function decodeImage(buffer: Buffer): DecodedImage {
+  const format = detectImageFormat(buffer);
+
+  if (format === "png") {
+    // IHDR is always the first chunk; its dimensions are checked before
+    // PNG.sync.read inflates the whole image
+    if (buffer.length < 24 || buffer.toString("latin1", 12, 16) !== "IHDR") {
+      throw new Error("invalid PNG header");
+    }
+    if (buffer.readUInt32BE(16) * buffer.readUInt32BE(20) > MAX_PIXELS) {
+      throw new Error("image is too large to analyze");
+    }
+    const png = PNG.sync.read(buffer);
+    return { width: png.width, height: png.height, data: png.data };
+  }
+
+  if (format === "jpeg") {
+    const decoded = jpeg.decode(buffer, {
+      useTArray: true,
+      formatAsRGBA: true,
+      maxResolutionInMP: MAX_PIXELS / 1000 / 1000,
+      maxMemoryUsageInMB: 1024,
+    });
+    return {
+      width: decoded.width,
+      height: decoded.height,
+      data: decoded.data,
+    };
+  }
+
+  throw new Error("unsupported image format (expected PNG or JPEG)");
+}
+
+export function tryDecodeImage(buffer: Buffer): DecodedImage | null {
+  try {
+    return decodeImage(buffer);
+  } catch (error) {
+    console.log("could not decode image:", (error as Error).message);
+    return null;
+  }
+}
+
+export function encodePng(image: DecodedImage): Buffer {
+  const png = new PNG({ width: image.width, height: image.height });
+  png.data = Buffer.from(image.data.buffer, image.data.byteOffset, image.data.byteLength);
+  return PNG.sync.write(png);
+}
@@ -1,90 +1,63 @@
+import { compareWithGeometry, GeometricMatch } from "./geometry";
+import { DecodedImage } from "./pixels";
+import { ImageSimilarityMetrics } from "./ssim";
+
 export interface ImageComparisonResult {
   similarity: number;
   method: string;
+  metrics?: ImageSimilarityMetrics;
+  geometry?: GeometricMatch | null;
+  aligned?: boolean;
 }
 
-export async function compareImagesClient(
-  image1Url: string,
-  image2Url: string
-): Promise<ImageComparisonResult> {
-  try {
-    const img1 = await loadImage(image1Url);
-    const img2 = await loadImage(image2Url);
-
-    const canvas1 = document.createElement("canvas");
-    const canvas2 = document.createElement("canvas");
-    const ctx1 = canvas1.getContext("2d", { willReadFrequently: true });
-    const ctx2 = canvas2.getContext("2d", { willReadFrequently: true });
-
-    if (!ctx1 || !ctx2) {
-      throw new Error("Failed to get canvas context");
-    }
-
-    const maxWidth = Math.max(img1.width, img2.width);
-    const maxHeight = Math.max(img1.height, img2.height);
-    const compareWidth = Math.min(200, maxWidth);
-    const compareHeight = Math.min(200, maxHeight);
-
-    canvas1.width = compareWidth;
-    canvas1.height = compareHeight;
-    canvas2.width = compareWidth;
-    canvas2.height = compareHeight;
+// canvas readback of huge images is slow; SSIM runs at 256px and keypoint
+// matching at 512px anyway
+const MAX_CANVAS_SIZE = 1024;
 
-    ctx1.drawImage(img1, 0, 0, compareWidth, compareHeight);
-    ctx2.drawImage(img2, 0, 0, compareWidth, compareHeight);
+function readPixels(img: HTMLImageElement): DecodedImage {
+  const scale = Math.min(1, MAX_CANVAS_SIZE / Math.max(img.width, img.height));
+  const canvas = document.createElement("canvas");
+  canvas.width = Math.max(1, Math.round(img.width * scale));
+  canvas.height = Math.max(1, Math.round(img.height * scale));
 
-    const data1 = ctx1.getImageData(0, 0, compareWidth, compareHeight);
-    const data2 = ctx2.getImageData(0, 0, compareWidth, compareHeight);
-
-    let exactMatches = 0;
-    let nearMatches = 0;
-    let totalPixels = 0;
-
-    for (let i = 0; i < data1.data.length; i += 4) {
-      const r1 = data1.data[i];
-      const g1 = data1.data[i + 1];
-      const b1 = data1.data[i + 2];
-      const a1 = data1.data[i + 3];
-
-      const r2 = data2.data[i];
-      const g2 = data2.data[i + 1];
-      const b2 = data2.data[i + 2];
-      const a2 = data2.data[i + 3];
-
-      if (r1 === r2 && g1 === g2 && b1 === b2 && a1 === a2) {
-        exactMatches++;
-      } else {
-        const colorDistance = Math.sqrt(
-          Math.pow(r1 - r2, 2) + Math.pow(g1 - g2, 2) + Math.pow(b1 - b2, 2)
-        );
-
-        if (colorDistance < 5) {
-          nearMatches += 0.95;
-        } else if (colorDistance < 15) {
-          nearMatches += 0.8;
-        } else if (colorDistance < 30) {
-          nearMatches += 0.5;
-        }
-      }
-      totalPixels++;
-    }
-
-    const pixelSimilarity = (exactMatches + nearMatches) / totalPixels;
+  const ctx = canvas.getContext("2d", { willReadFrequently: true });
+  if (!ctx) {
+    throw new Error("Failed to get canvas context");
+  }
 
-    const hist1 = calculateHistogram(data1);
-    const hist2 = calculateHistogram(data2);
-    const histogramSimilarity = compareHistograms(hist1, hist2);
+  ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+  const { width, height, data } = ctx.getImageData(
+    0,
+    0,
+    canvas.width,
+    canvas.height
+  );
+  return { width, height, data };
+}
 
-    const similarity = pixelSimilarity * 0.6 + histogramSimilarity * 0.4;
+/**
+ * Same comparison as the compare route (keypoint alignment, then SSIM /
+ * MS-SSIM / colour histograms), on pixels decoded by the browser.
+ */
+export async function compareImagesClient(
+  originalUrl: string,
+  uploadedUrl: string
+): Promise<ImageComparisonResult> {
+  try {
+    const original = await loadImage(originalUrl);
+    const uploaded = await loadImage(uploadedUrl);
 
-    let finalSimilarity = similarity;
-    if (pixelSimilarity > 0.95 && histogramSimilarity > 0.95) {
-      finalSimilarity = Math.min(1.0, similarity * 1.02);
-    }
+    const { metrics, geometry, aligned } = compareWithGeometry(
+      readPixels(original),
+      readPixels(uploaded)
+    );
 
     return {
-      similarity: Math.min(1.0, Math.max(0.0, finalSimilarity)),
-      method: "canvas",
+      similarity: metrics.similarity,
+      method: "ssim",
+      metrics,
+      geometry,
+      aligned,
     };
   } catch (error) {
     console.error("client-side comparison error:", error);
@@ -104,26 +77,3 @@ function loadImage(url: string): Promise<HTMLImageElement> {
     img.src = url;
   });
 }
-
-function calculateHistogram(imageData: ImageData): number[] {
-  const histogram = new Array(256).fill(0);
-  const data = imageData.data;
-
-  for (let i = 0; i < data.length; i += 4) {
-    const gray = Math.round(
-      0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2]
-    );
-    histogram[gray]++;
-  }
-
-  const total = histogram.reduce((sum, val) => sum + val, 0);
-  return histogram.map((val) => val / total);
-}
-
-function compareHistograms(hist1: number[], hist2: number[]): number {
-  let similarity = 0;
-  for (let i = 0; i < hist1.length; i++) {
-    similarity += Math.min(hist1[i], hist2[i]);
-  }
-  return similarity;
-}
@@ -0,0 +1,226 @@
+import { cosineSimilarity } from "./clip";
+import {
+  compareHashes,
+  hammingDistance,
+  PerceptualHashes,
+} from "./perceptualHash";
+import { readJsonStore, updateJsonStore } from "./store";
+
+/**
+ * Reverse image index: the perceptual hashes (and CLIP embedding, when the
+ * service is running) of every generated image, so an image found elsewhere
+ * can be traced back to its proof. pHashes are searched with a BK-tree, which
+ * only visits subtrees whose distance band can contain a match.
+ */
+const INDEX_STORE = "image-index";
+
+// pHash bits that may differ for a candidate; unrelated images sit around 32
+export const MAX_LOOKUP_DISTANCE = 18;
+// CLIP matches are taken from a linear scan above this cosine similarity
+const MIN_CLIP_SIMILARITY = 0.85;
+
+export interface ImageIndexEntry {
+  combinedHash: string;
+  creator: string;
+  timestamp: number;
+  hashes: PerceptualHashes;
+  clipEmbedding?: number[];
+  indexedAt: number;
+}
+
+export interface ImageLookupMatch {
+  combinedHash: string;
+  creator: string;
+  timestamp: number;
+  // Hamming distances between the query's hashes and the entry's
+  distances: { aHash: number; dHash: number; pHash: number };
+  hashSimilarity: number;
+  clipSimilarity: number | null;
+  // ranking score, 0..1
+  similarity: number;
+}
+
+interface ImageIndex {
+  updatedAt: number;
+  entries: Record<string, ImageIndexEntry>;
+}
+
+interface BkNode {
+  hash: string;
+  // several proofs can share a pHash (e.g. the same image registered twice)
+  ids: string[];
+  children: Map<number, BkNode>;
+}
+
+// The tree is rebuilt from the store when another process has written to it
+// since it was built. Kept on globalThis because each API route is bundled
+// separately and would otherwise get its own copy.
+const globalForIndex = globalThis as unknown as {
+  authenticaImageTree?: { updatedAt: number; root: BkNode | null };
+};
+
+function insert(root: BkNode | null, hash: string, id: string): BkNode {
+  if (!root) {
+    return { hash, ids: [id], children: new Map() };
+  }
+
+  let node = root;
+  for (;;) {
+    const distance = hammingDistance(hash, node.hash);
+    if (distance === 0) {
+      if (!node.ids.includes(id)) {
+        node.ids.push(id);
+      }
+      return root;
+    }
+    const child = node.children.get(distance);
+    if (!child) {
+      node.children.set(distance, { hash, ids: [id], children: new Map() });
+      return root;
+    }
+    node = child;
+  }
+}
+
+function search(
+  root: BkNode | null,
+  hash: string,
+  maxDistance: number
+): { id: string; distance: number }[] {
+  const results: { id: string; distance: number }[] = [];
+  const stack = root ? [root] : [];
+
+  while (stack.length > 0) {
+    const node = stack.pop()!;
+    const distance = hammingDistance(hash, node.hash);
+    if (distance <= maxDistance) {
+      node.ids.forEach((id) => results.push({ id, distance }));
+    }
+    // triangle inequality: only children in [d - max, d + max] can match
+    node.children.forEach((child, edge) => {
+      if (edge >= distance - maxDistance && edge <= distance + maxDistance) {
+        stack.push(child);
+      }
+    });
+  }
+  return results;
+}
+
+function loadIndex(): { index: ImageIndex; root: BkNode | null } {
+  const index = readJsonStore<ImageIndex>(INDEX_STORE, {
+    updatedAt: 0,
+    entries: {},
+  });
+
+  const cached = globalForIndex.authenticaImageTree;
+  if (cached && cached.updatedAt === index.updatedAt) {
+    return { index, root: cached.root };
+  }
+
+  let root: BkNode | null = null;
+  Object.values(index.entries).forEach((entry) => {
+    root = insert(root, entry.hashes.pHash, entry.combinedHash);
+  });
+  globalForIndex.authenticaImageTree = { updatedAt: index.updatedAt, root };
+  return { index, root };
+}
+
+export function addToImageIndex(
+  entry: Omit<ImageIndexEntry, "indexedAt">
+): void {
+  let previousUpdate = 0;
+  const next = updateJsonStore<ImageIndex>(
+    INDEX_STORE,
+    { updatedAt: 0, entries: {} },
+    (index) => {
+      previousUpdate = index.updatedAt;
+      return {
+        // strictly increasing, so a stale tree is always noticed
+        updatedAt: Math.max(Date.now(), index.updatedAt + 1),
+        entries: {
+          ...index.entries,
+          [entry.combinedHash]: { ...entry, indexedAt: Date.now() },
+        },
+      };
+    }
+  );
+
+  // extend the cached tree in place if nothing else changed the store since
+  // it was built; otherwise the next lookup rebuilds it
+  const cached = globalForIndex.authenticaImageTree;
+  if (cached && cached.updatedAt === previousUpdate) {
+    cached.root = insert(cached.root, entry.hashes.pHash, entry.combinedHash);
+    cached.updatedAt = next.updatedAt;
+  }
+}
+
+export function getImageIndexSize(): number {
+  return Object.keys(loadIndex().index.entries).length;
+}
+
+/**
+ * Registered images closest to the query, best first. Candidates come from
+ * the pHash BK-tree and, if the query has a CLIP embedding, from embedding
+ * similarity, which also finds crops and heavy edits that move the pHash.
+ */
+export function lookupImage(
+  hashes: PerceptualHashes,
+  options: {
+    clipEmbedding?: number[] | null;
+    maxDistance?: number;
+    limit?: number;
+  } = {}
+): ImageLookupMatch[] {
+  const { clipEmbedding, maxDistance = MAX_LOOKUP_DISTANCE, limit = 10 } = options;
+  const { index, root } = loadIndex();
+
+  const candidates = new Set(
+    search(root, hashes.pHash, maxDistance).map((result) => result.id)
+  );
+  const clipScores = new Map<string, number>();
+  if (clipEmbedding) {
+    Object.values(index.entries).forEach((entry) => {
+      if (!entry.clipEmbedding) {
+        return;
+      }
+      const score = cosineSimilarity(clipEmbedding, entry.clipEmbedding);
+      clipScores.set(entry.combinedHash, score);
+      if (score >= MIN_CLIP_SIMILARITY) {
+        candidates.add(entry.combinedHash);
+      }
+    });
+  }
+
+  const matches: ImageLookupMatch[] = [];
+  candidates.forEach((id) => {
+    const entry = index.entries[id];
+    if (!entry) {
+      return;
+    }
+    const { similarity: hashSimilarity, distances } = compareHashes(
+      hashes,
+      entry.hashes
+    );
+    const clipSimilarity = clipScores.get(id) ?? null;
+
+    matches.push({
+      combinedHash: entry.combinedHash,
+      creator: entry.creator,
+      timestamp: entry.timestamp,
+      distances,
+      hashSimilarity,
+      clipSimilarity,
+      similarity:
+        clipSimilarity === null
+          ? hashSimilarity
+          : 0.5 * hashSimilarity + 0.5 * clipSimilarity,
+    });
+  });
+
+  return matches
+    .sort(
+      (a, b) =>
+        b.similarity - a.similarity || a.distances.pHash - b.distances.pHash
+    )
+    .slice(0, limit);
+}
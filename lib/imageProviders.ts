@@ -0,0 +1,1091 @@
+import axios from "axios";
+import crypto from "crypto";
+import { decodeImage, tryDecodeImage } from "./image";
+import {
+  editProceduralImage,
+  generateProceduralImage,
+  PROCEDURAL_MODEL,
+} from "./proceduralImage";
+import type {
+  ImageEditInput,
+  ImageGenerationResult,
+  TransparencyData,
+} from "./ai";
+import {
+  EDIT_MODES,
+  type EditMode,
+  type GenerationParamName,
+  type GenerationParams,
+} from "./generationParams";
+
+export type ImageProviderName =
+  | "stability"
+  | "openai"
+  | "replicate"
+  | "automatic1111"
+  | "comfyui"
+  | "local-procedural";
+
+/**
+ * One image generation backend. Every provider fills in the transparency
+ * fields it actually knows (a hosted API may not expose steps or a sampler)
+ * and reports the model that served the request. Requested parameters are
+ * passed through as given; parameters(model) lists the ones the model
+ * honours, and requests with any other parameter are rejected. Providers
+ * that can work on an existing image list the edit modes they offer in
+ * edits(model) and implement edit().
+ */
+export interface ImageProvider {
+  name: ImageProviderName;
+  label: string;
+  defaultModel: string;
+  // the models offered in the UI; providers that run arbitrary checkpoints
+  // or community models accept ids outside this list
+  models: string[];
+  isConfigured(): boolean;
+  supportsModel(model: string): boolean;
+  parameters(model: string): GenerationParamName[];
+  generate(
+    prompt: string,
+    model: string,
+    params: GenerationParams
+  ): Promise<ImageGenerationResult>;
+  edits(model: string): EditMode[];
+  edit?(
+    prompt: string,
+    model: string,
+    params: GenerationParams,
+    input: ImageEditInput
+  ): Promise<ImageGenerationResult>;
+}
+
+const DEFAULT_SIZE = 1024;
+const DEFAULT_STEPS = 30;
+const DEFAULT_CFG_SCALE = 7;
+const DEFAULT_EDIT_STRENGTH = 0.65;
+
+const ALL_PARAMETERS: GenerationParamName[] = [
+  "seed",
+  "steps",
+  "cfgScale",
+  "sampler",
+  "width",
+  "height",
+  "negativePrompt",
+  "stylePreset",
+];
+
+function providerError(label: string, error: any): Error {
+  console.error(`${label.toLowerCase()} generation error:`, error);
+  if (error.response) {
+    const data = Buffer.isBuffer(error.response.data)
+      ? safeJson(error.response.data.toString("utf8"))
+      : error.response.data;
+    console.error(`${label.toLowerCase()} response:`, data);
+    return new Error(
+      `${label} error (${error.response.status}): ${
+        data?.message || data?.error?.message || data?.detail || error.message
+      }`
+    );
+  }
+  return new Error(`failed to generate image with ${label}: ${error.message}`);
+}
+
+function safeJson(text: string): any {
+  try {
+    return JSON.parse(text);
+  } catch {
+    return { message: text.substring(0, 200) };
+  }
+}
+
+// the delivered image's size, which is what the proof covers
+function measure(image: Buffer, fallback: { width: number; height: number }) {
+  const decoded = tryDecodeImage(image);
+  return decoded ? { width: decoded.width, height: decoded.height } : fallback;
+}
+
+/**
+ * The parameters a model takes for an edit: the size follows the parent
+ * image, and upscalers take none.
+ */
+export function editParameters(
+  provider: ImageProvider,
+  model: string,
+  mode: EditMode
+): GenerationParamName[] {
+  return mode === "upscale"
+    ? []
+    : provider
+        .parameters(model)
+        .filter((name) => name !== "width" && name !== "height");
+}
+
+// a multipart file part; copied so it is backed by a plain ArrayBuffer
+function pngBlob(image: Buffer): Blob {
+  return new Blob([new Uint8Array(image)], { type: "image/png" });
+}
+
+// the range parseGenerationParams accepts, so a recorded seed can be
+// requested again
+function randomSeed(): number {
+  return crypto.randomInt(1, 2 ** 32 - 1);
+}
+
+// v1 engines take steps and a sampler; the v2beta Stable Image endpoints
+// only take a prompt and an aspect ratio
+const STABILITY_V1_ENGINES: Record<string, number> = {
+  "stable-diffusion-xl-1024-v1-0": 1024,
+  "stable-diffusion-v1-6": 512,
+};
+const STABILITY_V2_ENDPOINTS: Record<string, string> = {
+  "sd3.5-large": "sd3",
+  "sd3.5-large-turbo": "sd3",
+  "sd3.5-medium": "sd3",
+  "stable-image-core": "core",
+  "stable-image-ultra": "ultra",
+};
+// turbo takes no negative prompt, and only Core takes a style preset
+const STABILITY_V2_PARAMETERS: Record<string, GenerationParamName[]> = {
+  "sd3.5-large": ["seed", "negativePrompt"],
+  "sd3.5-large-turbo": ["seed"],
+  "sd3.5-medium": ["seed", "negativePrompt"],
+  "stable-image-core": ["seed", "negativePrompt", "stylePreset"],
+  "stable-image-ultra": ["seed", "negativePrompt"],
+};
+const STABILITY_DEFAULT_SAMPLER = "K_EULER_ANCESTRAL";
+// ESRGAN doubles the size and the fast upscaler quadruples it
+const STABILITY_UPSCALERS: Record<number, string> = {
+  2: "esrgan-v1-x2plus",
+  4: "stable-image-upscale-fast",
+};
+
+function createStabilityProvider(): ImageProvider {
+  const getKey = () => {
+    const key = process.env.STABILITY_API_KEY?.trim();
+    return key && key !== "your-stability-api-key-here" && key.length > 10
+      ? key
+      : null;
+  };
+
+  return {
+    name: "stability",
+    label: "Stability AI",
+    defaultModel: "stable-diffusion-xl-1024-v1-0",
+    models: [
+      ...Object.keys(STABILITY_V1_ENGINES),
+      ...Object.keys(STABILITY_V2_ENDPOINTS),
+    ],
+    isConfigured: () => !!getKey(),
+    supportsModel(model) {
+      return this.models.includes(model);
+    },
+    parameters: (model) =>
+      model in STABILITY_V1_ENGINES
+        ? ALL_PARAMETERS
+        : STABILITY_V2_PARAMETERS[model] || [],
+    edits: (model) =>
+      model in STABILITY_V1_ENGINES
+        ? EDIT_MODES
+        : STABILITY_V2_ENDPOINTS[model] === "sd3"
+        ? ["img2img"]
+        : [],
+
+    async generate(prompt, model, params) {
+      const apiKey = getKey();
+      if (!apiKey) {
+        throw new Error("no key found");
+      }
+      const timestamp = Date.now();
+
+      try {
+        if (model in STABILITY_V1_ENGINES) {
+          const size = STABILITY_V1_ENGINES[model];
+          const width = params.width ?? size;
+          const height = params.height ?? size;
+          const steps = params.steps ?? DEFAULT_STEPS;
+          const cfgScale = params.cfgScale ?? DEFAULT_CFG_SCALE;
+          const sampler = params.sampler ?? STABILITY_DEFAULT_SAMPLER;
+          const response = await axios.post(
+            `https://api.stability.ai/v1/generation/${model}/text-to-image`,
+            {
+              text_prompts: [
+                { text: prompt, weight: 1 },
+                ...(params.negativePrompt
+                  ? [{ text: params.negativePrompt, weight: -1 }]
+                  : []),
+              ],
+              cfg_scale: cfgScale,
+              height,
+              width,
+              steps,
+              samples: 1,
+              sampler,
+              ...(params.seed !== undefined && { seed: params.seed }),
+              ...(params.stylePreset && { style_preset: params.stylePreset }),
+            },
+            {
+              headers: {
+                "Content-Type": "application/json",
+                Accept: "application/json",
+                Authorization: `Bearer ${apiKey}`,
+              },
+              responseType: "json",
+            }
+          );
+
+          const artifact = response.data?.artifacts?.[0];
+          if (!artifact?.base64) {
+            throw new Error("no image returned");
+          }
+          const image = Buffer.from(artifact.base64, "base64");
+          const transparency: TransparencyData = {
+            model,
+            provider: "stability",
+            steps,
+            seed: artifact.seed || params.seed,
+            sampler,
+            cfgScale,
+            ...(params.negativePrompt && {
+              negativePrompt: params.negativePrompt,
+            }),
+            ...(params.stylePreset && { stylePreset: params.stylePreset }),
+            ...measure(image, { width, height }),
+            prompt,
+            timestamp,
+          };
+          return { image, transparency };
+        }
+
+        const form = new FormData();
+        form.append("prompt", prompt);
+        form.append("aspect_ratio", "1:1");
+        form.append("output_format", "png");
+        if (STABILITY_V2_ENDPOINTS[model] === "sd3") {
+          form.append("model", model);
+        }
+        if (params.seed !== undefined) {
+          form.append("seed", String(params.seed));
+        }
+        if (params.negativePrompt) {
+          form.append("negative_prompt", params.negativePrompt);
+        }
+        if (params.stylePreset) {
+          form.append("style_preset", params.stylePreset);
+        }
+        const response = await axios.post(
+          `https://api.stability.ai/v2beta/stable-image/generate/${STABILITY_V2_ENDPOINTS[model]}`,
+          form,
+          {
+            headers: {
+              Accept: "image/*",
+              Authorization: `Bearer ${apiKey}`,
+            },
+            responseType: "arraybuffer",
+          }
+        );
+
+        const image = Buffer.from(response.data);
+        const seed = Number(response.headers["seed"]);
+        const transparency: TransparencyData = {
+          model,
+          provider: "stability",
+          seed: Number.isFinite(seed) ? seed : params.seed,
+          ...(params.negativePrompt && {
+            negativePrompt: params.negativePrompt,
+          }),
+          ...(params.stylePreset && { stylePreset: params.stylePreset }),
+          ...measure(image, { width: DEFAULT_SIZE, height: DEFAULT_SIZE }),
+          prompt,
+          timestamp,
+        };
+        return { image, transparency };
+      } catch (error: any) {
+        throw providerError("Stability AI", error);
+      }
+    },
+
+    async edit(prompt, model, params, input) {
+      const apiKey = getKey();
+      if (!apiKey) {
+        throw new Error("no key found");
+      }
+      const timestamp = Date.now();
+      const source = measure(input.image, {
+        width: DEFAULT_SIZE,
+        height: DEFAULT_SIZE,
+      });
+      const headers = { Authorization: `Bearer ${apiKey}` };
+      const form = new FormData();
+
+      try {
+        if (input.mode === "upscale") {
+          const scale = input.scale ?? 2;
+          const upscaler = STABILITY_UPSCALERS[scale];
+          if (!upscaler) {
+            throw new Error(`no upscaler for ${scale}x`);
+          }
+          form.append("image", pngBlob(input.image), "image.png");
+          let response;
+          if (scale === 2) {
+            form.append("width", String(source.width * scale));
+            response = await axios.post(
+              `https://api.stability.ai/v1/generation/${upscaler}/image-to-image/upscale`,
+              form,
+              {
+                headers: { ...headers, Accept: "image/png" },
+                responseType: "arraybuffer",
+              }
+            );
+          } else {
+            form.append("output_format", "png");
+            response = await axios.post(
+              "https://api.stability.ai/v2beta/stable-image/upscale/fast",
+              form,
+              {
+                headers: { ...headers, Accept: "image/*" },
+                responseType: "arraybuffer",
+              }
+            );
+          }
+
+          const image = Buffer.from(response.data);
+          const transparency: TransparencyData = {
+            model: upscaler,
+            provider: "stability",
+            editMode: "upscale",
+            scale,
+            ...measure(image, {
+              width: source.width * scale,
+              height: source.height * scale,
+            }),
+            prompt,
+            timestamp,
+          };
+          return { image, transparency };
+        }
+
+        const strength = input.strength ?? DEFAULT_EDIT_STRENGTH;
+
+        if (model in STABILITY_V1_ENGINES) {
+          const steps = params.steps ?? DEFAULT_STEPS;
+          const cfgScale = params.cfgScale ?? DEFAULT_CFG_SCALE;
+          const sampler = params.sampler ?? STABILITY_DEFAULT_SAMPLER;
+          form.append("init_image", pngBlob(input.image), "init.png");
+          form.append("text_prompts[0][text]", prompt);
+          form.append("text_prompts[0][weight]", "1");
+          if (params.negativePrompt) {
+            form.append("text_prompts[1][text]", params.negativePrompt);
+            form.append("text_prompts[1][weight]", "-1");
+          }
+          form.append("cfg_scale", String(cfgScale));
+          form.append("steps", String(steps));
+          form.append("samples", "1");
+          form.append("sampler", sampler);
+          if (params.seed !== undefined) {
+            form.append("seed", String(params.seed));
+          }
+          if (params.stylePreset) {
+            form.append("style_preset", params.stylePreset);
+          }
+          if (input.mode === "inpaint") {
+            form.append("mask_source", "MASK_IMAGE_WHITE");
+            form.append("mask_image", pngBlob(input.mask!), "mask.png");
+          } else {
+            // Stability's image_strength is how much of the source is kept
+            form.append("init_image_mode", "IMAGE_STRENGTH");
+            form.append(
+              "image_strength",
+              String(Math.round((1 - strength) * 1000) / 1000)
+            );
+          }
+          const response = await axios.post(
+            `https://api.stability.ai/v1/generation/${model}/image-to-image${
+              input.mode === "inpaint" ? "/masking" : ""
+            }`,
+            form,
+            {
+              headers: { ...headers, Accept: "application/json" },
+              responseType: "json",
+            }
+          );
+
+          const artifact = response.data?.artifacts?.[0];
+          if (!artifact?.base64) {
+            throw new Error("no image returned");
+          }
+          const image = Buffer.from(artifact.base64, "base64");
+          const transparency: TransparencyData = {
+            model,
+            provider: "stability",
+            editMode: input.mode,
+            ...(input.mode === "img2img" && { strength }),
+            steps,
+            seed: artifact.seed || params.seed,
+            sampler,
+            cfgScale,
+            ...(params.negativePrompt && {
+              negativePrompt: params.negativePrompt,
+            }),
+            ...(params.stylePreset && { stylePreset: params.stylePreset }),
+            ...measure(image, source),
+            prompt,
+            timestamp,
+          };
+          return { image, transparency };
+        }
+
+        // SD3 image-to-image
+        form.append("prompt", prompt);
+        form.append("mode", "image-to-image");
+        form.append("image", pngBlob(input.image), "image.png");
+        form.append("strength", String(strength));
+        form.append("model", model);
+        form.append("output_format", "png");
+        if (params.seed !== undefined) {
+          form.append("seed", String(params.seed));
+        }
+        if (params.negativePrompt) {
+          form.append("negative_prompt", params.negativePrompt);
+        }
+        const response = await axios.post(
+          "https://api.stability.ai/v2beta/stable-image/generate/sd3",
+          form,
+          {
+            headers: { ...headers, Accept: "image/*" },
+            responseType: "arraybuffer",
+          }
+        );
+
+        const image = Buffer.from(response.data);
+        const seed = Number(response.headers["seed"]);
+        const transparency: TransparencyData = {
+          model,
+          provider: "stability",
+          editMode: "img2img",
+          strength,
+          seed: Number.isFinite(seed) ? seed : params.seed,
+          ...(params.negativePrompt && {
+            negativePrompt: params.negativePrompt,
+          }),
+          ...measure(image, source),
+          prompt,
+          timestamp,
+        };
+        return { image, transparency };
+      } catch (error: any) {
+        throw providerError("Stability AI", error);
+      }
+    },
+  };
+}
+
+// sizes each model accepts; OpenAI takes no seed, so its images cannot be
+// reproduced
+const OPENAI_SIZES: Record<string, string[]> = {
+  "gpt-image-1": ["1024x1024", "1536x1024", "1024x1536"],
+  "dall-e-3": ["1024x1024", "1792x1024", "1024x1792"],
+  "dall-e-2": ["256x256", "512x512", "1024x1024"],
+};
+
+function createOpenAiImageProvider(): ImageProvider {
+  const baseUrl = () =>
+    (process.env.OPENAI_BASE_URL?.trim() || "https://api.openai.com/v1").replace(
+      /\/+$/,
+      ""
+    );
+
+  return {
+    name: "openai",
+    label: "OpenAI Images",
+    defaultModel: "gpt-image-1",
+    models: ["gpt-image-1", "dall-e-3", "dall-e-2"],
+    isConfigured: () => !!process.env.OPENAI_API_KEY?.trim(),
+    supportsModel(model) {
+      return this.models.includes(model);
+    },
+    parameters: () => ["width", "height"],
+    edits: () => [],
+
+    async generate(prompt, model, params) {
+      const timestamp = Date.now();
+      const width = params.width ?? DEFAULT_SIZE;
+      const height = params.height ?? DEFAULT_SIZE;
+      const size = `${width}x${height}`;
+      if (!OPENAI_SIZES[model]?.includes(size)) {
+        throw new Error(
+          `${model} does not offer ${size}. Sizes: ${OPENAI_SIZES[model]?.join(", ")}`
+        );
+      }
+      // gpt-image-1 always returns base64 and rejects response_format
+      const isDallE = model.startsWith("dall-e");
+      const quality = model === "dall-e-3" ? "hd" : isDallE ? undefined : "high";
+      const style = model === "dall-e-3" ? "vivid" : undefined;
+
+      try {
+        const response = await axios.post(
+          `${baseUrl()}/images/generations`,
+          {
+            model,
+            prompt,
+            n: 1,
+            size,
+            ...(quality && { quality }),
+            ...(style && { style }),
+            ...(isDallE && { response_format: "b64_json" }),
+          },
+          {
+            headers: {
+              "Content-Type": "application/json",
+              Authorization: `Bearer ${process.env.OPENAI_API_KEY?.trim()}`,
+            },
+            timeout: 120000,
+            responseType: "json",
+          }
+        );
+
+        const result = response.data?.data?.[0];
+        if (!result?.b64_json) {
+          throw new Error("no image returned");
+        }
+        const image = Buffer.from(result.b64_json, "base64");
+        const transparency: TransparencyData = {
+          model,
+          provider: "openai",
+          ...(quality && { quality }),
+          ...(style && { style }),
+          ...(result.revised_prompt && { revisedPrompt: result.revised_prompt }),
+          ...measure(image, { width, height }),
+          prompt,
+          timestamp,
+        };
+        return { image, transparency };
+      } catch (error: any) {
+        throw providerError("OpenAI Images", error);
+      }
+    },
+  };
+}
+
+// owner/name, optionally pinned to a version hash
+const REPLICATE_MODEL = /^[\w.-]+\/[\w.-]+(:[0-9a-f]{64})?$/;
+
+function createReplicateProvider(): ImageProvider {
+  const maxAttempts = 60;
+  const pollInterval = 2000;
+
+  return {
+    name: "replicate",
+    label: "Replicate",
+    defaultModel: "black-forest-labs/flux-schnell",
+    models: [
+      "black-forest-labs/flux-schnell",
+      "black-forest-labs/flux-dev",
+      "stability-ai/sdxl",
+    ],
+    isConfigured: () => !!process.env.REPLICATE_API_TOKEN?.trim(),
+    supportsModel: (model) => REPLICATE_MODEL.test(model),
+    // the usual Stable Diffusion input names; no style presets
+    parameters: () => ALL_PARAMETERS.filter((name) => name !== "stylePreset"),
+    edits: () => [],
+
+    async generate(prompt, model, params) {
+      const timestamp = Date.now();
+      const headers = {
+        "Content-Type": "application/json",
+        Authorization: `Bearer ${process.env.REPLICATE_API_TOKEN?.trim()}`,
+      };
+      const seed = params.seed ?? randomSeed();
+      const width = params.width ?? DEFAULT_SIZE;
+      const height = params.height ?? DEFAULT_SIZE;
+      // models ignore inputs they do not declare, so the record can only
+      // say what was requested; /api/reproduce shows whether it was honoured
+      const input = {
+        prompt,
+        seed,
+        width,
+        height,
+        ...(params.width === undefined &&
+          params.height === undefined && { aspect_ratio: "1:1" }),
+        ...(params.steps !== undefined && { num_inference_steps: params.steps }),
+        ...(params.cfgScale !== undefined && { guidance_scale: params.cfgScale }),
+        ...(params.sampler && { scheduler: params.sampler }),
+        ...(params.negativePrompt && { negative_prompt: params.negativePrompt }),
+        output_format: "png",
+      };
+      const [name, version] = model.split(":");
+
+      try {
+        // Prefer: wait holds the request open until the prediction finishes,
+        // up to a minute; slower models are polled afterwards
+        let prediction = (
+          await axios.post(
+            version
+              ? "https://api.replicate.com/v1/predictions"
+              : `https://api.replicate.com/v1/models/${name}/predictions`,
+            version ? { version, input } : { input },
+            { headers: { ...headers, Prefer: "wait" }, timeout: 90000 }
+          )
+        ).data;
+
+        for (
+          let attempt = 0;
+          attempt < maxAttempts &&
+          !["succeeded", "failed", "canceled"].includes(prediction.status);
+          attempt++
+        ) {
+          await new Promise((resolve) => setTimeout(resolve, pollInterval));
+          prediction = (
+            await axios.get(prediction.urls.get, { headers, timeout: 30000 })
+          ).data;
+        }
+
+        if (prediction.status !== "succeeded") {
+          throw new Error(
+            `prediction ${prediction.id} ended as ${prediction.status}: ${
+              prediction.error || "timed out"
+            }`
+          );
+        }
+
+        const outputUrl = Array.isArray(prediction.output)
+          ? prediction.output[0]
+          : prediction.output;
+        if (typeof outputUrl !== "string") {
+          throw new Error("no image returned");
+        }
+        const image = Buffer.from(
+          (
+            await axios.get(outputUrl, {
+              responseType: "arraybuffer",
+              timeout: 60000,
+            })
+          ).data
+        );
+
+        const transparency: TransparencyData = {
+          model: name,
+          provider: "replicate",
+          ...(prediction.version && { modelVersion: prediction.version }),
+          seed,
+          ...(params.steps !== undefined && { steps: params.steps }),
+          ...(params.cfgScale !== undefined && { cfgScale: params.cfgScale }),
+          ...(params.sampler && { sampler: params.sampler }),
+          ...(params.negativePrompt && {
+            negativePrompt: params.negativePrompt,
+          }),
+          ...measure(image, { width, height }),
+          prompt,
+          timestamp,
+        };
+        return { image, transparency };
+      } catch (error: any) {
+        throw providerError("Replicate", error);
+      }
+    },
+  };
+}
+
+// the upscaler extras run with, and the denoising inpainting uses
+const AUTOMATIC1111_UPSCALER = "R-ESRGAN 4x+";
+const AUTOMATIC1111_INPAINT_STRENGTH = 0.75;
+
+function createAutomatic1111Provider(): ImageProvider {
+  const baseUrl = () =>
+    (process.env.AUTOMATIC1111_URL?.trim() || "").replace(/\/+$/, "");
+
+  // the sampling settings txt2img and img2img share
+  const samplingSettings = (
+    prompt: string,
+    model: string,
+    params: GenerationParams
+  ) => ({
+    prompt,
+    negative_prompt: params.negativePrompt ?? "",
+    steps: params.steps ?? DEFAULT_STEPS,
+    cfg_scale: params.cfgScale ?? DEFAULT_CFG_SCALE,
+    sampler_name: params.sampler ?? "Euler a",
+    seed: params.seed ?? randomSeed(),
+    ...(params.stylePreset && { styles: [params.stylePreset] }),
+    ...(model !== "default" && {
+      override_settings: { sd_model_checkpoint: model },
+    }),
+  });
+
+  // info is a JSON string with the settings the server actually used
+  const recordedSettings = (data: any, model: string, params: GenerationParams) => {
+    const info = safeJson(data.info || "{}");
+    return {
+      model: info.sd_model_name || model,
+      provider: "automatic1111" as const,
+      steps: info.steps ?? params.steps ?? DEFAULT_STEPS,
+      seed: info.seed ?? params.seed,
+      sampler: info.sampler_name || params.sampler || "Euler a",
+      cfgScale: info.cfg_scale ?? params.cfgScale ?? DEFAULT_CFG_SCALE,
+      ...(params.negativePrompt && {
+        negativePrompt: params.negativePrompt,
+      }),
+      ...(params.stylePreset && { stylePreset: params.stylePreset }),
+    };
+  };
+
+  return {
+    name: "automatic1111",
+    label: "Automatic1111",
+    // "default" keeps whatever checkpoint the server has loaded
+    defaultModel: "default",
+    models: ["default"],
+    isConfigured: () => !!baseUrl(),
+    supportsModel: (model) => model.trim().length > 0,
+    // style presets are the server's saved styles
+    parameters: () => ALL_PARAMETERS,
+    edits: () => EDIT_MODES,
+
+    async generate(prompt, model, params) {
+      const timestamp = Date.now();
+      const width = params.width ?? DEFAULT_SIZE;
+      const height = params.height ?? DEFAULT_SIZE;
+      try {
+        const response = await axios.post(
+          `${baseUrl()}/sdapi/v1/txt2img`,
+          { ...samplingSettings(prompt, model, params), width, height },
+          { timeout: 300000, responseType: "json" }
+        );
+
+        const base64 = response.data?.images?.[0];
+        if (!base64) {
+          throw new Error("no image returned");
+        }
+        const image = Buffer.from(base64, "base64");
+        const transparency: TransparencyData = {
+          ...recordedSettings(response.data, model, params),
+          ...measure(image, { width, height }),
+          prompt,
+          timestamp,
+        };
+        return { image, transparency };
+      } catch (error: any) {
+        throw providerError("Automatic1111", error);
+      }
+    },
+
+    async edit(prompt, model, params, input) {
+      const timestamp = Date.now();
+      const source = measure(input.image, {
+        width: DEFAULT_SIZE,
+        height: DEFAULT_SIZE,
+      });
+      try {
+        if (input.mode === "upscale") {
+          const scale = input.scale ?? 2;
+          const response = await axios.post(
+            `${baseUrl()}/sdapi/v1/extra-single-image`,
+            {
+              image: input.image.toString("base64"),
+              upscaling_resize: scale,
+              upscaler_1: AUTOMATIC1111_UPSCALER,
+            },
+            { timeout: 300000, responseType: "json" }
+          );
+
+          if (!response.data?.image) {
+            throw new Error("no image returned");
+          }
+          const image = Buffer.from(response.data.image, "base64");
+          const transparency: TransparencyData = {
+            model: AUTOMATIC1111_UPSCALER,
+            provider: "automatic1111",
+            editMode: "upscale",
+            scale,
+            ...measure(image, {
+              width: source.width * scale,
+              height: source.height * scale,
+            }),
+            prompt,
+            timestamp,
+          };
+          return { image, transparency };
+        }
+
+        // inpainting keeps the original under the mask as its starting point
+        const strength =
+          input.mode === "inpaint"
+            ? AUTOMATIC1111_INPAINT_STRENGTH
+            : input.strength ?? DEFAULT_EDIT_STRENGTH;
+        const response = await axios.post(
+          `${baseUrl()}/sdapi/v1/img2img`,
+          {
+            ...samplingSettings(prompt, model, params),
+            init_images: [input.image.toString("base64")],
+            denoising_strength: strength,
+            width: source.width,
+            height: source.height,
+            ...(input.mode === "inpaint" && {
+              mask: input.mask!.toString("base64"),
+              inpainting_fill: 1,
+              mask_blur: 4,
+            }),
+          },
+          { timeout: 300000, responseType: "json" }
+        );
+
+        const base64 = response.data?.images?.[0];
+        if (!base64) {
+          throw new Error("no image returned");
+        }
+        const image = Buffer.from(base64, "base64");
+        const transparency: TransparencyData = {
+          ...recordedSettings(response.data, model, params),
+          editMode: input.mode,
+          strength,
+          ...measure(image, source),
+          prompt,
+          timestamp,
+        };
+        return { image, transparency };
+      } catch (error: any) {
+        throw providerError("Automatic1111", error);
+      }
+    },
+  };
+}
+
+function createComfyUiProvider(): ImageProvider {
+  const baseUrl = () =>
+    (process.env.COMFYUI_URL?.trim() || "").replace(/\/+$/, "");
+  const maxAttempts = 150;
+  const pollInterval = 2000;
+
+  return {
+    name: "comfyui",
+    label: "ComfyUI",
+    defaultModel: "sd_xl_base_1.0.safetensors",
+    models: ["sd_xl_base_1.0.safetensors"],
+    isConfigured: () => !!baseUrl(),
+    // any checkpoint file in the server's models/checkpoints folder
+    supportsModel: (model) => /^[^/\\]+\.(safetensors|ckpt)$/.test(model),
+    parameters: () => ALL_PARAMETERS.filter((name) => name !== "stylePreset"),
+    edits: () => [],
+
+    async generate(prompt, model, params) {
+      const timestamp = Date.now();
+      const seed = params.seed ?? randomSeed();
+      const steps = params.steps ?? DEFAULT_STEPS;
+      const cfgScale = params.cfgScale ?? DEFAULT_CFG_SCALE;
+      const sampler = params.sampler ?? "euler_ancestral";
+      const width = params.width ?? DEFAULT_SIZE;
+      const height = params.height ?? DEFAULT_SIZE;
+      // the default text-to-image graph, in ComfyUI's API format
+      const workflow = {
+        "1": {
+          class_type: "CheckpointLoaderSimple",
+          inputs: { ckpt_name: model },
+        },
+        "2": {
+          class_type: "CLIPTextEncode",
+          inputs: { text: prompt, clip: ["1", 1] },
+        },
+        "3": {
+          class_type: "CLIPTextEncode",
+          inputs: { text: params.negativePrompt ?? "", clip: ["1", 1] },
+        },
+        "4": {
+          class_type: "EmptyLatentImage",
+          inputs: { width, height, batch_size: 1 },
+        },
+        "5": {
+          class_type: "KSampler",
+          inputs: {
+            model: ["1", 0],
+            positive: ["2", 0],
+            negative: ["3", 0],
+            latent_image: ["4", 0],
+            seed,
+            steps,
+            cfg: cfgScale,
+            sampler_name: sampler,
+            scheduler: "normal",
+            denoise: 1,
+          },
+        },
+        "6": {
+          class_type: "VAEDecode",
+          inputs: { samples: ["5", 0], vae: ["1", 2] },
+        },
+        "7": {
+          class_type: "SaveImage",
+          inputs: { images: ["6", 0], filename_prefix: "authentica" },
+        },
+      };
+
+      try {
+        const queued = await axios.post(
+          `${baseUrl()}/prompt`,
+          { prompt: workflow, client_id: crypto.randomUUID() },
+          { timeout: 30000, responseType: "json" }
+        );
+        const promptId = queued.data?.prompt_id;
+        if (!promptId) {
+          throw new Error("comfyui did not return a prompt id");
+        }
+
+        let output: { filename: string; subfolder: string; type: string } | null =
+          null;
+        for (let attempt = 0; attempt < maxAttempts && !output; attempt++) {
+          await new Promise((resolve) => setTimeout(resolve, pollInterval));
+          const history = await axios.get(`${baseUrl()}/history/${promptId}`, {
+            timeout: 30000,
+            responseType: "json",
+          });
+          const entry = history.data?.[promptId];
+          if (entry?.status?.status_str === "error") {
+            throw new Error("comfyui workflow failed");
+          }
+          output = entry?.outputs?.["7"]?.images?.[0] || null;
+        }
+        if (!output) {
+          throw new Error(`comfyui timed out after ${maxAttempts} attempts`);
+        }
+
+        const view = await axios.get(`${baseUrl()}/view`, {
+          params: output,
+          responseType: "arraybuffer",
+          timeout: 60000,
+        });
+        const image = Buffer.from(view.data);
+        const transparency: TransparencyData = {
+          model,
+          provider: "comfyui",
+          steps,
+          seed,
+          sampler,
+          cfgScale,
+          ...(params.negativePrompt && {
+            negativePrompt: params.negativePrompt,
+          }),
+          ...measure(image, { width, height }),
+          prompt,
+          timestamp,
+        };
+        return { image, transparency };
+      } catch (error: any) {
+        throw providerError("ComfyUI", error);
+      }
+    },
+  };
+}
+
+// smaller than the hosted models' default, to keep tests fast
+const PROCEDURAL_SIZE = 512;
+
+function createLocalProceduralProvider(): ImageProvider {
+  return {
+    name: "local-procedural",
+    label: "Local Procedural",
+    defaultModel: PROCEDURAL_MODEL,
+    models: [PROCEDURAL_MODEL],
+    // opt-in only: it needs no service, but a server that silently fell back
+    // to it would certify placeholder art as the user's generation
+    isConfigured: () => process.env.IMAGE_PROVIDER?.trim() === "local-procedural",
+    supportsModel(model) {
+      return this.models.includes(model);
+    },
+    parameters: () => ["seed", "width", "height"],
+    edits: () => EDIT_MODES,
+
+    async generate(prompt, model, params) {
+      const timestamp = Date.now();
+      const seed = params.seed ?? randomSeed();
+      const width = params.width ?? PROCEDURAL_SIZE;
+      const height = params.height ?? PROCEDURAL_SIZE;
+
+      const image = generateProceduralImage(prompt, seed, width, height);
+      const transparency: TransparencyData = {
+        model,
+        provider: "local-procedural",
+        seed,
+        width,
+        height,
+        prompt,
+        timestamp,
+      };
+      return { image, transparency };
+    },
+
+    async edit(prompt, model, params, input) {
+      const timestamp = Date.now();
+      const source = decodeImage(input.image);
+      const scale = input.mode === "upscale" ? input.scale ?? 2 : 1;
+      // inpainting replaces the masked pixels outright
+      const strength =
+        input.mode === "img2img" ? input.strength ?? DEFAULT_EDIT_STRENGTH : 1;
+      const seed = input.mode === "upscale" ? undefined : params.seed ?? randomSeed();
+
+      const image = editProceduralImage(prompt, seed ?? 0, source, {
+        mode: input.mode,
+        strength,
+        scale,
+        ...(input.mask && { mask: decodeImage(input.mask) }),
+      });
+      const transparency: TransparencyData = {
+        model,
+        provider: "local-procedural",
+        editMode: input.mode,
+        ...(input.mode === "upscale" ? { scale } : { seed, strength }),
+        width: source.width * scale,
+        height: source.height * scale,
+        prompt,
+        timestamp,
+      };
+      return { image, transparency };
+    },
+  };
+}
+
+// registry order is the fallback order
+const IMAGE_PROVIDERS: Record<ImageProviderName, () => ImageProvider> = {
+  stability: createStabilityProvider,
+  openai: createOpenAiImageProvider,
+  replicate: createReplicateProvider,
+  automatic1111: createAutomatic1111Provider,
+  comfyui: createComfyUiProvider,
+  "local-procedural": createLocalProceduralProvider,
+};
+
+const providers = new Map<ImageProviderName, ImageProvider>();
+
+export function isImageProviderName(name: string): name is ImageProviderName {
+  return Object.prototype.hasOwnProperty.call(IMAGE_PROVIDERS, name);
+}
+
+export function getImageProvider(name: ImageProviderName): ImageProvider {
+  let provider = providers.get(name);
+  if (!provider) {
+    provider = IMAGE_PROVIDERS[name]();
+    providers.set(name, provider);
+  }
+  return provider;
+}
+
+export function listImageProviders(): ImageProvider[] {
+  return (Object.keys(IMAGE_PROVIDERS) as ImageProviderName[]).map(
+    getImageProvider
+  );
+}
+
+/**
+ * IMAGE_PROVIDER picks the default provider explicitly. Without it the
+ * first configured provider is used, in registry order; local-procedural is
+ * only configured when IMAGE_PROVIDER selects it.
+ */
+export function getDefaultImageProvider(): ImageProvider | null {
+  const preferred = process.env.IMAGE_PROVIDER?.trim();
+  if (preferred && isImageProviderName(preferred)) {
+    const provider = getImageProvider(preferred);
+    if (provider.isConfigured()) {
+      return provider;
+    }
+    console.warn(`image provider ${preferred} is not configured`);
+  }
+  return listImageProviders().find((provider) => provider.isConfigured()) || null;
+}
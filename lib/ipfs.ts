@@ -1,27 +1,165 @@
-let ipfsClient: any = null;
-let ipfsModule: any = null;
+import fs from "fs";
+import path from "path";
+import { computeCid, isValidCid } from "./cid";
+import { getDataDir, readJsonStore, updateJsonStore } from "./store";
 
-function isPinata(): boolean {
-  const apiUrl = process.env.IPFS_API_URL || "";
-  return apiUrl.includes("pinata.cloud");
+export type PinStatus = "pinned" | "pinning" | "unpinned";
+
+export interface StoredContent {
+  content: Buffer;
+  contentType: string;
+}
+
+export interface PutOptions {
+  filename?: string;
+  contentType?: string;
+}
+
+/**
+ * Everything the app needs from content-addressed storage. Uploads use CIDv1
+ * with raw leaves on every backend, so lib/cid.ts can recompute the CID of
+ * any retrieved content.
+ */
+export interface StorageBackend {
+  name: string;
+  put(content: Buffer, options?: PutOptions): Promise<string>;
+  get(cid: string): Promise<StoredContent>;
+  pinStatus(cid: string): Promise<PinStatus>;
+  unpin(cid: string): Promise<void>;
+  gatewayUrl(cid: string): string;
+}
+
+export class ContentNotFoundError extends Error {
+  constructor(cid: string) {
+    super(`content not found: ${cid}`);
+    this.name = "ContentNotFoundError";
+  }
 }
 
-async function getIpfsClient() {
-  if (isPinata()) {
-    return "pinata";
+const DEFAULT_CONTENT_TYPE = "application/octet-stream";
+
+function getPinataAuth(): string {
+  const ipfsAuth = process.env.IPFS_AUTH;
+  if (!ipfsAuth || !ipfsAuth.startsWith("Bearer ")) {
+    throw new Error("no ipfs auth");
   }
+  return ipfsAuth;
+}
 
-  if (!ipfsClient) {
-    try {
-      if (!ipfsModule) {
-        ipfsModule = await import("ipfs-http-client");
+function pinataError(action: string, error: any): Error {
+  console.error(`pinata ${action} error:`, error);
+  if (error.response) {
+    console.error("pinata error response:", error.response.data);
+    return new Error(
+      `Pinata ${action} failed: ${error.response.data?.error || error.message}`
+    );
+  }
+  return new Error(
+    `failed to ${action} on pinata: ${error.message || "Unknown error"}`
+  );
+}
+
+function createPinataBackend(): StorageBackend {
+  const gateway =
+    process.env.PINATA_GATEWAY || "https://gateway.pinata.cloud/ipfs/";
+
+  return {
+    name: "pinata",
+
+    async put(content, options = {}) {
+      const axios = (await import("axios")).default;
+      const FormData = (await import("form-data")).default;
+      const filename = options.filename || `proof-${Date.now()}`;
+
+      try {
+        const formData = new FormData();
+        formData.append("file", content, {
+          filename,
+          contentType: options.contentType || DEFAULT_CONTENT_TYPE,
+        });
+        formData.append("pinataMetadata", JSON.stringify({ name: filename }));
+        formData.append("pinataOptions", JSON.stringify({ cidVersion: 1 }));
+
+        const response = await axios.post(
+          "https://api.pinata.cloud/pinning/pinFileToIPFS",
+          formData,
+          {
+            headers: {
+              Authorization: getPinataAuth(),
+              ...formData.getHeaders(),
+            },
+            maxBodyLength: Infinity,
+            maxContentLength: Infinity,
+          }
+        );
+
+        return response.data.IpfsHash;
+      } catch (error: any) {
+        throw pinataError("upload", error);
       }
-      const { create } = ipfsModule;
+    },
 
-      const ipfsApiUrl =
-        process.env.IPFS_API_URL || "https://ipfs.infura.io:5001/api/v0";
-      const ipfsAuth = process.env.IPFS_AUTH;
+    async get(cid) {
+      const axios = (await import("axios")).default;
+      try {
+        const response = await axios.get(`${gateway}${cid}`, {
+          responseType: "arraybuffer",
+          timeout: 30000,
+        });
+        return {
+          content: Buffer.from(response.data),
+          contentType: response.headers["content-type"] || DEFAULT_CONTENT_TYPE,
+        };
+      } catch (error: any) {
+        if (error.response?.status === 404) {
+          throw new ContentNotFoundError(cid);
+        }
+        throw error;
+      }
+    },
+
+    async pinStatus(cid) {
+      const axios = (await import("axios")).default;
+      try {
+        const response = await axios.get(
+          "https://api.pinata.cloud/data/pinList",
+          {
+            params: { hashContains: cid, status: "pinned" },
+            headers: { Authorization: getPinataAuth() },
+          }
+        );
+        return response.data?.rows?.length > 0 ? "pinned" : "unpinned";
+      } catch (error: any) {
+        throw pinataError("pin status", error);
+      }
+    },
 
+    async unpin(cid) {
+      const axios = (await import("axios")).default;
+      try {
+        await axios.delete(`https://api.pinata.cloud/pinning/unpin/${cid}`, {
+          headers: { Authorization: getPinataAuth() },
+        });
+      } catch (error: any) {
+        throw pinataError("unpin", error);
+      }
+    },
+
+    gatewayUrl(cid) {
+      return `${gateway}${cid}`;
+    },
+  };
+}
+
+function createKuboBackend(): StorageBackend {
+  let client: any = null;
+  const gateway = process.env.IPFS_GATEWAY || "https://ipfs.io/ipfs/";
+
+  async function getClient() {
+    if (!client) {
+      const { create } = await import("ipfs-http-client");
+
+      const ipfsAuth = process.env.IPFS_AUTH;
       let headers: Record<string, string> | undefined;
       if (ipfsAuth && !ipfsAuth.startsWith("Bearer ")) {
         headers = {
@@ -29,168 +167,225 @@ async function getIpfsClient() {
         };
       }
 
-      ipfsClient = create({
-        url: ipfsApiUrl,
+      client = create({
+        url: process.env.IPFS_API_URL || "http://127.0.0.1:5001/api/v0",
         headers,
       });
-    } catch (error: any) {
-      console.error("failed to initialize ipfs client:", error);
-      return null;
     }
+    return client;
   }
-  return ipfsClient;
+
+  return {
+    name: "kubo",
+
+    async put(content, options = {}) {
+      const ipfs = await getClient();
+      const result = await ipfs.add(
+        { path: options.filename || `proof-${Date.now()}`, content },
+        { cidVersion: 1, rawLeaves: true, pin: true }
+      );
+      return result.cid.toString();
+    },
+
+    async get(cid) {
+      const ipfs = await getClient();
+      const chunks: Uint8Array[] = [];
+      try {
+        for await (const chunk of ipfs.cat(cid, { timeout: 30000 })) {
+          chunks.push(chunk);
+        }
+      } catch (error: any) {
+        if (/not found|no link named/i.test(error.message || "")) {
+          throw new ContentNotFoundError(cid);
+        }
+        throw error;
+      }
+      // kubo's api does not keep the upload content type
+      return {
+        content: Buffer.concat(chunks),
+        contentType: DEFAULT_CONTENT_TYPE,
+      };
+    },
+
+    async pinStatus(cid) {
+      const ipfs = await getClient();
+      try {
+        for await (const pin of ipfs.pin.ls({ paths: [cid] })) {
+          if (pin.cid.toString() === cid) {
+            return "pinned";
+          }
+        }
+        return "unpinned";
+      } catch (error: any) {
+        if (/not pinned/i.test(error.message || "")) {
+          return "unpinned";
+        }
+        throw error;
+      }
+    },
+
+    async unpin(cid) {
+      const ipfs = await getClient();
+      await ipfs.pin.rm(cid);
+    },
+
+    gatewayUrl(cid) {
+      return `${gateway}${cid}`;
+    },
+  };
 }
 
-async function uploadToPinata(
-  file: Buffer,
-  filename?: string
-): Promise<string> {
-  const axios = (await import("axios")).default;
-  const ipfsAuth = process.env.IPFS_AUTH;
+const LOCAL_PIN_STORE = "local-ipfs-pins";
 
-  if (!ipfsAuth || !ipfsAuth.startsWith("Bearer ")) {
-    throw new Error("no ipfs auth");
+type LocalPins = Record<
+  string,
+  { filename: string; contentType: string; size: number; pinnedAt: number }
+>;
+
+/**
+ * Content-addressed store on local disk for dev and offline runs: content is
+ * written to AUTHENTICA_DATA_DIR/ipfs/<cid> under the same CID an IPFS node
+ * would assign, so switching to Pinata or Kubo later keeps links valid.
+ */
+function createLocalBackend(): StorageBackend {
+  const gateway = process.env.IPFS_GATEWAY || "/api/ipfs/";
+
+  function blockPath(cid: string): string {
+    if (!isValidCid(cid)) {
+      throw new ContentNotFoundError(cid);
+    }
+    const dir = path.join(getDataDir(), "ipfs");
+    if (!fs.existsSync(dir)) {
+      fs.mkdirSync(dir, { recursive: true });
+    }
+    return path.join(dir, path.basename(cid));
   }
 
-  try {
-    const FormData = (await import("form-data")).default;
-    const formData = new FormData();
-    formData.append("file", file, {
-      filename: filename || `proof-${Date.now()}.png`,
-      contentType: "image/png",
-    });
-
-    const metadata = JSON.stringify({
-      name: filename || `proof-${Date.now()}.png`,
-    });
-    formData.append("pinataMetadata", metadata);
-
-    const options = JSON.stringify({
-      cidVersion: 0,
-    });
-    formData.append("pinataOptions", options);
-
-    const response = await axios.post(
-      "https://api.pinata.cloud/pinning/pinFileToIPFS",
-      formData,
-      {
-        headers: {
-          Authorization: ipfsAuth,
-          ...formData.getHeaders(),
+  return {
+    name: "local",
+
+    async put(content, options = {}) {
+      const cid = await computeCid(content);
+      const file = blockPath(cid);
+      if (!fs.existsSync(file)) {
+        const tmp = `${file}.${process.pid}.tmp`;
+        fs.writeFileSync(tmp, content);
+        fs.renameSync(tmp, file);
+      }
+
+      updateJsonStore<LocalPins>(LOCAL_PIN_STORE, {}, (pins) => ({
+        ...pins,
+        [cid]: {
+          filename: options.filename || cid,
+          contentType: options.contentType || DEFAULT_CONTENT_TYPE,
+          size: content.length,
+          pinnedAt: Date.now(),
         },
-        maxBodyLength: Infinity,
-        maxContentLength: Infinity,
+      }));
+
+      return cid;
+    },
+
+    async get(cid) {
+      const file = blockPath(cid);
+      if (!fs.existsSync(file)) {
+        throw new ContentNotFoundError(cid);
       }
-    );
 
-    return response.data.IpfsHash;
-  } catch (error: any) {
-    console.error("pinata upload error:", error);
-    if (error.response) {
-      console.error("pinata error response:", error.response.data);
-      throw new Error(
-        `Pinata upload failed: ${error.response.data?.error || error.message}`
-      );
-    }
-    throw new Error(
-      `failed to upload to pinata: ${error.message || "Unknown error"}`
-    );
-  }
-}
+      const content = fs.readFileSync(file);
+      if ((await computeCid(content)) !== cid) {
+        throw new Error(`local content for ${cid} is corrupted`);
+      }
 
-export async function uploadToIpfs(
-  file: Buffer,
-  filename?: string
-): Promise<string> {
-  try {
-    const client = await getIpfsClient();
+      const pins = readJsonStore<LocalPins>(LOCAL_PIN_STORE, {});
+      return {
+        content,
+        contentType: pins[cid]?.contentType || DEFAULT_CONTENT_TYPE,
+      };
+    },
 
-    if (client === "pinata") {
-      return await uploadToPinata(file, filename);
-    }
+    async pinStatus(cid) {
+      const pins = readJsonStore<LocalPins>(LOCAL_PIN_STORE, {});
+      return pins[cid] && fs.existsSync(blockPath(cid)) ? "pinned" : "unpinned";
+    },
 
-    if (!client) {
-      throw new Error("IPFS client not available");
-    }
+    async unpin(cid) {
+      const file = blockPath(cid);
+      updateJsonStore<LocalPins>(LOCAL_PIN_STORE, {}, (pins) => {
+        const { [cid]: _removed, ...rest } = pins;
+        return rest;
+      });
+      // there is no garbage collector, so unpinned content is removed now
+      if (fs.existsSync(file)) {
+        fs.unlinkSync(file);
+      }
+    },
 
-    const result = await client.add({
-      path: filename || `proof-${Date.now()}`,
-      content: file,
-    });
+    gatewayUrl(cid) {
+      return `${gateway}${cid}`;
+    },
+  };
+}
 
-    return result.cid.toString();
-  } catch (error: any) {
-    console.error("ipfs upload error:", error);
-    throw new Error(
-      `failed to upload to ipfs: ${error.message || "Unknown error"}`
-    );
+let backend: StorageBackend | null = null;
+
+/**
+ * STORAGE_BACKEND picks the backend explicitly ("pinata", "kubo" or "local").
+ * Without it, a Pinata IPFS_API_URL selects Pinata, any other IPFS_API_URL
+ * selects Kubo, and no configuration at all falls back to the local store.
+ */
+export function getStorageBackend(): StorageBackend {
+  if (backend) {
+    return backend;
   }
-}
 
-async function uploadMetadataToPinata(metadata: object): Promise<string> {
-  const axios = (await import("axios")).default;
-  const ipfsAuth = process.env.IPFS_AUTH;
+  const apiUrl = process.env.IPFS_API_URL || "";
+  const name =
+    process.env.STORAGE_BACKEND ||
+    (apiUrl.includes("pinata.cloud") ? "pinata" : apiUrl ? "kubo" : "local");
 
-  if (!ipfsAuth || !ipfsAuth.startsWith("Bearer ")) {
-    throw new Error("no ipfs auth");
+  switch (name) {
+    case "pinata":
+      backend = createPinataBackend();
+      break;
+    case "kubo":
+      backend = createKuboBackend();
+      break;
+    case "local":
+      backend = createLocalBackend();
+      break;
+    default:
+      throw new Error(`unknown storage backend: ${name}`);
   }
 
-  try {
-    const response = await axios.post(
-      "https://api.pinata.cloud/pinning/pinJSONToIPFS",
-      {
-        pinataContent: metadata,
-        pinataMetadata: {
-          name: `metadata-${Date.now()}.json`,
-        },
-        pinataOptions: {
-          cidVersion: 0,
-        },
-      },
-      {
-        headers: {
-          Authorization: ipfsAuth,
-          "Content-Type": "application/json",
-        },
-      }
-    );
+  console.log("using storage backend:", backend.name);
+  return backend;
+}
 
-    return response.data.IpfsHash;
+export async function uploadToIpfs(
+  file: Buffer,
+  filename?: string,
+  contentType?: string
+): Promise<string> {
+  try {
+    return await getStorageBackend().put(file, { filename, contentType });
   } catch (error: any) {
-    console.error("pinata metadata upload error:", error);
-    if (error.response) {
-      console.error("pinata error response:", error.response.data);
-      throw new Error(
-        `Pinata metadata upload failed: ${
-          error.response.data?.error || error.message
-        }`
-      );
-    }
+    console.error("ipfs upload error:", error);
     throw new Error(
-      `failed to upload metadata to pinata: ${error.message || "Unknown error"}`
+      `failed to upload to ipfs: ${error.message || "Unknown error"}`
     );
   }
 }
 
 export async function uploadMetadataToIpfs(metadata: object): Promise<string> {
   try {
-    const client = await getIpfsClient();
-
-    if (client === "pinata") {
-      return await uploadMetadataToPinata(metadata);
-    }
-
-    if (!client) {
-      throw new Error("IPFS client not available");
-    }
-
-    const metadataString = JSON.stringify(metadata, null, 2);
-    const result = await client.add({
-      path: `metadata-${Date.now()}.json`,
-      content: Buffer.from(metadataString),
-    });
-
-    return result.cid.toString();
+    return await getStorageBackend().put(
+      Buffer.from(JSON.stringify(metadata, null, 2)),
+      {
+        filename: `metadata-${Date.now()}.json`,
+        contentType: "application/json",
+      }
+    );
   } catch (error: any) {
     console.error("ipfs metadata upload error:", error);
     throw new Error(
@@ -200,10 +395,5 @@ export async function uploadMetadataToIpfs(metadata: object): Promise<string> {
 }
 
 export function getIpfsUrl(cid: string): string {
-  if (isPinata()) {
-    return `https://gateway.pinata.cloud/ipfs/${cid}`;
-  }
-
-  const gateway = process.env.IPFS_GATEWAY || "https://ipfs.io/ipfs/";
-  return `${gateway}${cid}`;
+  return getStorageBackend().gatewayUrl(cid.replace("ipfs://", ""));
 }
@@ -0,0 +1,262 @@
+import crypto from "crypto";
+import fs from "fs";
+import path from "path";
+import { EventEmitter } from "events";
+import { createDraft } from "./drafts";
+import {
+  ContentType,
+  GeneratedProof,
+  generateCandidates,
+  GenerationRequest,
+  GenerationStage,
+  runGeneration,
+} from "./generation";
+import { getDataDir, readJsonStore, updateJsonStore } from "./store";
+
+/**
+ * Background generation jobs. A validated request is persisted with the
+ * job, so a job that was running when the server stopped is queued again
+ * on the next start instead of being lost. Results are written next to the
+ * store, one file per job, because they carry the full output; a
+ * multi-candidate job instead ends with a draft (lib/drafts.ts). Job IDs
+ * are random UUIDs and act as the capability to read the result.
+ */
+const JOBS_STORE = "generation-jobs";
+
+// generation is mostly waiting on provider APIs
+const MAX_CONCURRENT_JOBS = 2;
+// a job interrupted this many times by restarts is failed instead of re-run
+const MAX_ATTEMPTS = 2;
+const JOB_RETENTION_MS = 24 * 60 * 60 * 1000;
+
+export type JobStatus = "queued" | GenerationStage | "completed" | "failed";
+
+export interface GenerationJob {
+  id: string;
+  status: JobStatus;
+  type: ContentType;
+  creator: string;
+  attempts: number;
+  error: string | null;
+  // set when the job produced candidates rather than a proof
+  draftId: string | null;
+  createdAt: number;
+  updatedAt: number;
+  completedAt: number | null;
+}
+
+interface StoredJob extends GenerationJob {
+  // dropped once the job has finished
+  request: GenerationRequest | null;
+}
+
+type JobStore = Record<string, StoredJob>;
+
+// Kept on globalThis because each API route is bundled separately and would
+// otherwise run its own queue and miss the other routes' progress events.
+const globalForJobs = globalThis as unknown as {
+  authenticaJobEvents?: EventEmitter;
+  authenticaRunningJobs?: Set<string>;
+  authenticaJobsRecovered?: boolean;
+};
+
+function jobEvents(): EventEmitter {
+  if (!globalForJobs.authenticaJobEvents) {
+    globalForJobs.authenticaJobEvents = new EventEmitter();
+    // one listener per open progress stream
+    globalForJobs.authenticaJobEvents.setMaxListeners(0);
+  }
+  return globalForJobs.authenticaJobEvents;
+}
+
+function runningJobs(): Set<string> {
+  if (!globalForJobs.authenticaRunningJobs) {
+    globalForJobs.authenticaRunningJobs = new Set();
+  }
+  return globalForJobs.authenticaRunningJobs;
+}
+
+function resultPath(id: string): string {
+  const dir = path.join(getDataDir(), "jobs");
+  if (!fs.existsSync(dir)) {
+    fs.mkdirSync(dir, { recursive: true });
+  }
+  return path.join(dir, `${id}.json`);
+}
+
+export function isTerminalStatus(status: JobStatus): boolean {
+  return status === "completed" || status === "failed";
+}
+
+function toPublicJob({ request, ...job }: StoredJob): GenerationJob {
+  return job;
+}
+
+function saveJob(job: StoredJob): StoredJob {
+  updateJsonStore<JobStore>(JOBS_STORE, {}, (jobs) => ({
+    ...jobs,
+    [job.id]: job,
+  }));
+  jobEvents().emit(job.id, toPublicJob(job));
+  return job;
+}
+
+function updateJob(id: string, changes: Partial<StoredJob>): StoredJob | null {
+  const job = readJsonStore<JobStore>(JOBS_STORE, {})[id];
+  if (!job) {
+    return null;
+  }
+  return saveJob({ ...job, ...changes, updatedAt: Date.now() });
+}
+
+export function createJob(request: GenerationRequest): GenerationJob {
+  const now = Date.now();
+  const job = saveJob({
+    id: crypto.randomUUID(),
+    status: "queued",
+    type: request.type,
+    creator: request.signer,
+    attempts: 0,
+    error: null,
+    draftId: null,
+    createdAt: now,
+    updatedAt: now,
+    completedAt: null,
+    request,
+  });
+
+  processJobs();
+  return toPublicJob(job);
+}
+
+export function getJob(id: string): GenerationJob | null {
+  processJobs();
+  const job = readJsonStore<JobStore>(JOBS_STORE, {})[id];
+  return job ? toPublicJob(job) : null;
+}
+
+export function getJobResult(id: string): GeneratedProof | null {
+  try {
+    return JSON.parse(fs.readFileSync(resultPath(id), "utf8"));
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Calls the listener with every status change of the job. Returns the
+ * unsubscribe function.
+ */
+export function subscribeToJob(
+  id: string,
+  listener: (job: GenerationJob) => void
+): () => void {
+  jobEvents().on(id, listener);
+  return () => {
+    jobEvents().off(id, listener);
+  };
+}
+
+async function runJob(job: StoredJob): Promise<void> {
+  const running = runningJobs();
+  running.add(job.id);
+
+  try {
+    if (!job.request) {
+      throw new Error("job has no request to run");
+    }
+    updateJob(job.id, { attempts: job.attempts + 1 });
+
+    if ((job.request.candidates || 1) > 1) {
+      updateJob(job.id, { status: "generating" });
+      const draft = createDraft(
+        job.request,
+        await generateCandidates(job.request)
+      );
+      updateJob(job.id, {
+        status: "completed",
+        draftId: draft.id,
+        completedAt: Date.now(),
+        request: null,
+      });
+      console.log("generation job completed with a draft:", job.id);
+      return;
+    }
+
+    const proof = await runGeneration(job.request, (stage) => {
+      updateJob(job.id, { status: stage });
+    });
+
+    fs.writeFileSync(resultPath(job.id), JSON.stringify(proof));
+    updateJob(job.id, {
+      status: "completed",
+      completedAt: Date.now(),
+      request: null,
+    });
+    console.log("generation job completed:", job.id);
+  } catch (error: any) {
+    console.error(`generation job ${job.id} failed:`, error.message);
+    updateJob(job.id, {
+      status: "failed",
+      error: error.message || "Failed to generate content",
+      completedAt: Date.now(),
+      request: null,
+    });
+  } finally {
+    running.delete(job.id);
+    processJobs();
+  }
+}
+
+// once per process: jobs left mid-run by a restart are queued again, or
+// failed if that already happened too often; expired jobs are removed
+function recoverJobs(): void {
+  if (globalForJobs.authenticaJobsRecovered) {
+    return;
+  }
+  globalForJobs.authenticaJobsRecovered = true;
+
+  const now = Date.now();
+  updateJsonStore<JobStore>(JOBS_STORE, {}, (jobs) => {
+    const next: JobStore = {};
+    for (const job of Object.values(jobs)) {
+      if (job.completedAt && now - job.completedAt > JOB_RETENTION_MS) {
+        fs.rmSync(resultPath(job.id), { force: true });
+        continue;
+      }
+      if (isTerminalStatus(job.status) || job.status === "queued") {
+        next[job.id] = job;
+      } else if (job.attempts >= MAX_ATTEMPTS || !job.request) {
+        next[job.id] = {
+          ...job,
+          status: "failed",
+          error: "Interrupted by a server restart",
+          completedAt: now,
+          updatedAt: now,
+          request: null,
+        };
+      } else {
+        console.log("re-queueing interrupted generation job:", job.id);
+        next[job.id] = { ...job, status: "queued", updatedAt: now };
+      }
+    }
+    return next;
+  });
+}
+
+/**
+ * Starts queued jobs, oldest first, up to MAX_CONCURRENT_JOBS. Called
+ * whenever a job is created, read or finished, so there is no timer.
+ */
+export function processJobs(): void {
+  recoverJobs();
+
+  const running = runningJobs();
+  const queued = Object.values(readJsonStore<JobStore>(JOBS_STORE, {}))
+    .filter((job) => job.status === "queued" && !running.has(job.id))
+    .sort((a, b) => a.createdAt - b.createdAt);
+
+  for (const job of queued.slice(0, MAX_CONCURRENT_JOBS - running.size)) {
+    void runJob(job);
+  }
+}
@@ -0,0 +1,351 @@
+/**
+ * Reads the quantized DCT coefficients of a baseline JPEG without running the
+ * inverse DCT, for steganalysis of JPEG-domain embedding (JSteg, F5, ...).
+ * jpeg-js only exposes decoded pixels, so this is a small entropy decoder of
+ * its own. Progressive and arithmetic-coded files are not supported.
+ */
+
+export interface JpegComponent {
+  id: number;
+  h: number;
+  v: number;
+  blocksPerLine: number;
+  blocksPerColumn: number;
+  // quantization table in zigzag order, matching the coefficient layout
+  quantTable: Int32Array;
+  // 64 coefficients per block in zigzag order, blocks in raster order
+  coefficients: Int16Array;
+}
+
+export interface JpegCoefficients {
+  width: number;
+  height: number;
+  components: JpegComponent[];
+}
+
+interface ScanComponent {
+  component: JpegComponent;
+  dc: HuffmanTable;
+  ac: HuffmanTable;
+  pred: number;
+}
+
+interface HuffmanTable {
+  // code -> symbol, keyed by (length << 16) | code
+  lookup: Map<number, number>;
+  maxLength: number;
+}
+
+// guards the decoder against oversized frames, as decodeImage does
+const MAX_BLOCKS = 3 * 1000 * 1000;
+
+// natural (row-major) index of each zigzag position
+export const ZIGZAG = new Uint8Array([
+  0, 1, 8, 16, 9, 2, 3, 10, 17, 24, 32, 25, 18, 11, 4, 5, 12, 19, 26, 33, 40,
+  48, 41, 34, 27, 20, 13, 6, 7, 14, 21, 28, 35, 42, 49, 56, 57, 50, 43, 36, 29,
+  22, 15, 23, 30, 37, 44, 51, 58, 59, 52, 45, 38, 31, 39, 46, 53, 60, 61, 54,
+  47, 55, 62, 63,
+]);
+
+function buildHuffmanTable(counts: Uint8Array, symbols: Uint8Array): HuffmanTable {
+  const lookup = new Map<number, number>();
+  let code = 0;
+  let k = 0;
+  let maxLength = 0;
+  for (let length = 1; length <= 16; length++) {
+    for (let i = 0; i < counts[length - 1]; i++) {
+      lookup.set((length << 16) | code, symbols[k++]);
+      code++;
+      maxLength = length;
+    }
+    code <<= 1;
+  }
+  return { lookup, maxLength };
+}
+
+class BitReader {
+  private bitBuffer = 0;
+  private bitCount = 0;
+  // set when the reader runs into a marker; it then feeds zero bits
+  marker: number | null = null;
+
+  constructor(private data: Buffer, public offset: number) {}
+
+  private fill() {
+    while (this.bitCount <= 24) {
+      let byte = 0;
+      if (this.marker === null && this.offset < this.data.length) {
+        byte = this.data[this.offset];
+        if (byte === 0xff) {
+          const next = this.data[this.offset + 1];
+          if (next === 0x00) {
+            this.offset += 2;
+          } else {
+            this.marker = next;
+            byte = 0;
+          }
+        } else {
+          this.offset++;
+        }
+      }
+      this.bitBuffer = (this.bitBuffer << 8) | byte;
+      this.bitCount += 8;
+    }
+  }
+
+  readBit(): number {
+    if (this.bitCount === 0) {
+      this.fill();
+    }
+    this.bitCount--;
+    return (this.bitBuffer >>> this.bitCount) & 1;
+  }
+
+  receive(length: number): number {
+    let value = 0;
+    for (let i = 0; i < length; i++) {
+      value = (value << 1) | this.readBit();
+    }
+    return value;
+  }
+
+  decodeHuffman(table: HuffmanTable): number {
+    let code = 0;
+    for (let length = 1; length <= table.maxLength; length++) {
+      code = (code << 1) | this.readBit();
+      const symbol = table.lookup.get((length << 16) | code);
+      if (symbol !== undefined) {
+        return symbol;
+      }
+    }
+    throw new Error("invalid huffman code");
+  }
+
+  // skips to the restart marker that ends the current interval
+  restart() {
+    this.bitBuffer = 0;
+    this.bitCount = 0;
+    if (this.marker === null) {
+      while (
+        this.offset < this.data.length - 1 &&
+        !(this.data[this.offset] === 0xff && this.data[this.offset + 1] >= 0xd0 && this.data[this.offset + 1] <= 0xd7)
+      ) {
+        this.offset++;
+      }
+    } else {
+      while (this.offset < this.data.length - 1 && this.data[this.offset] !== 0xff) {
+        this.offset++;
+      }
+    }
+    this.offset += 2;
+    this.marker = null;
+  }
+
+  // position of the marker that follows the entropy-coded segment
+  end(): number {
+    let offset = this.offset;
+    while (
+      offset < this.data.length - 1 &&
+      !(this.data[offset] === 0xff && this.data[offset + 1] !== 0x00 && !(this.data[offset + 1] >= 0xd0 && this.data[offset + 1] <= 0xd7))
+    ) {
+      offset++;
+    }
+    return offset;
+  }
+}
+
+function extend(value: number, length: number): number {
+  return value < 1 << (length - 1) ? value - (1 << length) + 1 : value;
+}
+
+/**
+ * Returns null for anything that is not a baseline (or extended sequential)
+ * Huffman-coded JPEG; callers fall back to pixel-domain analysis.
+ */
+export function readJpegCoefficients(data: Buffer): JpegCoefficients | null {
+  if (data.length < 4 || data[0] !== 0xff || data[1] !== 0xd8) {
+    return null;
+  }
+
+  const quantTables: Int32Array[] = [];
+  const dcTables: HuffmanTable[] = [];
+  const acTables: HuffmanTable[] = [];
+  let frame: JpegCoefficients | null = null;
+  let quantIds: number[] = [];
+  let maxH = 1;
+  let maxV = 1;
+  let restartInterval = 0;
+  let offset = 2;
+
+  while (offset < data.length - 3) {
+    if (data[offset] !== 0xff) {
+      offset++;
+      continue;
+    }
+    const marker = data[offset + 1];
+    if (marker === 0xff || marker === 0x00 || marker === 0xd8 || (marker >= 0xd0 && marker <= 0xd7)) {
+      offset += marker === 0xff ? 1 : 2;
+      continue;
+    }
+    if (marker === 0xd9) {
+      break;
+    }
+
+    const length = data.readUInt16BE(offset + 2);
+    const segment = data.subarray(offset + 4, offset + 2 + length);
+    offset += 2 + length;
+
+    if (marker === 0xdb) {
+      let p = 0;
+      while (p < segment.length) {
+        const precision = segment[p] >> 4;
+        const id = segment[p] & 15;
+        p++;
+        const table = new Int32Array(64);
+        for (let i = 0; i < 64; i++) {
+          table[i] = precision ? segment.readUInt16BE(p + i * 2) : segment[p + i];
+        }
+        p += precision ? 128 : 64;
+        quantTables[id] = table;
+      }
+    } else if (marker === 0xc4) {
+      let p = 0;
+      while (p < segment.length) {
+        const tableClass = segment[p] >> 4;
+        const id = segment[p] & 15;
+        const counts = segment.subarray(p + 1, p + 17);
+        const total = counts.reduce((sum, count) => sum + count, 0);
+        const table = buildHuffmanTable(counts, segment.subarray(p + 17, p + 17 + total));
+        (tableClass === 0 ? dcTables : acTables)[id] = table;
+        p += 17 + total;
+      }
+    } else if (marker === 0xdd) {
+      restartInterval = segment.readUInt16BE(0);
+    } else if (marker === 0xc0 || marker === 0xc1) {
+      const height = segment.readUInt16BE(1);
+      const width = segment.readUInt16BE(3);
+      const count = segment[5];
+      const specs: { id: number; h: number; v: number; tq: number }[] = [];
+      for (let i = 0; i < count; i++) {
+        const p = 6 + i * 3;
+        specs.push({ id: segment[p], h: segment[p + 1] >> 4, v: segment[p + 1] & 15, tq: segment[p + 2] });
+      }
+      maxH = Math.max(...specs.map((spec) => spec.h));
+      maxV = Math.max(...specs.map((spec) => spec.v));
+      const mcusPerLine = Math.ceil(width / (8 * maxH));
+      const mcusPerColumn = Math.ceil(height / (8 * maxV));
+      if (mcusPerLine * mcusPerColumn * maxH * maxV * count > MAX_BLOCKS) {
+        throw new Error("image is too large to analyze");
+      }
+
+      quantIds = specs.map((spec) => spec.tq);
+      frame = {
+        width,
+        height,
+        components: specs.map((spec) => {
+          // padded to whole MCUs so interleaved scans can write every block
+          const blocksPerLine = mcusPerLine * spec.h;
+          const blocksPerColumn = mcusPerColumn * spec.v;
+          return {
+            id: spec.id,
+            h: spec.h,
+            v: spec.v,
+            blocksPerLine,
+            blocksPerColumn,
+            quantTable: new Int32Array(64),
+            coefficients: new Int16Array(blocksPerLine * blocksPerColumn * 64),
+          };
+        }),
+      };
+    } else if (marker >= 0xc2 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+      // progressive, lossless or arithmetic coding
+      return null;
+    } else if (marker === 0xda) {
+      if (!frame) {
+        return null;
+      }
+      const count = segment[0];
+      const scan: ScanComponent[] = [];
+      for (let i = 0; i < count; i++) {
+        const id = segment[1 + i * 2];
+        const tables = segment[2 + i * 2];
+        const component = frame.components.find((c) => c.id === id);
+        if (!component) {
+          return null;
+        }
+        scan.push({ component, dc: dcTables[tables >> 4], ac: acTables[tables & 15], pred: 0 });
+      }
+
+      const reader = new BitReader(data, offset);
+      const decodeBlock = (entry: ScanComponent, blockIndex: number) => {
+        const out = entry.component.coefficients;
+        const base = blockIndex * 64;
+        const t = reader.decodeHuffman(entry.dc);
+        entry.pred += t === 0 ? 0 : extend(reader.receive(t), t);
+        out[base] = entry.pred;
+        for (let k = 1; k < 64; ) {
+          const rs = reader.decodeHuffman(entry.ac);
+          const s = rs & 15;
+          const r = rs >> 4;
+          if (s === 0) {
+            if (r < 15) break;
+            k += 16;
+            continue;
+          }
+          k += r;
+          if (k > 63) break;
+          out[base + k] = extend(reader.receive(s), s);
+          k++;
+        }
+      };
+
+      const single = scan.length === 1;
+      const first = scan[0].component;
+      const totalUnits = single
+        ? Math.ceil(Math.ceil((frame.width * first.h) / maxH) / 8) *
+          Math.ceil(Math.ceil((frame.height * first.v) / maxV) / 8)
+        : Math.ceil(frame.width / (8 * maxH)) * Math.ceil(frame.height / (8 * maxV));
+      const unitsPerLine = single
+        ? Math.ceil(Math.ceil((frame.width * first.h) / maxH) / 8)
+        : Math.ceil(frame.width / (8 * maxH));
+
+      try {
+        for (let unit = 0; unit < totalUnits; unit++) {
+          if (restartInterval && unit > 0 && unit % restartInterval === 0) {
+            reader.restart();
+            scan.forEach((entry) => (entry.pred = 0));
+          }
+          const row = Math.floor(unit / unitsPerLine);
+          const col = unit % unitsPerLine;
+          if (single) {
+            decodeBlock(scan[0], row * first.blocksPerLine + col);
+            continue;
+          }
+          for (const entry of scan) {
+            const { h, v, blocksPerLine } = entry.component;
+            for (let y = 0; y < v; y++) {
+              for (let x = 0; x < h; x++) {
+                decodeBlock(entry, (row * v + y) * blocksPerLine + col * h + x);
+              }
+            }
+          }
+        }
+      } catch (error) {
+        // truncated or corrupt data: keep what was decoded so far
+        console.log("jpeg coefficient decoding stopped:", (error as Error).message);
+      }
+      offset = reader.end();
+    }
+  }
+
+  if (!frame) {
+    return null;
+  }
+  frame.components.forEach((component, i) => {
+    const table = quantTables[quantIds[i]];
+    if (table) {
+      component.quantTable.set(table);
+    }
+  });
+  return frame;
+}
@@ -0,0 +1,309 @@
+import { GrayImage, resizeGray } from "./pixels";
+
+/**
+ * ORB-style keypoints (Rublee et al. 2011) in plain TypeScript: FAST-9
+ * corners on an image pyramid, ranked by Harris response, oriented by the
+ * intensity centroid, described by 256-bit steered BRIEF. Runs in the browser
+ * as well as on the server; see lib/geometry.ts for the matcher on top.
+ */
+export interface Keypoint {
+  // position in level-0 (input image) pixels
+  x: number;
+  y: number;
+  // orientation in radians
+  angle: number;
+  // pyramid level and its scale relative to level 0
+  level: number;
+  scale: number;
+  response: number;
+  // 256 bits as 8 words
+  descriptor: Uint32Array;
+}
+
+export interface KeypointMatch {
+  // index into the first and second keypoint lists
+  a: number;
+  b: number;
+  distance: number;
+}
+
+const FAST_THRESHOLD = 20;
+const FAST_ARC = 9;
+const PYRAMID_LEVELS = 5;
+const PYRAMID_SCALE = 1.4;
+const PATCH_RADIUS = 15;
+// steered pairs reach PATCH_RADIUS * sqrt(2) from the keypoint
+const BORDER = 22;
+const HARRIS_K = 0.04;
+const DESCRIPTOR_WORDS = 8;
+
+// Bresenham circle of radius 3, clockwise from 12 o'clock
+const CIRCLE = [
+  [0, -3], [1, -3], [2, -2], [3, -1], [3, 0], [3, 1], [2, 2], [1, 3],
+  [0, 3], [-1, 3], [-2, 2], [-3, 1], [-3, 0], [-3, -1], [-2, -2], [-1, -3],
+];
+
+// fixed pseudo-random sampling pattern, so descriptors computed anywhere are
+// comparable; pairs are gaussian around the centre as in BRIEF's G II
+const PATTERN = (() => {
+  let seed = 0x5eed1234;
+  const random = () => {
+    // mulberry32
+    seed = (seed + 0x6d2b79f5) | 0;
+    let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+  const gaussian = () => {
+    const value =
+      Math.sqrt(-2 * Math.log(1 - random())) * Math.cos(2 * Math.PI * random());
+    return Math.max(-PATCH_RADIUS, Math.min(PATCH_RADIUS, Math.round((value * PATCH_RADIUS) / 2.5)));
+  };
+  return Array.from({ length: DESCRIPTOR_WORDS * 32 }, () => [
+    gaussian(), gaussian(), gaussian(), gaussian(),
+  ]);
+})();
+
+function boxBlur(image: GrayImage, radius: number): GrayImage {
+  const { width, height, data } = image;
+  const horizontal = new Float64Array(width * height);
+  const out = new Float64Array(width * height);
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      let sum = 0;
+      let count = 0;
+      for (let k = Math.max(0, x - radius); k <= Math.min(width - 1, x + radius); k++) {
+        sum += data[y * width + k];
+        count++;
+      }
+      horizontal[y * width + x] = sum / count;
+    }
+  }
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      let sum = 0;
+      let count = 0;
+      for (let k = Math.max(0, y - radius); k <= Math.min(height - 1, y + radius); k++) {
+        sum += horizontal[k * width + x];
+        count++;
+      }
+      out[y * width + x] = sum / count;
+    }
+  }
+  return { width, height, data: out };
+}
+
+function isFastCorner(image: GrayImage, x: number, y: number): boolean {
+  const { width, data } = image;
+  const centre = data[y * width + x];
+  const bright = centre + FAST_THRESHOLD;
+  const dark = centre - FAST_THRESHOLD;
+
+  // quick rejection on the four compass points: a 9-arc covers at least two
+  let brighter = 0;
+  let darker = 0;
+  for (const i of [0, 4, 8, 12]) {
+    const value = data[(y + CIRCLE[i][1]) * width + x + CIRCLE[i][0]];
+    if (value > bright) brighter++;
+    else if (value < dark) darker++;
+  }
+  if (brighter < 2 && darker < 2) {
+    return false;
+  }
+
+  // longest contiguous run on the circle, wrapping around
+  let runBright = 0;
+  let runDark = 0;
+  for (let i = 0; i < CIRCLE.length + FAST_ARC - 1; i++) {
+    const [dx, dy] = CIRCLE[i % CIRCLE.length];
+    const value = data[(y + dy) * width + x + dx];
+    runBright = value > bright ? runBright + 1 : 0;
+    runDark = value < dark ? runDark + 1 : 0;
+    if (runBright >= FAST_ARC || runDark >= FAST_ARC) {
+      return true;
+    }
+  }
+  return false;
+}
+
+function harrisResponse(image: GrayImage, x: number, y: number): number {
+  const { width, data } = image;
+  let xx = 0;
+  let yy = 0;
+  let xy = 0;
+  for (let v = y - 3; v <= y + 3; v++) {
+    for (let u = x - 3; u <= x + 3; u++) {
+      const gx =
+        data[(v - 1) * width + u + 1] + 2 * data[v * width + u + 1] + data[(v + 1) * width + u + 1] -
+        data[(v - 1) * width + u - 1] - 2 * data[v * width + u - 1] - data[(v + 1) * width + u - 1];
+      const gy =
+        data[(v + 1) * width + u - 1] + 2 * data[(v + 1) * width + u] + data[(v + 1) * width + u + 1] -
+        data[(v - 1) * width + u - 1] - 2 * data[(v - 1) * width + u] - data[(v - 1) * width + u + 1];
+      xx += gx * gx;
+      yy += gy * gy;
+      xy += gx * gy;
+    }
+  }
+  return xx * yy - xy * xy - HARRIS_K * (xx + yy) ** 2;
+}
+
+function orientation(image: GrayImage, x: number, y: number): number {
+  const { width, data } = image;
+  let m01 = 0;
+  let m10 = 0;
+  for (let v = -PATCH_RADIUS; v <= PATCH_RADIUS; v++) {
+    const span = Math.floor(Math.sqrt(PATCH_RADIUS * PATCH_RADIUS - v * v));
+    for (let u = -span; u <= span; u++) {
+      const value = data[(y + v) * width + x + u];
+      m10 += u * value;
+      m01 += v * value;
+    }
+  }
+  return Math.atan2(m01, m10);
+}
+
+function describe(smoothed: GrayImage, x: number, y: number, angle: number): Uint32Array {
+  const { width, data } = smoothed;
+  const cos = Math.cos(angle);
+  const sin = Math.sin(angle);
+  const sample = (u: number, v: number) =>
+    data[
+      (y + Math.round(u * sin + v * cos)) * width +
+        x + Math.round(u * cos - v * sin)
+    ];
+
+  const descriptor = new Uint32Array(DESCRIPTOR_WORDS);
+  PATTERN.forEach(([u1, v1, u2, v2], bit) => {
+    if (sample(u1, v1) < sample(u2, v2)) {
+      descriptor[bit >> 5] |= 1 << (bit & 31);
+    }
+  });
+  return descriptor;
+}
+
+/**
+ * Detects up to `maxKeypoints` keypoints, spread over the pyramid levels in
+ * proportion to their area.
+ */
+export function detectKeypoints(image: GrayImage, maxKeypoints = 500): Keypoint[] {
+  const keypoints: Keypoint[] = [];
+  const levelWeights = Array.from({ length: PYRAMID_LEVELS }, (_, level) => PYRAMID_SCALE ** (-2 * level));
+  const weightTotal = levelWeights.reduce((sum, w) => sum + w, 0);
+
+  for (let level = 0; level < PYRAMID_LEVELS; level++) {
+    const scale = PYRAMID_SCALE ** level;
+    const width = Math.round(image.width / scale);
+    const height = Math.round(image.height / scale);
+    if (width <= 2 * BORDER || height <= 2 * BORDER) {
+      break;
+    }
+
+    const levelImage = level === 0 ? image : resizeGray(image, width, height);
+    const smoothed = boxBlur(levelImage, 2);
+
+    const responses = new Float64Array(width * height);
+    for (let y = BORDER; y < height - BORDER; y++) {
+      for (let x = BORDER; x < width - BORDER; x++) {
+        if (isFastCorner(levelImage, x, y)) {
+          responses[y * width + x] = Math.max(1e-9, harrisResponse(levelImage, x, y));
+        }
+      }
+    }
+
+    // 3x3 non-maximum suppression
+    const candidates: { x: number; y: number; response: number }[] = [];
+    for (let y = BORDER; y < height - BORDER; y++) {
+      for (let x = BORDER; x < width - BORDER; x++) {
+        const response = responses[y * width + x];
+        if (response <= 0) {
+          continue;
+        }
+        let isMax = true;
+        for (let v = -1; v <= 1 && isMax; v++) {
+          for (let u = -1; u <= 1; u++) {
+            if ((u || v) && responses[(y + v) * width + x + u] > response) {
+              isMax = false;
+              break;
+            }
+          }
+        }
+        if (isMax) {
+          candidates.push({ x, y, response });
+        }
+      }
+    }
+
+    const quota = Math.ceil((maxKeypoints * levelWeights[level]) / weightTotal);
+    candidates
+      .sort((a, b) => b.response - a.response)
+      .slice(0, quota)
+      .forEach(({ x, y, response }) => {
+        const angle = orientation(levelImage, x, y);
+        keypoints.push({
+          x: x * scale,
+          y: y * scale,
+          angle,
+          level,
+          scale,
+          response,
+          descriptor: describe(smoothed, x, y, angle),
+        });
+      });
+  }
+
+  return keypoints;
+}
+
+export function descriptorDistance(a: Uint32Array, b: Uint32Array): number {
+  let distance = 0;
+  for (let i = 0; i < a.length; i++) {
+    let v = a[i] ^ b[i];
+    // popcount
+    v = v - ((v >>> 1) & 0x55555555);
+    v = (v & 0x33333333) + ((v >>> 2) & 0x33333333);
+    distance += (((v + (v >>> 4)) & 0x0f0f0f0f) * 0x01010101) >>> 24;
+  }
+  return distance;
+}
+
+/**
+ * Brute-force matching with Lowe's ratio test and a mutual nearest-neighbour
+ * check, which between them drop most ambiguous matches before RANSAC.
+ */
+export function matchKeypoints(
+  a: Keypoint[],
+  b: Keypoint[],
+  maxDistance = 64,
+  ratio = 0.8
+): KeypointMatch[] {
+  const bestForB = new Int32Array(b.length).fill(-1);
+  const bestDistanceForB = new Int32Array(b.length).fill(1 << 30);
+
+  const candidates: KeypointMatch[] = [];
+  a.forEach((keypoint, i) => {
+    let best = -1;
+    let bestDistance = 1 << 30;
+    let secondDistance = 1 << 30;
+    b.forEach((other, j) => {
+      const distance = descriptorDistance(keypoint.descriptor, other.descriptor);
+      if (distance < bestDistance) {
+        secondDistance = bestDistance;
+        bestDistance = distance;
+        best = j;
+      } else if (distance < secondDistance) {
+        secondDistance = distance;
+      }
+      if (distance < bestDistanceForB[j]) {
+        bestDistanceForB[j] = distance;
+        bestForB[j] = i;
+      }
+    });
+
+    if (best >= 0 && bestDistance <= maxDistance && bestDistance < ratio * secondDistance) {
+      candidates.push({ a: i, b: best, distance: bestDistance });
+    }
+  });
+
+  return candidates.filter((match) => bestForB[match.b] === match.a);
+}
@@ -0,0 +1,136 @@
+import { ethers } from "ethers";
+import {
+  getChildProofsOnChain,
+  getProofRecordOnChain,
+  OnChainProofRecord,
+} from "./blockchain";
+import { hashString } from "./crypto";
+import { EditParams, serializePromptCommitment } from "./generationParams";
+import { retrieveJsonFromIpfs } from "./retrieval";
+
+/**
+ * The derivation tree around a proof, read from the contract: parents are
+ * followed up to the original, then every registered edit below it is
+ * collected. Each node's metadata is checked against its on-chain record,
+ * so an edge only counts as signed when the creator's commitment names
+ * the same parent the chain does.
+ */
+export interface LineageNode {
+  combinedHash: string;
+  parentHash: string | null;
+  creator: string;
+  timestamp: number;
+  edit: EditParams | null;
+  // the metadata matches the chain and its signed commitment names the
+  // registered parent; null when the metadata could not be fetched
+  signed: boolean | null;
+  children: LineageNode[];
+}
+
+export interface DerivationTree {
+  root: LineageNode;
+  // combinedHashes from the root down to the requested proof
+  path: string[];
+  // the ancestry or the descendants were cut at the limits below
+  truncated: boolean;
+}
+
+export class LineageError extends Error {
+  status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = "LineageError";
+    this.status = status;
+  }
+}
+
+const MAX_ANCESTORS = 32;
+const MAX_NODES = 200;
+
+async function readNode(record: OnChainProofRecord): Promise<LineageNode> {
+  let edit: EditParams | null = null;
+  let signed: boolean | null = null;
+  if (record.metadataLink) {
+    try {
+      const { data: metadata } = await retrieveJsonFromIpfs(record.metadataLink);
+      edit = metadata.edit || null;
+      signed =
+        metadata.combinedHash === record.combinedHash &&
+        metadata.promptHash === record.promptHash &&
+        hashString(
+          serializePromptCommitment(
+            metadata.prompt,
+            metadata.generationParams || {},
+            edit
+          )
+        ) === record.promptHash &&
+        (edit?.parentHash || "") === record.parentHash;
+    } catch (error: any) {
+      console.error("failed to fetch lineage metadata:", error.message);
+    }
+  }
+
+  return {
+    combinedHash: record.combinedHash,
+    parentHash: record.parentHash || null,
+    creator: record.creator,
+    timestamp: record.timestamp,
+    edit,
+    signed,
+    children: [],
+  };
+}
+
+export async function getDerivationTree(
+  provider: ethers.Provider,
+  combinedHash: string
+): Promise<DerivationTree> {
+  const records = new Map<string, OnChainProofRecord>();
+  const readRecord = async (hash: string) => {
+    if (!records.has(hash)) {
+      records.set(hash, await getProofRecordOnChain(provider, hash));
+    }
+    return records.get(hash)!;
+  };
+
+  const proof = await readRecord(combinedHash);
+  if (!proof.exists) {
+    throw new LineageError("Proof not found on blockchain", 404);
+  }
+
+  const path = [combinedHash];
+  let truncated = false;
+  let top = proof;
+  while (top.parentHash) {
+    if (path.length > MAX_ANCESTORS) {
+      truncated = true;
+      break;
+    }
+    top = await readRecord(top.parentHash);
+    path.unshift(top.combinedHash);
+  }
+
+  // breadth-first, one level of the tree at a time
+  const root = await readNode(top);
+  let level = [root];
+  let count = 1;
+  while (level.length > 0) {
+    const next: LineageNode[] = [];
+    for (const node of level) {
+      const childHashes = await getChildProofsOnChain(provider, node.combinedHash);
+      const allowed = childHashes.slice(0, Math.max(0, MAX_NODES - count));
+      if (allowed.length < childHashes.length) {
+        truncated = true;
+      }
+      count += allowed.length;
+      node.children = await Promise.all(
+        allowed.map(async (hash) => readNode(await readRecord(hash)))
+      );
+      next.push(...node.children);
+    }
+    level = next;
+  }
+
+  return { root, path, truncated };
+}
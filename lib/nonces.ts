@@ -0,0 +1,53 @@
+import crypto from "crypto";
+
+const NONCE_TTL_MS = 10 * 60 * 1000;
+
+// Kept on globalThis because each API route is bundled separately and would
+// otherwise get its own copy of this map.
+const globalForNonces = globalThis as unknown as {
+  authenticaNonces?: Map<string, { address: string; expiresAt: number }>;
+};
+const issuedNonces = (globalForNonces.authenticaNonces ??= new Map());
+
+function pruneExpired(now: number) {
+  issuedNonces.forEach((entry, nonce) => {
+    if (entry.expiresAt <= now) {
+      issuedNonces.delete(nonce);
+    }
+  });
+}
+
+export function issueNonce(address: string): {
+  nonce: string;
+  expiresAt: number;
+} {
+  const now = Date.now();
+  pruneExpired(now);
+
+  const nonce = crypto.randomBytes(16).toString("hex");
+  const expiresAt = now + NONCE_TTL_MS;
+  issuedNonces.set(nonce, { address: address.toLowerCase(), expiresAt });
+
+  return { nonce, expiresAt };
+}
+
+/**
+ * Nonces are single-use: a successful consume removes it so the same
+ * signed request cannot be replayed against /api/generate.
+ */
+export function consumeNonce(address: string, nonce: string): boolean {
+  const entry = issuedNonces.get(nonce);
+  if (!entry) {
+    return false;
+  }
+
+  issuedNonces.delete(nonce);
+
+  return (
+    entry.address === address.toLowerCase() && entry.expiresAt > Date.now()
+  );
+}
+
+export function getNonceTtlMs(): number {
+  return NONCE_TTL_MS;
+}
@@ -0,0 +1,245 @@
+import fs from "fs";
+import path from "path";
+import { uploadMetadataToIpfs, uploadToIpfs } from "./ipfs";
+import { getDataDir, readJsonStore, updateJsonStore } from "./store";
+
+/**
+ * Durable upload outbox. A proof's content and metadata are uploaded
+ * together; if either upload fails, the bytes are kept on disk and retried
+ * in the background with exponential backoff, and the proof stays "pending"
+ * until both have real CIDs. Nothing is registered on chain before that.
+ */
+const OUTBOX_STORE = "upload-outbox";
+
+const RETRY_BASE_MS = 15 * 1000;
+const RETRY_MAX_MS = 30 * 60 * 1000;
+const WORKER_INTERVAL_MS = 10 * 1000;
+
+export type StorageStatus = "stored" | "pending";
+
+export interface StorageRecord {
+  combinedHash: string;
+  status: StorageStatus;
+  outputCid: string | null;
+  metadataCid: string | null;
+  filename: string;
+  contentType: string;
+  attempts: number;
+  nextAttemptAt: number | null;
+  lastError: string | null;
+  createdAt: number;
+  updatedAt: number;
+}
+
+type Outbox = Record<string, StorageRecord>;
+
+// Kept on globalThis because each API route is bundled separately and would
+// otherwise start its own worker.
+const globalForOutbox = globalThis as unknown as {
+  authenticaOutboxWorker?: ReturnType<typeof setInterval>;
+  authenticaOutboxRunning?: boolean;
+  // combined hashes with an upload attempt in progress
+  authenticaOutboxInFlight?: Set<string>;
+};
+
+function inFlight(): Set<string> {
+  if (!globalForOutbox.authenticaOutboxInFlight) {
+    globalForOutbox.authenticaOutboxInFlight = new Set();
+  }
+  return globalForOutbox.authenticaOutboxInFlight;
+}
+
+function outboxDir(): string {
+  const dir = path.join(getDataDir(), "outbox");
+  if (!fs.existsSync(dir)) {
+    fs.mkdirSync(dir, { recursive: true });
+  }
+  return dir;
+}
+
+function contentPath(combinedHash: string): string {
+  return path.join(outboxDir(), `${combinedHash}.content`);
+}
+
+function metadataPath(combinedHash: string): string {
+  return path.join(outboxDir(), `${combinedHash}.metadata.json`);
+}
+
+function retryDelay(attempts: number): number {
+  const delay = RETRY_BASE_MS * 2 ** Math.max(0, attempts - 1);
+  // jitter so a gateway outage does not end in a thundering herd
+  return Math.min(delay, RETRY_MAX_MS) * (0.8 + Math.random() * 0.4);
+}
+
+function saveRecord(record: StorageRecord): StorageRecord {
+  updateJsonStore<Outbox>(OUTBOX_STORE, {}, (outbox) => ({
+    ...outbox,
+    [record.combinedHash]: record,
+  }));
+  return record;
+}
+
+export function getStorageRecord(combinedHash: string): StorageRecord | null {
+  const outbox = readJsonStore<Outbox>(OUTBOX_STORE, {});
+  return outbox[combinedHash] || null;
+}
+
+/**
+ * Runs one upload attempt for a record, unless one is already running in
+ * this process, in which case the record is returned as it is. The lock is
+ * in memory rather than in the record so that an attempt cut short by a
+ * restart leaves the record due for the worker.
+ */
+async function attemptUpload(record: StorageRecord): Promise<StorageRecord> {
+  const uploads = inFlight();
+  if (uploads.has(record.combinedHash)) {
+    return record;
+  }
+
+  uploads.add(record.combinedHash);
+  try {
+    return await runUpload(record);
+  } finally {
+    uploads.delete(record.combinedHash);
+  }
+}
+
+// the content goes first because the metadata embeds its CID as ipfsLink
+async function runUpload(record: StorageRecord): Promise<StorageRecord> {
+  const next = { ...record, attempts: record.attempts + 1 };
+
+  try {
+    if (!next.outputCid) {
+      next.outputCid = await uploadToIpfs(
+        fs.readFileSync(contentPath(record.combinedHash)),
+        record.filename,
+        record.contentType
+      );
+    }
+
+    if (!next.metadataCid) {
+      const metadata = JSON.parse(
+        fs.readFileSync(metadataPath(record.combinedHash), "utf8")
+      );
+      next.metadataCid = await uploadMetadataToIpfs({
+        ...metadata,
+        ipfsLink: next.outputCid,
+      });
+    }
+
+    fs.rmSync(contentPath(record.combinedHash), { force: true });
+    fs.rmSync(metadataPath(record.combinedHash), { force: true });
+
+    return saveRecord({
+      ...next,
+      status: "stored",
+      nextAttemptAt: null,
+      lastError: null,
+      updatedAt: Date.now(),
+    });
+  } catch (error: any) {
+    console.error(
+      `upload attempt ${next.attempts} failed for ${record.combinedHash}:`,
+      error.message
+    );
+    return saveRecord({
+      ...next,
+      status: "pending",
+      nextAttemptAt: Date.now() + retryDelay(next.attempts),
+      lastError: error.message || "Unknown error",
+      updatedAt: Date.now(),
+    });
+  }
+}
+
+/**
+ * Stores a proof's encrypted content and its metadata. The metadata's
+ * ipfsLink is filled in with the content CID once that is known. Returns a
+ * pending record instead of throwing when storage is unavailable.
+ */
+export async function storeProofContent(params: {
+  combinedHash: string;
+  content: Buffer;
+  filename: string;
+  contentType: string;
+  metadata: object;
+}): Promise<StorageRecord> {
+  const { combinedHash, content, filename, contentType, metadata } = params;
+
+  const existing = getStorageRecord(combinedHash);
+  if (existing) {
+    return existing;
+  }
+
+  fs.writeFileSync(contentPath(combinedHash), content);
+  fs.writeFileSync(metadataPath(combinedHash), JSON.stringify(metadata));
+
+  const now = Date.now();
+  const record = saveRecord({
+    combinedHash,
+    status: "pending",
+    outputCid: null,
+    metadataCid: null,
+    filename,
+    contentType,
+    attempts: 0,
+    // due at once; the worker skips it while the first attempt is in flight
+    nextAttemptAt: now,
+    lastError: null,
+    createdAt: now,
+    updatedAt: now,
+  });
+
+  const result = await attemptUpload(record);
+  if (result.status === "pending") {
+    startOutboxWorker();
+  }
+  return result;
+}
+
+export async function processOutbox(): Promise<void> {
+  if (globalForOutbox.authenticaOutboxRunning) {
+    return;
+  }
+  globalForOutbox.authenticaOutboxRunning = true;
+
+  try {
+    const outbox = readJsonStore<Outbox>(OUTBOX_STORE, {});
+    const due = Object.values(outbox).filter(
+      (record) =>
+        record.status === "pending" &&
+        (record.nextAttemptAt ?? 0) <= Date.now()
+    );
+
+    // one at a time; uploads are large and the retry is not urgent
+    for (const { combinedHash } of due) {
+      // re-read: an attempt that finished during an earlier upload in this
+      // loop has already stored it
+      const record = getStorageRecord(combinedHash);
+      if (!record || record.status !== "pending") {
+        continue;
+      }
+      const result = await attemptUpload(record);
+      if (result.status === "stored") {
+        console.log("outbox upload completed:", record.combinedHash);
+      }
+    }
+  } finally {
+    globalForOutbox.authenticaOutboxRunning = false;
+  }
+}
+
+export function startOutboxWorker(): void {
+  if (globalForOutbox.authenticaOutboxWorker) {
+    return;
+  }
+
+  const worker = setInterval(() => {
+    processOutbox().catch((error) => {
+      console.error("outbox worker error:", error);
+    });
+  }, WORKER_INTERVAL_MS);
+  // do not keep a script or test process alive just for retries
+  worker.unref?.();
+  globalForOutbox.authenticaOutboxWorker = worker;
+}
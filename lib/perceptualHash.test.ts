@@ -0,0 +1,69 @@
+import jpeg from "jpeg-js";
+import { describe, expect, it } from "vitest";
+import { encodePng } from "./image";
+import {
+  compareHashes,
+  hammingDistance,
+  hashImageBuffer,
+  hashSimilarity,
+  isPerceptualHash,
+} from "./perceptualHash";
+import { DecodedImage, resizeImage } from "./pixels";
+
+function scene(width: number, height: number, variant: number): DecodedImage {
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const u = x / width;
+      const v = y / height;
+      const i = (y * width + x) * 4;
+      const wave =
+        variant === 0
+          ? Math.sin(u * 7) * Math.cos(v * 5) + (Math.hypot(u - 0.3, v - 0.6) < 0.2 ? 1 : 0)
+          : Math.cos(u * 3 + v * 11) - (Math.hypot(u - 0.7, v - 0.3) < 0.25 ? 1 : 0);
+      data[i] = 120 + 90 * wave;
+      data[i + 1] = 100 + 60 * wave * v;
+      data[i + 2] = 140 - 70 * wave * u;
+      data[i + 3] = 255;
+    }
+  }
+  return { width, height, data };
+}
+
+function encodeJpeg(image: DecodedImage, quality: number): Buffer {
+  return jpeg.encode({ width: image.width, height: image.height, data: Buffer.from(image.data) }, quality).data;
+}
+
+describe("hammingDistance", () => {
+  it("counts differing bits", () => {
+    expect(hammingDistance("0000000000000000", "000000000000000f")).toBe(4);
+    expect(hashSimilarity("ffffffffffffffff", "0000000000000000")).toBe(0);
+  });
+
+  it("rejects malformed hashes", () => {
+    expect(isPerceptualHash("abc")).toBe(false);
+    expect(() => hammingDistance("abc", "0000000000000000")).toThrow();
+  });
+});
+
+describe("perceptual hashes", () => {
+  const image = scene(320, 240, 0);
+  const hashes = hashImageBuffer(encodePng(image));
+
+  it("stay close through resizing and JPEG re-encoding", () => {
+    for (const copy of [
+      encodePng(resizeImage(image, 160, 120)),
+      encodeJpeg(image, 40),
+      encodeJpeg(resizeImage(image, 200, 150), 70),
+    ]) {
+      const { similarity, distances } = compareHashes(hashes, hashImageBuffer(copy));
+      expect(similarity).toBeGreaterThan(0.9);
+      expect(distances.pHash).toBeLessThanOrEqual(6);
+    }
+  });
+
+  it("keep a different image far apart", () => {
+    const { similarity } = compareHashes(hashes, hashImageBuffer(encodePng(scene(320, 240, 1))));
+    expect(similarity).toBeLessThan(0.75);
+  });
+});
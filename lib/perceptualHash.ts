@@ -0,0 +1,164 @@
+import { decodeImage } from "./image";
+import { GrayImage, resizeGray, toGrayscale } from "./pixels";
+
+/**
+ * 64-bit perceptual hashes, as 16 hex characters. Two images that look alike
+ * have hashes a few bits apart, so similarity is 1 - hammingDistance / 64:
+ *
+ * - aHash: 8x8 thumbnail, bit set where a pixel is brighter than the mean
+ * - dHash: 9x8 thumbnail, bit set where a pixel is brighter than its right
+ *   neighbour (horizontal gradient)
+ * - pHash: 32x32 thumbnail, DCT, bit set where one of the 8x8 lowest
+ *   frequencies is above their median; survives re-encoding, resizing and
+ *   mild colour changes best
+ */
+export interface PerceptualHashes {
+  aHash: string;
+  dHash: string;
+  pHash: string;
+}
+
+export const HASH_BITS = 64;
+
+function bitsToHex(bits: boolean[]): string {
+  let hex = "";
+  for (let i = 0; i < bits.length; i += 4) {
+    const nibble =
+      (bits[i] ? 8 : 0) |
+      (bits[i + 1] ? 4 : 0) |
+      (bits[i + 2] ? 2 : 0) |
+      (bits[i + 3] ? 1 : 0);
+    hex += nibble.toString(16);
+  }
+  return hex;
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+export function averageHash(gray: GrayImage): string {
+  const { data } = resizeGray(gray, 8, 8);
+  const mean = data.reduce((sum, v) => sum + v, 0) / data.length;
+  return bitsToHex(Array.from(data, (v) => v > mean));
+}
+
+export function differenceHash(gray: GrayImage): string {
+  const { data } = resizeGray(gray, 9, 8);
+  const bits: boolean[] = [];
+  for (let y = 0; y < 8; y++) {
+    for (let x = 0; x < 8; x++) {
+      bits.push(data[y * 9 + x] > data[y * 9 + x + 1]);
+    }
+  }
+  return bitsToHex(bits);
+}
+
+// DCT-II basis for a 32-point transform, computed once
+const DCT_SIZE = 32;
+const DCT_COS = Array.from({ length: DCT_SIZE }, (_, u) =>
+  Array.from({ length: DCT_SIZE }, (_, x) =>
+    Math.cos(((2 * x + 1) * u * Math.PI) / (2 * DCT_SIZE))
+  )
+);
+
+function dct2d(input: Float64Array, size: number, keep: number): number[][] {
+  // rows first, then columns, keeping only the low frequencies we need
+  const rows: number[][] = [];
+  for (let y = 0; y < size; y++) {
+    const row: number[] = [];
+    for (let u = 0; u < keep; u++) {
+      let sum = 0;
+      for (let x = 0; x < size; x++) {
+        sum += input[y * size + x] * DCT_COS[u][x];
+      }
+      row.push(sum);
+    }
+    rows.push(row);
+  }
+
+  const out: number[][] = [];
+  for (let v = 0; v < keep; v++) {
+    const coeffs: number[] = [];
+    for (let u = 0; u < keep; u++) {
+      let sum = 0;
+      for (let y = 0; y < size; y++) {
+        sum += rows[y][u] * DCT_COS[v][y];
+      }
+      coeffs.push(sum);
+    }
+    out.push(coeffs);
+  }
+  return out;
+}
+
+export function dctHash(gray: GrayImage): string {
+  const { data } = resizeGray(gray, DCT_SIZE, DCT_SIZE);
+  const coeffs = dct2d(data, DCT_SIZE, 8).flat();
+  // the DC term is overall brightness and would dominate the median
+  const threshold = median(coeffs.slice(1));
+  return bitsToHex(coeffs.map((c) => c > threshold));
+}
+
+export function computePerceptualHashes(gray: GrayImage): PerceptualHashes {
+  return {
+    aHash: averageHash(gray),
+    dHash: differenceHash(gray),
+    pHash: dctHash(gray),
+  };
+}
+
+export function hashImageBuffer(buffer: Buffer): PerceptualHashes {
+  return computePerceptualHashes(toGrayscale(decodeImage(buffer)));
+}
+
+export function isPerceptualHash(value: string): boolean {
+  return /^[0-9a-f]{16}$/i.test(value);
+}
+
+export function hammingDistance(a: string, b: string): number {
+  if (!isPerceptualHash(a) || !isPerceptualHash(b)) {
+    throw new Error("perceptual hashes must be 16 hex characters");
+  }
+
+  let distance = 0;
+  for (let i = 0; i < a.length; i++) {
+    let diff = parseInt(a[i], 16) ^ parseInt(b[i], 16);
+    while (diff) {
+      distance += diff & 1;
+      diff >>= 1;
+    }
+  }
+  return distance;
+}
+
+export function hashSimilarity(a: string, b: string): number {
+  return 1 - hammingDistance(a, b) / HASH_BITS;
+}
+
+/**
+ * Combined similarity of two hash sets, weighted towards pHash which has the
+ * fewest false matches.
+ */
+export function compareHashes(
+  a: PerceptualHashes,
+  b: PerceptualHashes
+): {
+  similarity: number;
+  distances: { aHash: number; dHash: number; pHash: number };
+} {
+  const distances = {
+    aHash: hammingDistance(a.aHash, b.aHash),
+    dHash: hammingDistance(a.dHash, b.dHash),
+    pHash: hammingDistance(a.pHash, b.pHash),
+  };
+
+  const similarity =
+    (1 - distances.pHash / HASH_BITS) * 0.5 +
+    (1 - distances.dHash / HASH_BITS) * 0.3 +
+    (1 - distances.aHash / HASH_BITS) * 0.2;
+
+  return { similarity, distances };
+}
@@ -0,0 +1,175 @@
+/**
+ * Pure pixel helpers with no Node dependencies, so the server (lib/image.ts
+ * decodes PNG/JPEG) and the browser (canvas) run the same algorithms.
+ */
+export interface DecodedImage {
+  width: number;
+  height: number;
+  // RGBA, 4 bytes per pixel, row-major
+  data: Uint8Array | Uint8ClampedArray;
+}
+
+export interface GrayImage {
+  width: number;
+  height: number;
+  // luma in 0..255, one value per pixel, row-major
+  data: Float64Array;
+}
+
+/**
+ * ITU-R BT.601 luma. Transparent pixels are composited onto white so that
+ * an image and its flattened copy hash the same.
+ */
+export function toGrayscale(image: DecodedImage): GrayImage {
+  const { width, height, data } = image;
+  const gray = new Float64Array(width * height);
+
+  for (let i = 0; i < width * height; i++) {
+    const alpha = data[i * 4 + 3] / 255;
+    const luma =
+      0.299 * data[i * 4] + 0.587 * data[i * 4 + 1] + 0.114 * data[i * 4 + 2];
+    gray[i] = luma * alpha + 255 * (1 - alpha);
+  }
+
+  return { width, height, data: gray };
+}
+
+export interface ChromaPlanes {
+  cb: GrayImage;
+  cr: GrayImage;
+}
+
+/**
+ * BT.601 chroma planes (Cb, Cr, centred on 0), composited onto white like
+ * toGrayscale. Together with the luma they catch recolouring that keeps the
+ * brightness.
+ */
+export function toChroma(image: DecodedImage): ChromaPlanes {
+  const { width, height, data } = image;
+  const cb = new Float64Array(width * height);
+  const cr = new Float64Array(width * height);
+
+  for (let i = 0; i < width * height; i++) {
+    const alpha = data[i * 4 + 3] / 255;
+    const r = data[i * 4] * alpha + 255 * (1 - alpha);
+    const g = data[i * 4 + 1] * alpha + 255 * (1 - alpha);
+    const b = data[i * 4 + 2] * alpha + 255 * (1 - alpha);
+    cb[i] = -0.168736 * r - 0.331264 * g + 0.5 * b;
+    cr[i] = 0.5 * r - 0.418688 * g - 0.081312 * b;
+  }
+
+  return {
+    cb: { width, height, data: cb },
+    cr: { width, height, data: cr },
+  };
+}
+
+/**
+ * Distance between the mean colour of two same-sized chroma planes over a
+ * rectangle, clipped to the planes. Comparing means rather than pixels
+ * tolerates resampling and JPEG, which move sharp colour edges by a pixel.
+ */
+export function meanChromaShift(
+  a: ChromaPlanes,
+  b: ChromaPlanes,
+  x0: number,
+  y0: number,
+  x1: number,
+  y1: number
+): number {
+  const { width, height } = a.cb;
+  const left = Math.max(0, x0);
+  const top = Math.max(0, y0);
+  const right = Math.min(width, x1);
+  const bottom = Math.min(height, y1);
+
+  let cb = 0;
+  let cr = 0;
+  for (let y = top; y < bottom; y++) {
+    for (let x = left; x < right; x++) {
+      const i = y * width + x;
+      cb += b.cb.data[i] - a.cb.data[i];
+      cr += b.cr.data[i] - a.cr.data[i];
+    }
+  }
+  const pixels = (right - left) * (bottom - top);
+  return pixels > 0 ? Math.hypot(cb, cr) / pixels : 0;
+}
+
+/**
+ * Box-filter resize: each target pixel is the mean of the source pixels it
+ * covers, which avoids the aliasing a nearest-neighbour shrink would add.
+ */
+export function resizeGray(
+  image: GrayImage,
+  targetWidth: number,
+  targetHeight: number
+): GrayImage {
+  const { width, height, data } = image;
+  const out = new Float64Array(targetWidth * targetHeight);
+  const scaleX = width / targetWidth;
+  const scaleY = height / targetHeight;
+
+  for (let ty = 0; ty < targetHeight; ty++) {
+    const y0 = Math.floor(ty * scaleY);
+    const y1 = Math.max(y0 + 1, Math.min(height, Math.ceil((ty + 1) * scaleY)));
+
+    for (let tx = 0; tx < targetWidth; tx++) {
+      const x0 = Math.floor(tx * scaleX);
+      const x1 = Math.max(
+        x0 + 1,
+        Math.min(width, Math.ceil((tx + 1) * scaleX))
+      );
+
+      let sum = 0;
+      for (let y = y0; y < y1; y++) {
+        for (let x = x0; x < x1; x++) {
+          sum += data[y * width + x];
+        }
+      }
+      out[ty * targetWidth + tx] = sum / ((y1 - y0) * (x1 - x0));
+    }
+  }
+
+  return { width: targetWidth, height: targetHeight, data: out };
+}
+
+/** resizeGray for RGBA images, channel by channel. */
+export function resizeImage(
+  image: DecodedImage,
+  targetWidth: number,
+  targetHeight: number
+): DecodedImage {
+  const { width, height, data } = image;
+  const out = new Uint8ClampedArray(targetWidth * targetHeight * 4);
+  const scaleX = width / targetWidth;
+  const scaleY = height / targetHeight;
+
+  for (let ty = 0; ty < targetHeight; ty++) {
+    const y0 = Math.floor(ty * scaleY);
+    const y1 = Math.max(y0 + 1, Math.min(height, Math.ceil((ty + 1) * scaleY)));
+
+    for (let tx = 0; tx < targetWidth; tx++) {
+      const x0 = Math.floor(tx * scaleX);
+      const x1 = Math.max(
+        x0 + 1,
+        Math.min(width, Math.ceil((tx + 1) * scaleX))
+      );
+
+      const sums = [0, 0, 0, 0];
+      for (let y = y0; y < y1; y++) {
+        for (let x = x0; x < x1; x++) {
+          for (let c = 0; c < 4; c++) {
+            sums[c] += data[(y * width + x) * 4 + c];
+          }
+        }
+      }
+      const count = (y1 - y0) * (x1 - x0);
+      for (let c = 0; c < 4; c++) {
+        out[(ty * targetWidth + tx) * 4 + c] = sums[c] / count;
+      }
+    }
+  }
+
+  return { width: targetWidth, height: targetHeight, data: out };
+}
@@ -0,0 +1,263 @@
+import crypto from "crypto";
+import { encodePng } from "./image";
+import { DecodedImage } from "./pixels";
+
+/**
+ * Offline image generator for development and CI. The prompt hash picks the
+ * palette and how busy the picture is; the seed places the gradient, the
+ * noise and the shapes. Only arithmetic and square roots are used, which
+ * IEEE 754 specifies exactly (no trigonometry), so the same prompt, seed and
+ * size give the same PNG bytes on every machine.
+ */
+export const PROCEDURAL_MODEL = "procedural-v1";
+
+type Rgb = [number, number, number];
+
+// hue offsets of the palette's four colours: analogous, complementary, triadic
+const SCHEMES = [
+  [0, 30, 60, -30],
+  [0, 180, 30, 210],
+  [0, 120, 240, 60],
+];
+const LIGHTNESS = [0.25, 0.5, 0.65, 0.8];
+const NOISE_AMPLITUDE = 0.12;
+const MIN_SHAPES = 3;
+const MAX_EXTRA_SHAPES = 10;
+
+function seededRandom(seed: number): () => number {
+  return () => {
+    // mulberry32
+    seed = (seed + 0x6d2b79f5) | 0;
+    let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function hslToRgb(hue: number, saturation: number, lightness: number): Rgb {
+  const h = (((hue % 360) + 360) % 360) / 60;
+  const chroma = (1 - Math.abs(2 * lightness - 1)) * saturation;
+  const x = chroma * (1 - Math.abs((h % 2) - 1));
+  const m = lightness - chroma / 2;
+  const [r, g, b] =
+    h < 1
+      ? [chroma, x, 0]
+      : h < 2
+      ? [x, chroma, 0]
+      : h < 3
+      ? [0, chroma, x]
+      : h < 4
+      ? [0, x, chroma]
+      : h < 5
+      ? [x, 0, chroma]
+      : [chroma, 0, x];
+  return [
+    Math.round((r + m) * 255),
+    Math.round((g + m) * 255),
+    Math.round((b + m) * 255),
+  ];
+}
+
+function smoothstep(t: number): number {
+  return t * t * (3 - 2 * t);
+}
+
+// one octave of value noise, 0..1, on a cells x cells lattice
+function valueNoise(
+  random: () => number,
+  cells: number
+): (u: number, v: number) => number {
+  const size = cells + 1;
+  const lattice = Array.from({ length: size * size }, () => random());
+  return (u, v) => {
+    const x = u * cells;
+    const y = v * cells;
+    const x0 = Math.min(Math.floor(x), cells - 1);
+    const y0 = Math.min(Math.floor(y), cells - 1);
+    const fx = smoothstep(x - x0);
+    const fy = smoothstep(y - y0);
+    const top =
+      lattice[y0 * size + x0] * (1 - fx) + lattice[y0 * size + x0 + 1] * fx;
+    const bottom =
+      lattice[(y0 + 1) * size + x0] * (1 - fx) +
+      lattice[(y0 + 1) * size + x0 + 1] * fx;
+    return top * (1 - fy) + bottom * fy;
+  };
+}
+
+function blend(
+  data: Uint8ClampedArray,
+  index: number,
+  color: Rgb,
+  alpha: number
+): void {
+  for (let c = 0; c < 3; c++) {
+    data[index + c] = Math.round(data[index + c] * (1 - alpha) + color[c] * alpha);
+  }
+}
+
+export function renderProceduralImage(
+  prompt: string,
+  seed: number,
+  width: number,
+  height: number
+): DecodedImage {
+  const digest = crypto.createHash("sha256").update(prompt).digest();
+  const random = seededRandom((digest.readUInt32LE(4) ^ seed) >>> 0);
+
+  const baseHue = (digest.readUInt16BE(0) / 65536) * 360;
+  const scheme = SCHEMES[digest[2] % SCHEMES.length];
+  const saturation = 0.45 + (digest[3] / 255) * 0.4;
+  const palette = scheme.map((offset, i) =>
+    hslToRgb(baseHue + offset, saturation, LIGHTNESS[i])
+  );
+
+  const data = new Uint8ClampedArray(width * height * 4);
+
+  // background: a two-colour gradient in a random direction, shaded by two
+  // octaves of value noise
+  let dx = random() * 2 - 1;
+  let dy = random() * 2 - 1;
+  const length = Math.sqrt(dx * dx + dy * dy) || 1;
+  dx /= length;
+  dy /= length;
+  const coarse = valueNoise(random, 3 + Math.floor(random() * 4));
+  const fine = valueNoise(random, 12 + Math.floor(random() * 12));
+  const [from, to] = [palette[0], palette[1]];
+
+  for (let y = 0; y < height; y++) {
+    const v = height > 1 ? y / (height - 1) : 0;
+    for (let x = 0; x < width; x++) {
+      const u = width > 1 ? x / (width - 1) : 0;
+      const t = Math.max(0, Math.min(1, (u - 0.5) * dx + (v - 0.5) * dy + 0.5));
+      const shade =
+        1 +
+        (coarse(u, v) - 0.5) * NOISE_AMPLITUDE * 2 +
+        (fine(u, v) - 0.5) * NOISE_AMPLITUDE;
+      const index = (y * width + x) * 4;
+      for (let c = 0; c < 3; c++) {
+        data[index + c] = Math.round((from[c] * (1 - t) + to[c] * t) * shade);
+      }
+      data[index + 3] = 255;
+    }
+  }
+
+  const shapes = MIN_SHAPES + (digest[5] % (MAX_EXTRA_SHAPES + 1));
+  const minSide = Math.min(width, height);
+
+  for (let s = 0; s < shapes; s++) {
+    const kind = Math.floor(random() * 3);
+    const color = palette[Math.floor(random() * palette.length)];
+    const alpha = 0.35 + random() * 0.5;
+    const cx = random() * width;
+    const cy = random() * height;
+    const size = minSide * (0.05 + random() * 0.25);
+
+    // triangle vertices lie within 1.5 sizes of the centre
+    const triangle = [0, 1, 2].map(() => [
+      cx + (random() * 2 - 1) * size * 1.5,
+      cy + (random() * 2 - 1) * size * 1.5,
+    ]);
+    const aspect = 0.5 + random();
+
+    const halfWidth = kind === 1 ? size * aspect : size * 1.5;
+    const halfHeight = kind === 1 ? size / aspect : size * 1.5;
+    const left = Math.max(0, Math.floor(cx - halfWidth));
+    const right = Math.min(width - 1, Math.ceil(cx + halfWidth));
+    const top = Math.max(0, Math.floor(cy - halfHeight));
+    const bottom = Math.min(height - 1, Math.ceil(cy + halfHeight));
+
+    for (let y = top; y <= bottom; y++) {
+      for (let x = left; x <= right; x++) {
+        const px = x + 0.5;
+        const py = y + 0.5;
+        let inside: boolean;
+        if (kind === 0) {
+          inside = (px - cx) * (px - cx) + (py - cy) * (py - cy) <= size * size;
+        } else if (kind === 1) {
+          inside = Math.abs(px - cx) <= halfWidth && Math.abs(py - cy) <= halfHeight;
+        } else {
+          inside = insideTriangle(px, py, triangle);
+        }
+        if (inside) {
+          blend(data, (y * width + x) * 4, color, alpha);
+        }
+      }
+    }
+  }
+
+  return { width, height, data };
+}
+
+function insideTriangle(px: number, py: number, points: number[][]): boolean {
+  const [[ax, ay], [bx, by], [cx, cy]] = points;
+  const d1 = (px - bx) * (ay - by) - (ax - bx) * (py - by);
+  const d2 = (px - cx) * (by - cy) - (bx - cx) * (py - cy);
+  const d3 = (px - ax) * (cy - ay) - (cx - ax) * (py - ay);
+  const negative = d1 < 0 || d2 < 0 || d3 < 0;
+  const positive = d1 > 0 || d2 > 0 || d3 > 0;
+  return !(negative && positive);
+}
+
+export function generateProceduralImage(
+  prompt: string,
+  seed: number,
+  width: number,
+  height: number
+): Buffer {
+  return encodePng(renderProceduralImage(prompt, seed, width, height));
+}
+
+/**
+ * The procedural counterpart of image-to-image, inpainting and upscaling,
+ * with the same exact arithmetic. Image-to-image blends the prompt's
+ * rendering over the source by `strength`; inpainting replaces the pixels
+ * under the white part of the mask; upscaling repeats each pixel.
+ */
+export function editProceduralImage(
+  prompt: string,
+  seed: number,
+  source: DecodedImage,
+  edit: {
+    mode: "img2img" | "inpaint" | "upscale";
+    strength: number;
+    scale: number;
+    mask?: DecodedImage;
+  }
+): Buffer {
+  const { width, height } = source;
+
+  if (edit.mode === "upscale") {
+    const scaledWidth = width * edit.scale;
+    const scaledHeight = height * edit.scale;
+    const scaled = new Uint8ClampedArray(scaledWidth * scaledHeight * 4);
+    for (let y = 0; y < scaledHeight; y++) {
+      for (let x = 0; x < scaledWidth; x++) {
+        const from =
+          (Math.floor(y / edit.scale) * width + Math.floor(x / edit.scale)) * 4;
+        scaled.set(source.data.subarray(from, from + 4), (y * scaledWidth + x) * 4);
+      }
+    }
+    return encodePng({ width: scaledWidth, height: scaledHeight, data: scaled });
+  }
+
+  const rendering = renderProceduralImage(prompt, seed, width, height);
+  const data = new Uint8ClampedArray(source.data);
+  for (let i = 0; i < width * height; i++) {
+    const index = i * 4;
+    if (edit.mask) {
+      const { data: mask } = edit.mask;
+      if (mask[index] + mask[index + 1] + mask[index + 2] < 3 * 128) {
+        continue;
+      }
+    }
+    blend(
+      data,
+      index,
+      [rendering.data[index], rendering.data[index + 1], rendering.data[index + 2]],
+      edit.strength
+    );
+    data[index + 3] = 255;
+  }
+  return encodePng({ width, height, data });
+}
@@ -0,0 +1,162 @@
+import { generateImage, TransparencyData } from "./ai";
+import { hashBuffer, hashString } from "./crypto";
+import {
+  candidateSeed,
+  GENERATION_PARAM_NAMES,
+  GenerationParamName,
+  GenerationParams,
+  serializePromptCommitment,
+} from "./generationParams";
+import { getImageProvider, isImageProviderName } from "./imageProviders";
+import { compareHashes, hashImageBuffer } from "./perceptualHash";
+
+/**
+ * Re-runs an image's recorded generation settings and compares the result
+ * with the registered output, as a check that the transparency record is
+ * honest. The encrypted output is never needed: the metadata holds the
+ * hash of the image before watermarking and its perceptual hashes.
+ */
+export type ReproductionVerdict = "identical" | "matching" | "different";
+
+export interface ReproductionReport {
+  verdict: ReproductionVerdict;
+  // the promptHash is the hash of the prompt and the committed parameters
+  commitmentValid: boolean;
+  // committed parameters the transparency record contradicts
+  parameterMismatches: GenerationParamName[];
+  // the settings the image was re-run with
+  params: GenerationParams;
+  outputHash: string;
+  similarity: number | null;
+  distances: { aHash: number; dHash: number; pHash: number } | null;
+  transparency: TransparencyData;
+  image: string;
+}
+
+export class ReproductionError extends Error {
+  status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = "ReproductionError";
+    this.status = status;
+  }
+}
+
+// GPU sampling is not bit-exact across hardware and driver versions, so a
+// faithful re-run is often only perceptually equal
+const MATCHING_SIMILARITY = 0.9;
+
+export async function reproduceImage(metadata: any): Promise<ReproductionReport> {
+  const transparency: TransparencyData | undefined = metadata?.transparency;
+  if (metadata?.type && metadata.type !== "image") {
+    throw new ReproductionError("Only images can be reproduced", 400);
+  }
+  if (!transparency?.provider || !transparency.model || !metadata.prompt) {
+    throw new ReproductionError(
+      "The proof has no transparency record to reproduce",
+      422
+    );
+  }
+  // the parent's output is encrypted for its recipients, so the server
+  // has nothing to re-run the edit on
+  if (metadata.edit) {
+    throw new ReproductionError(
+      "Edits of another proof cannot be reproduced without their parent image",
+      422
+    );
+  }
+  if (!isImageProviderName(transparency.provider)) {
+    throw new ReproductionError(
+      `Unknown image provider "${transparency.provider}"`,
+      422
+    );
+  }
+  if (transparency.seed === undefined || transparency.seed === null) {
+    throw new ReproductionError(
+      "The transparency record has no seed, so the image cannot be reproduced",
+      422
+    );
+  }
+
+  const provider = getImageProvider(transparency.provider);
+  if (!provider.isConfigured()) {
+    throw new ReproductionError(
+      `Image provider "${provider.name}" is not configured on this server`,
+      503
+    );
+  }
+
+  const committed: GenerationParams = metadata.generationParams || {};
+  const commitmentValid =
+    hashString(serializePromptCommitment(metadata.prompt, committed)) ===
+    metadata.promptHash;
+  // a chosen candidate ran with the committed seed offset by its index
+  const expected: GenerationParams =
+    committed.seed !== undefined && metadata.candidate?.index
+      ? {
+          ...committed,
+          seed: candidateSeed(committed.seed, Number(metadata.candidate.index)),
+        }
+      : committed;
+  const parameterMismatches = GENERATION_PARAM_NAMES.filter(
+    (name) =>
+      expected[name] !== undefined && expected[name] !== transparency[name]
+  );
+
+  // everything recorded that the model takes; a pinned Replicate version
+  // keeps the model id from moving to a newer release
+  const supported = provider.parameters(transparency.model);
+  const params: GenerationParams = {};
+  for (const name of GENERATION_PARAM_NAMES) {
+    if (transparency[name] !== undefined && supported.includes(name)) {
+      (params as Record<string, string | number>)[name] = transparency[name]!;
+    }
+  }
+  const model = transparency.modelVersion
+    ? `${transparency.model}:${transparency.modelVersion}`
+    : transparency.model;
+
+  console.log("reproducing image with", provider.name, model);
+  const result = await generateImage(metadata.prompt, {
+    provider: provider.name,
+    model,
+    params,
+  });
+
+  // the registered output carries the watermark; sourceOutputHash is the
+  // hash of the image as the provider returned it
+  const outputHash = hashBuffer(result.image);
+  const expectedHash = metadata.watermark?.sourceOutputHash || metadata.outputHash;
+
+  let comparison: ReturnType<typeof compareHashes> | null = null;
+  if (metadata.perceptualHash) {
+    try {
+      comparison = compareHashes(
+        metadata.perceptualHash,
+        hashImageBuffer(result.image)
+      );
+    } catch (error: any) {
+      console.error("failed to compare reproduced image:", error.message);
+    }
+  }
+
+  const verdict: ReproductionVerdict =
+    outputHash === expectedHash
+      ? "identical"
+      : comparison && comparison.similarity >= MATCHING_SIMILARITY
+      ? "matching"
+      : "different";
+
+  return {
+    verdict,
+    commitmentValid,
+    parameterMismatches,
+    params,
+    outputHash,
+    similarity: comparison?.similarity ?? null,
+    distances: comparison?.distances ?? null,
+    transparency: result.transparency,
+    image: result.image.toString("base64"),
+  };
+}
@@ -0,0 +1,303 @@
+import { isValidCid, verifyCid } from "./cid";
+import {
+  ContentNotFoundError,
+  getStorageBackend,
+  StoredContent,
+} from "./ipfs";
+
+export type RetrievalStatus =
+  | "ok"
+  | "not-found"
+  | "timeout"
+  | "error"
+  | "cid-mismatch"
+  | "cancelled";
+
+export interface RetrievalAttempt {
+  source: string;
+  status: RetrievalStatus;
+  durationMs: number;
+  error?: string;
+}
+
+export interface RetrievalReport {
+  cid: string;
+  available: boolean;
+  verified: boolean;
+  source?: string;
+  size?: number;
+  attempts: RetrievalAttempt[];
+}
+
+export interface RetrievalResult extends StoredContent {
+  report: RetrievalReport;
+}
+
+export class RetrievalError extends Error {
+  report: RetrievalReport;
+
+  constructor(report: RetrievalReport) {
+    const statuses = report.attempts.map((a) => `${a.source}: ${a.status}`);
+    super(`failed to retrieve ${report.cid} (${statuses.join(", ")})`);
+    this.name = "RetrievalError";
+    this.report = report;
+  }
+
+  get notFound(): boolean {
+    return this.report.attempts.every((a) => a.status === "not-found");
+  }
+}
+
+interface RetrievalSource {
+  name: string;
+  fetch(cid: string, signal: AbortSignal): Promise<StoredContent>;
+}
+
+const DEFAULT_GATEWAYS = [
+  "https://ipfs.io/ipfs/",
+  "https://dweb.link/ipfs/",
+  "https://w3s.link/ipfs/",
+  "https://gateway.pinata.cloud/ipfs/",
+];
+
+const DEFAULT_TIMEOUT_MS = 15000;
+// a request that has not answered by then gets company from the next source
+const DEFAULT_HEDGE_DELAY_MS = 2000;
+
+class SourceFailure extends Error {
+  constructor(public status: RetrievalStatus, message: string) {
+    super(message);
+  }
+}
+
+function abortable<T>(promise: Promise<T>, signal: AbortSignal): Promise<T> {
+  return new Promise((resolve, reject) => {
+    const onAbort = () => reject(signal.reason);
+    signal.addEventListener("abort", onAbort, { once: true });
+    promise.then(resolve, reject).finally(() => {
+      signal.removeEventListener("abort", onAbort);
+    });
+  });
+}
+
+function gatewaySource(gateway: string): RetrievalSource {
+  const base = gateway.endsWith("/") ? gateway : `${gateway}/`;
+  return {
+    name: new URL(base).host,
+    async fetch(cid, signal) {
+      const response = await fetch(`${base}${cid}`, { signal });
+      if (response.status === 404) {
+        throw new SourceFailure("not-found", "gateway returned 404");
+      }
+      if (!response.ok) {
+        throw new SourceFailure("error", `gateway returned ${response.status}`);
+      }
+      return {
+        content: Buffer.from(await response.arrayBuffer()),
+        contentType:
+          response.headers.get("content-type") || "application/octet-stream",
+      };
+    },
+  };
+}
+
+/**
+ * Sources in the order they are tried: the configured storage backend first,
+ * then IPFS_GATEWAYS (comma-separated), skipping any gateway the backend
+ * itself already reads from.
+ */
+function getRetrievalSources(): RetrievalSource[] {
+  const backend = getStorageBackend();
+  const backendGateway = backend.gatewayUrl("");
+
+  const gateways = (process.env.IPFS_GATEWAYS?.split(",") || DEFAULT_GATEWAYS)
+    .map((gateway) => gateway.trim())
+    .filter((gateway) => /^https?:\/\//.test(gateway))
+    .filter((gateway) => gateway !== backendGateway);
+
+  return [
+    {
+      name: `storage:${backend.name}`,
+      fetch: (cid, signal) => abortable(backend.get(cid), signal),
+    },
+    ...gateways.map(gatewaySource),
+  ];
+}
+
+function classifyFailure(error: any, signal: AbortSignal): RetrievalStatus {
+  if (error instanceof SourceFailure) {
+    return error.status;
+  }
+  if (error instanceof ContentNotFoundError) {
+    return "not-found";
+  }
+  if (signal.aborted) {
+    return signal.reason === "timeout" ? "timeout" : "cancelled";
+  }
+  return "error";
+}
+
+/**
+ * Fetches `cid` from the first source that returns bytes hashing to that
+ * CID. Sources are tried in order; a slow source is hedged after
+ * hedgeDelayMs by starting the next one alongside it, a failed one
+ * immediately. Content that does not match the CID is discarded, so a
+ * gateway cannot swap what a proof points at.
+ */
+export async function retrieveFromIpfs(
+  cid: string,
+  options: { timeoutMs?: number; hedgeDelayMs?: number } = {}
+): Promise<RetrievalResult> {
+  const normalized = cid.replace("ipfs://", "");
+  if (!isValidCid(normalized)) {
+    throw new RetrievalError({
+      cid: normalized,
+      available: false,
+      verified: false,
+      attempts: [
+        {
+          source: "none",
+          status: "error",
+          durationMs: 0,
+          error: "not a valid cid",
+        },
+      ],
+    });
+  }
+
+  const timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+  const hedgeDelayMs = options.hedgeDelayMs ?? DEFAULT_HEDGE_DELAY_MS;
+  const sources = getRetrievalSources();
+  const attempts: RetrievalAttempt[] = [];
+  const inFlight = new Map<
+    RetrievalAttempt,
+    { controller: AbortController; started: number }
+  >();
+
+  return new Promise((resolve, reject) => {
+    let nextSource = 0;
+    let settled = false;
+    let hedgeTimer: ReturnType<typeof setTimeout> | undefined;
+
+    const finish = (
+      result: StoredContent | null,
+      winner?: RetrievalAttempt
+    ) => {
+      settled = true;
+      clearTimeout(hedgeTimer);
+      inFlight.forEach(({ controller, started }, attempt) => {
+        attempt.durationMs = Date.now() - started;
+        controller.abort("cancelled");
+      });
+
+      const report: RetrievalReport = {
+        cid: normalized,
+        available: !!result,
+        verified: !!result,
+        source: winner?.source,
+        size: result?.content.length,
+        // copied so losing requests settling later cannot change the report
+        attempts: attempts.map((attempt) => ({ ...attempt })),
+      };
+
+      if (result) {
+        resolve({ ...result, report });
+      } else {
+        reject(new RetrievalError(report));
+      }
+    };
+
+    const launch = () => {
+      clearTimeout(hedgeTimer);
+      if (settled) {
+        return;
+      }
+      if (nextSource >= sources.length) {
+        if (inFlight.size === 0) {
+          finish(null);
+        }
+        return;
+      }
+
+      const source = sources[nextSource++];
+      const attempt: RetrievalAttempt = {
+        source: source.name,
+        status: "cancelled",
+        durationMs: 0,
+      };
+      attempts.push(attempt);
+
+      const controller = new AbortController();
+      const started = Date.now();
+      inFlight.set(attempt, { controller, started });
+      const timer = setTimeout(() => controller.abort("timeout"), timeoutMs);
+
+      source
+        .fetch(normalized, controller.signal)
+        .then(async (stored) => {
+          if (!(await verifyCid(normalized, stored.content))) {
+            throw new SourceFailure(
+              "cid-mismatch",
+              "content does not hash to the requested cid"
+            );
+          }
+          return stored;
+        })
+        .then(
+          (stored) => {
+            attempt.status = "ok";
+            return stored;
+          },
+          (error) => {
+            attempt.status = classifyFailure(error, controller.signal);
+            if (attempt.status !== "cancelled") {
+              attempt.error = error?.message || String(error);
+            }
+            if (attempt.status === "cid-mismatch") {
+              console.error(`${source.name} served wrong content for`, cid);
+            }
+            return null;
+          }
+        )
+        .then((stored) => {
+          clearTimeout(timer);
+          attempt.durationMs = Date.now() - started;
+          inFlight.delete(attempt);
+          if (settled) {
+            return;
+          }
+          if (stored) {
+            finish(stored, attempt);
+          } else {
+            launch();
+          }
+        });
+
+      hedgeTimer = setTimeout(launch, hedgeDelayMs);
+    };
+
+    launch();
+  });
+}
+
+export async function retrieveJsonFromIpfs<T = any>(
+  cid: string
+): Promise<{ data: T; report: RetrievalReport }> {
+  const { content, report } = await retrieveFromIpfs(cid);
+  return { data: JSON.parse(content.toString("utf8")) as T, report };
+}
+
+/**
+ * Retrieval outcome without throwing, for reporting storage health next to a
+ * verification result.
+ */
+export async function checkRetrieval(cid: string): Promise<RetrievalReport> {
+  try {
+    return (await retrieveFromIpfs(cid)).report;
+  } catch (error: any) {
+    if (error instanceof RetrievalError) {
+      return error.report;
+    }
+    throw error;
+  }
+}
@@ -0,0 +1,93 @@
+import { ethers } from "ethers";
+
+export const PROOF_CHAIN_ID = Number(
+  process.env.NEXT_PUBLIC_CHAIN_ID || 11155111
+);
+
+export const PROOF_REQUEST_TYPES = {
+  ProofRequest: [
+    { name: "promptHash", type: "string" },
+    { name: "timestamp", type: "uint256" },
+    { name: "nonce", type: "string" },
+  ],
+};
+
+export interface ProofRequest {
+  promptHash: string;
+  timestamp: number;
+  nonce: string;
+}
+
+// Signed once the output exists. The ProofRequest only authorizes a
+// generation and is published in the metadata, so it must not be enough to
+// register a proof; this covers everything the contract stores.
+export const PROOF_REGISTRATION_TYPES = {
+  ProofRegistration: [
+    { name: "combinedHash", type: "string" },
+    { name: "outputHash", type: "string" },
+    { name: "promptHash", type: "string" },
+    { name: "ipfsLink", type: "string" },
+    { name: "metadataLink", type: "string" },
+    { name: "parentHash", type: "string" },
+    { name: "timestamp", type: "uint256" },
+    { name: "nonce", type: "string" },
+  ],
+};
+
+export interface ProofRegistration {
+  combinedHash: string;
+  outputHash: string;
+  promptHash: string;
+  ipfsLink: string;
+  metadataLink: string;
+  // empty for an original
+  parentHash: string;
+  // of the ProofRequest the output was generated under
+  timestamp: number;
+  nonce: string;
+}
+
+// Must match _domainSeparator() in contracts/ProofOfArt.sol so the same
+// domain is used by /api/generate and by registerProofWithSignature.
+export function getProofDomain() {
+  return {
+    name: "Authentica",
+    version: "1",
+    chainId: PROOF_CHAIN_ID,
+    verifyingContract: process.env.NEXT_PUBLIC_CONTRACT_ADDRESS || "",
+  };
+}
+
+/** Same digest as hashString() in lib/crypto.ts, usable in the browser. */
+export function hashPromptForSigning(prompt: string): string {
+  return ethers.sha256(ethers.toUtf8Bytes(prompt)).slice(2);
+}
+
+/** Same digest as hashBuffer() in lib/crypto.ts, usable in the browser. */
+export function hashBytesForSigning(bytes: Uint8Array): string {
+  return ethers.sha256(bytes).slice(2);
+}
+
+export function recoverProofRequestSigner(
+  request: ProofRequest,
+  signature: string
+): string {
+  return ethers.verifyTypedData(
+    getProofDomain(),
+    PROOF_REQUEST_TYPES,
+    request,
+    signature
+  );
+}
+
+export function recoverProofRegistrationSigner(
+  registration: ProofRegistration,
+  signature: string
+): string {
+  return ethers.verifyTypedData(
+    getProofDomain(),
+    PROOF_REGISTRATION_TYPES,
+    registration,
+    signature
+  );
+}
@@ -0,0 +1,305 @@
+import {
+  ChromaPlanes,
+  DecodedImage,
+  GrayImage,
+  meanChromaShift,
+  resizeGray,
+  toChroma,
+  toGrayscale,
+} from "./pixels";
+
+/**
+ * Pixel-domain image similarity, shared by the compare route (decoded with
+ * lib/image.ts) and compareImagesClient (decoded by a canvas).
+ *
+ * Both images are converted to luma on a white background and resized to the
+ * same working size, then compared with SSIM and 5-scale MS-SSIM (Wang et
+ * al.). A joint RGB histogram catches global colour edits that leave
+ * structure intact, and a block-wise comparison of mean chroma catches local
+ * ones, which barely move a whole-image histogram. None of this depends on
+ * how the files were encoded.
+ */
+export interface ImageSimilarityMetrics {
+  ssim: number;
+  msSsim: number;
+  // Bhattacharyya coefficient of the colour histograms, 1 = identical
+  histogramSimilarity: number;
+  // Hellinger distance, sqrt(1 - histogramSimilarity)
+  histogramDistance: number;
+  // share of blocks that kept their colour, 1 = no local recolouring
+  colourSimilarity: number;
+  // weighted combination used for the verdict
+  similarity: number;
+  width: number;
+  height: number;
+}
+
+// longest side of the images SSIM runs on; large enough for MS-SSIM's five
+// scales, small enough to be fast in the browser
+export const SSIM_WORKING_SIZE = 256;
+
+const K1 = 0.01;
+const K2 = 0.03;
+const C1 = (K1 * 255) ** 2;
+const C2 = (K2 * 255) ** 2;
+
+const WINDOW_SIZE = 11;
+const WINDOW_SIGMA = 1.5;
+const MS_SSIM_WEIGHTS = [0.0448, 0.2856, 0.3001, 0.2363, 0.1333];
+
+// block size of the local colour comparison, in working pixels
+const COLOUR_BLOCK = 8;
+// mean chroma shift a block may show after re-encoding or resampling, and
+// the shift beyond that which counts as a complete recolour
+const COLOUR_TOLERANCE = 6;
+const COLOUR_RANGE = 24;
+
+const HISTOGRAM_BINS = 8;
+// cap on sampled pixels for the histogram of very large images
+const HISTOGRAM_MAX_SAMPLES = 1000000;
+
+const GAUSSIAN = (() => {
+  const half = Math.floor(WINDOW_SIZE / 2);
+  const weights = Array.from({ length: WINDOW_SIZE }, (_, i) =>
+    Math.exp(-((i - half) ** 2) / (2 * WINDOW_SIGMA ** 2))
+  );
+  const total = weights.reduce((sum, w) => sum + w, 0);
+  return weights.map((w) => w / total);
+})();
+
+// separable gaussian filter, "valid" region only
+function gaussianFilter(data: Float64Array, width: number, height: number) {
+  const outWidth = width - WINDOW_SIZE + 1;
+  const outHeight = height - WINDOW_SIZE + 1;
+
+  const horizontal = new Float64Array(outWidth * height);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < outWidth; x++) {
+      let sum = 0;
+      for (let k = 0; k < WINDOW_SIZE; k++) {
+        sum += data[y * width + x + k] * GAUSSIAN[k];
+      }
+      horizontal[y * outWidth + x] = sum;
+    }
+  }
+
+  const out = new Float64Array(outWidth * outHeight);
+  for (let y = 0; y < outHeight; y++) {
+    for (let x = 0; x < outWidth; x++) {
+      let sum = 0;
+      for (let k = 0; k < WINDOW_SIZE; k++) {
+        sum += horizontal[(y + k) * outWidth + x] * GAUSSIAN[k];
+      }
+      out[y * outWidth + x] = sum;
+    }
+  }
+  return out;
+}
+
+/**
+ * Per-pixel SSIM map plus the mean SSIM and mean contrast-structure term.
+ * The map is kept so callers can localise differences.
+ */
+export function ssimMap(
+  a: GrayImage,
+  b: GrayImage
+): { ssim: number; cs: number; map: Float64Array; width: number; height: number } {
+  const { width, height } = a;
+  const size = width * height;
+  const aa = new Float64Array(size);
+  const bb = new Float64Array(size);
+  const ab = new Float64Array(size);
+  for (let i = 0; i < size; i++) {
+    aa[i] = a.data[i] * a.data[i];
+    bb[i] = b.data[i] * b.data[i];
+    ab[i] = a.data[i] * b.data[i];
+  }
+
+  const muA = gaussianFilter(a.data, width, height);
+  const muB = gaussianFilter(b.data, width, height);
+  const sigmaAA = gaussianFilter(aa, width, height);
+  const sigmaBB = gaussianFilter(bb, width, height);
+  const sigmaAB = gaussianFilter(ab, width, height);
+
+  const map = new Float64Array(muA.length);
+  let ssimSum = 0;
+  let csSum = 0;
+  for (let i = 0; i < muA.length; i++) {
+    const varA = sigmaAA[i] - muA[i] * muA[i];
+    const varB = sigmaBB[i] - muB[i] * muB[i];
+    const cov = sigmaAB[i] - muA[i] * muB[i];
+
+    const cs = (2 * cov + C2) / (varA + varB + C2);
+    const luminance =
+      (2 * muA[i] * muB[i] + C1) / (muA[i] * muA[i] + muB[i] * muB[i] + C1);
+
+    map[i] = luminance * cs;
+    ssimSum += map[i];
+    csSum += cs;
+  }
+
+  return {
+    ssim: ssimSum / map.length,
+    cs: csSum / map.length,
+    map,
+    width: width - WINDOW_SIZE + 1,
+    height: height - WINDOW_SIZE + 1,
+  };
+}
+
+export function msSsim(a: GrayImage, b: GrayImage): number {
+  // only as many scales as leave room for the window at the coarsest one
+  let scales = 1;
+  while (
+    scales < MS_SSIM_WEIGHTS.length &&
+    Math.min(a.width, a.height) / 2 ** scales >= WINDOW_SIZE
+  ) {
+    scales++;
+  }
+  const weights = MS_SSIM_WEIGHTS.slice(0, scales);
+  const weightTotal = weights.reduce((sum, w) => sum + w, 0);
+
+  let result = 1;
+  let currentA = a;
+  let currentB = b;
+  for (let scale = 0; scale < scales; scale++) {
+    const { ssim, cs } = ssimMap(currentA, currentB);
+    const weight = weights[scale] / weightTotal;
+    // the coarsest scale contributes luminance too
+    const term = scale === scales - 1 ? ssim : cs;
+    result *= Math.max(term, 0) ** weight;
+
+    const nextWidth = Math.floor(currentA.width / 2);
+    const nextHeight = Math.floor(currentA.height / 2);
+    currentA = resizeGray(currentA, nextWidth, nextHeight);
+    currentB = resizeGray(currentB, nextWidth, nextHeight);
+  }
+  return result;
+}
+
+function colourHistogram(image: DecodedImage): Float64Array {
+  const { width, height, data } = image;
+  const histogram = new Float64Array(HISTOGRAM_BINS ** 3);
+  const pixels = width * height;
+  const step = Math.max(1, Math.floor(pixels / HISTOGRAM_MAX_SAMPLES));
+  const binWidth = 256 / HISTOGRAM_BINS;
+
+  let samples = 0;
+  for (let i = 0; i < pixels; i += step) {
+    const alpha = data[i * 4 + 3] / 255;
+    // composite onto white, as toGrayscale does
+    const channel = (c: number) =>
+      Math.min(
+        HISTOGRAM_BINS - 1,
+        Math.floor((c * alpha + 255 * (1 - alpha)) / binWidth)
+      );
+    const bin =
+      channel(data[i * 4]) * HISTOGRAM_BINS * HISTOGRAM_BINS +
+      channel(data[i * 4 + 1]) * HISTOGRAM_BINS +
+      channel(data[i * 4 + 2]);
+    histogram[bin]++;
+    samples++;
+  }
+
+  for (let i = 0; i < histogram.length; i++) {
+    histogram[i] /= samples;
+  }
+  return histogram;
+}
+
+export function histogramSimilarity(a: DecodedImage, b: DecodedImage): number {
+  const histA = colourHistogram(a);
+  const histB = colourHistogram(b);
+  let coefficient = 0;
+  for (let i = 0; i < histA.length; i++) {
+    coefficient += Math.sqrt(histA[i] * histB[i]);
+  }
+  return Math.min(1, coefficient);
+}
+
+/**
+ * 1 minus the mean colour change over blocks of the working image. Each
+ * block's mean chroma is compared over a window half a block wider on every
+ * side, so colour edges moved by resampling average out.
+ */
+export function colourSimilarity(a: ChromaPlanes, b: ChromaPlanes): number {
+  const { width, height } = a.cb;
+  const margin = COLOUR_BLOCK / 2;
+  let change = 0;
+  let blocks = 0;
+
+  for (let y = 0; y < height; y += COLOUR_BLOCK) {
+    for (let x = 0; x < width; x += COLOUR_BLOCK) {
+      const shift = meanChromaShift(
+        a,
+        b,
+        x - margin,
+        y - margin,
+        x + COLOUR_BLOCK + margin,
+        y + COLOUR_BLOCK + margin
+      );
+      change += Math.min(1, Math.max(0, shift - COLOUR_TOLERANCE) / COLOUR_RANGE);
+      blocks++;
+    }
+  }
+  return 1 - change / blocks;
+}
+
+function resizeChroma(image: DecodedImage, width: number, height: number): ChromaPlanes {
+  const { cb, cr } = toChroma(image);
+  return { cb: resizeGray(cb, width, height), cr: resizeGray(cr, width, height) };
+}
+
+/**
+ * Working size for a pair: the smaller image's dimensions, scaled down so the
+ * longest side is at most SSIM_WORKING_SIZE. Different aspect ratios (e.g.
+ * a crop) are squeezed to the same size and show up as lower SSIM.
+ */
+export function workingSize(
+  a: { width: number; height: number },
+  b: { width: number; height: number }
+): { width: number; height: number } {
+  const width = Math.min(a.width, b.width);
+  const height = Math.min(a.height, b.height);
+  const scale = Math.min(1, SSIM_WORKING_SIZE / Math.max(width, height));
+  return {
+    width: Math.max(WINDOW_SIZE, Math.round(width * scale)),
+    height: Math.max(WINDOW_SIZE, Math.round(height * scale)),
+  };
+}
+
+export function compareDecodedImages(
+  a: DecodedImage,
+  b: DecodedImage
+): ImageSimilarityMetrics {
+  const { width, height } = workingSize(a, b);
+  const grayA = resizeGray(toGrayscale(a), width, height);
+  const grayB = resizeGray(toGrayscale(b), width, height);
+
+  const { ssim } = ssimMap(grayA, grayB);
+  const multiScale = msSsim(grayA, grayB);
+  const histogram = histogramSimilarity(a, b);
+  const colour = colourSimilarity(
+    resizeChroma(a, width, height),
+    resizeChroma(b, width, height)
+  );
+
+  // SSIM only sees luma, so a local recolour scales the whole score down;
+  // squared, because a luma edit of the same size lowers SSIM and MS-SSIM
+  // together
+  const similarity = Math.min(
+    1,
+    Math.max(0, (multiScale * 0.5 + ssim * 0.3 + histogram * 0.2) * colour ** 2)
+  );
+
+  return {
+    ssim,
+    msSsim: multiScale,
+    histogramSimilarity: histogram,
+    histogramDistance: Math.sqrt(Math.max(0, 1 - histogram)),
+    colourSimilarity: colour,
+    similarity,
+    width,
+    height,
+  };
+}
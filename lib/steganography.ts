@@ -2,20 +2,53 @@
  * Enhanced Steganography Detection Library
  * Detects hidden data embedded in image pixels to prevent tamper detection bypass
  *
- * Methods:
- * 1. LSB (Least Significant Bit) Pattern Analysis
- * 2. Chi-Square Statistical Test
- * 3. Entropy Analysis
- * 4. RS (Regular-Singular) Analysis
- * 5. Sample Pair Analysis
- * 6. Statistical Anomaly Detection
+ * The image is decoded first and every colour channel is analysed as its own
+ * pixel plane; compressed file bytes say nothing about the pixels. JPEGs are
+ * additionally checked in the DCT domain, where JPEG steganography hides.
+ *
+ * Pixel-plane methods:
+ * 1. LSB balance
+ * 2. Chi-square pairs-of-values test (Westfeld), run sequentially
+ * 3. Bit-plane entropy
+ * 4. RS (Regular-Singular) analysis (Fridrich)
+ * 5. Sample Pair Analysis (Dumitrescu)
+ *
+ * DCT methods (baseline JPEG):
+ * 6. JSteg pairs-of-values histogram test
+ * 7. F5 histogram shrinkage against a calibrated (cropped) estimate,
+ *    reported only
  */
 
+import { detectImageFormat, ImageFormat, tryDecodeImage } from "./image";
+import { JpegComponent, readJpegCoefficients, ZIGZAG } from "./jpegCoefficients";
+import type { DecodedImage } from "./pixels";
+
+export interface ChannelSteganalysis {
+  channel: string; // R, G, B, A or L (grey) for pixels; Y, Cb, Cr for DCT
+  domain: "pixel" | "dct";
+  suspicious: boolean;
+  // estimated fraction of samples carrying payload, 0-1
+  embeddingRate: number;
+  lsbBias?: number;
+  chiSquare?: number;
+  chiSquarePValue?: number;
+  entropy?: number;
+  rsRate?: number;
+  samplePairRate?: number;
+  jstegRate?: number;
+  f5Rate?: number;
+}
+
 export interface SteganographyResult {
   suspicious: boolean;
   confidence: number; // 0-1, where 1 = very confident
   method: string; // Which method detected it
   details: string; // Human-readable explanation
+  format?: ImageFormat | null;
+  // highest per-channel estimate
+  embeddingRate?: number;
+  channels?: ChannelSteganalysis[];
+  // values of the channel with the highest estimate
   indicators: {
     lsbBias?: number;
     chiSquare?: number;
@@ -25,127 +58,81 @@ export interface SteganographyResult {
   };
 }
 
+interface Plane {
+  width: number;
+  height: number;
+  data: Uint8Array;
+}
+
+// larger images are analysed on evenly spaced rows
+const MAX_PLANE_SAMPLES = 4 * 1000 * 1000;
+// below 256x256 the estimates are too noisy to act on
+const MIN_PLANE_SAMPLES = 65536;
+// clean images estimate within a few percent of zero with RS and SPA
+const PIXEL_RATE_THRESHOLD = 0.1;
+const PIXEL_RATE_AGREEMENT = 0.07;
+// fraction of the stream a sequential chi-square run must cover
+const SEQUENTIAL_RATE_THRESHOLD = 0.1;
+const SEQUENTIAL_CHECKPOINTS = 20;
+// calibration is unreliable on flat images whose low-frequency modes are
+// almost all zero
+const MIN_F5_ACTIVITY = 0.2;
+// calibration transforms are costly; a sample of blocks is enough
+const MAX_CALIBRATION_BLOCKS = 20000;
+
 /**
  * Main function to detect steganography in image buffer
- * Works on raw file bytes (doesn't require image decoding)
+ * Decodes PNG and JPEG; other formats are reported as not analysed
  */
 export async function detectSteganography(
   buffer: Buffer
 ): Promise<SteganographyResult> {
   try {
-    const headerSkip = Math.min(1000, Math.floor(buffer.length * 0.05));
-    const imageDataStart = headerSkip;
-    const imageDataEnd = buffer.length;
-
-    if (imageDataEnd - imageDataStart < 1000) {
+    const format = detectImageFormat(buffer);
+    const image = format ? tryDecodeImage(buffer) : null;
+    if (!image) {
       return {
         suspicious: false,
         confidence: 0,
         method: "none",
-        details: "Insufficient image data for steganography analysis",
+        details: "Unsupported image format for steganography analysis",
+        format,
         indicators: {},
       };
     }
-
-    const imageData = buffer.slice(imageDataStart, imageDataEnd);
-
-    const lsbResult = analyzeLSBPatterns(imageData);
-    const chiSquareResult = chiSquareTest(imageData);
-    const entropyResult = analyzeEntropy(imageData);
-    const rsResult = rsAnalysis(imageData);
-    const samplePairResult = samplePairAnalysis(imageData);
-
-    const scores: { method: string; score: number; confidence: number }[] = [];
-
-    if (lsbResult.suspicious) {
-      scores.push({
-        method: "LSB Pattern Analysis",
-        score: lsbResult.confidence * 0.3,
-        confidence: lsbResult.confidence,
-      });
-    }
-
-    if (chiSquareResult.suspicious) {
-      scores.push({
-        method: "Chi-Square Test",
-        score: chiSquareResult.confidence * 0.25,
-        confidence: chiSquareResult.confidence,
-      });
-    }
-
-    if (entropyResult.suspicious) {
-      scores.push({
-        method: "Entropy Analysis",
-        score: entropyResult.confidence * 0.2,
-        confidence: entropyResult.confidence,
-      });
-    }
-
-    if (rsResult.suspicious) {
-      scores.push({
-        method: "RS Analysis",
-        score: rsResult.confidence * 0.15,
-        confidence: rsResult.confidence,
-      });
-    }
-
-    if (samplePairResult.suspicious) {
-      scores.push({
-        method: "Sample Pair Analysis",
-        score: samplePairResult.confidence * 0.1,
-        confidence: samplePairResult.confidence,
-      });
+    if (image.width * image.height < MIN_PLANE_SAMPLES) {
+      return {
+        suspicious: false,
+        confidence: 0,
+        method: "none",
+        details: "Insufficient image data for steganography analysis",
+        format,
+        indicators: {},
+      };
     }
 
-    const totalScore = scores.reduce((sum, s) => sum + s.score, 0);
-    const suspicious = totalScore > 0.25;
-    const confidence = Math.min(1.0, totalScore * 1.5);
-
-    let primaryMethod = "none";
-    let details = "No steganography detected. Image appears clean.";
-
-    if (suspicious) {
-      const topMethod = scores.reduce(
-        (max, s) => (s.confidence > max.confidence ? s : max),
-        scores[0]
-      );
-
-      primaryMethod = topMethod.method;
-
-      const indicators = [];
-      if (lsbResult.suspicious) {
-        indicators.push(`LSB bias: ${(lsbResult.bias * 100).toFixed(1)}%`);
+    // lossy coding rewrites every pixel LSB, so a JPEG can only carry a
+    // payload in its coefficients
+    if (format === "jpeg") {
+      const coefficients = readJpegCoefficients(buffer);
+      if (!coefficients) {
+        return {
+          suspicious: false,
+          confidence: 0,
+          method: "none",
+          details:
+            "Progressive or non-standard JPEG: coefficient analysis not available",
+          format,
+          indicators: {},
+        };
       }
-      if (chiSquareResult.suspicious) {
-        indicators.push(`Chi-square: ${chiSquareResult.chiSquare.toFixed(2)}`);
-      }
-      if (entropyResult.suspicious) {
-        indicators.push(
-          `Entropy deviation: ${entropyResult.deviation.toFixed(2)} bits`
-        );
-      }
-
-      details =
-        `steganography detected: ${primaryMethod} found suspicious patterns (${(
-          confidence * 100
-        ).toFixed(1)}% confidence). ` +
-        `Indicators: ${indicators.join(", ")}. ` +
-        `This image may contain hidden data embedded in pixels.`;
+      return summarize(format, analyzeJpegCoefficients(coefficients.components));
     }
 
-    return {
-      suspicious,
-      confidence,
-      method: primaryMethod,
-      details,
-      indicators: {
-        lsbBias: lsbResult.bias,
-        chiSquare: chiSquareResult.chiSquare,
-        entropy: entropyResult.entropy,
-        rsAnalysis: rsResult.rsValue,
-        samplePair: samplePairResult.correlation,
-      },
-    };
+    const channels = extractPlanes(image).map(({ channel, plane }) =>
+      analyzePlane(channel, plane)
+    );
+    return summarize(format, channels);
   } catch (error) {
     console.error("Steganography detection error:", error);
     return {
@@ -158,198 +145,563 @@ export async function detectSteganography(
   }
 }
 
-/**
- * Method 1: LSB Pattern Analysis
- * Detects bias in least significant bits (natural images should be ~50/50)
- */
-function analyzeLSBPatterns(data: Buffer): {
-  suspicious: boolean;
-  confidence: number;
-  bias: number;
-} {
-  let lsb0Count = 0;
-  let lsb1Count = 0;
-  let totalSamples = 0;
-
-  for (let i = 0; i < data.length && totalSamples < 2000; i += 10) {
-    const byte = data[i];
-    const lsb = byte & 1;
-
-    if (lsb === 0) lsb0Count++;
-    else lsb1Count++;
-    totalSamples++;
-  }
+function summarize(
+  format: ImageFormat | null,
+  channels: ChannelSteganalysis[]
+): SteganographyResult {
+  const strongest = channels.reduce((max, c) =>
+    c.embeddingRate > max.embeddingRate ? c : max
+  );
+  const indicators = {
+    lsbBias: strongest.lsbBias,
+    chiSquare: strongest.chiSquare,
+    entropy: strongest.entropy,
+    rsAnalysis: strongest.rsRate,
+    samplePair: strongest.samplePairRate,
+  };
 
-  if (totalSamples < 100) {
-    return { suspicious: false, confidence: 0, bias: 0 };
+  const flagged = channels.filter((c) => c.suspicious);
+  if (flagged.length === 0) {
+    return {
+      suspicious: false,
+      confidence: 0,
+      method: "none",
+      details: "No steganography detected. Image appears clean.",
+      format,
+      embeddingRate: strongest.embeddingRate,
+      channels,
+      indicators,
+    };
   }
 
-  const lsb0Ratio = lsb0Count / totalSamples;
-  const bias = Math.abs(lsb0Ratio - 0.5);
-
-  const suspicious = bias > 0.08;
-  const confidence = Math.min(1.0, (bias - 0.05) * 20);
+  const top = flagged.reduce((max, c) =>
+    c.embeddingRate > max.embeddingRate ? c : max
+  );
+  const method = methodFor(top);
+  // a quarter of the samples carrying payload is unambiguous
+  const confidence = Math.min(1.0, 0.4 + top.embeddingRate * 2.4);
+  const rates = flagged
+    .map((c) => `${c.channel} ~${(c.embeddingRate * 100).toFixed(1)}%`)
+    .join(", ");
+
+  return {
+    suspicious: true,
+    confidence,
+    method,
+    details:
+      `steganography detected: ${method} found suspicious patterns (${(
+        confidence * 100
+      ).toFixed(1)}% confidence). ` +
+      `Estimated embedding rate per channel: ${rates}. ` +
+      (top.domain === "dct"
+        ? "This image may contain hidden data embedded in its JPEG coefficients."
+        : "This image may contain hidden data embedded in pixels."),
+    format,
+    embeddingRate: top.embeddingRate,
+    channels,
+    indicators,
+  };
+}
 
-  return { suspicious, confidence, bias };
+function methodFor(channel: ChannelSteganalysis): string {
+  if (channel.domain === "dct") {
+    return "JSteg Histogram";
+  }
+  const pairRate = ((channel.rsRate ?? 0) + (channel.samplePairRate ?? 0)) / 2;
+  return pairRate >= channel.embeddingRate
+    ? "RS / Sample Pair Analysis"
+    : "Chi-Square Test";
 }
 
 /**
- * Method 2: Chi-Square Test
- * Statistical test for LSB steganography
+ * Splits RGBA into planes, skipping alpha when it is constant and folding
+ * grey images into one plane. Large images keep evenly spaced whole rows so
+ * horizontal neighbours stay adjacent.
  */
-function chiSquareTest(data: Buffer): {
-  suspicious: boolean;
-  confidence: number;
-  chiSquare: number;
-} {
-  const pairCounts = new Array(128).fill(0);
-  let totalPairs = 0;
-
-  for (let i = 0; i < data.length - 1 && totalPairs < 1000; i += 5) {
-    const val = data[i];
-    if (val < 254) {
-      const pairIndex = Math.floor(val / 2);
-      pairCounts[pairIndex]++;
-      totalPairs++;
+function extractPlanes(image: DecodedImage): { channel: string; plane: Plane }[] {
+  const { width, height, data } = image;
+  const rowStep = Math.max(1, Math.ceil((width * height) / MAX_PLANE_SAMPLES));
+  const rows = Math.ceil(height / rowStep);
+  const planes = [0, 1, 2, 3].map(() => new Uint8Array(width * rows));
+
+  let grey = true;
+  let alphaVaries = false;
+  for (let r = 0; r < rows; r++) {
+    const y = r * rowStep;
+    for (let x = 0; x < width; x++) {
+      const src = (y * width + x) * 4;
+      const dst = r * width + x;
+      for (let c = 0; c < 4; c++) {
+        planes[c][dst] = data[src + c];
+      }
+      if (data[src] !== data[src + 1] || data[src] !== data[src + 2]) {
+        grey = false;
+      }
+      if (data[src + 3] !== data[3]) {
+        alphaVaries = true;
+      }
     }
   }
 
-  if (totalPairs < 100) {
-    return { suspicious: false, confidence: 0, chiSquare: 0 };
+  const toPlane = (c: number) => ({ width, height: rows, data: planes[c] });
+  const result = grey
+    ? [{ channel: "L", plane: toPlane(0) }]
+    : ["R", "G", "B"].map((channel, c) => ({ channel, plane: toPlane(c) }));
+  if (alphaVaries) {
+    result.push({ channel: "A", plane: toPlane(3) });
   }
+  return result;
+}
 
-  const expectedFreq = totalPairs / 128;
+function analyzePlane(channel: string, plane: Plane): ChannelSteganalysis {
+  const lsbBias = analyzeLSBBalance(plane.data);
+  const chi = sequentialChiSquare(plane.data, () => true);
+  const entropy = lsbPlaneEntropy(plane);
+  const rsRate = rsAnalysis(plane);
+  const samplePairRate = samplePairAnalysis(plane);
+
+  // LSB replacement at rate p moves both RS and SPA estimates towards p;
+  // sequential embedding also equalises value pairs over the embedded prefix
+  const pairRate = (rsRate + samplePairRate) / 2;
+  const pairsAgree =
+    pairRate >= PIXEL_RATE_THRESHOLD &&
+    Math.min(rsRate, samplePairRate) >= PIXEL_RATE_AGREEMENT;
+  const sequential = chi.rate >= SEQUENTIAL_RATE_THRESHOLD;
+
+  return {
+    channel,
+    domain: "pixel",
+    suspicious: pairsAgree || sequential,
+    embeddingRate: Math.max(pairRate, chi.rate),
+    lsbBias,
+    chiSquare: chi.chiSquare,
+    chiSquarePValue: chi.pValue,
+    entropy,
+    rsRate,
+    samplePairRate,
+  };
+}
 
-  let chiSquare = 0;
-  for (const observed of pairCounts) {
-    if (expectedFreq > 0) {
-      const diff = observed - expectedFreq;
-      chiSquare += (diff * diff) / expectedFreq;
-    }
-  }
+/**
+ * Coefficient-domain checks per component. JSteg replaces the LSB of every
+ * coefficient other than 0 and 1, which equalises their value pairs. F5
+ * decrements magnitudes instead; its calibrated estimate is reported but
+ * not acted on, because recompressed and synthetic images skew the
+ * calibration by as much as a payload does.
+ */
+export function analyzeJpegCoefficients(
+  components: JpegComponent[]
+): ChannelSteganalysis[] {
+  const names = components.length === 3 ? ["Y", "Cb", "Cr"] : ["Y"];
 
-  const suspicious = chiSquare > 159;
-  const confidence = Math.min(1.0, (chiSquare - 100) / 100);
+  return components.map((component, i) => {
+    const chi = sequentialChiSquare(
+      component.coefficients,
+      (value) => value !== 0 && value !== 1
+    );
 
-  return { suspicious, confidence, chiSquare };
+    return {
+      channel: names[i] || `C${component.id}`,
+      domain: "dct" as const,
+      suspicious: chi.rate >= SEQUENTIAL_RATE_THRESHOLD,
+      embeddingRate: chi.rate,
+      chiSquare: chi.chiSquare,
+      chiSquarePValue: chi.pValue,
+      jstegRate: chi.rate,
+      // calibration needs the full-resolution plane, i.e. luminance
+      f5Rate: i === 0 ? estimateF5Rate(component) : undefined,
+    };
+  });
 }
 
 /**
- * Method 3: Entropy Analysis
- * Steganography can reduce entropy (randomness) in image data
+ * Method 1: LSB balance
+ * Distance of the share of odd values from one half. Replacement pushes it
+ * towards zero, so on its own it only supports the other tests
  */
-function analyzeEntropy(data: Buffer): {
-  suspicious: boolean;
-  confidence: number;
-  entropy: number;
-  deviation: number;
-} {
-  const freq = new Array(256).fill(0);
-  let totalBytes = 0;
-
-  for (let i = 0; i < data.length && totalBytes < 2000; i += 5) {
-    freq[data[i]]++;
-    totalBytes++;
+function analyzeLSBBalance(data: Uint8Array): number {
+  let ones = 0;
+  for (let i = 0; i < data.length; i++) {
+    ones += data[i] & 1;
   }
+  return Math.abs(ones / data.length - 0.5);
+}
 
-  if (totalBytes < 100) {
-    return { suspicious: false, confidence: 0, entropy: 0, deviation: 0 };
+/**
+ * Method 2 / 6: Pairs-of-values chi-square test
+ * Embedding equalises the counts of 2k and 2k+1. The test runs over growing
+ * prefixes of the sample stream; the share of prefixes that still look
+ * equalised estimates how much of the stream carries a sequential payload.
+ */
+function sequentialChiSquare(
+  values: ArrayLike<number>,
+  include: (value: number) => boolean
+): { chiSquare: number; pValue: number; rate: number } {
+  const histogram = new Int32Array(65536);
+  const step = Math.ceil(values.length / SEQUENTIAL_CHECKPOINTS);
+  let run = 0;
+  let broken = false;
+  let last = { chiSquare: 0, pValue: 0 };
+
+  for (let checkpoint = 1; checkpoint <= SEQUENTIAL_CHECKPOINTS; checkpoint++) {
+    const end = Math.min(values.length, checkpoint * step);
+    for (let i = (checkpoint - 1) * step; i < end; i++) {
+      const value = values[i];
+      if (include(value)) {
+        histogram[value + 32768]++;
+      }
+    }
+
+    let chiSquare = 0;
+    let categories = 0;
+    for (let k = 0; k < 65536; k += 2) {
+      const expected = (histogram[k] + histogram[k + 1]) / 2;
+      if (expected >= 5) {
+        const diff = histogram[k] - expected;
+        chiSquare += (diff * diff) / expected;
+        categories++;
+      }
+    }
+    last = {
+      chiSquare,
+      pValue: categories > 1 ? chiSquarePValue(chiSquare, categories - 1) : 0,
+    };
+    if (!broken && categories > 1 && last.pValue > 0.5) {
+      run++;
+    } else {
+      broken = true;
+    }
+  }
+
+  return { ...last, rate: run / SEQUENTIAL_CHECKPOINTS };
+}
+
+/**
+ * Method 3: LSB-plane entropy
+ * Entropy of 2x2 patterns in the LSB plane, per bit (0-1). Full embedding
+ * drives it to 1 even where the image is smooth
+ */
+function lsbPlaneEntropy(plane: Plane): number {
+  const counts = new Array(16).fill(0);
+  let total = 0;
+  for (let y = 0; y + 1 < plane.height; y += 2) {
+    for (let x = 0; x + 1 < plane.width; x += 2) {
+      const i = y * plane.width + x;
+      const d = plane.data;
+      counts[
+        (d[i] & 1) |
+          ((d[i + 1] & 1) << 1) |
+          ((d[i + plane.width] & 1) << 2) |
+          ((d[i + plane.width + 1] & 1) << 3)
+      ]++;
+      total++;
+    }
   }
 
   let entropy = 0;
-  for (const count of freq) {
+  for (const count of counts) {
     if (count > 0) {
-      const prob = count / totalBytes;
-      entropy -= prob * Math.log2(prob);
+      const p = count / total;
+      entropy -= p * Math.log2(p);
     }
   }
-
-  const expectedEntropy = 7.5;
-  const deviation = expectedEntropy - entropy;
-  const suspicious = entropy < 6.8;
-  const confidence = Math.min(1.0, (6.8 - entropy) * 2.5);
-
-  return { suspicious, confidence, entropy, deviation };
+  return total > 0 ? entropy / 4 : 0;
 }
 
 /**
  * Method 4: RS (Regular-Singular) Analysis
- * Detects patterns in pixel groups that indicate steganography
+ * Groups of four horizontal pixels are classified by whether flipping LSBs
+ * with the mask [0 1 1 0] (and its negative) makes them noisier. The counts
+ * for the image and for the image with every LSB flipped give a quadratic
+ * whose root is the embedding rate
  */
-function rsAnalysis(data: Buffer): {
-  suspicious: boolean;
-  confidence: number;
-  rsValue: number;
-} {
-  let regularGroups = 0;
-  let singularGroups = 0;
-  let totalGroups = 0;
-
-  for (let i = 0; i < data.length - 3 && totalGroups < 500; i += 20) {
-    const b1 = data[i];
-    const b2 = data[i + 1];
-    const b3 = data[i + 2];
-    const b4 = data[i + 3];
-
-    const diff1 = Math.abs(b1 - b2);
-    const diff2 = Math.abs(b3 - b4);
-
-    if (Math.abs(diff1 - diff2) < 5) {
-      regularGroups++;
-    } else if (Math.abs(diff1 - diff2) > 20) {
-      singularGroups++;
+function rsAnalysis(plane: Plane): number {
+  const { width, height, data } = plane;
+  // F1 swaps 2k <-> 2k+1, F-1 swaps 2k-1 <-> 2k
+  const flip = (v: number) => (v & 1 ? v - 1 : v + 1);
+  const flipNeg = (v: number) => (v & 1 ? v + 1 : v - 1);
+  const noise = (a: number, b: number, c: number, d: number) =>
+    Math.abs(b - a) + Math.abs(c - b) + Math.abs(d - c);
+
+  // [R_M, S_M, R_-M, S_-M] before and after flipping all LSBs
+  const counts = [new Float64Array(4), new Float64Array(4)];
+  let groups = 0;
+
+  for (let y = 0; y < height; y++) {
+    const row = y * width;
+    for (let x = 0; x + 3 < width; x += 4) {
+      for (let pass = 0; pass < 2; pass++) {
+        const a = pass ? data[row + x] ^ 1 : data[row + x];
+        const b = pass ? data[row + x + 1] ^ 1 : data[row + x + 1];
+        const c = pass ? data[row + x + 2] ^ 1 : data[row + x + 2];
+        const d = pass ? data[row + x + 3] ^ 1 : data[row + x + 3];
+        const f0 = noise(a, b, c, d);
+        const fPos = noise(a, flip(b), flip(c), d);
+        const fNeg = noise(a, flipNeg(b), flipNeg(c), d);
+        const target = counts[pass];
+        if (fPos > f0) target[0]++;
+        else if (fPos < f0) target[1]++;
+        if (fNeg > f0) target[2]++;
+        else if (fNeg < f0) target[3]++;
+      }
+      groups++;
     }
-
-    totalGroups++;
   }
-
-  if (totalGroups < 50) {
-    return { suspicious: false, confidence: 0, rsValue: 0 };
+  if (groups === 0) {
+    return 0;
   }
 
-  const regularRatio = regularGroups / totalGroups;
-  const singularRatio = singularGroups / totalGroups;
-  const rsValue = Math.abs(regularRatio - singularRatio);
+  const [rm, sm, rn, sn] = counts[0].map((v) => v / groups);
+  const [rm1, sm1, rn1, sn1] = counts[1].map((v) => v / groups);
+  const d0 = rm - sm;
+  const d1 = rm1 - sm1;
+  const dn0 = rn - sn;
+  const dn1 = rn1 - sn1;
+
+  const a = 2 * (d1 + d0);
+  const b = dn0 - dn1 - d1 - 3 * d0;
+  const c = d0 - dn0;
+  const root = solveSmallestRoot(a, b, c);
+  if (root === null || Math.abs(root - 0.5) < 1e-9) {
+    return 0;
+  }
+  return clampRate(root / (root - 0.5));
+}
 
-  const suspicious = rsValue > 0.15;
-  const confidence = Math.min(1.0, (rsValue - 0.1) * 10);
+/**
+ * Method 5: Sample Pair Analysis
+ * Counts horizontal pixel pairs by how their values relate within and
+ * across pairs-of-values; LSB replacement moves pairs between these sets in
+ * a way that yields a quadratic in the embedding rate
+ */
+function samplePairAnalysis(plane: Plane): number {
+  const { width, height, data } = plane;
+  let x = 0;
+  let y = 0;
+  let w = 0;
+  let z = 0;
+  let pairs = 0;
+
+  for (let row = 0; row < height; row++) {
+    const offset = row * width;
+    for (let col = 0; col + 1 < width; col++) {
+      const u = data[offset + col];
+      const v = data[offset + col + 1];
+      if (u === v) {
+        z++;
+      } else if (u >> 1 === v >> 1) {
+        w++;
+      }
+      if ((v % 2 === 0 && u < v) || (v % 2 === 1 && u > v)) x++;
+      if ((v % 2 === 0 && u > v) || (v % 2 === 1 && u < v)) y++;
+      pairs++;
+    }
+  }
+  if (pairs === 0) {
+    return 0;
+  }
 
-  return { suspicious, confidence, rsValue };
+  const root = solveSmallestRoot((w + z) / 2, 2 * x - pairs, y - x);
+  return root === null ? 0 : clampRate(root);
 }
 
 /**
- * Method 5: Sample Pair Analysis
- * Analyzes correlations between pixel pairs
+ * Method 7: F5 calibration
+ * Cropping the decompressed luminance by four pixels and recompressing with
+ * the same table approximates the cover's histogram. F5 shrinkage moves
+ * coefficients from |1| to 0 and |2| to |1| in proportion to the change
+ * rate, estimated by least squares over three low-frequency modes
  */
-function samplePairAnalysis(data: Buffer): {
-  suspicious: boolean;
-  confidence: number;
-  correlation: number;
-} {
-  let matchingPairs = 0;
-  let totalPairs = 0;
-
-  for (let i = 0; i < data.length - 1 && totalPairs < 1000; i += 10) {
-    const b1 = data[i];
-    const b2 = data[i + 1];
-
-    if (Math.abs(b1 - b2) < 3) {
-      matchingPairs++;
+function estimateF5Rate(component: JpegComponent): number | undefined {
+  const { blocksPerLine, blocksPerColumn, coefficients, quantTable } = component;
+  const cropLine = blocksPerLine - 1;
+  const cropColumn = blocksPerColumn - 1;
+  if (cropLine < 2 || cropColumn < 2 || quantTable[0] === 0) {
+    return undefined;
+  }
+
+  // zigzag positions of modes (0,1), (1,0) and (1,1)
+  const modes = [1, 2, 4];
+  const observed = modes.map(() => [0, 0, 0]);
+  const calibrated = modes.map(() => [0, 0, 0]);
+  const pixels = new Float64Array(16 * 16);
+  const block = new Float64Array(64);
+  let active = 0;
+  let sampled = 0;
+
+  const stride = Math.max(
+    1,
+    Math.ceil((cropLine * cropColumn) / MAX_CALIBRATION_BLOCKS)
+  );
+  for (let index = 0; index < cropLine * cropColumn; index += stride) {
+    const bx = index % cropLine;
+    const by = Math.floor(index / cropLine);
+
+    modes.forEach((mode, m) => {
+      const value = Math.abs(coefficients[(by * blocksPerLine + bx) * 64 + mode]);
+      if (value <= 2) observed[m][value]++;
+      if (value !== 0) active++;
+      sampled++;
+    });
+
+    // decompress the 2x2 blocks the shifted block overlaps
+    for (let j = 0; j < 2; j++) {
+      for (let i = 0; i < 2; i++) {
+        const base = ((by + j) * blocksPerLine + bx + i) * 64;
+        for (let k = 0; k < 64; k++) {
+          block[ZIGZAG[k]] = coefficients[base + k] * quantTable[k];
+        }
+        inverseDct(block);
+        for (let v = 0; v < 8; v++) {
+          for (let u = 0; u < 8; u++) {
+            pixels[(j * 8 + v) * 16 + i * 8 + u] = Math.min(
+              255,
+              Math.max(0, Math.round(block[v * 8 + u] + 128))
+            );
+          }
+        }
+      }
     }
 
-    totalPairs++;
+    for (let v = 0; v < 8; v++) {
+      for (let u = 0; u < 8; u++) {
+        block[v * 8 + u] = pixels[(v + 4) * 16 + u + 4] - 128;
+      }
+    }
+    forwardDct(block);
+    modes.forEach((mode, m) => {
+      const value = Math.abs(Math.round(block[ZIGZAG[mode]] / quantTable[mode]));
+      if (value <= 2) calibrated[m][value]++;
+    });
   }
 
-  if (totalPairs < 100) {
-    return { suspicious: false, confidence: 0, correlation: 0 };
+  if (sampled === 0 || active / sampled < MIN_F5_ACTIVITY) {
+    return undefined;
   }
 
-  const correlation = matchingPairs / totalPairs;
+  let numerator = 0;
+  let denominator = 0;
+  modes.forEach((_, m) => {
+    const [h0, h1, h2] = calibrated[m];
+    const [H0, H1] = observed[m];
+    numerator += h1 * (H0 - h0) + (H1 - h1) * (h2 - h1);
+    denominator += h1 * h1 + (h2 - h1) * (h2 - h1);
+  });
+  return denominator > 0 ? clampRate(numerator / denominator) : undefined;
+}
 
-  const suspicious = correlation < 0.2 || correlation > 0.6;
-  const confidence = suspicious
-    ? Math.min(1.0, Math.abs(correlation - 0.4) * 2.5)
-    : 0;
+// orthonormal 8x8 DCT-II basis, as used by JPEG
+const DCT_BASIS = (() => {
+  const basis = new Float64Array(64);
+  for (let u = 0; u < 8; u++) {
+    const scale = u === 0 ? Math.SQRT1_2 / 2 : 0.5;
+    for (let x = 0; x < 8; x++) {
+      basis[u * 8 + x] = scale * Math.cos(((2 * x + 1) * u * Math.PI) / 16);
+    }
+  }
+  return basis;
+})();
+
+function transform(block: Float64Array, inverse: boolean) {
+  const temp = new Float64Array(64);
+  for (let row = 0; row < 8; row++) {
+    for (let k = 0; k < 8; k++) {
+      let sum = 0;
+      for (let n = 0; n < 8; n++) {
+        sum += inverse
+          ? DCT_BASIS[n * 8 + k] * block[row * 8 + n]
+          : DCT_BASIS[k * 8 + n] * block[row * 8 + n];
+      }
+      temp[row * 8 + k] = sum;
+    }
+  }
+  for (let col = 0; col < 8; col++) {
+    for (let k = 0; k < 8; k++) {
+      let sum = 0;
+      for (let n = 0; n < 8; n++) {
+        sum += inverse
+          ? DCT_BASIS[n * 8 + k] * temp[n * 8 + col]
+          : DCT_BASIS[k * 8 + n] * temp[n * 8 + col];
+      }
+      block[k * 8 + col] = sum;
+    }
+  }
+}
+
+function forwardDct(block: Float64Array) {
+  transform(block, false);
+}
 
-  return { suspicious, confidence, correlation };
+function inverseDct(block: Float64Array) {
+  transform(block, true);
+}
+
+function solveSmallestRoot(a: number, b: number, c: number): number | null {
+  if (Math.abs(a) < 1e-12) {
+    return Math.abs(b) < 1e-12 ? null : -c / b;
+  }
+  const discriminant = b * b - 4 * a * c;
+  if (discriminant < 0) {
+    return null;
+  }
+  const sqrt = Math.sqrt(discriminant);
+  const r1 = (-b + sqrt) / (2 * a);
+  const r2 = (-b - sqrt) / (2 * a);
+  return Math.abs(r1) <= Math.abs(r2) ? r1 : r2;
+}
+
+function clampRate(rate: number): number {
+  return Number.isFinite(rate) ? Math.min(1, Math.max(0, rate)) : 0;
+}
+
+// upper tail of the chi-square distribution, via the regularized gamma Q
+function chiSquarePValue(chiSquare: number, degrees: number): number {
+  const a = degrees / 2;
+  const x = chiSquare / 2;
+  if (x <= 0) {
+    return 1;
+  }
+  if (x < a + 1) {
+    let term = 1 / a;
+    let sum = term;
+    for (let n = 1; n < 500; n++) {
+      term *= x / (a + n);
+      sum += term;
+      if (term < sum * 1e-12) break;
+    }
+    return Math.max(0, 1 - sum * Math.exp(-x + a * Math.log(x) - logGamma(a)));
+  }
+
+  // continued fraction (modified Lentz)
+  let b = x + 1 - a;
+  let c = 1e300;
+  let d = 1 / b;
+  let h = d;
+  for (let n = 1; n < 500; n++) {
+    const an = -n * (n - a);
+    b += 2;
+    d = an * d + b;
+    if (Math.abs(d) < 1e-300) d = 1e-300;
+    c = b + an / c;
+    if (Math.abs(c) < 1e-300) c = 1e-300;
+    d = 1 / d;
+    const delta = d * c;
+    h *= delta;
+    if (Math.abs(delta - 1) < 1e-12) break;
+  }
+  return Math.min(1, Math.exp(-x + a * Math.log(x) - logGamma(a)) * h);
+}
+
+function logGamma(value: number): number {
+  const coefficients = [
+    76.18009172947146, -86.50532032941677, 24.01409824083091,
+    -1.231739572450155, 0.1208650973866179e-2, -0.5395239384953e-5,
+  ];
+  let y = value;
+  const tmp = value + 5.5 - (value + 0.5) * Math.log(value + 5.5);
+  let series = 1.000000000190015;
+  for (const coefficient of coefficients) {
+    series += coefficient / ++y;
+  }
+  return -tmp + Math.log((2.5066282746310005 * series) / value);
 }
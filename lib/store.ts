@@ -0,0 +1,51 @@
+import fs from "fs";
+import path from "path";
+
+/**
+ * Minimal JSON-file persistence for server-side state that has no on-chain
+ * or IPFS home (key directory, access lists, ...). Each store is one file in
+ * AUTHENTICA_DATA_DIR (default: .authentica/ in the project root).
+ */
+export function getDataDir(): string {
+  const dir =
+    process.env.AUTHENTICA_DATA_DIR || path.join(process.cwd(), ".authentica");
+  if (!fs.existsSync(dir)) {
+    fs.mkdirSync(dir, { recursive: true });
+  }
+  return dir;
+}
+
+function storePath(name: string): string {
+  return path.join(getDataDir(), `${name}.json`);
+}
+
+export function readJsonStore<T>(name: string, fallback: T): T {
+  const file = storePath(name);
+  if (!fs.existsSync(file)) {
+    return fallback;
+  }
+
+  try {
+    return JSON.parse(fs.readFileSync(file, "utf8")) as T;
+  } catch (error) {
+    console.error(`failed to read store ${name}:`, error);
+    return fallback;
+  }
+}
+
+export function writeJsonStore<T>(name: string, value: T): void {
+  const file = storePath(name);
+  const tmp = `${file}.${process.pid}.tmp`;
+  fs.writeFileSync(tmp, JSON.stringify(value, null, 2));
+  fs.renameSync(tmp, file);
+}
+
+export function updateJsonStore<T>(
+  name: string,
+  fallback: T,
+  update: (current: T) => T
+): T {
+  const next = update(readJsonStore(name, fallback));
+  writeJsonStore(name, next);
+  return next;
+}
@@ -0,0 +1,132 @@
+import { describe, expect, it } from "vitest";
+import { DecodedImage, resizeImage } from "./pixels";
+import { computeTamperMap } from "./tamper";
+
+const WIDTH = 320;
+const HEIGHT = 240;
+
+// smooth gradients plus scattered discs, so every block has structure to align on
+function textured(): DecodedImage {
+  const data = new Uint8ClampedArray(WIDTH * HEIGHT * 4);
+  for (let y = 0; y < HEIGHT; y++) {
+    for (let x = 0; x < WIDTH; x++) {
+      const i = (y * WIDTH + x) * 4;
+      data[i] = 60 + x * 0.5 + 40 * Math.sin(y / 9);
+      data[i + 1] = 128 + 100 * Math.sin(x / 17) * Math.cos(y / 23);
+      data[i + 2] = ((x ^ y) & 63) * 3;
+      data[i + 3] = 255;
+    }
+  }
+  let seed = 7;
+  const random = () => (seed = (seed * 1103515245 + 12345) & 0x7fffffff) / 0x7fffffff;
+  for (let disc = 0; disc < 80; disc++) {
+    const cx = random() * WIDTH;
+    const cy = random() * HEIGHT;
+    const r = 3 + random() * 12;
+    const colour = [random() * 255, random() * 255, random() * 255];
+    for (let y = Math.max(0, Math.floor(cy - r)); y < Math.min(HEIGHT, cy + r); y++) {
+      for (let x = Math.max(0, Math.floor(cx - r)); x < Math.min(WIDTH, cx + r); x++) {
+        if ((x - cx) ** 2 + (y - cy) ** 2 < r * r) data.set(colour, (y * WIDTH + x) * 4);
+      }
+    }
+  }
+  return { width: WIDTH, height: HEIGHT, data };
+}
+
+function paint(
+  image: DecodedImage,
+  rect: { x: number; y: number; width: number; height: number },
+  recolour: (r: number, g: number, b: number) => number[]
+): DecodedImage {
+  const data = new Uint8ClampedArray(image.data);
+  for (let y = rect.y; y < rect.y + rect.height; y++) {
+    for (let x = rect.x; x < rect.x + rect.width; x++) {
+      const i = (y * image.width + x) * 4;
+      data.set(recolour(data[i], data[i + 1], data[i + 2]), i);
+    }
+  }
+  return { ...image, data };
+}
+
+function crop(image: DecodedImage, rect: { x: number; y: number; width: number; height: number }): DecodedImage {
+  const data = new Uint8ClampedArray(rect.width * rect.height * 4);
+  for (let y = 0; y < rect.height; y++) {
+    const start = ((rect.y + y) * image.width + rect.x) * 4;
+    data.set(image.data.subarray(start, start + rect.width * 4), y * rect.width * 4);
+  }
+  return { width: rect.width, height: rect.height, data };
+}
+
+const EDIT = { x: 200, y: 60, width: 48, height: 40 };
+
+function expectRegionOver(
+  regions: { x: number; y: number; width: number; height: number }[],
+  rect: typeof EDIT,
+  slack: number
+) {
+  expect(regions).toHaveLength(1);
+  const [region] = regions;
+  expect(Math.abs(region.x - rect.x)).toBeLessThanOrEqual(slack);
+  expect(Math.abs(region.y - rect.y)).toBeLessThanOrEqual(slack);
+  expect(Math.abs(region.x + region.width - (rect.x + rect.width))).toBeLessThanOrEqual(slack);
+  expect(Math.abs(region.y + region.height - (rect.y + rect.height))).toBeLessThanOrEqual(slack);
+}
+
+describe("computeTamperMap", () => {
+  const original = textured();
+
+  it("finds nothing in an identical or resized copy", () => {
+    const identical = computeTamperMap(original, original);
+    expect(identical.regions).toEqual([]);
+    expect(identical.changedFraction).toBe(0);
+
+    const resized = computeTamperMap(original, resizeImage(original, WIDTH / 2, HEIGHT / 2));
+    expect(resized.regions).toEqual([]);
+    expect(resized.alignment.scaleX).toBeCloseTo(0.5, 1);
+  });
+
+  it("localizes a painted-over patch", () => {
+    const map = computeTamperMap(original, paint(original, EDIT, () => [230, 20, 20]));
+    expectRegionOver(map.regions, EDIT, 12);
+    expect(map.regions[0].score).toBeGreaterThan(0.25);
+  });
+
+  it("localizes a recolouring that keeps the brightness", () => {
+    // BT.601: same luma, chroma moved towards red
+    const map = computeTamperMap(
+      original,
+      paint(original, EDIT, (r, g, b) => {
+        const luma = 0.299 * r + 0.587 * g + 0.114 * b;
+        const cb = -0.168736 * r - 0.331264 * g + 0.5 * b - 25;
+        const cr = 0.5 * r - 0.418688 * g - 0.081312 * b + 25;
+        return [luma + 1.402 * cr, luma - 0.344136 * cb - 0.714136 * cr, luma + 1.772 * cb];
+      })
+    );
+    expectRegionOver(map.regions, EDIT, 12);
+  });
+
+  it("reports regions in the uploaded image's coordinates", () => {
+    const edited = resizeImage(paint(original, EDIT, () => [230, 20, 20]), WIDTH / 2, HEIGHT / 2);
+    const map = computeTamperMap(original, edited);
+    expectRegionOver(
+      map.regions,
+      { x: EDIT.x / 2, y: EDIT.y / 2, width: EDIT.width / 2, height: EDIT.height / 2 },
+      8
+    );
+  });
+
+  it("places a cropped copy through the recovered homography", () => {
+    const area = { x: 60, y: 40, width: 220, height: 170 };
+    // original pixels to cropped pixels
+    const homography = [1, 0, -area.x, 0, 1, -area.y, 0, 0, 1];
+
+    expect(computeTamperMap(original, crop(original, area), homography).regions).toEqual([]);
+
+    const edited = crop(paint(original, EDIT, () => [230, 20, 20]), area);
+    expectRegionOver(
+      computeTamperMap(original, edited, homography).regions,
+      { ...EDIT, x: EDIT.x - area.x, y: EDIT.y - area.y },
+      12
+    );
+  });
+});
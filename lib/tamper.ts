@@ -0,0 +1,587 @@
+import { applyHomography, invertHomography } from "./geometry";
+import {
+  ChromaPlanes,
+  DecodedImage,
+  GrayImage,
+  meanChromaShift,
+  resizeGray,
+  toChroma,
+  toGrayscale,
+} from "./pixels";
+import { ssimMap, SSIM_WORKING_SIZE } from "./ssim";
+
+/**
+ * Tamper localisation: aligns the uploaded image to the original (by a
+ * translation search, or through the homography lib/geometry.ts recovered
+ * for a cropped or rotated copy), scores
+ * fixed-size blocks by local SSIM, absolute difference and colour shift,
+ * and groups the changed blocks into regions. Everything runs at the SSIM
+ * working size; regions are reported in the uploaded image's pixel
+ * coordinates.
+ */
+export interface TamperRegion {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  // mean and peak block score inside the region, 0 (unchanged) .. 1
+  score: number;
+  maxScore: number;
+  // share of the image covered by the region
+  area: number;
+}
+
+export interface Alignment {
+  // offset of the original's top-left corner in the uploaded image and the
+  // uploaded/original size ratio, in uploaded pixels
+  dx: number;
+  dy: number;
+  scaleX: number;
+  scaleY: number;
+  // mean absolute luma difference after alignment, 0..255
+  residual: number;
+}
+
+export interface TamperMap {
+  // block grid in original working coordinates, row-major
+  columns: number;
+  rows: number;
+  blockSize: number;
+  scores: Float64Array;
+  // working-size frame the overlay is drawn in (the upload's), and the
+  // homography from it to the block grid's pixels
+  width: number;
+  height: number;
+  toGrid: number[];
+  alignment: Alignment;
+  regions: TamperRegion[];
+  changedFraction: number;
+}
+
+const BLOCK_SIZE = 8;
+// blocks scoring at least this are "changed"; a JPEG re-encode stays < 0.1
+export const CHANGED_BLOCK_THRESHOLD = 0.25;
+// translation slack around the expected placement, in working pixels
+const MAX_SHIFT = 8;
+// uploads differing from the original's size by more than this are not
+// treated as crops or padding of it
+const MAX_CROP = 0.25;
+// absolute luma difference treated as a full-strength change
+const FULL_DIFFERENCE = 64;
+// distance between mean Cb/Cr treated as a full-strength change
+const FULL_CHROMA_DIFFERENCE = 48;
+
+// the upload's working planes resampled into the original's frame
+interface FrameAlignment {
+  upload: GrayImage;
+  // frame pixels -> upload working pixels, 3x3 row-major
+  toUpload: number[];
+  luma: GrayImage;
+  chroma: ChromaPlanes;
+  residual: number;
+}
+
+interface Placement {
+  upload: GrayImage;
+  dx: number;
+  dy: number;
+  residual: number;
+}
+
+// mean absolute difference over the overlap, with the upload shifted so that
+// original (x, y) meets upload (x + dx, y + dy)
+function meanAbsDifference(
+  original: GrayImage,
+  upload: GrayImage,
+  dx: number,
+  dy: number
+): number {
+  const x0 = Math.max(0, -dx);
+  const y0 = Math.max(0, -dy);
+  const x1 = Math.min(original.width, upload.width - dx);
+  const y1 = Math.min(original.height, upload.height - dy);
+  // too little overlap to say anything about the placement
+  if ((x1 - x0) * (y1 - y0) < (original.width * original.height) / 2) {
+    return Infinity;
+  }
+
+  let sum = 0;
+  for (let y = y0; y < y1; y++) {
+    for (let x = x0; x < x1; x++) {
+      sum += Math.abs(
+        original.data[y * original.width + x] -
+          upload.data[(y + dy) * upload.width + x + dx]
+      );
+    }
+  }
+  return sum / ((x1 - x0) * (y1 - y0));
+}
+
+/**
+ * Best integer translation of `upload` onto `original`: coarse 2px steps over
+ * every placement a crop or border could produce plus MAX_SHIFT of slack,
+ * then refined around the best one.
+ */
+function findTranslation(original: GrayImage, upload: GrayImage): Placement {
+  const spanX = upload.width - original.width;
+  const spanY = upload.height - original.height;
+  let best: Placement = { upload, dx: 0, dy: 0, residual: Infinity };
+
+  const consider = (dx: number, dy: number) => {
+    const residual = meanAbsDifference(original, upload, dx, dy);
+    if (residual < best.residual) {
+      best = { upload, dx, dy, residual };
+    }
+  };
+
+  for (let dy = Math.min(0, spanY) - MAX_SHIFT; dy <= Math.max(0, spanY) + MAX_SHIFT; dy += 2) {
+    for (let dx = Math.min(0, spanX) - MAX_SHIFT; dx <= Math.max(0, spanX) + MAX_SHIFT; dx += 2) {
+      consider(dx, dy);
+    }
+  }
+  const coarse = best;
+  for (let dy = coarse.dy - 1; dy <= coarse.dy + 1; dy++) {
+    for (let dx = coarse.dx - 1; dx <= coarse.dx + 1; dx++) {
+      consider(dx, dy);
+    }
+  }
+  return best;
+}
+
+/**
+ * Places the upload in the original's working frame. Three scale hypotheses
+ * are tried, each with a translation search: the upload is a resized copy
+ * (stretched onto the frame), or a crop / padded copy at the original's
+ * scale, matched by width or by height.
+ */
+function alignUpload(original: GrayImage, uploaded: GrayImage): Placement {
+  const sizes = [
+    { width: original.width, height: original.height },
+    {
+      width: original.width,
+      height: Math.round((uploaded.height * original.width) / uploaded.width),
+    },
+    {
+      width: Math.round((uploaded.width * original.height) / uploaded.height),
+      height: original.height,
+    },
+  ].filter(
+    (size, index) =>
+      index === 0 ||
+      (Math.abs(size.width - original.width) <= original.width * MAX_CROP &&
+        Math.abs(size.height - original.height) <= original.height * MAX_CROP &&
+        (size.width !== original.width || size.height !== original.height))
+  );
+
+  let best: Placement | null = null;
+  for (const size of sizes) {
+    const placement = findTranslation(
+      original,
+      resizeGray(uploaded, size.width, size.height)
+    );
+    if (!best || placement.residual < best.residual) {
+      best = placement;
+    }
+  }
+  return best!;
+}
+
+// the upload resampled into the original's frame; pixels it does not cover
+// are copied from the original so they score as unchanged
+function shiftInto(original: GrayImage, placement: Placement): GrayImage {
+  const { width, height } = original;
+  const { upload, dx, dy } = placement;
+  const out = new Float64Array(width * height);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const sx = x + dx;
+      const sy = y + dy;
+      out[y * width + x] =
+        sx >= 0 && sx < upload.width && sy >= 0 && sy < upload.height
+          ? upload.data[sy * upload.width + sx]
+          : original.data[y * width + x];
+    }
+  }
+  return { width, height, data: out };
+}
+
+/**
+ * Bilinear warp of the upload's planes into the frame through `toUpload`.
+ * Frame pixels the upload does not cover keep the original's value, so they
+ * score as unchanged.
+ */
+function warpInto(
+  originals: GrayImage[],
+  uploads: GrayImage[],
+  toUpload: number[]
+): { planes: GrayImage[]; residual: number } {
+  const { width, height } = originals[0];
+  const upload = uploads[0];
+  const planes = originals.map((plane) => new Float64Array(plane.data));
+  let residual = 0;
+  let covered = 0;
+
+  // the outermost frame pixels are skipped: a rotated copy's canvas fill
+  // sits right next to the original's border and bleeds into it
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const [sx, sy] = applyHomography(toUpload, [x + 0.5, y + 0.5]);
+      const fx = sx - 0.5;
+      const fy = sy - 0.5;
+      const x0 = Math.floor(fx);
+      const y0 = Math.floor(fy);
+      if (x0 < 0 || y0 < 0 || x0 + 1 >= upload.width || y0 + 1 >= upload.height) {
+        continue;
+      }
+
+      const ax = fx - x0;
+      const ay = fy - y0;
+      const topLeft = y0 * upload.width + x0;
+      const bottomLeft = topLeft + upload.width;
+      uploads.forEach((plane, p) => {
+        planes[p][y * width + x] =
+          plane.data[topLeft] * (1 - ax) * (1 - ay) +
+          plane.data[topLeft + 1] * ax * (1 - ay) +
+          plane.data[bottomLeft] * (1 - ax) * ay +
+          plane.data[bottomLeft + 1] * ax * ay;
+      });
+      residual += Math.abs(planes[0][y * width + x] - originals[0].data[y * width + x]);
+      covered++;
+    }
+  }
+
+  return {
+    planes: planes.map((data) => ({ width, height, data })),
+    residual: covered > 0 ? residual / covered : Infinity,
+  };
+}
+
+// diag(output) * h * diag(input): h with its input and output rescaled
+function rescaleHomography(
+  h: number[],
+  input: [number, number],
+  output: [number, number]
+): number[] {
+  const inputScale = [input[0], input[1], 1];
+  const outputScale = [output[0], output[1], 1];
+  return h.map(
+    (value, i) => value * outputScale[Math.floor(i / 3)] * inputScale[i % 3]
+  );
+}
+
+/**
+ * Colour shift around a block, 0..1, over a window half a block wider on
+ * each side so a colour edge moved across the block boundary still averages
+ * out.
+ */
+function colourShift(
+  original: ChromaPlanes,
+  aligned: ChromaPlanes,
+  column: number,
+  row: number
+): number {
+  const margin = BLOCK_SIZE / 2;
+  const shift = meanChromaShift(
+    original,
+    aligned,
+    column * BLOCK_SIZE - margin,
+    row * BLOCK_SIZE - margin,
+    (column + 1) * BLOCK_SIZE + margin,
+    (row + 1) * BLOCK_SIZE + margin
+  );
+  return Math.min(1, shift / FULL_CHROMA_DIFFERENCE);
+}
+
+function blockScores(
+  original: GrayImage,
+  aligned: GrayImage,
+  originalChroma: ChromaPlanes,
+  alignedChroma: ChromaPlanes,
+  columns: number,
+  rows: number
+): Float64Array {
+  const { width } = original;
+  const ssim = ssimMap(original, aligned);
+  // the SSIM map is the "valid" region, inset by half the window
+  const inset = (original.width - ssim.width) / 2;
+
+  const scores = new Float64Array(columns * rows);
+  for (let row = 0; row < rows; row++) {
+    for (let column = 0; column < columns; column++) {
+      let diffSum = 0;
+      let ssimSum = 0;
+      let ssimCount = 0;
+      let pixels = 0;
+
+      for (let y = row * BLOCK_SIZE; y < (row + 1) * BLOCK_SIZE; y++) {
+        for (let x = column * BLOCK_SIZE; x < (column + 1) * BLOCK_SIZE; x++) {
+          diffSum += Math.abs(original.data[y * width + x] - aligned.data[y * width + x]);
+          pixels++;
+
+          const mx = Math.min(ssim.width - 1, Math.max(0, x - inset));
+          const my = Math.min(ssim.height - 1, Math.max(0, y - inset));
+          ssimSum += ssim.map[my * ssim.width + mx];
+          ssimCount++;
+        }
+      }
+
+      const difference = Math.min(1, diffSum / pixels / FULL_DIFFERENCE);
+      const dissimilarity = Math.min(1, Math.max(0, 1 - ssimSum / ssimCount));
+      // a recolour that keeps the brightness leaves the luma terms at zero,
+      // so the colour change counts on its own
+      const colour = colourShift(originalChroma, alignedChroma, column, row);
+      scores[row * columns + column] = Math.max(
+        0.5 * difference + 0.5 * dissimilarity,
+        colour
+      );
+    }
+  }
+  return scores;
+}
+
+function findRegions(
+  scores: Float64Array,
+  columns: number,
+  rows: number
+): { blocks: number[]; minColumn: number; maxColumn: number; minRow: number; maxRow: number }[] {
+  const visited = new Uint8Array(scores.length);
+  const components = [];
+
+  for (let start = 0; start < scores.length; start++) {
+    if (visited[start] || scores[start] < CHANGED_BLOCK_THRESHOLD) {
+      continue;
+    }
+
+    const blocks: number[] = [];
+    const stack = [start];
+    visited[start] = 1;
+    let minColumn = columns;
+    let maxColumn = 0;
+    let minRow = rows;
+    let maxRow = 0;
+
+    while (stack.length > 0) {
+      const index = stack.pop()!;
+      blocks.push(index);
+      const column = index % columns;
+      const row = Math.floor(index / columns);
+      minColumn = Math.min(minColumn, column);
+      maxColumn = Math.max(maxColumn, column);
+      minRow = Math.min(minRow, row);
+      maxRow = Math.max(maxRow, row);
+
+      // 8-connected, so diagonal strokes stay one region
+      for (let ny = row - 1; ny <= row + 1; ny++) {
+        for (let nx = column - 1; nx <= column + 1; nx++) {
+          const next = ny * columns + nx;
+          if (
+            nx >= 0 && nx < columns && ny >= 0 && ny < rows &&
+            !visited[next] && scores[next] >= CHANGED_BLOCK_THRESHOLD
+          ) {
+            visited[next] = 1;
+            stack.push(next);
+          }
+        }
+      }
+    }
+
+    components.push({ blocks, minColumn, maxColumn, minRow, maxRow });
+  }
+  return components;
+}
+
+/**
+ * `homography` maps original pixels to uploaded pixels. Pass the one
+ * lib/geometry.ts recovered for a cropped, rotated or skewed copy; without
+ * it the upload is placed by a translation search, which only covers
+ * resizes, small crops and borders.
+ */
+export function computeTamperMap(
+  original: DecodedImage,
+  uploaded: DecodedImage,
+  homography?: number[] | null
+): TamperMap {
+  const scale = Math.min(1, SSIM_WORKING_SIZE / Math.max(original.width, original.height));
+  // whole blocks only; the last partial row/column is ignored
+  const columns = Math.max(2, Math.floor((original.width * scale) / BLOCK_SIZE));
+  const rows = Math.max(2, Math.floor((original.height * scale) / BLOCK_SIZE));
+  const width = columns * BLOCK_SIZE;
+  const height = rows * BLOCK_SIZE;
+
+  const originalGray = resizeGray(toGrayscale(original), width, height);
+  const { cb, cr } = toChroma(original);
+  const originalChroma = {
+    cb: resizeGray(cb, width, height),
+    cr: resizeGray(cr, width, height),
+  };
+  // downscaled once up front; alignUpload resizes it again per hypothesis
+  const uploadScale = Math.min(1, (SSIM_WORKING_SIZE * 1.5) / Math.max(uploaded.width, uploaded.height));
+  const uploadWidth = Math.max(1, Math.round(uploaded.width * uploadScale));
+  const uploadHeight = Math.max(1, Math.round(uploaded.height * uploadScale));
+  const uploadedGray = resizeGray(toGrayscale(uploaded), uploadWidth, uploadHeight);
+  const uploadedChroma = toChroma(uploaded);
+  const uploadedCb = resizeGray(uploadedChroma.cb, uploadWidth, uploadHeight);
+  const uploadedCr = resizeGray(uploadedChroma.cr, uploadWidth, uploadHeight);
+
+  let frame: FrameAlignment;
+  if (homography) {
+    const toUpload = rescaleHomography(
+      homography,
+      [original.width / width, original.height / height],
+      [uploadWidth / uploaded.width, uploadHeight / uploaded.height]
+    );
+    const { planes, residual } = warpInto(
+      [originalGray, originalChroma.cb, originalChroma.cr],
+      [uploadedGray, uploadedCb, uploadedCr],
+      toUpload
+    );
+    frame = {
+      upload: uploadedGray,
+      toUpload,
+      luma: planes[0],
+      chroma: { cb: planes[1], cr: planes[2] },
+      residual,
+    };
+  } else {
+    // aligned on luma, then the chroma planes follow the same placement
+    const placement = alignUpload(originalGray, uploadedGray);
+    const { upload } = placement;
+    const place = (plane: GrayImage, originalPlane: GrayImage) =>
+      shiftInto(originalPlane, {
+        ...placement,
+        upload: resizeGray(plane, upload.width, upload.height),
+      });
+    frame = {
+      upload,
+      toUpload: [1, 0, placement.dx, 0, 1, placement.dy, 0, 0, 1],
+      luma: shiftInto(originalGray, placement),
+      chroma: {
+        cb: place(uploadedCb, originalChroma.cb),
+        cr: place(uploadedCr, originalChroma.cr),
+      },
+      residual: placement.residual,
+    };
+  }
+
+  const { upload, toUpload } = frame;
+  const toGrid = invertHomography(toUpload);
+  if (!toGrid) {
+    throw new Error("the alignment cannot be inverted");
+  }
+  const scores = blockScores(
+    originalGray,
+    frame.luma,
+    originalChroma,
+    frame.chroma,
+    columns,
+    rows
+  );
+
+  // working pixels of the placed upload -> uploaded image pixels
+  const scaleX = uploaded.width / upload.width;
+  const scaleY = uploaded.height / upload.height;
+
+  const regions = findRegions(scores, columns, rows)
+    .map(({ blocks, minColumn, maxColumn, minRow, maxRow }) => {
+      const blockValues = blocks.map((index) => scores[index]);
+      // bounding box of the region's corners in the placed upload's frame
+      const corners = [
+        [minColumn, minRow], [maxColumn + 1, minRow],
+        [maxColumn + 1, maxRow + 1], [minColumn, maxRow + 1],
+      ].map(([column, row]) =>
+        applyHomography(toUpload, [column * BLOCK_SIZE, row * BLOCK_SIZE])
+      );
+      const x0 = Math.max(0, Math.min(...corners.map((p) => p[0])));
+      const y0 = Math.max(0, Math.min(...corners.map((p) => p[1])));
+      const x1 = Math.min(upload.width, Math.max(...corners.map((p) => p[0])));
+      const y1 = Math.min(upload.height, Math.max(...corners.map((p) => p[1])));
+
+      return {
+        x: Math.round(x0 * scaleX),
+        y: Math.round(y0 * scaleY),
+        width: Math.round(Math.max(0, x1 - x0) * scaleX),
+        height: Math.round(Math.max(0, y1 - y0) * scaleY),
+        score: blockValues.reduce((sum, v) => sum + v, 0) / blockValues.length,
+        maxScore: Math.max(...blockValues),
+        area: blocks.length / scores.length,
+      };
+    })
+    .filter((region) => region.width > 0 && region.height > 0)
+    .sort((a, b) => b.score * b.area - a.score * a.area);
+
+  const changed = scores.filter((score) => score >= CHANGED_BLOCK_THRESHOLD).length;
+
+  // the alignment in full-resolution pixels: original -> uploaded
+  const full = rescaleHomography(
+    toUpload,
+    [width / original.width, height / original.height],
+    [scaleX, scaleY]
+  );
+  const [dx, dy] = applyHomography(full, [0, 0]);
+
+  return {
+    columns,
+    rows,
+    blockSize: BLOCK_SIZE,
+    scores,
+    width: upload.width,
+    height: upload.height,
+    toGrid,
+    alignment: {
+      dx: Math.round(dx),
+      dy: Math.round(dy),
+      scaleX: Math.hypot(full[0], full[3]) / full[8],
+      scaleY: Math.hypot(full[1], full[4]) / full[8],
+      residual: frame.residual,
+    },
+    regions,
+    changedFraction: changed / scores.length,
+  };
+}
+
+/**
+ * RGBA heatmap in the upload's working frame: transparent where nothing
+ * changed, yellow to red with rising opacity as block scores grow, and an
+ * outline around each changed region. Stretched over the uploaded image.
+ */
+export function renderTamperOverlay(map: TamperMap): DecodedImage {
+  const { width, height, columns, rows, blockSize, scores, toGrid } = map;
+  const data = new Uint8Array(width * height * 4);
+
+  const scoreAt = (x: number, y: number) => {
+    // overlay pixels are in the upload's frame, scores in the original's
+    const [gx, gy] = applyHomography(toGrid, [x + 0.5, y + 0.5]);
+    const column = Math.floor(gx / blockSize);
+    const row = Math.floor(gy / blockSize);
+    if (column < 0 || column >= columns || row < 0 || row >= rows) {
+      return 0;
+    }
+    return scores[row * columns + column];
+  };
+  const isChanged = (x: number, y: number) =>
+    scoreAt(x, y) >= CHANGED_BLOCK_THRESHOLD;
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const score = Math.min(1, scoreAt(x, y));
+      const i = (y * width + x) * 4;
+      const changed = score >= CHANGED_BLOCK_THRESHOLD;
+      const edge =
+        changed &&
+        (!isChanged(x - 1, y) || !isChanged(x + 1, y) ||
+          !isChanged(x, y - 1) || !isChanged(x, y + 1));
+
+      if (edge) {
+        data[i] = 255;
+        data[i + 3] = 255;
+      } else if (score >= CHANGED_BLOCK_THRESHOLD / 2) {
+        // faint below the threshold so near-misses are still visible
+        data[i] = 255;
+        data[i + 1] = Math.round(220 * (1 - score));
+        data[i + 3] = Math.round((changed ? 90 : 40) + 120 * score);
+      }
+    }
+  }
+
+  return { width, height, data };
+}
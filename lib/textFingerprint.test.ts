@@ -0,0 +1,67 @@
+import { describe, expect, it } from "vitest";
+import {
+  compareTextSignatures,
+  computeTextSignature,
+  isTextSignature,
+  normalizeText,
+} from "./textFingerprint";
+
+const ORIGINAL = [
+  "The lighthouse keeper climbed the spiral stairs every evening, carrying a lantern and a notebook.",
+  "From the gallery she watched fishing boats return through the narrow channel between the rocks.",
+  "Storms arrived from the west without warning, and the beam had to turn until the sea calmed again.",
+  "Years later the harbour was rebuilt, the keeper retired, and an automatic lamp replaced her careful routine.",
+  "Visitors still climb the tower to read the notebook she left, its pages filled with weather and ships.",
+].join(" ");
+
+const compare = (original: string, upload: string) =>
+  compareTextSignatures(computeTextSignature(original), computeTextSignature(upload));
+
+describe("normalizeText", () => {
+  it("folds case, accents and suffixes and drops stop words", () => {
+    expect(normalizeText("The Café WINDOWS were glowing")).toEqual(normalizeText("the cafe window glow"));
+  });
+});
+
+describe("text signatures", () => {
+  it("survives a JSON round trip", () => {
+    const signature = computeTextSignature(ORIGINAL);
+    expect(isTextSignature(JSON.parse(JSON.stringify(signature)))).toBe(true);
+  });
+
+  it("matches a copy with different punctuation and casing", () => {
+    const match = compare(ORIGINAL, ORIGINAL.toUpperCase().replace(/[.,]/g, ";"));
+    expect(match.shingles.resemblance).toBe(1);
+    expect(match.excerpt || match.extended || match.paraphrased).toBe(false);
+  });
+
+  it("recognizes an excerpt and an extended copy", () => {
+    const sentences = ORIGINAL.split(/(?<=\.) /);
+    expect(compare(ORIGINAL, sentences.slice(1, 3).join(" ")).excerpt).toBe(true);
+    expect(
+      compare(ORIGINAL, `${ORIGINAL} A new owner painted the door red and opened a small museum downstairs.`).extended
+    ).toBe(true);
+  });
+
+  it("recognizes a reordered paraphrase", () => {
+    const paraphrase = [
+      "Each evening, lantern and notebook in hand, the keeper of the lighthouse climbed its spiral stairs.",
+      "Fishing boats came home through the rocky, narrow channel while she watched from the gallery.",
+      "Without warning, western storms arrived; until the sea was calm again, the beam kept turning.",
+      "Years later an automatic lamp replaced her careful routine, the keeper retired and the harbour was rebuilt.",
+      "Her notebook, full of ships and weather, is still read by visitors who climb the tower.",
+    ].join(" ");
+    const match = compare(ORIGINAL, paraphrase);
+    expect(match.paraphrased).toBe(true);
+    expect(match.excerpt).toBe(false);
+  });
+
+  it("does not match an unrelated text", () => {
+    const match = compare(
+      ORIGINAL,
+      "Quarterly revenue grew across every region, driven by subscription renewals and lower hardware costs."
+    );
+    expect(match.shingles.uploadInOriginal).toBe(0);
+    expect(match.paraphrased).toBe(false);
+  });
+});
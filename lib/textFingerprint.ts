@@ -0,0 +1,219 @@
+/**
+ * Text provenance signature: bottom-k MinHash sketches over normalized text.
+ * Words are case- and accent-folded, stop words dropped and suffixes
+ * stripped, so punctuation, casing and small wording changes do not matter.
+ * Two sketches are kept: word shingles, which catch copies and excerpts,
+ * and single terms, which survive reordering and most paraphrasing.
+ */
+export interface MinHashSketch {
+  // distinct items in the full set; above SKETCH_SIZE only the smallest
+  // hashes are kept
+  count: number;
+  // base64 of ascending little-endian uint32 hashes
+  hashes: string;
+}
+
+export interface TextSignature {
+  version: number;
+  // content words after normalization
+  words: number;
+  shingleSize: number;
+  shingles: MinHashSketch;
+  terms: MinHashSketch;
+}
+
+export interface SetOverlap {
+  // Jaccard resemblance of the two sets, 0..1
+  resemblance: number;
+  // share of the upload's set found in the original, 0..1
+  uploadInOriginal: number;
+  // share of the original's set found in the upload, 0..1
+  originalInUpload: number;
+}
+
+export interface TextMatch {
+  shingles: SetOverlap;
+  terms: SetOverlap;
+  uploadWords: number;
+  originalWords: number;
+  // the upload is a part of the original
+  excerpt: boolean;
+  // the original appears inside a longer upload
+  extended: boolean;
+  // same content words, mostly different phrasing
+  paraphrased: boolean;
+}
+
+export const TEXT_SIGNATURE_VERSION = 1;
+
+const SHINGLE_SIZE = 2;
+// generated texts stay below this many shingles, so their sketches are exact
+const SKETCH_SIZE = 256;
+// guards normalization against oversized uploads
+const MAX_CHARACTERS = 1_000_000;
+
+// share thresholds on the shingle and term sets
+const CONTAINED = 0.8;
+const COPIED = 0.95;
+const PARAPHRASE_SHINGLES = 0.25;
+const PARAPHRASE_TERMS = 0.6;
+
+const STOP_WORDS = new Set([
+  "a", "about", "above", "after", "again", "all", "also", "am", "an", "and",
+  "any", "are", "as", "at", "be", "because", "been", "before", "being",
+  "below", "between", "both", "but", "by", "can", "could", "did", "do",
+  "does", "doing", "down", "during", "each", "few", "for", "from", "further",
+  "had", "has", "have", "having", "he", "her", "here", "hers", "him", "his",
+  "how", "i", "if", "in", "into", "is", "it", "its", "itself", "just", "me",
+  "more", "most", "my", "no", "nor", "not", "now", "of", "off", "on", "once",
+  "only", "or", "other", "our", "ours", "out", "over", "own", "same", "she",
+  "should", "so", "some", "such", "than", "that", "the", "their", "theirs",
+  "them", "then", "there", "these", "they", "this", "those", "through", "to",
+  "too", "under", "until", "up", "very", "was", "we", "were", "what", "when",
+  "where", "which", "while", "who", "whom", "why", "will", "with", "would",
+  "you", "your", "yours",
+]);
+
+// longest first, so "ness" is tried before "s"
+const SUFFIXES = ["ations", "ation", "ments", "ment", "ness", "ings", "ing", "edly", "ies", "ied", "ly", "ed", "es", "s"];
+const MIN_STEM_LENGTH = 3;
+
+export function normalizeText(text: string): string[] {
+  return text
+    .slice(0, MAX_CHARACTERS)
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter((word) => word.length > 0 && !STOP_WORDS.has(word))
+    .map(stem);
+}
+
+function stem(word: string): string {
+  for (const suffix of SUFFIXES) {
+    if (word.endsWith(suffix) && word.length - suffix.length >= MIN_STEM_LENGTH) {
+      return word.slice(0, -suffix.length);
+    }
+  }
+  return word;
+}
+
+export function computeTextSignature(text: string): TextSignature {
+  const words = normalizeText(text);
+  const shingles: string[] = [];
+  for (let i = 0; i + SHINGLE_SIZE <= words.length; i++) {
+    shingles.push(words.slice(i, i + SHINGLE_SIZE).join(" "));
+  }
+  // texts shorter than one shingle still get a single item
+  if (shingles.length === 0 && words.length > 0) {
+    shingles.push(words.join(" "));
+  }
+
+  return {
+    version: TEXT_SIGNATURE_VERSION,
+    words: words.length,
+    shingleSize: SHINGLE_SIZE,
+    shingles: sketch(shingles),
+    terms: sketch(words),
+  };
+}
+
+export function isTextSignature(value: any): value is TextSignature {
+  return (
+    !!value &&
+    value.version === TEXT_SIGNATURE_VERSION &&
+    typeof value.words === "number" &&
+    value.shingleSize === SHINGLE_SIZE &&
+    isSketch(value.shingles) &&
+    isSketch(value.terms)
+  );
+}
+
+function isSketch(value: any): value is MinHashSketch {
+  return !!value && typeof value.count === "number" && typeof value.hashes === "string";
+}
+
+function sketch(items: string[]): MinHashSketch {
+  const distinct = Array.from(new Set(items.map(hashItem)));
+  const hashes = Uint32Array.from(distinct).sort().slice(0, SKETCH_SIZE);
+  return {
+    count: distinct.length,
+    hashes: Buffer.from(hashes.buffer, hashes.byteOffset, hashes.byteLength).toString("base64"),
+  };
+}
+
+function decodeSketch(value: MinHashSketch): Uint32Array {
+  const bytes = Buffer.from(value.hashes, "base64");
+  const hashes = new Uint32Array(Math.floor(bytes.length / 4));
+  for (let i = 0; i < hashes.length; i++) {
+    hashes[i] = bytes.readUInt32LE(i * 4);
+  }
+  return hashes;
+}
+
+// FNV-1a with a murmur3 finalizer, so the bottom-k are a uniform sample
+function hashItem(item: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < item.length; i++) {
+    hash ^= item.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  hash ^= hash >>> 16;
+  hash = Math.imul(hash, 0x85ebca6b);
+  hash ^= hash >>> 13;
+  hash = Math.imul(hash, 0xc2b2ae35);
+  hash ^= hash >>> 16;
+  return hash >>> 0;
+}
+
+/**
+ * Below the smaller of the two sketches' cut-offs both sketches hold every
+ * hash of their set, so the overlap there is an unbiased sample of the
+ * overlap of the full sets.
+ */
+function compareSketches(original: MinHashSketch, upload: MinHashSketch): SetOverlap {
+  const originalHashes = decodeSketch(original);
+  const uploadHashes = decodeSketch(upload);
+  const limit = Math.min(cutoff(original, originalHashes), cutoff(upload, uploadHashes));
+
+  const originalSample = new Set(Array.from(originalHashes).filter((hash) => hash <= limit));
+  const uploadSample = Array.from(uploadHashes).filter((hash) => hash <= limit);
+  const shared = uploadSample.filter((hash) => originalSample.has(hash)).length;
+  const union = originalSample.size + uploadSample.length - shared;
+
+  return {
+    resemblance: union > 0 ? shared / union : 0,
+    uploadInOriginal: uploadSample.length > 0 ? shared / uploadSample.length : 0,
+    originalInUpload: originalSample.size > 0 ? shared / originalSample.size : 0,
+  };
+}
+
+function cutoff(value: MinHashSketch, hashes: Uint32Array): number {
+  return value.count > hashes.length ? hashes[hashes.length - 1] : 0xffffffff;
+}
+
+export function compareTextSignatures(original: TextSignature, upload: TextSignature): TextMatch {
+  const shingles = compareSketches(original.shingles, upload.shingles);
+  const terms = compareSketches(original.terms, upload.terms);
+  const excerpt =
+    shingles.uploadInOriginal >= CONTAINED && shingles.originalInUpload < CONTAINED;
+  const extended =
+    shingles.originalInUpload >= COPIED && shingles.uploadInOriginal < COPIED;
+  // below CONTAINED the shared shingles are scattered rather than one copied
+  // passage; shared vocabulary alone is common to any two texts on a topic
+  const paraphrased =
+    shingles.uploadInOriginal < CONTAINED &&
+    shingles.originalInUpload < CONTAINED &&
+    shingles.uploadInOriginal >= PARAPHRASE_SHINGLES &&
+    terms.uploadInOriginal >= PARAPHRASE_TERMS;
+
+  return {
+    shingles,
+    terms,
+    uploadWords: upload.words,
+    originalWords: original.words,
+    excerpt,
+    extended,
+    paraphrased,
+  };
+}
@@ -0,0 +1,492 @@
+import { x25519 } from "@noble/curves/ed25519";
+import { ethers } from "ethers";
+import type { RecipientWrap } from "./encryption";
+
+/**
+ * Browser side of the v2 payload format described in lib/encryption.ts.
+ * The X25519 private key is derived from a wallet signature over a fixed
+ * message, so it is reproducible by the wallet holder and never sent to the
+ * server.
+ */
+
+export type SignMessage = (message: string) => Promise<string>;
+
+const PAYLOAD_MAGIC = new TextEncoder().encode("AENC");
+const KEY_WRAP_INFO = new TextEncoder().encode("authentica-v2-key-wrap");
+
+const derivedKeys = new Map<string, Uint8Array>();
+
+export function encryptionKeyMessage(address: string): string {
+  return (
+    "Authentica encryption key\n\n" +
+    "Signing this message unlocks your private Authentica content. " +
+    "Only sign it on the Authentica site.\n\n" +
+    `Wallet: ${address.toLowerCase()}`
+  );
+}
+
+export function encryptionKeyRegistrationMessage(
+  publicKey: string,
+  issuedAt: number
+): string {
+  return (
+    "Authentica encryption key registration\n\n" +
+    `Public key: ${publicKey}\n` +
+    `Issued at: ${issuedAt}`
+  );
+}
+
+export function accessGrantMessage(
+  combinedHash: string,
+  recipient: string,
+  issuedAt: number
+): string {
+  return (
+    "Authentica access grant\n\n" +
+    `Proof: ${combinedHash}\n` +
+    `Recipient: ${recipient.toLowerCase()}\n` +
+    `Issued at: ${issuedAt}`
+  );
+}
+
+export function accessRevokeMessage(
+  combinedHash: string,
+  recipient: string,
+  issuedAt: number
+): string {
+  return (
+    "Authentica access revoke\n\n" +
+    `Proof: ${combinedHash}\n` +
+    `Recipient: ${recipient.toLowerCase()}\n` +
+    `Issued at: ${issuedAt}`
+  );
+}
+
+export function reproduceRequestMessage(
+  combinedHash: string,
+  issuedAt: number
+): string {
+  return (
+    "Authentica reproduction request\n\n" +
+    `Proof: ${combinedHash}\n` +
+    `Issued at: ${issuedAt}`
+  );
+}
+
+export function legacyDecryptMessage(ipfsCid: string): string {
+  return `Authentica legacy decrypt request\n\nCID: ${ipfsCid}`;
+}
+
+async function getWalletPrivateKey(
+  address: string,
+  signMessage: SignMessage
+): Promise<Uint8Array> {
+  const cacheKey = address.toLowerCase();
+  const cached = derivedKeys.get(cacheKey);
+  if (cached) {
+    return cached;
+  }
+
+  const signature = await signMessage(encryptionKeyMessage(address));
+  const privateKey = ethers.getBytes(ethers.sha256(signature));
+  derivedKeys.set(cacheKey, privateKey);
+
+  return privateKey;
+}
+
+export async function getWalletEncryptionPublicKey(
+  address: string,
+  signMessage: SignMessage
+): Promise<string> {
+  const privateKey = await getWalletPrivateKey(address, signMessage);
+  return ethers.hexlify(x25519.getPublicKey(privateKey)).slice(2);
+}
+
+/**
+ * Makes sure the key directory holds this wallet's current encryption public
+ * key, so other wallets can share content with it and /api/generate can wrap
+ * the creator's own copy.
+ */
+export async function ensureEncryptionKeyRegistered(
+  address: string,
+  signMessage: SignMessage
+): Promise<string> {
+  const publicKey = await getWalletEncryptionPublicKey(address, signMessage);
+
+  const existing = await fetch(
+    `/api/keys?address=${encodeURIComponent(address)}`
+  ).then((response) => response.json());
+  if (existing.success && existing.publicKey === publicKey) {
+    return publicKey;
+  }
+
+  const issuedAt = Date.now();
+  const signature = await signMessage(
+    encryptionKeyRegistrationMessage(publicKey, issuedAt)
+  );
+  const response = await fetch("/api/keys", {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify({ address, publicKey, issuedAt, signature }),
+  });
+  const data = await response.json();
+  if (!data.success) {
+    throw new Error(data.error || "Failed to register encryption key");
+  }
+
+  return publicKey;
+}
+
+function hasPayloadVersion(payload: Uint8Array, version: number): boolean {
+  return (
+    payload.length > PAYLOAD_MAGIC.length &&
+    PAYLOAD_MAGIC.every((byte, i) => payload[i] === byte) &&
+    payload[PAYLOAD_MAGIC.length] === version
+  );
+}
+
+export function isWalletWrappedPayload(payload: Uint8Array): boolean {
+  return hasPayloadVersion(payload, 2);
+}
+
+export function isEnvelopePayload(payload: Uint8Array): boolean {
+  return hasPayloadVersion(payload, 3);
+}
+
+// WebCrypto wants ArrayBuffer-backed views; copying also detaches the input
+// from any larger payload buffer it was sliced from.
+function toBufferSource(bytes: Uint8Array): Uint8Array<ArrayBuffer> {
+  return new Uint8Array(bytes);
+}
+
+async function aesGcmDecrypt(
+  keyBytes: Uint8Array,
+  iv: Uint8Array,
+  ciphertextWithTag: Uint8Array
+): Promise<Uint8Array> {
+  const key = await crypto.subtle.importKey(
+    "raw",
+    toBufferSource(keyBytes),
+    "AES-GCM",
+    false,
+    ["decrypt"]
+  );
+  const plaintext = await crypto.subtle.decrypt(
+    { name: "AES-GCM", iv: toBufferSource(iv) },
+    key,
+    toBufferSource(ciphertextWithTag)
+  );
+  return new Uint8Array(plaintext);
+}
+
+async function deriveWrappingKey(
+  sharedSecret: Uint8Array,
+  ephemeralPublicKey: Uint8Array
+): Promise<Uint8Array> {
+  const hkdfKey = await crypto.subtle.importKey(
+    "raw",
+    toBufferSource(sharedSecret),
+    "HKDF",
+    false,
+    ["deriveBits"]
+  );
+  return new Uint8Array(
+    await crypto.subtle.deriveBits(
+      {
+        name: "HKDF",
+        hash: "SHA-256",
+        salt: toBufferSource(ephemeralPublicKey),
+        info: KEY_WRAP_INFO,
+      },
+      hkdfKey,
+      256
+    )
+  );
+}
+
+/** Browser twin of wrapContentKey() in lib/encryption.ts. */
+export async function wrapContentKeyForRecipient(
+  contentKey: Uint8Array,
+  recipient: string,
+  recipientPublicKey: string
+): Promise<RecipientWrap> {
+  const ephemeralPrivateKey = x25519.utils.randomPrivateKey();
+  const ephemeralPublicKey = x25519.getPublicKey(ephemeralPrivateKey);
+  const sharedSecret = x25519.getSharedSecret(
+    ephemeralPrivateKey,
+    ethers.getBytes("0x" + recipientPublicKey.replace(/^0x/, ""))
+  );
+  const wrappingKey = await deriveWrappingKey(sharedSecret, ephemeralPublicKey);
+
+  const wrapIv = crypto.getRandomValues(new Uint8Array(12));
+  const key = await crypto.subtle.importKey(
+    "raw",
+    toBufferSource(wrappingKey),
+    "AES-GCM",
+    false,
+    ["encrypt"]
+  );
+  const wrappedKey = new Uint8Array(
+    await crypto.subtle.encrypt(
+      { name: "AES-GCM", iv: wrapIv },
+      key,
+      toBufferSource(contentKey)
+    )
+  );
+
+  return {
+    address: recipient.toLowerCase(),
+    ephemeralPublicKey: ethers.hexlify(ephemeralPublicKey).slice(2),
+    wrapIv: ethers.hexlify(wrapIv).slice(2),
+    wrappedKey: ethers.hexlify(wrappedKey).slice(2),
+  };
+}
+
+export async function unwrapContentKey(
+  wrap: {
+    ephemeralPublicKey: Uint8Array;
+    wrapIv: Uint8Array;
+    wrappedKey: Uint8Array;
+  },
+  privateKey: Uint8Array
+): Promise<Uint8Array> {
+  const sharedSecret = x25519.getSharedSecret(
+    privateKey,
+    wrap.ephemeralPublicKey
+  );
+
+  const wrappingKey = await deriveWrappingKey(
+    sharedSecret,
+    wrap.ephemeralPublicKey
+  );
+
+  return aesGcmDecrypt(wrappingKey, wrap.wrapIv, wrap.wrappedKey);
+}
+
+export async function decryptWalletPayload(
+  payload: Uint8Array,
+  address: string,
+  signMessage: SignMessage
+): Promise<Uint8Array> {
+  if (!isWalletWrappedPayload(payload)) {
+    throw new Error("unsupported payload version");
+  }
+
+  let offset = PAYLOAD_MAGIC.length + 1;
+  const take = (length: number) => {
+    const part = payload.subarray(offset, offset + length);
+    offset += length;
+    return part;
+  };
+
+  const ephemeralPublicKey = take(32);
+  const wrapIv = take(12);
+  const wrappedKey = take(48);
+  const iv = take(12);
+  const encrypted = payload.subarray(offset);
+
+  const privateKey = await getWalletPrivateKey(address, signMessage);
+
+  let contentKey: Uint8Array;
+  try {
+    contentKey = await unwrapContentKey(
+      { ephemeralPublicKey, wrapIv, wrappedKey },
+      privateKey
+    );
+  } catch (error) {
+    throw new Error(
+      "Access denied - this wallet cannot unwrap the content key"
+    );
+  }
+
+  return aesGcmDecrypt(contentKey, iv, encrypted);
+}
+
+function wrapFromHex(wrap: RecipientWrap) {
+  return {
+    ephemeralPublicKey: ethers.getBytes("0x" + wrap.ephemeralPublicKey),
+    wrapIv: ethers.getBytes("0x" + wrap.wrapIv),
+    wrappedKey: ethers.getBytes("0x" + wrap.wrappedKey),
+  };
+}
+
+async function unwrapRecipientKey(
+  wrap: RecipientWrap,
+  address: string,
+  signMessage: SignMessage
+): Promise<Uint8Array> {
+  const privateKey = await getWalletPrivateKey(address, signMessage);
+  try {
+    return await unwrapContentKey(wrapFromHex(wrap), privateKey);
+  } catch (error) {
+    throw new Error(
+      "Access denied - this wallet cannot unwrap the content key"
+    );
+  }
+}
+
+export async function decryptEnvelopePayload(
+  payload: Uint8Array,
+  wrap: RecipientWrap,
+  address: string,
+  signMessage: SignMessage
+): Promise<Uint8Array> {
+  if (!isEnvelopePayload(payload)) {
+    throw new Error("unsupported payload version");
+  }
+
+  const offset = PAYLOAD_MAGIC.length + 1;
+  const iv = payload.subarray(offset, offset + 12);
+  const encrypted = payload.subarray(offset + 12);
+
+  const contentKey = await unwrapRecipientKey(wrap, address, signMessage);
+  return aesGcmDecrypt(contentKey, iv, encrypted);
+}
+
+async function requestDecrypt(body: Record<string, string>): Promise<any> {
+  const response = await fetch("/api/decrypt", {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify(body),
+  });
+  return response.json();
+}
+
+/**
+ * Fetches an encrypted artifact through /api/decrypt and opens it.
+ * v2 payloads are unwrapped here in the browser; legacy payloads are opened
+ * by the server after the wallet proves ownership with a signature.
+ */
+export async function decryptFromIpfs(
+  ipfsCid: string,
+  address: string,
+  signMessage: SignMessage,
+  combinedHash?: string
+): Promise<string> {
+  const body: Record<string, string> = { ipfsCid, userAddress: address };
+  if (combinedHash) {
+    body.combinedHash = combinedHash;
+  }
+
+  let data = await requestDecrypt(body);
+
+  if (!data.success && data.legacy && data.requiresSignature) {
+    const signature = await signMessage(legacyDecryptMessage(ipfsCid));
+    data = await requestDecrypt({ ...body, signature });
+  }
+
+  if (!data.success) {
+    throw new Error(data.error || "Decryption failed");
+  }
+
+  if (data.version === 3) {
+    const decrypted = await decryptEnvelopePayload(
+      ethers.decodeBase64(data.encryptedPayload),
+      data.wrap,
+      address,
+      signMessage
+    );
+    return ethers.encodeBase64(decrypted);
+  }
+
+  if (data.version === 2) {
+    const decrypted = await decryptWalletPayload(
+      ethers.decodeBase64(data.encryptedPayload),
+      address,
+      signMessage
+    );
+    return ethers.encodeBase64(decrypted);
+  }
+
+  return data.decryptedContent;
+}
+
+/**
+ * Creator-side grant: unwraps the creator's own copy of the content key in
+ * the browser, re-wraps it to the recipient's registered key and submits the
+ * new wrap with a signed grant message. The server never sees the key.
+ */
+export async function grantAccess(
+  combinedHash: string,
+  ipfsCid: string,
+  creator: string,
+  recipient: string,
+  signMessage: SignMessage
+): Promise<string[]> {
+  const keyResponse = await fetch(
+    `/api/keys?address=${encodeURIComponent(recipient)}`
+  ).then((response) => response.json());
+  if (!keyResponse.success || !keyResponse.publicKey) {
+    throw new Error(
+      "Recipient has not registered an encryption key yet. Ask them to connect their wallet on Authentica first."
+    );
+  }
+
+  const data = await requestDecrypt({
+    ipfsCid,
+    userAddress: creator,
+    combinedHash,
+  });
+  if (!data.success || data.version !== 3) {
+    throw new Error(
+      data.error || "Only envelope-encrypted content can be shared"
+    );
+  }
+
+  const contentKey = await unwrapRecipientKey(data.wrap, creator, signMessage);
+  const wrap = await wrapContentKeyForRecipient(
+    contentKey,
+    recipient,
+    keyResponse.publicKey
+  );
+
+  const issuedAt = Date.now();
+  const signature = await signMessage(
+    accessGrantMessage(combinedHash, recipient, issuedAt)
+  );
+
+  const response = await fetch("/api/access/grant", {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify({ combinedHash, wrap, issuedAt, signature }),
+  });
+  const result = await response.json();
+  if (!result.success) {
+    throw new Error(result.error || "Failed to grant access");
+  }
+
+  return result.recipients;
+}
+
+// Only stops the server handing out the recipient's wrap; see the warning
+// returned by /api/access/revoke.
+export async function revokeAccess(
+  combinedHash: string,
+  recipient: string,
+  signMessage: SignMessage
+): Promise<{ recipients: string[]; warning: string }> {
+  const issuedAt = Date.now();
+  const signature = await signMessage(
+    accessRevokeMessage(combinedHash, recipient, issuedAt)
+  );
+
+  const response = await fetch("/api/access/revoke", {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify({ combinedHash, recipient, issuedAt, signature }),
+  });
+  const result = await response.json();
+  if (!result.success) {
+    throw new Error(result.error || "Failed to revoke access");
+  }
+
+  return { recipients: result.recipients, warning: result.warning };
+}
@@ -0,0 +1,328 @@
+import { DecodedImage, GrayImage, resizeGray, toGrayscale } from "./pixels";
+
+/**
+ * Invisible spread-spectrum watermark carrying a 32-bit ID.
+ *
+ * The image is treated as a grid of CHIPS x CHIPS "chips" regardless of its
+ * resolution, so resizing does not move them. A TILE x TILE pattern of +-1
+ * chips is repeated over the grid: a quarter of each tile is a fixed sync
+ * pattern, the rest spreads the ID and its CRC-16, each bit over many chips.
+ * The pattern is added to luma with a strength that follows local texture,
+ * and smoothed over each chip so it lives in frequencies JPEG keeps.
+ *
+ * Extraction averages the image back down to chips, removes the image
+ * content with a high-pass filter, folds all tiles onto one, and searches
+ * the crop scale and tile offset that best match the sync pattern, which
+ * recovers the ID from resized, re-compressed and lightly cropped copies.
+ */
+export interface WatermarkExtraction {
+  id: string;
+  // z-score of the sync pattern; chance peaks stay below ~5
+  confidence: number;
+  // estimated part of the watermarked image the input shows, 0..1 fractions
+  crop: { x: number; y: number; width: number; height: number };
+}
+
+export const WATERMARK_VERSION = 1;
+
+const CHIPS = 128;
+const TILE = 32;
+const ID_BITS = 32;
+const CRC_BITS = 16;
+const PAYLOAD_BITS = ID_BITS + CRC_BITS;
+// strength in luma levels, scaled up with local contrast
+const MIN_STRENGTH = 1.5;
+const MAX_STRENGTH = 5;
+const TEXTURE_GAIN = 0.12;
+// smallest share of each side a crop may keep and still be searched
+const MIN_CROP = 0.9;
+const CROP_STEP = 0.01;
+// sync z-score needed to attempt decoding; the CRC has the final say
+const MIN_CONFIDENCE = 4;
+
+// deterministic layout of the tile: which chips are sync, which carry which
+// payload bit, and the +-1 spreading sign of every chip
+const LAYOUT = (() => {
+  let seed = 0x77a7e4;
+  const random = () => {
+    // mulberry32
+    seed = (seed + 0x6d2b79f5) | 0;
+    let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+
+  const size = TILE * TILE;
+  const order = Array.from({ length: size }, (_, i) => i);
+  for (let i = size - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [order[i], order[j]] = [order[j], order[i]];
+  }
+
+  // -1 marks a sync chip, otherwise the payload bit index
+  const role = new Int8Array(size);
+  const syncCount = size / 4;
+  order.forEach((chip, position) => {
+    role[chip] = position < syncCount ? -1 : (position - syncCount) % PAYLOAD_BITS;
+  });
+  const sign = Int8Array.from({ length: size }, () => (random() < 0.5 ? -1 : 1));
+  return { role, sign };
+})();
+
+function crc16(bits: number[]): number {
+  // CRC-16/CCITT-FALSE over the bit sequence
+  let crc = 0xffff;
+  for (const bit of bits) {
+    const top = ((crc >> 15) & 1) ^ bit;
+    crc = (crc << 1) & 0xffff;
+    if (top) {
+      crc ^= 0x1021;
+    }
+  }
+  return crc;
+}
+
+function idToBits(id: string): number[] {
+  if (!/^[0-9a-f]{8}$/i.test(id)) {
+    throw new Error("watermark id must be 8 hex characters");
+  }
+  const value = parseInt(id, 16);
+  return Array.from({ length: ID_BITS }, (_, i) => (value >>> (ID_BITS - 1 - i)) & 1);
+}
+
+function payloadBits(id: string): number[] {
+  const bits = idToBits(id);
+  const crc = crc16(bits);
+  return [...bits, ...Array.from({ length: CRC_BITS }, (_, i) => (crc >> (CRC_BITS - 1 - i)) & 1)];
+}
+
+// the +-1 value of every chip in a tile for a given payload
+function tilePattern(bits: number[]): Int8Array {
+  return Int8Array.from(LAYOUT.role, (role, chip) => {
+    const value = role === -1 ? 1 : bits[role] ? 1 : -1;
+    return value * LAYOUT.sign[chip];
+  });
+}
+
+// local standard deviation over a (2r+1)^2 window, via summed-area tables
+function localDeviation(image: GrayImage, radius: number): Float64Array {
+  const { width, height, data } = image;
+  const stride = width + 1;
+  const sum = new Float64Array(stride * (height + 1));
+  const squares = new Float64Array(stride * (height + 1));
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const v = data[y * width + x];
+      const i = (y + 1) * stride + x + 1;
+      sum[i] = v + sum[i - 1] + sum[i - stride] - sum[i - stride - 1];
+      squares[i] = v * v + squares[i - 1] + squares[i - stride] - squares[i - stride - 1];
+    }
+  }
+
+  const out = new Float64Array(width * height);
+  for (let y = 0; y < height; y++) {
+    const y0 = Math.max(0, y - radius);
+    const y1 = Math.min(height, y + radius + 1);
+    for (let x = 0; x < width; x++) {
+      const x0 = Math.max(0, x - radius);
+      const x1 = Math.min(width, x + radius + 1);
+      const count = (x1 - x0) * (y1 - y0);
+      const box = (table: Float64Array) =>
+        table[y1 * stride + x1] - table[y0 * stride + x1] - table[y1 * stride + x0] + table[y0 * stride + x0];
+      const mean = box(sum) / count;
+      out[y * width + x] = Math.sqrt(Math.max(0, box(squares) / count - mean * mean));
+    }
+  }
+  return out;
+}
+
+/**
+ * Returns a copy of `image` carrying `id` (8 hex characters).
+ */
+export function embedWatermark(image: DecodedImage, id: string): DecodedImage {
+  const { width, height, data } = image;
+  const pattern = tilePattern(payloadBits(id));
+  const chipWidth = width / CHIPS;
+  const chipHeight = height / CHIPS;
+
+  const gray = toGrayscale(image);
+  const texture = localDeviation(gray, Math.max(1, Math.round(Math.max(chipWidth, chipHeight))));
+
+  // chip values, smoothed by bilinear interpolation between chip centres
+  const chip = (cx: number, cy: number) => {
+    const x = Math.min(CHIPS - 1, Math.max(0, cx));
+    const y = Math.min(CHIPS - 1, Math.max(0, cy));
+    return pattern[(y % TILE) * TILE + (x % TILE)];
+  };
+
+  const out = new Uint8ClampedArray(data);
+  for (let y = 0; y < height; y++) {
+    const fy = (y + 0.5) / chipHeight - 0.5;
+    const cy = Math.floor(fy);
+    const ay = fy - cy;
+    for (let x = 0; x < width; x++) {
+      const fx = (x + 0.5) / chipWidth - 0.5;
+      const cx = Math.floor(fx);
+      const ax = fx - cx;
+      const value =
+        chip(cx, cy) * (1 - ax) * (1 - ay) +
+        chip(cx + 1, cy) * ax * (1 - ay) +
+        chip(cx, cy + 1) * (1 - ax) * ay +
+        chip(cx + 1, cy + 1) * ax * ay;
+
+      const i = y * width + x;
+      const strength = Math.min(MAX_STRENGTH, MIN_STRENGTH + TEXTURE_GAIN * texture[i]);
+      const delta = value * strength;
+      out[i * 4] = data[i * 4] + delta;
+      out[i * 4 + 1] = data[i * 4 + 1] + delta;
+      out[i * 4 + 2] = data[i * 4 + 2] + delta;
+    }
+  }
+
+  return { width, height, data: out };
+}
+
+// chip-domain residual: image content removed, normalised by local energy so
+// busy areas do not drown out flat ones
+function chipResidual(image: DecodedImage): GrayImage {
+  const chips = resizeGray(toGrayscale(image), CHIPS, CHIPS);
+  const { data } = chips;
+  const residual = new Float64Array(CHIPS * CHIPS);
+
+  for (let y = 0; y < CHIPS; y++) {
+    for (let x = 0; x < CHIPS; x++) {
+      let sum = 0;
+      let count = 0;
+      for (let v = Math.max(0, y - 1); v <= Math.min(CHIPS - 1, y + 1); v++) {
+        for (let u = Math.max(0, x - 1); u <= Math.min(CHIPS - 1, x + 1); u++) {
+          if (u !== x || v !== y) {
+            sum += data[v * CHIPS + u];
+            count++;
+          }
+        }
+      }
+      residual[y * CHIPS + x] = data[y * CHIPS + x] - sum / count;
+    }
+  }
+
+  const energy = localDeviation({ width: CHIPS, height: CHIPS, data: residual }, 3);
+  for (let i = 0; i < residual.length; i++) {
+    residual[i] /= energy[i] + 1;
+  }
+  return { width: CHIPS, height: CHIPS, data: residual };
+}
+
+/**
+ * Folds every tile of the residual onto one, assuming the input shows the
+ * part of the watermarked image that starts at its left/top edge and spans
+ * `scaleX` x `scaleY` of it. Any other offset is a circular shift of the
+ * result.
+ */
+function fold(residual: GrayImage, scaleX: number, scaleY: number): Float64Array {
+  const folded = new Float64Array(TILE * TILE);
+  for (let y = 0; y < CHIPS; y++) {
+    const ty = Math.floor((y + 0.5) * scaleY) % TILE;
+    for (let x = 0; x < CHIPS; x++) {
+      const tx = Math.floor((x + 0.5) * scaleX) % TILE;
+      folded[ty * TILE + tx] += residual.data[y * CHIPS + x];
+    }
+  }
+  return folded;
+}
+
+const SYNC_CHIPS = Array.from(LAYOUT.role.keys()).filter((chip) => LAYOUT.role[chip] === -1);
+
+// best circular offset of the sync pattern in a folded tile, scored as a
+// z-score against the tile's own energy: unmarked images peak around 4-5
+// over all offsets and scales, marked ones well above
+function findSync(folded: Float64Array): { dx: number; dy: number; score: number } {
+  let energy = 0;
+  for (const value of folded) {
+    energy += value * value;
+  }
+  const noise = Math.sqrt((energy / folded.length) * SYNC_CHIPS.length) || 1;
+
+  let best = { dx: 0, dy: 0, score: -Infinity };
+  for (let dy = 0; dy < TILE; dy++) {
+    for (let dx = 0; dx < TILE; dx++) {
+      let score = 0;
+      for (const chip of SYNC_CHIPS) {
+        const x = ((chip % TILE) - dx + TILE) % TILE;
+        const y = (Math.floor(chip / TILE) - dy + TILE) % TILE;
+        score += folded[y * TILE + x] * LAYOUT.sign[chip];
+      }
+      if (score > best.score) {
+        best = { dx, dy, score };
+      }
+    }
+  }
+  return { ...best, score: best.score / noise };
+}
+
+function decodePayload(folded: Float64Array, dx: number, dy: number): string | null {
+  const soft = new Float64Array(PAYLOAD_BITS);
+  LAYOUT.role.forEach((role, chip) => {
+    if (role === -1) {
+      return;
+    }
+    const x = ((chip % TILE) - dx + TILE) % TILE;
+    const y = (Math.floor(chip / TILE) - dy + TILE) % TILE;
+    soft[role] += folded[y * TILE + x] * LAYOUT.sign[chip];
+  });
+
+  const bits: number[] = Array.from(soft, (value) => (value > 0 ? 1 : 0));
+  const idBits = bits.slice(0, ID_BITS);
+  const crc = bits.slice(ID_BITS).reduce((value, bit) => (value << 1) | bit, 0);
+  if (crc16(idBits) !== crc) {
+    return null;
+  }
+  const value = idBits.reduce((acc, bit) => acc * 2 + bit, 0);
+  return value.toString(16).padStart(8, "0");
+}
+
+/**
+ * Recovers the watermark ID, or null if there is none (or too little of it
+ * survived). Tries the uncropped placement first, then crops keeping at
+ * least MIN_CROP of each side.
+ */
+export function extractWatermark(image: DecodedImage): WatermarkExtraction | null {
+  if (image.width < CHIPS / 2 || image.height < CHIPS / 2) {
+    return null;
+  }
+  const residual = chipResidual(image);
+
+  const scales: number[] = [];
+  for (let s = 1; s >= MIN_CROP - 1e-9; s -= CROP_STEP) {
+    scales.push(s);
+  }
+
+  const candidates: { scaleX: number; scaleY: number; dx: number; dy: number; score: number }[] = [];
+  for (const scaleY of scales) {
+    for (const scaleX of scales) {
+      const sync = findSync(fold(residual, scaleX, scaleY));
+      candidates.push({ scaleX, scaleY, ...sync });
+    }
+  }
+  candidates.sort((a, b) => b.score - a.score);
+
+  for (const candidate of candidates.slice(0, 5)) {
+    if (candidate.score < MIN_CONFIDENCE) {
+      break;
+    }
+    const { scaleX, scaleY, dx, dy, score } = candidate;
+    const id = decodePayload(fold(residual, scaleX, scaleY), dx, dy);
+    if (id) {
+      return {
+        id,
+        confidence: score,
+        crop: {
+          x: dx / CHIPS,
+          y: dy / CHIPS,
+          width: scaleX,
+          height: scaleY,
+        },
+      };
+    }
+  }
+  return null;
+}
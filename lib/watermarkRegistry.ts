@@ -0,0 +1,27 @@
+import { readJsonStore, updateJsonStore } from "./store";
+
+/**
+ * Maps watermark IDs to the proofs that carry them. A 32-bit ID is short
+ * enough to collide eventually, so each ID keeps a list; callers confirm a
+ * candidate against the chain and its metadata.
+ */
+const REGISTRY_STORE = "watermark-registry";
+
+type WatermarkRegistry = Record<string, string[]>;
+
+export function registerWatermark(id: string, combinedHash: string): void {
+  updateJsonStore<WatermarkRegistry>(REGISTRY_STORE, {}, (registry) => {
+    const proofs = registry[id.toLowerCase()] || [];
+    return {
+      ...registry,
+      [id.toLowerCase()]: proofs.includes(combinedHash)
+        ? proofs
+        : [...proofs, combinedHash],
+    };
+  });
+}
+
+export function resolveWatermark(id: string): string[] {
+  const registry = readJsonStore<WatermarkRegistry>(REGISTRY_STORE, {});
+  return registry[id.toLowerCase()] || [];
+}
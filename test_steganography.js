@@ -1,56 +1,63 @@
 const fs = require("fs");
+const { PNG } = require("pngjs");
 
 const args = process.argv.slice(2);
 if (args.length < 2) {
-  console.log("usage: node test_steganography.js <input_image> <output_image>");
-  console.log("example: node test_steganography.js test.png stego_test.png");
+  console.log(
+    "usage: node test_steganography.js <input_png> <output_png> [rate]"
+  );
+  console.log("example: node test_steganography.js test.png stego_test.png 0.3");
+  console.log(
+    "rate is the fraction of colour samples whose LSB carries payload (default 0.3)"
+  );
   process.exit(1);
 }
 
 const inputFile = args[0];
 const outputFile = args[1];
+const rate = args[2] === undefined ? 0.3 : Number(args[2]);
 
 if (!fs.existsSync(inputFile)) {
   console.error(`error: input file "${inputFile}" not found`);
   process.exit(1);
 }
+if (!(rate > 0 && rate <= 1)) {
+  console.error("error: rate must be between 0 and 1");
+  process.exit(1);
+}
 
 try {
   console.log(`reading image: ${inputFile}`);
-  const imageBuffer = fs.readFileSync(inputFile);
-
-  const steganographicBuffer = Buffer.from(imageBuffer);
+  // the detector decodes images, so the payload has to go into pixels
+  const png = PNG.sync.read(fs.readFileSync(inputFile));
 
   const message = "HIDDEN_DATA_FOR_TESTING_12345";
-  console.log(`embedding message: "${message}"`);
+  console.log(`embedding message: "${message}" (repeated)`);
 
   let bitIndex = 0;
-  const startOffset = 1000;
-
-  for (
-    let i = startOffset;
-    i < steganographicBuffer.length && bitIndex < message.length * 8;
-    i += 5
-  ) {
-    const charCode = message.charCodeAt(Math.floor(bitIndex / 8));
-    const bit = (charCode >> (7 - (bitIndex % 8))) & 1;
+  for (let i = 0; i < png.data.length; i++) {
+    // skip alpha, and spread the payload over the image at the given rate
+    if (i % 4 === 3 || Math.random() >= rate) continue;
 
-    steganographicBuffer[i] = (steganographicBuffer[i] & 0xfe) | bit;
+    const charCode = message.charCodeAt(Math.floor(bitIndex / 8) % message.length);
+    const bit = (charCode >> (7 - (bitIndex % 8))) & 1;
+    png.data[i] = (png.data[i] & 0xfe) | bit;
     bitIndex++;
   }
 
-  fs.writeFileSync(outputFile, steganographicBuffer);
+  fs.writeFileSync(outputFile, PNG.sync.write(png));
 
   console.log(`created steganographic image: ${outputFile}`);
-  console.log(`original size: ${imageBuffer.length} bytes`);
-  console.log(`steganographic size: ${steganographicBuffer.length} bytes`);
+  console.log(`image size: ${png.width}x${png.height}`);
   console.log(
     `embedded ${bitIndex} bits (${Math.ceil(bitIndex / 8)} bytes) of data`
   );
   console.log(`next steps:`);
   console.log(`   1. upload ${outputFile} to your verification page`);
   console.log(`   2. check the api response for steganography detection`);
-  console.log(`   3. look for "suspicious: true" in the response`);
+  console.log(
+    `   3. look for "suspicious: true" and an embedding rate near ${rate} per channel`
+  );
 } catch (error) {
   console.error("error:", error.message);
   process.exit(1);